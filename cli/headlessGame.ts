@@ -0,0 +1,174 @@
+// cli/headlessGame.ts
+// React-free game session used by the terminal runner. The game itself is services/gameFlows, the same
+// flows the browser hooks call; this file only hosts them on one plain state object and adds what
+// the terminal does differently (no portraits, defeat handling, an in-memory checkpoint).
+import { GameLogEntry, VisualStyleType, GameRulesPresetId, DifficultyMode } from '../services/gameTypes';
+import { RestoredGameState, serializeGameState, deserializeGameState } from '../services/saveGameService';
+import { getLlmTraceRecorder } from '../services/geminiClient';
+import { DEFAULT_DIFFICULTY_MODE, DEFAULT_GAME_RULES_PRESET } from '../services/config/gameRules';
+import { getCoordinateKey } from '../services/gameEngine';
+import {
+  GameFlowHost, GameFlowState, MAX_WORLD_CREATION_ATTEMPTS, WorldCreationOptions, createCustomWorld, createInitialGameFlowState,
+  createQuickStartWorld, describeInventory, describeStatus, processPlayerCommand, reviveInStoryMode as runStoryRevival,
+  withWorldCreationRetries
+} from '../services/gameFlows';
+
+const WORLD_CREATION_OPTIONS: WorldCreationOptions = { createPortrait: false };
+
+export interface HeadlessGameState extends GameFlowState {
+  difficultyMode: DifficultyMode;
+  runId: string;
+}
+
+export interface HeadlessGameOptions {
+  onLog?: (entry: GameLogEntry) => void;       // Called for every log line as it is written
+  onProgress?: (message: string) => void;      // Loading messages ("Moving north...")
+  onPermadeath?: (runId: string) => void;      // A Permadeath run has ended; saves of that run should go
+}
+
+export interface CustomStartOptions {
+  settingType: 'Fictional' | 'Historical';
+  worldAndCharacterIdea: string;
+  visualStyle: VisualStyleType;
+  rulesPreset?: GameRulesPresetId; // Defaults to DEFAULT_GAME_RULES_PRESET
+  difficultyMode?: DifficultyMode; // Defaults to DEFAULT_DIFFICULTY_MODE
+}
+
+export const createEmptyHeadlessState = (): HeadlessGameState => ({
+  ...createInitialGameFlowState(),
+  difficultyMode: DEFAULT_DIFFICULTY_MODE,
+  runId: crypto.randomUUID(),
+});
+
+export const createHeadlessGame = (options: HeadlessGameOptions = {}) => {
+  let state: HeadlessGameState = createEmptyHeadlessState();
+  // Checkpoint difficulty: the last snapshot of this run, serialized like the browser keeps it.
+  let checkpoint: string | null = null;
+  // Same contract as useGameSession: aborted when the player leaves the coordinates or the session is replaced.
+  let locationWork = new AbortController();
+
+  const cancelLocationWork = () => {
+    locationWork.abort();
+    locationWork = new AbortController();
+  };
+
+  const replaceState = (next: HeadlessGameState) => {
+    cancelLocationWork();
+    state = next;
+  };
+
+  const addLogEntry = (type: GameLogEntry['type'], text: string, processedText?: string) => {
+    const entry: GameLogEntry = { id: crypto.randomUUID(), type, text, timestamp: new Date(), processedText };
+    getLlmTraceRecorder().linkLogEntry({ id: entry.id, type, text });
+    state = { ...state, gameLog: [...state.gameLog, entry] };
+    options.onLog?.(entry);
+  };
+
+  // Same moments as requestCheckpoint in the hooks: a new location, a concluded event. A defeat is never checkpointed.
+  const takeCheckpoint = () => {
+    if (state.difficultyMode !== 'Checkpoint' || !state.characterData || state.characterData.isDefeated) return;
+    checkpoint = serializeGameState(state);
+    addLogEntry('system', "Checkpoint reached.");
+  };
+
+  const host: GameFlowHost = {
+    getState: () => state,
+    update: changes => {
+      if (changes.currentCoordinates && getCoordinateKey(changes.currentCoordinates) !== getCoordinateKey(state.currentCoordinates)) {
+        cancelLocationWork();
+      }
+      state = { ...state, ...changes };
+    },
+    addLogEntry,
+    requestCheckpoint: takeCheckpoint,
+    getLocationWorkSignal: () => locationWork.signal,
+    beginActivity: (_activity, message) => options.onProgress?.(message),
+    endActivity: () => {},
+  };
+
+  // A failed attempt may have left half a world behind; the next one starts from an empty run.
+  const createWorld = (create: (attempt: number) => Promise<void>) => withWorldCreationRetries(create, (attempt, err) => {
+    addLogEntry('error', `World creation failed (attempt ${attempt}/${MAX_WORLD_CREATION_ATTEMPTS}): ${err.message || 'Unknown error'}`);
+    if (attempt < MAX_WORLD_CREATION_ATTEMPTS) {
+      replaceState({ ...createEmptyHeadlessState(), gameRulesPreset: state.gameRulesPreset, difficultyMode: state.difficultyMode, runId: state.runId });
+    }
+  });
+
+  const startNewGame = async (
+    rulesPreset: GameRulesPresetId = DEFAULT_GAME_RULES_PRESET, difficultyMode: DifficultyMode = DEFAULT_DIFFICULTY_MODE
+  ) => {
+    replaceState({ ...createEmptyHeadlessState(), gameRulesPreset: rulesPreset, difficultyMode });
+    checkpoint = null;
+    addLogEntry('system', `Starting new adventure (${rulesPreset} rules, ${difficultyMode} difficulty)...`);
+    await createWorld(() => createQuickStartWorld(host, WORLD_CREATION_OPTIONS));
+  };
+
+  const startCustomGame = async ({
+    settingType, worldAndCharacterIdea, visualStyle, rulesPreset = DEFAULT_GAME_RULES_PRESET, difficultyMode = DEFAULT_DIFFICULTY_MODE
+  }: CustomStartOptions) => {
+    if (!worldAndCharacterIdea.trim()) throw new Error("World/Character idea cannot be empty for custom start.");
+    replaceState({ ...createEmptyHeadlessState(), gameRulesPreset: rulesPreset, difficultyMode });
+    checkpoint = null;
+    addLogEntry('system', `Starting custom adventure: ${settingType} setting, ${visualStyle} style, ${rulesPreset} rules, ${difficultyMode} difficulty...`);
+    await createWorld(attempt => createCustomWorld(host, settingType, worldAndCharacterIdea, visualStyle, WORLD_CREATION_OPTIONS, attempt));
+  };
+
+  // --- Defeat (useDefeatHandling, useSaveGame) ---
+
+  const reviveInStoryMode = async () => {
+    try {
+      await runStoryRevival(host);
+    } catch (e: any) {
+      addLogEntry('error', `Story revival failed: ${e.message || "The story could not find a way back for you."}`);
+    }
+  };
+
+  const handleDefeat = async () => {
+    switch (state.difficultyMode) {
+      case 'Story':
+        await reviveInStoryMode();
+        break;
+      case 'Checkpoint':
+        addLogEntry('system', checkpoint
+          ? `You have fallen. The last checkpoint (${deserializeGameState(checkpoint).locationData?.name || 'unknown location'}) can be reloaded.`
+          : "You have fallen. No checkpoint was reached in this adventure.");
+        break;
+      case 'Permadeath':
+        checkpoint = null;
+        addLogEntry('system', "Permadeath: this adventure is over for good.");
+        options.onPermadeath?.(state.runId);
+        break;
+    }
+  };
+
+  const processCommand = async (commandText: string) => {
+    const wasDefeated = state.characterData?.isDefeated ?? false;
+    await processPlayerCommand(host, commandText);
+    if (!wasDefeated && state.characterData?.isDefeated) await handleDefeat();
+  };
+
+  // Returns false when this run has no checkpoint.
+  const reloadCheckpoint = (): boolean => {
+    if (!checkpoint) return false;
+    replaceState({ ...createInitialGameFlowState(), ...deserializeGameState(checkpoint) });
+    addLogEntry('system', `Reloaded the last checkpoint (${state.locationData?.name || 'unknown location'}).`);
+    return true;
+  };
+
+  return {
+    getState: (): Readonly<HeadlessGameState> => state,
+    loadState: (restored: RestoredGameState) => {
+      if (restored.runId !== state.runId) checkpoint = null;
+      replaceState({ ...createInitialGameFlowState(), ...restored });
+    },
+    startNewGame,
+    startCustomGame,
+    processCommand,
+    reloadCheckpoint,
+    reviveInStoryMode,
+    describeStatus: () => describeStatus(host),
+    describeInventory: () => describeInventory(host),
+  };
+};
+
+export type HeadlessGame = ReturnType<typeof createHeadlessGame>;
@@ -0,0 +1,328 @@
+// cli/lostworldCli.ts
+// Terminal front-end for the game. Reads commands from stdin (interactive or piped) and prints the log.
+// Build + run with `npm run cli -- [options]`. Provider settings come from the same env vars as the web build.
+import { createInterface } from 'readline';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { DifficultyMode, GameLogEntry, GameRulesPresetId, VisualStyleType } from '../services/gameTypes';
+import {
+  getLlmSettings, applyLlmSettings, getLlmCache, setLlmCacheBypass, getLlmUsageTracker, getLlmTraceRecorder, startLlmReplay, API_KEY
+} from '../services/geminiClient';
+import { LlmUsageTracker, parseLlmTraceJsonl } from '../services/llm';
+import { serializeGameState, deserializeGameState } from '../services/saveGameService';
+import { formatWorldTime, getCoordinateKey, getRegionWeather, getTimeOfDay } from '../services/gameEngine';
+import {
+  DEFAULT_DIFFICULTY_MODE, DEFAULT_GAME_RULES_PRESET, DIFFICULTY_MODE_IDS, GAME_RULES_PRESET_IDS, isDifficultyMode, isGameRulesPresetId
+} from '../services/config/gameRules';
+import { createHeadlessGame, HeadlessGame } from './headlessGame';
+
+interface CliOptions {
+  idea: string | null;
+  setting: 'Fictional' | 'Historical';
+  visualStyle: VisualStyleType;
+  rulesPreset: GameRulesPresetId;
+  difficultyMode: DifficultyMode;
+  loadPath: string | null;
+  replayPath: string | null;
+  noImages: boolean;
+  bypassCache: boolean;
+  verbose: boolean;
+  json: boolean;
+}
+
+const USAGE = `Usage: npm run cli -- [options]
+
+Options:
+  --idea "<text>"        Start a custom adventure from a world/character idea
+  --setting <type>       Fictional (default) or Historical, used with --idea
+  --style <name>         Visual style passed to the prompts (default: Pixel Art)
+  --rules <preset>       Story, Standard (default) or Hardcore balance for a new game
+  --difficulty <mode>    Story, Checkpoint (default) or Permadeath: what a defeat costs
+  --load <file>          Resume from a save file written with /save
+  --replay <file>        Answer every LLM call from a trace written with /trace save
+  --no-images            Skip all image generation calls
+  --bypass-cache         Ignore the LLM response cache for this session
+  --json                 Print log entries as JSON lines instead of text
+  --verbose              Keep service console output (prompts, retries, warnings)
+  --help                 Show this message
+
+In-game, type commands as you would in the console ("look around", "go north").
+Meta commands: /help, /status, /inventory, /save <file>, /load <file>, /checkpoint, /revive, /cache, /usage, /trace, /quit`;
+
+const META_HELP = `Meta commands:
+  /status           Show health, energy and limbs
+  /inventory        List carried items
+  /save <file>      Write the current game to a JSON file
+  /load <file>      Load a game written with /save
+  /checkpoint       Reload the last checkpoint (Checkpoint difficulty)
+  /revive           Retry a failed revival (Story difficulty)
+  /cache [on|off|clear]  Show, toggle or empty the LLM response cache
+  /usage [reset]    Show (or reset) token, image and cost accounting for this session
+  /trace [save <file>|clear]  Count, export (JSONL) or empty the LLM request/response trace
+  /quit             Exit`;
+
+const formatUsageReport = (tracker: LlmUsageTracker): string => {
+  const formatCost = (cost: number | null) => (cost === null ? '-' : `$${cost.toFixed(4)}`);
+  const totals = tracker.getTotals();
+  const lines = [
+    `LLM usage: ${totals.calls} calls, ${totals.promptTokens} tokens in, ${totals.responseTokens} tokens out, ${totals.images} images, `
+      + `${totals.retries} retries, ${totals.cacheHits} cache hits, ${totals.failures} failures, est. cost ${formatCost(totals.estimatedCostUsd)}`,
+  ];
+  for (const usage of tracker.getServiceBreakdown()) {
+    lines.push(`  ${usage.service}: ${usage.calls} calls, ${usage.promptTokens}/${usage.responseTokens} tokens, ${usage.images} images, `
+      + `avg ${Math.round(usage.latencyMs / usage.calls)} ms, ${usage.retries} retries, ${usage.cacheHits} cached, ${usage.failures} failed, ${formatCost(usage.estimatedCostUsd)}`);
+  }
+  const status = tracker.getBudgetStatus();
+  if (status.exceeded) lines.push(`Budget exceeded (${tracker.getBudget().mode}): ${status.reasons.join('; ')}`);
+  return lines.join('\n');
+};
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    idea: null, setting: 'Fictional', visualStyle: 'Pixel Art', rulesPreset: DEFAULT_GAME_RULES_PRESET, difficultyMode: DEFAULT_DIFFICULTY_MODE,
+    loadPath: null, replayPath: null, noImages: false, bypassCache: false, verbose: false, json: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+    switch (arg) {
+      case '--idea': options.idea = next(); break;
+      case '--setting': {
+        const value = next();
+        if (value !== 'Fictional' && value !== 'Historical') throw new Error(`--setting must be Fictional or Historical, got "${value}"`);
+        options.setting = value;
+        break;
+      }
+      case '--style': options.visualStyle = next() as VisualStyleType; break;
+      case '--rules': {
+        const value = next();
+        if (!isGameRulesPresetId(value)) throw new Error(`--rules must be one of ${GAME_RULES_PRESET_IDS.join(', ')}, got "${value}"`);
+        options.rulesPreset = value;
+        break;
+      }
+      case '--difficulty': {
+        const value = next();
+        if (!isDifficultyMode(value)) throw new Error(`--difficulty must be one of ${DIFFICULTY_MODE_IDS.join(', ')}, got "${value}"`);
+        options.difficultyMode = value;
+        break;
+      }
+      case '--load': options.loadPath = next(); break;
+      case '--replay': options.replayPath = next(); break;
+      case '--no-images': options.noImages = true; break;
+      case '--bypass-cache': options.bypassCache = true; break;
+      case '--verbose': options.verbose = true; break;
+      case '--json': options.json = true; break;
+      case '--help': case '-h': console.log(USAGE); process.exit(0);
+      default: throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  return options;
+};
+
+const formatLogEntry = (entry: GameLogEntry): string => {
+  const text = entry.processedText && entry.type !== 'command' ? entry.processedText : entry.text;
+  switch (entry.type) {
+    case 'command': return `> ${entry.processedText || entry.text}`;
+    case 'error': return `! ${text}`;
+    case 'system': return `* ${text}`;
+    case 'game_event': return `# ${text}`;
+    case 'combat': return `x ${text}`;
+    default: return text;
+  }
+};
+
+const describeLocationLine = (game: HeadlessGame): string | null => {
+  const { characterData, locationData, currentCoordinates, worldState, isEventActive, currentEventDetails, talkingToNPC } = game.getState();
+  if (!characterData || !locationData) return null;
+  const parts = [
+    `[${locationData.name} (${getCoordinateKey(currentCoordinates)})`,
+    `${formatWorldTime(worldState.minutesElapsed)} (${getTimeOfDay(worldState.minutesElapsed)}, ${getRegionWeather(worldState, currentCoordinates).condition})`,
+    `HP ${characterData.overallHealth}`,
+    `EN ${characterData.currentEnergy}/${characterData.maxEnergy}`,
+    `Exits: ${locationData.validExits.join(', ') || 'none'}`,
+  ];
+  if (characterData.statusEffects?.length) parts.push(`Effects: ${characterData.statusEffects.map(e => e.name).join(', ')}`);
+  if (talkingToNPC) parts.push(`Talking to ${talkingToNPC.name}`);
+  if (isEventActive && currentEventDetails) parts.push(`Event: ${currentEventDetails.eventTitle}`);
+  return parts.join(' | ') + ']';
+};
+
+const main = async () => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (e: any) {
+    console.error(e.message);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  // Services log prompts and retries freely; keep the terminal readable unless asked.
+  const print = console.log.bind(console);
+  const printError = console.error.bind(console);
+  if (!options.verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+    console.info = () => {};
+    console.debug = () => {};
+    console.error = () => {};
+  }
+
+  if (!API_KEY) {
+    printError("No API key configured. Set GEMINI_API_KEY / LLM_API_KEY (or LLM_PROVIDER=mock) before building the CLI.");
+    process.exit(1);
+  }
+  // Applied before a replay starts, since applying settings ends a running replay.
+  if (options.noImages) applyLlmSettings({ ...getLlmSettings(), imagesEnabled: false }, { persist: false });
+  if (options.replayPath) {
+    try {
+      const provider = startLlmReplay(parseLlmTraceJsonl(readFileSync(options.replayPath, 'utf8')));
+      if (!options.json) print(`Replaying ${provider.remaining()} recorded answers from ${options.replayPath}.`);
+    } catch (e: any) {
+      printError(`Could not read trace ${options.replayPath}: ${e.message || e}`);
+      process.exit(1);
+    }
+  }
+  if (options.bypassCache) setLlmCacheBypass(true);
+
+  // Save files this session wrote or read, so a Permadeath defeat can erase the ones belonging to the run.
+  const saveFiles = new Set<string>();
+  const eraseRunSaveFiles = (runId: string) => {
+    let erased = 0;
+    for (const path of saveFiles) {
+      try {
+        if (existsSync(path) && deserializeGameState(readFileSync(path, 'utf8')).runId === runId) {
+          unlinkSync(path);
+          erased++;
+        }
+      } catch (e: any) {
+        printError(`Could not check ${path}: ${e.message || e}`);
+      }
+    }
+    if (!options.json) print(`Permadeath: ${erased} save file${erased === 1 ? '' : 's'} erased.`);
+  };
+
+  const game = createHeadlessGame({
+    onLog: entry => print(options.json ? JSON.stringify({ type: entry.type, text: entry.processedText || entry.text }) : formatLogEntry(entry)),
+    onProgress: message => { if (!options.json) print(`... ${message}`); },
+    onPermadeath: eraseRunSaveFiles,
+  });
+  const printLocationLine = () => {
+    const line = describeLocationLine(game);
+    if (line && !options.json) print(line);
+  };
+
+  try {
+    if (options.loadPath) {
+      game.loadState(deserializeGameState(readFileSync(options.loadPath, 'utf8')));
+      saveFiles.add(options.loadPath);
+      print(`Loaded ${options.loadPath}.`);
+      const { locationData } = game.getState();
+      if (locationData) print(locationData.description);
+    } else if (options.idea) {
+      await game.startCustomGame({
+        settingType: options.setting, worldAndCharacterIdea: options.idea, visualStyle: options.visualStyle,
+        rulesPreset: options.rulesPreset, difficultyMode: options.difficultyMode,
+      });
+    } else {
+      await game.startNewGame(options.rulesPreset, options.difficultyMode);
+    }
+  } catch (e: any) {
+    printError(`Could not start the game: ${e.message || e}`);
+    process.exit(1);
+  }
+
+  const isInteractive = Boolean(process.stdin.isTTY);
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: isInteractive });
+  const prompt = () => {
+    printLocationLine();
+    if (isInteractive) rl.prompt();
+  };
+
+  // Returns false when the session is ending and no prompt should follow.
+  const handleMetaCommand = async (line: string): Promise<boolean> => {
+    const [command, ...rest] = line.split(/\s+/);
+    const argument = rest.join(' ').trim();
+    switch (command.toLowerCase()) {
+      case '/help': print(META_HELP); return true;
+      case '/status': game.describeStatus(); return true;
+      case '/inventory': game.describeInventory(); return true;
+      case '/save':
+        if (!argument) { printError("Usage: /save <file>"); return true; }
+        writeFileSync(argument, serializeGameState(game.getState()), 'utf8');
+        saveFiles.add(argument);
+        print(`Saved to ${argument}.`);
+        return true;
+      case '/load':
+        if (!argument) { printError("Usage: /load <file>"); return true; }
+        try {
+          game.loadState(deserializeGameState(readFileSync(argument, 'utf8')));
+          saveFiles.add(argument);
+          print(`Loaded ${argument}.`);
+        } catch (e: any) {
+          printError(`Could not load ${argument}: ${e.message || e}`);
+        }
+        return true;
+      case '/checkpoint':
+        if (!game.reloadCheckpoint()) printError("There is no checkpoint for this adventure.");
+        return true;
+      case '/revive': {
+        const { characterData, difficultyMode } = game.getState();
+        if (difficultyMode !== 'Story') printError("Revival is only available on Story difficulty.");
+        else if (!characterData?.isDefeated) printError("You have not been defeated.");
+        else await game.reviveInStoryMode();
+        return true;
+      }
+      case '/cache':
+        if (argument === 'on' || argument === 'off') setLlmCacheBypass(argument === 'off');
+        else if (argument === 'clear') { await getLlmCache().clear(); print("LLM response cache cleared."); }
+        else if (argument) { printError("Usage: /cache [on|off|clear]"); return true; }
+        print(`LLM response cache is ${getLlmCache().isBypassed() ? 'bypassed' : 'in use'}.`);
+        return true;
+      case '/usage':
+        if (argument === 'reset') { getLlmUsageTracker().reset(); print("LLM usage counters reset."); }
+        else if (argument) { printError("Usage: /usage [reset]"); return true; }
+        else print(formatUsageReport(getLlmUsageTracker()));
+        return true;
+      case '/trace': {
+        const recorder = getLlmTraceRecorder();
+        const [subcommand, ...fileParts] = argument.split(/\s+/);
+        if (subcommand === 'save' && fileParts.length > 0) {
+          writeFileSync(fileParts.join(' '), recorder.toJsonl() + '\n', 'utf8');
+          print(`Wrote ${recorder.getEntries().length} trace entries to ${fileParts.join(' ')}.`);
+        } else if (subcommand === 'clear') { recorder.clear(); print("LLM trace cleared."); }
+        else if (argument) { printError("Usage: /trace [save <file>|clear]"); }
+        else print(`LLM trace holds ${recorder.getEntries().length} entries${recorder.isEnabled() ? '' : ' (recording is off)'}.`);
+        return true;
+      }
+      case '/quit': case '/exit': rl.close(); return false;
+      default: printError(`Unknown meta command: ${command}. Try /help.`); return true;
+    }
+  };
+
+  // Lines are queued so piped scripts run one command at a time, in order.
+  let queue = Promise.resolve();
+  rl.on('line', rawLine => {
+    queue = queue.then(async () => {
+      const line = rawLine.trim();
+      if (!line) { prompt(); return; }
+      if (line.startsWith('/')) {
+        if (!(await handleMetaCommand(line))) return;
+      } else {
+        await game.processCommand(line);
+      }
+      prompt();
+    });
+  });
+  rl.on('close', () => {
+    queue.then(() => process.exit(0));
+  });
+
+  if (isInteractive) print("Type a command, or /help for meta commands.");
+  prompt();
+};
+
+main();
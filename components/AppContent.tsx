@@ -1,6 +1,6 @@
 // components/AppContent.tsx
 import React, { useState, useCallback, useEffect } from 'react';
-import { useGameContext, Coordinates } from '../contexts/GameContext'; 
+import { useGameContext } from '../contexts/GameContext'; 
 import GameInterface, { GameInterfaceProps, ItemInteractionProps, NPCInteractionProps, CraftingInteractionProps, CharacterScreenInteractionProps } from './GameInterface';
 import {
   CharacterData, Limb, FullLocationData, GameItem, ParsedPlayerActionParameters, GameLogEntry, PotentialDiscovery, MemorableEntityType, PotentialDiscoveryType, PotentialDiscoveryStatus, MemorableEntity, GameNPC, VisualStyleType
@@ -10,8 +10,10 @@ import ModalManager from './ModalManager';
 import GameScreen from './GameScreen'; 
 
 import AppHeader from './AppHeader';
+import SaveSlotsPanel from './SaveSlotsPanel';
 import InteractiveConsole from './InteractiveConsole';
 import AppFooter from './AppFooter';
+import LlmSettingsModal from './LlmSettingsModal';
 
 import { useGameInitialization } from '../hooks/useGameInitialization';
 import { useItemManagement } from '../hooks/useItemManagement';
@@ -22,6 +24,11 @@ import { useNpcInteractions } from '../hooks/useNpcInteractions';
 import { useLocationItems } from '../hooks/useLocationItems';
 import { useCommandProcessor } from '../hooks/useCommandProcessor';
 import { useGameDirector } from '../hooks/useGameDirector'; // Import useGameDirector
+import { useSaveGame } from '../hooks/useSaveGame';
+import { useDefeatHandling } from '../hooks/useDefeatHandling';
+import { useLocationImageVariants } from '../hooks/useLocationImageVariants';
+import { API_KEY } from '../services/geminiClient';
+import { getCoordinateKey } from '../services/gameEngine';
 
 const AppContent: React.FC = () => {
   const gameContext = useGameContext(); // Get the whole context
@@ -51,6 +58,9 @@ const AppContent: React.FC = () => {
     currentDirectives, // We can read this if needed, but useGameDirector manages its own instance and updates context
     setCurrentDirectives,
     playerCommandCount,
+    worldState,
+    difficultyMode,
+    isPickingUpItem, isUsingItem, isApplyingToLimb,
     // triggerGameDirectorAnalysis: contextTriggerAnalysis - no longer directly used here
   } = gameContext;
 
@@ -58,6 +68,7 @@ const AppContent: React.FC = () => {
   // We don't need to pass individual context values to it explicitly.
   // The trigger function from useGameDirector will be the one we actually use/pass down.
   const gameDirector = useGameDirector();
+  useLocationImageVariants();
 
 
   const {
@@ -70,24 +81,26 @@ const AppContent: React.FC = () => {
     handleSelectNPCForModal, handleCloseNPCModal,
     handleSelectLocationForModal, handleCloseLocationModal,
     handleSelectImageForViewing, handleCloseImageViewModal,
+    isWorldMapOpen, handleOpenWorldMap, handleCloseWorldMap,
   } = useModals();
   
   const [apiKeyMissing, setApiKeyMissing] = useState(false);
   const [isConsoleMinimized, setIsConsoleMinimized] = useState(false);
   
-  const [isPickingUpItem, setIsPickingUpItem] = useState<string | null>(null);
-  const [isUsingItem, setIsUsingItem] = useState<string | null>(null);
-  const [isApplyingToLimb, setIsApplyingToLimb] = useState<string | null>(null);
-  const [previousMovementSourceCoordinates, setPreviousMovementSourceCoordinates] = useState<Coordinates | null>(null);
 
 
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
   useEffect(() => {
-    if (!(process.env.API_KEY)) {
+    if (!API_KEY) { // Resolved by the LLM config, so the offline mock provider counts as configured
       setApiKeyMissing(true);
       console.warn("API_KEY environment variable is not set. The application will not function correctly.");
     }
   }, []);
 
+  // API_KEY is a live binding, rebuilt with the client when settings are saved.
+  const handleLlmSettingsSaved = useCallback(() => setApiKeyMissing(!API_KEY), []);
+
   const toggleConsoleMinimized = useCallback(() => {
     setIsConsoleMinimized(prev => !prev);
   }, []);
@@ -104,17 +117,15 @@ const AppContent: React.FC = () => {
     handleCloseItemModal, handleCloseNPCModal, handleCloseLocationModal, handleCloseImageViewModal,
     setSelectedLocationCoordinateKeyForModal, 
     setCraftingSlots, setIsCrafting, 
-    setIsPickingUpItem, setIsUsingItem, setIsApplyingToLimb, 
-    setPreviousMovementSourceCoordinates, setIsConsoleMinimized,
+    setIsConsoleMinimized,
   });
 
+  const saveGame = useSaveGame({ resetGameState: gameInitialization.resetGameState });
+  const defeatHandling = useDefeatHandling({ eraseRunSaves: saveGame.eraseRunSaves });
+
   const { 
     handlePickupItem, handleUseItem, handleApplyItemToLimb, handleUnequipItemFromLimb 
-  } = useItemManagement({
-    isPickingUpItem, setIsPickingUpItem,
-    isUsingItem, setIsUsingItem,
-    isApplyingToLimb, setIsApplyingToLimb,
-  });
+  } = useItemManagement();
   
   const handleItemDescriptionElaborated = useCallback(
     (itemId: string, newRawDesc: string, newProcessedDesc: string, newDiscoveries: Omit<PotentialDiscovery, 'id' | 'status' | 'firstMentionedTimestamp' | 'firstMentionedLocationKey'>[]) => {
@@ -122,7 +133,7 @@ const AppContent: React.FC = () => {
       setPlayerInventory(prevInv => prevInv.map(item => item.id === itemId ? { ...item, description: newProcessedDesc } : item));
       setLocationItems(prevLocItems => prevLocItems ? prevLocItems.map(item => item.id === itemId ? { ...item, description: newProcessedDesc } : item) : null);
       
-      const coordKey = `${currentCoordinates.x},${currentCoordinates.y}`;
+      const coordKey = getCoordinateKey(currentCoordinates);
       setVisitedLocations(prevMap => {
         const newMap = new Map(prevMap);
         const entry = newMap.get(coordKey);
@@ -134,7 +145,7 @@ const AppContent: React.FC = () => {
       });
 
       addLogEntry('system', `Learned more about ${itemToViewInModal?.name || 'item'}.`);
-      const locationKey = `${currentCoordinates.x},${currentCoordinates.y}`;
+      const locationKey = getCoordinateKey(currentCoordinates);
       newDiscoveries.forEach(pd => addPotentialDiscovery(pd, itemId, locationKey));
     }, [setItemToViewInModal, setPlayerInventory, setLocationItems, addLogEntry, addPotentialDiscovery, currentCoordinates, itemToViewInModal?.name, setVisitedLocations]
   );
@@ -144,7 +155,7 @@ const AppContent: React.FC = () => {
       setNpcToViewInModal(prev => prev && prev.id === npcId ? { ...prev, description: newProcessedDesc } : prev);
       setLocationNPCs(prevNpcs => prevNpcs ? prevNpcs.map(npc => npc.id === npcId ? { ...npc, description: newProcessedDesc } : npc) : null);
       
-      const coordKey = `${currentCoordinates.x},${currentCoordinates.y}`;
+      const coordKey = getCoordinateKey(currentCoordinates);
       setVisitedLocations(prevMap => {
         const newMap = new Map(prevMap);
         const entry = newMap.get(coordKey);
@@ -156,7 +167,7 @@ const AppContent: React.FC = () => {
       });
 
       addLogEntry('system', `Learned more about ${npcToViewInModal?.name || 'NPC'}.`);
-      const locationKey = `${currentCoordinates.x},${currentCoordinates.y}`;
+      const locationKey = getCoordinateKey(currentCoordinates);
       newDiscoveries.forEach(pd => addPotentialDiscovery(pd, npcId, locationKey));
     }, [setNpcToViewInModal, setLocationNPCs, setVisitedLocations, addLogEntry, addPotentialDiscovery, currentCoordinates, npcToViewInModal?.name]
   );
@@ -180,7 +191,7 @@ const AppContent: React.FC = () => {
         return newMap;
       });
 
-      if (locationData && `${currentCoordinates.x},${currentCoordinates.y}` === coordinateKey) {
+      if (locationData && getCoordinateKey(currentCoordinates) === coordinateKey) {
         setContextLocationData(prevLocData => prevLocData ? { ...prevLocData, description: newProcessedDesc } : null);
       }
 
@@ -207,15 +218,8 @@ const AppContent: React.FC = () => {
   } = useLocationItems({});
   
   const { processPlayerCommand, handleGiveItemToNpc } = useCommandProcessor({
-    onPickupItemRequested: handlePickupItem, 
-    onUseItemRequested: (itemId, params) => handleUseItem(itemId, params), 
     onSelectItemForModal: handleSelectItemForModal, 
     onSelectNPCForModal: handleSelectNPCForModal,  
-    onStartConversation: handleStartConversation,  
-    onEndConversation: handleEndConversation,    
-    onTriggerLookForItems: handleTriggerLookForItems,
-    onTriggerLookForPeople: handleTriggerLookForPeople,
-    previousMovementSourceCoordinates, setPreviousMovementSourceCoordinates,
   });
 
   const { appHeaderIsLoading, appHeaderLoadingMessage, consoleIsProcessing } = useAppLoadingState({
@@ -348,6 +352,7 @@ const AppContent: React.FC = () => {
     characterProps: characterScreenInteractionProps,
     onSelectLocationForModal: handleSelectLocationForModal,
     currentCoordinates: currentCoordinates,
+    onOpenWorldMap: handleOpenWorldMap,
     onSelectKnowledgeEntry: handleSelectKnowledgeEntryForModal,
     onDropItemOnNpcImage: handleGiveItemToNpc, 
   };
@@ -366,7 +371,20 @@ const AppContent: React.FC = () => {
         apiKeyMissing={apiKeyMissing}
         isGeneratingEvent={isGeneratingEvent} 
         eventLoadingMessage={eventLoadingMessage}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        worldState={gameStarted ? worldState : null}
+        currentCoordinates={currentCoordinates}
         />
+      {isSettingsOpen && <LlmSettingsModal onClose={() => setIsSettingsOpen(false)} onSaved={handleLlmSettingsSaved} />}
+      <SaveSlotsPanel
+        saveSlots={saveGame.saveSlots}
+        canSave={gameStarted && !!characterData}
+        isBusy={contextIsLoading || isGeneratingEvent || consoleIsProcessing}
+        onSaveToSlot={saveGame.saveToSlot}
+        onLoadFromSlot={saveGame.loadFromSlot}
+        onDeleteSlot={saveGame.deleteSlot}
+        error={saveGame.saveLoadError}
+      />
       
       <div className="flex-grow overflow-y-auto"> 
         <GameScreen
@@ -381,7 +399,14 @@ const AppContent: React.FC = () => {
           gameInterfaceProps={gameInterfaceProps}
           onQuickStart={gameInitialization.handleStartNewGame}
           onCustomStart={gameInitialization.handleCustomStartGame}
-          onTryAgain={gameInitialization.handleStartNewGame} // For GameOverScreen
+          onTryAgain={() => gameInitialization.handleStartNewGame()} // For GameOverScreen, keeps the rules and difficulty of the lost game
+          difficultyMode={difficultyMode}
+          checkpoint={saveGame.checkpoint}
+          onReloadCheckpoint={saveGame.reloadCheckpoint}
+          isReviving={defeatHandling.isReviving}
+          revivalError={defeatHandling.revivalError}
+          onRetryRevival={defeatHandling.retryRevival}
+          erasedSaveCount={defeatHandling.erasedSaveCount}
         />
       </div>
 
@@ -401,6 +426,12 @@ const AppContent: React.FC = () => {
         imageAltTextToView={imageAltTextToView}
         onCloseImageViewModal={handleCloseImageViewModal}
         onSelectImageForViewing={handleSelectImageForViewing} 
+        isWorldMapOpen={isWorldMapOpen}
+        onCloseWorldMap={handleCloseWorldMap}
+        visitedLocations={visitedLocations}
+        currentCoordinates={currentCoordinates}
+        potentialDiscoveries={potentialDiscoveries}
+        onSelectLocationForModal={handleSelectLocationForModal}
       />
 
       <InteractiveConsole 
@@ -1,3 +1,55 @@
+import React, { useState } from 'react';
+import { getLlmCache, setLlmCacheBypass } from '../services/geminiClient';
+import LlmUsagePanel from './LlmUsagePanel';
+import TestLlmPanel from './TestLlmPanel';
+
 export default function AppFooter() {
-  return null;
+  const [isCacheBypassed, setIsCacheBypassed] = useState(() => getLlmCache().isBypassed());
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
+  const [isTestPanelOpen, setIsTestPanelOpen] = useState(false);
+
+  const handleToggleCacheBypass = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setLlmCacheBypass(e.target.checked);
+    setIsCacheBypassed(e.target.checked);
+  };
+
+  return (
+    <footer className="px-4 py-2 text-xs text-slate-500">
+      {isUsagePanelOpen && (
+        <div className="max-w-4xl ml-auto mb-2">
+          <LlmUsagePanel />
+        </div>
+      )}
+      {isTestPanelOpen && (
+        <div className="max-w-4xl ml-auto mb-2">
+          <TestLlmPanel />
+        </div>
+      )}
+      <div className="flex justify-end items-center gap-4">
+        <button
+          onClick={() => setIsUsagePanelOpen(open => !open)}
+          className="hover:text-slate-300 underline underline-offset-2"
+          title="Debug: token, image and cost accounting for this session"
+        >
+          {isUsagePanelOpen ? 'Hide LLM usage' : 'LLM usage'}
+        </button>
+        <button
+          onClick={() => setIsTestPanelOpen(open => !open)}
+          className="hover:text-slate-300 underline underline-offset-2"
+          title="Debug: test calls, the request/response trace and trace replay"
+        >
+          {isTestPanelOpen ? 'Hide LLM trace' : 'LLM trace'}
+        </button>
+        <label className="flex items-center gap-1.5 cursor-pointer" title="Debug: ignore cached LLM responses and always call the model">
+          <input
+            type="checkbox"
+            checked={isCacheBypassed}
+            onChange={handleToggleCacheBypass}
+            className="accent-sky-500"
+          />
+          Bypass LLM cache
+        </label>
+      </div>
+    </footer>
+  );
 }
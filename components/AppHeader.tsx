@@ -1,6 +1,8 @@
 
 import React from 'react';
 import Alert from './Alert';
+import WorldClockWidget from './WorldClockWidget';
+import { Coordinates, WorldState } from '../services/gameTypes';
 import { useGameContext } from '../contexts/GameContext'; // Import useGameContext
 
 interface AppHeaderProps {
@@ -10,6 +12,9 @@ interface AppHeaderProps {
   apiKeyMissing: boolean;
   isGeneratingEvent?: boolean; 
   eventLoadingMessage?: string | null; 
+  onOpenSettings: () => void;
+  worldState?: WorldState | null; // Shown once a game is running
+  currentCoordinates?: Coordinates;
 }
 
 const AppHeader: React.FC<AppHeaderProps> = ({ 
@@ -18,7 +23,10 @@ const AppHeader: React.FC<AppHeaderProps> = ({
   currentPhaseTitle, 
   apiKeyMissing,
   isGeneratingEvent,
-  eventLoadingMessage
+  eventLoadingMessage,
+  onOpenSettings,
+  worldState,
+  currentCoordinates
 }) => {
   // Event state is no longer used directly in AppHeader for image display
   // const { isEventActive, currentEventImageUrl, currentEventDetails } = useGameContext(); 
@@ -34,7 +42,19 @@ const AppHeader: React.FC<AppHeaderProps> = ({
 
   return (
     <div className="w-full bg-slate-900/80 border-b border-slate-700/60 shadow-md relative">
-      <div className="p-4 w-full max-w-7xl mx-auto">
+      <div className="p-4 w-full max-w-7xl mx-auto relative">
+        {worldState && currentCoordinates && <WorldClockWidget worldState={worldState} coordinates={currentCoordinates} />}
+        <button
+          onClick={onOpenSettings}
+          className="absolute top-4 right-4 text-slate-400 hover:text-slate-200 p-1.5 rounded-md hover:bg-slate-800"
+          aria-label="Settings: API key and models"
+          title="Settings: API key and models"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.325.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 0 1 1.37.49l1.296 2.247a1.125 1.125 0 0 1-.26 1.431l-1.003.827c-.293.241-.438.613-.43.992a7.723 7.723 0 0 1 0 .255c-.008.378.137.75.43.991l1.004.827c.424.35.534.955.26 1.43l-1.298 2.247a1.125 1.125 0 0 1-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.47 6.47 0 0 1-.22.128c-.331.183-.581.495-.644.869l-.213 1.281c-.09.543-.56.94-1.11.94h-2.594c-.55 0-1.019-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 0 1-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 0 1-1.369-.49l-1.297-2.247a1.125 1.125 0 0 1 .26-1.431l1.004-.827c.292-.24.437-.613.43-.991a6.932 6.932 0 0 1 0-.255c.007-.38-.138-.751-.43-.992l-1.004-.827a1.125 1.125 0 0 1-.26-1.43l1.297-2.247a1.125 1.125 0 0 1 1.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.086.22-.128.332-.183.582-.495.644-.869l.214-1.28Z" />
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z" />
+          </svg>
+        </button>
         <header className="text-center">
           <h1 className="text-4xl font-bold text-sky-400 tracking-tight">LostWorld</h1>
           <p className={`text-xl text-slate-400 mt-2 min-h-[1.75rem] ${isGeneratingEvent ? 'italic text-purple-300' : (isLoading ? 'italic text-sky-300' : '')}`}>
@@ -43,7 +63,7 @@ const AppHeader: React.FC<AppHeaderProps> = ({
         </header>
         {apiKeyMissing && (
           <div className="w-full max-w-xl mt-4 mb-2 mx-auto">
-              <Alert type="error" message="API_KEY is not set. Please configure the API_KEY environment variable for the application to work." />
+              <Alert type="error" message="No API key is configured. Paste one in Settings (top right), or set the API_KEY environment variable before building." />
           </div>
         )}
       </div>
@@ -1,16 +1,27 @@
 // components/CharacterVitalsPanel.tsx
 import React from 'react';
+import { StatusEffect } from '../services/gameTypes';
 
 interface CharacterVitalsPanelProps {
   overallHealth: number;
   currentEnergy: number;
   maxEnergy: number;
+  statusEffects: StatusEffect[];
 }
 
+const formatSigned = (value: number): string => `${value > 0 ? '+' : ''}${value}`;
+
+const describeStatusEffect = (effect: StatusEffect): string[] => [
+  ...(effect.healthPerTurn ? [`${formatSigned(effect.healthPerTurn * effect.stacks)} HP/turn`] : []),
+  ...(effect.energyPerTurn ? [`${formatSigned(effect.energyPerTurn * effect.stacks)} EN/turn`] : []),
+  ...effect.skillModifiers.map(m => `${m.skillName} ${formatSigned(m.modifier * effect.stacks)}`),
+];
+
 const CharacterVitalsPanel: React.FC<CharacterVitalsPanelProps> = ({ 
   overallHealth, 
   currentEnergy, 
-  maxEnergy 
+  maxEnergy,
+  statusEffects
 }) => {
 
   const healthPercentage = Math.max(0, Math.min(100, (overallHealth / 100) * 100));
@@ -59,6 +70,34 @@ const CharacterVitalsPanel: React.FC<CharacterVitalsPanelProps> = ({
           ></div>
         </div>
       </div>
+
+      {statusEffects.length > 0 && (
+        <div>
+          <h4 className="text-md font-semibold text-amber-400 mb-1">Status Effects</h4>
+          <ul className="space-y-1">
+            {statusEffects.map(effect => {
+              const isHarmful = effect.healthPerTurn < 0 || effect.energyPerTurn < 0 || effect.skillModifiers.some(m => m.modifier < 0);
+              return (
+                <li
+                  key={effect.name}
+                  className={`text-sm rounded-md px-2 py-1 ${isHarmful ? 'bg-red-900/40 text-red-200' : 'bg-emerald-900/40 text-emerald-200'}`}
+                  title={[effect.description, `Source: ${effect.source}`].filter(Boolean).join('\n')}
+                >
+                  <div className="flex justify-between items-baseline">
+                    <span className="font-semibold">{effect.name}{effect.stacks > 1 && ` x${effect.stacks}`}</span>
+                    <span className="text-xs font-mono opacity-80">
+                      {effect.remainingTurns === null ? 'lasting' : `${effect.remainingTurns} turn${effect.remainingTurns === 1 ? '' : 's'}`}
+                    </span>
+                  </div>
+                  {describeStatusEffect(effect).length > 0 && (
+                    <p className="text-xs opacity-80">{describeStatusEffect(effect).join(', ')}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { GameItem, ItemRarity } from '../services/gameTypes'; // Corrected import path for GameItem type
 import Spinner from './Spinner';
+import StoredImage from './StoredImage';
 
 interface CraftingAreaProps {
   craftingSlots: (GameItem | null)[];
@@ -141,7 +142,7 @@ const CraftingArea: React.FC<CraftingAreaProps> = ({
             >
               {item ? (
                 <>
-                  <img src={item.iconUrl} alt={item.name} className="w-12 h-12 object-contain mb-1 pointer-events-none" />
+                  <StoredImage src={item.iconUrl} alt={item.name} className="w-12 h-12 object-contain mb-1 pointer-events-none" />
                   <p className="text-xs text-purple-300 truncate w-full pointer-events-none">{item.name}</p>
                    <p className="text-[0.65rem] text-slate-400 truncate w-full pointer-events-none">({item.rarity})</p>
                   <button
@@ -194,7 +195,7 @@ const CraftingArea: React.FC<CraftingAreaProps> = ({
                     className={`p-2 bg-slate-700 hover:bg-purple-600 rounded-md flex flex-col items-center text-center transition-colors border-2 ${getRarityBorderColor(invItem.rarity)} ${getRarityHoverBorderColor(invItem.rarity)}`}
                     aria-label={`Select ${invItem.name} (${invItem.rarity})`}
                   >
-                    <img src={invItem.iconUrl} alt={invItem.name} className="w-12 h-12 object-contain mb-1" />
+                    <StoredImage src={invItem.iconUrl} alt={invItem.name} className="w-12 h-12 object-contain mb-1" />
                     <span className="text-xs text-slate-300 truncate w-full">{invItem.name}</span>
                     <span className="text-[0.65rem] text-slate-400 truncate w-full">({invItem.rarity})</span>
                   </button>
@@ -64,6 +64,7 @@ export interface GameInterfaceProps {
   characterProps: CharacterScreenInteractionProps;
   onSelectLocationForModal: (location: FullLocationData, coordinateKey: string) => void;
   currentCoordinates: Coordinates;
+  onOpenWorldMap: () => void;
   onSelectKnowledgeEntry: (id: string, type: MemorableEntityType | PotentialDiscoveryType, status?: PotentialDiscoveryStatus) => void; 
   onDropItemOnNpcImage: (item: GameItem, npc: GameNPC) => Promise<void>;
 }
@@ -75,6 +76,7 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
   characterProps,
   onSelectLocationForModal,
   currentCoordinates,
+  onOpenWorldMap,
   onSelectKnowledgeEntry, 
   onDropItemOnNpcImage,
 }) => {
@@ -156,6 +158,7 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
               overallHealth={characterProps.overallHealth}
               currentEnergy={characterProps.currentEnergy}
               maxEnergy={characterProps.maxEnergy}
+              statusEffects={characterData.statusEffects ?? []}
             />
             <CharacterSkillsPanel skills={characterData.skills} />
           </section>
@@ -225,7 +228,16 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
           </section>
           
           <section aria-labelledby="world-map-heading" className="bg-slate-700/30 p-4 rounded-lg shadow">
-            <h3 id="world-map-heading" className="text-2xl font-semibold mb-3 text-lime-400">World Map</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 id="world-map-heading" className="text-2xl font-semibold text-lime-400">World Map</h3>
+              <button
+                type="button"
+                onClick={onOpenWorldMap}
+                className="text-sm px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-lime-300"
+              >
+                Open Map
+              </button>
+            </div>
             <MinimapPanel 
                 visitedLocations={visitedLocations} 
                 currentCoordinates={currentCoordinates} 
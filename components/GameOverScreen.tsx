@@ -1,16 +1,28 @@
 
 // components/GameOverScreen.tsx
 import React from 'react';
-import { CharacterData, GameLogEntry } from '../services/gameTypes';
+import { CharacterData, DifficultyMode, GameLogEntry } from '../services/gameTypes';
+import { CheckpointSummary } from '../services/saveGameService';
 import AppFooter from './AppFooter'; // Assuming AppFooter is relatively simple and can be included
+import StoredImage from './StoredImage';
 
 interface GameOverScreenProps {
   characterData: CharacterData;
   gameLog: GameLogEntry[];
   onTryAgain: () => void;
+  difficultyMode: DifficultyMode;
+  checkpoint: CheckpointSummary | null;     // Checkpoint difficulty
+  onReloadCheckpoint: () => void;
+  isReviving: boolean;                      // Story difficulty
+  revivalError: string | null;
+  onRetryRevival: () => void;
+  erasedSaveCount: number | null;           // Permadeath difficulty
 }
 
-const GameOverScreen: React.FC<GameOverScreenProps> = ({ characterData, gameLog, onTryAgain }) => {
+const GameOverScreen: React.FC<GameOverScreenProps> = ({
+  characterData, gameLog, onTryAgain, difficultyMode, checkpoint, onReloadCheckpoint,
+  isReviving, revivalError, onRetryRevival, erasedSaveCount,
+}) => {
   const imageRenderingStyle: React.CSSProperties = {
     imageRendering: characterData.visualStyle === 'Pixel Art' ? 'pixelated' : 'auto',
   };
@@ -21,7 +33,7 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ characterData, gameLog,
       <p className="text-2xl mb-8 text-slate-300">
         {characterData.characterName} - {characterData.characterConcept} has fallen.
       </p>
-      <img
+      <StoredImage
         src={characterData.characterImageUrl || ''}
         alt="Defeated Character"
         className="w-48 h-48 object-contain rounded-lg mb-8 opacity-70 grayscale"
@@ -45,13 +57,50 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ characterData, gameLog,
           </div>
         ))}
       </div>
-      <button
-        onClick={onTryAgain}
-        className="bg-sky-600 hover:bg-sky-500 text-white font-bold py-3 px-8 rounded-lg text-xl transition-colors"
-        aria-label="Start a new game"
-      >
-        Try Again?
-      </button>
+      {difficultyMode === 'Story' && isReviving && (
+        <p className="text-lg text-amber-300 mb-6 animate-pulse">The story is not finished with you yet...</p>
+      )}
+      {difficultyMode === 'Story' && revivalError && (
+        <div className="mb-6 text-center">
+          <p className="text-sm text-red-300 mb-3">{revivalError}</p>
+          <button
+            onClick={onRetryRevival}
+            className="bg-amber-600 hover:bg-amber-500 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+            aria-label="Try the revival again"
+          >
+            Try Reviving Again
+          </button>
+        </div>
+      )}
+      {difficultyMode === 'Checkpoint' && (
+        checkpoint ? (
+          <button
+            onClick={onReloadCheckpoint}
+            className="mb-4 bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 px-8 rounded-lg text-xl transition-colors"
+            aria-label="Reload the last checkpoint"
+            title={`Checkpoint at ${checkpoint.locationName}, ${new Date(checkpoint.savedAt).toLocaleTimeString()}`}
+          >
+            Reload Last Checkpoint ({checkpoint.locationName})
+          </button>
+        ) : (
+          <p className="text-sm text-slate-400 mb-4">No checkpoint was reached in this adventure.</p>
+        )
+      )}
+      {difficultyMode === 'Permadeath' && (
+        <p className="text-sm text-slate-400 mb-4">
+          Permadeath: this adventure is over for good.
+          {erasedSaveCount ? ` ${erasedSaveCount} save${erasedSaveCount === 1 ? '' : 's'} erased.` : ''}
+        </p>
+      )}
+      {!(difficultyMode === 'Story' && isReviving) && (
+        <button
+          onClick={onTryAgain}
+          className="bg-sky-600 hover:bg-sky-500 text-white font-bold py-3 px-8 rounded-lg text-xl transition-colors"
+          aria-label="Start a new game"
+        >
+          Try Again?
+        </button>
+      )}
       <AppFooter />
     </div>
   );
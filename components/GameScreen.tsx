@@ -2,8 +2,9 @@
 import React from 'react';
 import MainGameContent from './MainGameContent';
 import GameOverScreen from './GameOverScreen';
-import { CharacterData, FullLocationData, GameLogEntry, VisualStyleType } from '../services/gameTypes';
+import { CharacterData, FullLocationData, GameLogEntry, GameRulesPresetId, DifficultyMode, VisualStyleType } from '../services/gameTypes';
 import { GameInterfaceProps } from './GameInterface';
+import { CheckpointSummary } from '../services/saveGameService';
 
 interface GameScreenProps {
   isGlobalBlockingLoad: boolean;
@@ -15,9 +16,16 @@ interface GameScreenProps {
   locationData: FullLocationData | null;
   gameLog: GameLogEntry[];
   gameInterfaceProps: GameInterfaceProps;
-  onQuickStart: () => void;
-  onCustomStart: (settingType: 'Fictional' | 'Historical', userIdea: string, visualStyle: VisualStyleType) => void;
+  onQuickStart: (rulesPreset?: GameRulesPresetId, difficultyMode?: DifficultyMode) => void;
+  onCustomStart: (settingType: 'Fictional' | 'Historical', userIdea: string, visualStyle: VisualStyleType, rulesPreset: GameRulesPresetId, difficultyMode: DifficultyMode) => void;
   onTryAgain: () => void;
+  difficultyMode: DifficultyMode;
+  checkpoint: CheckpointSummary | null;
+  onReloadCheckpoint: () => void;
+  isReviving: boolean;
+  revivalError: string | null;
+  onRetryRevival: () => void;
+  erasedSaveCount: number | null;
 }
 
 const GameScreen: React.FC<GameScreenProps> = ({
@@ -33,6 +41,13 @@ const GameScreen: React.FC<GameScreenProps> = ({
   onQuickStart,
   onCustomStart,
   onTryAgain,
+  difficultyMode,
+  checkpoint,
+  onReloadCheckpoint,
+  isReviving,
+  revivalError,
+  onRetryRevival,
+  erasedSaveCount,
 }) => {
   if (characterData?.isDefeated) {
     return (
@@ -40,6 +55,13 @@ const GameScreen: React.FC<GameScreenProps> = ({
         characterData={characterData}
         gameLog={gameLog}
         onTryAgain={onTryAgain}
+        difficultyMode={difficultyMode}
+        checkpoint={checkpoint}
+        onReloadCheckpoint={onReloadCheckpoint}
+        isReviving={isReviving}
+        revivalError={revivalError}
+        onRetryRevival={onRetryRevival}
+        erasedSaveCount={erasedSaveCount}
       />
     );
   }
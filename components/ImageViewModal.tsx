@@ -1,5 +1,6 @@
 // components/ImageViewModal.tsx
 import React from 'react';
+import StoredImage from './StoredImage';
 
 interface ImageViewModalProps {
   imageUrl: string;
@@ -35,7 +36,7 @@ const ImageViewModal: React.FC<ImageViewModalProps> = ({ imageUrl, altText, onCl
           </svg>
         </button>
 
-        <img
+        <StoredImage
           src={imageUrl}
           alt={altText}
           className="block max-w-full max-h-[85vh] object-contain rounded"
@@ -3,6 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { GameItem, ItemRarity, CharacterData } from '../services/gameTypes'; 
 import Spinner from './Spinner';
 import { useGameContext } from '../contexts/GameContext'; // Import context
+import StoredImage from './StoredImage';
+import { getImageRepository } from '../services/geminiClient';
 
 interface InventoryPanelProps {
   items: GameItem[]; // This will still be playerInventory passed from App/GameInterface
@@ -61,7 +63,7 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
     dragPreview.style.color = tailwindColorToActual(rarityColors.text || 'text-slate-100');
     
     const img = document.createElement('img');
-    img.src = item.iconUrl;
+    img.src = getImageRepository().peekUrl(item.iconUrl) ?? ''; // Already resolved by the inventory grid
     img.alt = item.name;
     img.style.width = '2rem'; // w-8
     img.style.height = '2rem'; // h-8
@@ -157,7 +159,7 @@ const InventoryPanel: React.FC<InventoryPanelProps> = ({
                     className="w-full flex flex-col items-center focus:outline-none focus:ring-2 focus:ring-red-400 rounded-md p-1 flex-grow"
                     aria-label={`View details for ${item.name}`}
                   >
-                    <img 
+                    <StoredImage 
                       src={item.iconUrl} 
                       alt={`${item.name} icon`} 
                       className="w-20 h-20 md:w-24 md:h-24 object-contain mb-2 rounded bg-slate-600/50 p-1 pointer-events-none"
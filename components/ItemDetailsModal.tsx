@@ -7,6 +7,7 @@ import { ProcessedTextWithDiscoveries } from '../services/loreService';
 import { useGameContext } from '../contexts/GameContext';
 import Spinner from './Spinner';
 import { useEntityElaboration } from '../hooks/useEntityElaboration'; // Import the new hook
+import StoredImage from './StoredImage';
 
 interface ItemDetailsModalProps {
   item: GameItem;
@@ -113,7 +114,7 @@ const ItemDetailsModal: React.FC<ItemDetailsModalProps> = ({
             aria-label={`View larger image of ${item.name}`}
             title={`View larger image of ${item.name}`}
           >
-            <img 
+            <StoredImage 
               src={item.iconUrl} 
               alt={`${item.name} icon`} 
               className={`w-24 h-24 object-contain rounded-md bg-slate-700 p-2 ring-1 ${rarityBorderClass}`}
@@ -2,6 +2,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { GameItem, Limb, ItemRarity, VisualStyleType } from '../services/gameTypes'; // Added VisualStyleType
 import Spinner from './Spinner';
+import StoredImage from './StoredImage';
 
 interface LimbStatusPanelProps {
   limbs: Limb[];
@@ -113,7 +114,7 @@ const LimbStatusPanel: React.FC<LimbStatusPanelProps> = ({ limbs, characterImage
       <h3 className="text-xl font-semibold mb-3 text-sky-300">Body Status</h3>
       {characterImageUrl ? (
         <div className="relative w-full max-w-xs mx-auto aspect-square bg-slate-700/30 rounded-lg shadow-inner ring-1 ring-slate-600">
-          <img 
+          <StoredImage 
             src={characterImageUrl} 
             alt="Player Character" 
             className="w-full h-full object-contain" 
@@ -164,7 +165,7 @@ const LimbStatusPanel: React.FC<LimbStatusPanelProps> = ({ limbs, characterImage
                   {hasEquippedItems && !isBeingAppliedTo && (
                     <div className="w-full h-full flex items-center justify-center overflow-hidden p-0.5">
                       {limb.equippedItems!.slice(0, 3).map((eqItem, idx) => ( // Show up to 3 icons
-                        <img 
+                        <StoredImage 
                           key={eqItem.id}
                           src={eqItem.iconUrl} 
                           alt={eqItem.name} 
@@ -210,7 +211,7 @@ const LimbStatusPanel: React.FC<LimbStatusPanelProps> = ({ limbs, characterImage
                           <div key={eqItem.id} className="mb-2">
                             <div className="flex items-center justify-between">
                                 <div className="flex items-center">
-                                    <img src={eqItem.iconUrl} alt={eqItem.name} className="w-6 h-6 mr-2 rounded bg-slate-700 p-0.5" style={imageRenderingStyle}/>
+                                    <StoredImage src={eqItem.iconUrl} alt={eqItem.name} className="w-6 h-6 mr-2 rounded bg-slate-700 p-0.5" style={imageRenderingStyle}/>
                                     <span className="text-xs text-slate-300">{eqItem.name} ({eqItem.rarity})</span>
                                 </div>
                                 <button
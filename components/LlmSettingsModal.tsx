@@ -0,0 +1,163 @@
+// components/LlmSettingsModal.tsx
+import React, { useState } from 'react';
+import { BUILD_TIME_LLM_DEFAULTS, getLlmSettings, applyLlmSettings, generateTestDescription, generateTestImage } from '../services/geminiClient';
+import { LlmUserSettings, SUGGESTED_LLM_MODELS } from '../services/llm';
+import Alert from './Alert';
+import Spinner from './Spinner';
+import StoredImage from './StoredImage';
+
+interface LlmSettingsModalProps {
+  onClose: () => void;
+  onSaved: () => void; // The client has been rebuilt from the new settings
+}
+
+interface ConnectionTestResult {
+  text: string | null;
+  imageUrl: string | null;
+  error: string | null;
+}
+
+const LlmSettingsModal: React.FC<LlmSettingsModalProps> = ({ onClose, onSaved }) => {
+  const [savedSettings] = useState<LlmUserSettings>(() => getLlmSettings());
+  const [draft, setDraft] = useState<LlmUserSettings>(savedSettings);
+  const [showKey, setShowKey] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const [isDraftApplied, setIsDraftApplied] = useState(false);
+
+  const suggestions = SUGGESTED_LLM_MODELS[BUILD_TIME_LLM_DEFAULTS.provider] ?? { text: [], image: [] };
+  const usesProxy = BUILD_TIME_LLM_DEFAULTS.transport === 'proxy' && !draft.apiKey.trim();
+  const updateDraft = (changes: Partial<LlmUserSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setTestResult(null);
+  };
+
+  // The test runs against the draft without storing it; Cancel puts the saved settings back.
+  const handleTestConnection = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    applyLlmSettings(draft, { persist: false });
+    setIsDraftApplied(true);
+    const result: ConnectionTestResult = { text: null, imageUrl: null, error: null };
+    try {
+      result.text = await generateTestDescription();
+      if (draft.imagesEnabled) result.imageUrl = await generateTestImage();
+    } catch (error: any) {
+      result.error = error.message || "The connection test failed.";
+    } finally {
+      setTestResult(result);
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    applyLlmSettings(draft);
+    onSaved();
+    onClose();
+  };
+
+  const handleCancel = () => {
+    if (isDraftApplied) applyLlmSettings(savedSettings, { persist: false });
+    onClose();
+  };
+
+  const inputClass = "w-full bg-slate-700 text-slate-200 border border-slate-600 rounded-lg py-2 px-3 text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+  const buttonClass = "font-semibold py-2 px-4 rounded-lg transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="llm-settings-modal-title"
+      onClick={handleCancel}
+    >
+      <div className="bg-slate-800 rounded-lg shadow-2xl ring-1 ring-slate-700 w-full max-w-lg p-6 space-y-4 text-left" onClick={e => e.stopPropagation()}>
+        <h2 id="llm-settings-modal-title" className="text-2xl font-semibold text-sky-400">Settings</h2>
+
+        <div>
+          <label htmlFor="llm-settings-key" className="block text-sm font-medium text-slate-300 mb-1">API key</label>
+          <div className="flex gap-2">
+            <input
+              id="llm-settings-key"
+              type={showKey ? 'text' : 'password'}
+              value={draft.apiKey}
+              onChange={e => updateDraft({ apiKey: e.target.value })}
+              placeholder={BUILD_TIME_LLM_DEFAULTS.hasApiKey ? 'Using the key this build was made with' : 'Paste your key'}
+              autoComplete="off"
+              className={inputClass}
+            />
+            <button type="button" onClick={() => setShowKey(show => !show)} className={`${buttonClass} bg-slate-600 hover:bg-slate-500 text-white`}>
+              {showKey ? 'Hide' : 'Show'}
+            </button>
+          </div>
+          <p className="text-xs text-slate-400 mt-1">
+            Stored only in this browser. Calls go from this browser straight to the {BUILD_TIME_LLM_DEFAULTS.provider} API with it.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="llm-settings-text-model" className="block text-sm font-medium text-slate-300 mb-1">Text model</label>
+          <input
+            id="llm-settings-text-model"
+            list="llm-settings-text-models"
+            value={draft.textModel}
+            onChange={e => updateDraft({ textModel: e.target.value })}
+            placeholder={BUILD_TIME_LLM_DEFAULTS.textModel}
+            disabled={usesProxy}
+            className={inputClass}
+          />
+          <datalist id="llm-settings-text-models">
+            {suggestions.text.map(model => <option key={model} value={model} />)}
+          </datalist>
+        </div>
+
+        <div>
+          <label htmlFor="llm-settings-image-model" className="block text-sm font-medium text-slate-300 mb-1">Image model</label>
+          <input
+            id="llm-settings-image-model"
+            list="llm-settings-image-models"
+            value={draft.imageModel}
+            onChange={e => updateDraft({ imageModel: e.target.value })}
+            placeholder={BUILD_TIME_LLM_DEFAULTS.imageModel}
+            disabled={usesProxy || !draft.imagesEnabled}
+            className={inputClass}
+          />
+          <datalist id="llm-settings-image-models">
+            {suggestions.image.map(model => <option key={model} value={model} />)}
+          </datalist>
+          {usesProxy && <p className="text-xs text-slate-400 mt-1">This build calls the LostWorld proxy server, which picks the models.</p>}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.imagesEnabled}
+            onChange={e => updateDraft({ imagesEnabled: e.target.checked })}
+            className="accent-sky-500"
+          />
+          Generate images (locations, portraits, item icons)
+        </label>
+
+        {testResult?.error && <Alert type="error" message={testResult.error} />}
+        {testResult && !testResult.error && (
+          <div className="bg-slate-700 rounded-md p-3 space-y-2">
+            <Alert type="success" message={draft.imagesEnabled ? "Text and image generation work." : "Text generation works."} />
+            {testResult.text && <p className="text-xs text-slate-300 whitespace-pre-wrap max-h-32 overflow-y-auto">{testResult.text}</p>}
+            {testResult.imageUrl && <StoredImage src={testResult.imageUrl} alt="Connection test" className="w-32 h-32 object-cover rounded-md mx-auto" />}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2 pt-2">
+          <button type="button" onClick={handleTestConnection} disabled={isTesting} className={`${buttonClass} bg-teal-600 hover:bg-teal-500 text-white flex items-center`}>
+            {isTesting ? <><Spinner className="w-4 h-4 mr-2" />Testing...</> : 'Test connection'}
+          </button>
+          <button type="button" onClick={handleCancel} disabled={isTesting} className={`${buttonClass} bg-slate-600 hover:bg-slate-500 text-white`}>Cancel</button>
+          <button type="button" onClick={handleSave} disabled={isTesting} className={`${buttonClass} bg-sky-600 hover:bg-sky-500 text-white`}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LlmSettingsModal;
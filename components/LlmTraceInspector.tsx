@@ -0,0 +1,184 @@
+import React, { useState, useRef } from 'react';
+import { useLlmTrace } from '../hooks/useLlmTrace';
+import { getLlmReplayProvider, startLlmReplay, stopLlmReplay } from '../services/geminiClient';
+import { LlmTraceEntry, LlmTraceOutcome, parseLlmTraceJsonl } from '../services/llm';
+import Alert from './Alert';
+
+const OUTCOME_CLASSES: Record<LlmTraceOutcome, string> = {
+  accepted: 'bg-emerald-700 text-emerald-100',
+  repaired: 'bg-teal-700 text-teal-100',
+  rejected: 'bg-amber-700 text-amber-100',
+  failed: 'bg-red-700 text-red-100',
+  aborted: 'bg-slate-600 text-slate-200',
+  cached: 'bg-sky-800 text-sky-100',
+};
+
+const formatResponse = (entry: LlmTraceEntry): string => {
+  if (!entry.response) return '(no response)';
+  if (entry.response.functionCall !== undefined) return JSON.stringify(entry.response.functionCall, null, 2);
+  if (entry.response.imageRef !== undefined) return entry.response.imageRef ?? '(no image)';
+  return entry.response.text ?? '';
+};
+
+const TraceEntryDetails: React.FC<{ entry: LlmTraceEntry }> = ({ entry }) => (
+  <div className="mt-2 space-y-2 text-xs text-slate-300">
+    <div className="text-slate-400">{entry.context} · {entry.providerId} / {entry.model}</div>
+    {entry.request.history && entry.request.history.length > 0 && (
+      <div>
+        <div className="font-semibold text-slate-200">History</div>
+        {entry.request.history.map((message, index) => (
+          <pre key={index} className="whitespace-pre-wrap max-h-32 overflow-y-auto bg-slate-900 rounded p-2 mt-1">{message.role}: {message.text}</pre>
+        ))}
+      </div>
+    )}
+    <div>
+      <div className="font-semibold text-slate-200">Prompt{entry.request.toolName ? ` (tool: ${entry.request.toolName})` : ''}</div>
+      <pre className="whitespace-pre-wrap max-h-48 overflow-y-auto bg-slate-900 rounded p-2 mt-1">{entry.request.prompt}</pre>
+    </div>
+    <div>
+      <div className="font-semibold text-slate-200">Response</div>
+      <pre className="whitespace-pre-wrap max-h-48 overflow-y-auto bg-slate-900 rounded p-2 mt-1">{formatResponse(entry)}</pre>
+    </div>
+    {entry.issues.length > 0 && (
+      <ul className="list-disc list-inside text-amber-300">
+        {entry.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+      </ul>
+    )}
+    {entry.logEntries.length > 0 && (
+      <div>
+        <div className="font-semibold text-slate-200">Game log</div>
+        {entry.logEntries.map(logEntry => (
+          <div key={logEntry.id} className="text-slate-400">[{logEntry.type}] {logEntry.text}</div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+// Browses the live trace (or an imported one), exports it as JSONL and replays an imported trace.
+const LlmTraceInspector: React.FC = () => {
+  const recorder = useLlmTrace();
+  const [importedEntries, setImportedEntries] = useState<LlmTraceEntry[] | null>(null);
+  const [showImported, setShowImported] = useState(false);
+  const [serviceFilter, setServiceFilter] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState<LlmTraceOutcome | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isReplaying, setIsReplaying] = useState(() => getLlmReplayProvider() !== null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sourceEntries = showImported && importedEntries ? importedEntries : recorder.getEntries();
+  const filter = serviceFilter.trim().toLowerCase();
+  const visibleEntries = sourceEntries
+    .filter(entry => (!filter || entry.context.toLowerCase().includes(filter)) && (!outcomeFilter || entry.outcome === outcomeFilter))
+    .slice()
+    .reverse();
+
+  const handleExport = () => {
+    const blob = new Blob([recorder.toJsonl()], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lostworld-llm-trace-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportedEntries(parseLlmTraceJsonl(await file.text()));
+      setShowImported(true);
+      setImportError(null);
+    } catch (error: any) {
+      setImportError(error.message || "Could not read the trace file.");
+    }
+  };
+
+  const handleToggleReplay = () => {
+    if (isReplaying) {
+      stopLlmReplay();
+      setIsReplaying(false);
+    } else if (importedEntries) {
+      startLlmReplay(importedEntries);
+      setIsReplaying(true);
+    }
+  };
+
+  const replayProvider = getLlmReplayProvider();
+  const buttonClass = "bg-slate-600 hover:bg-slate-500 text-white text-xs font-semibold py-1.5 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <section className="text-left">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-2xl font-semibold text-violet-400">LLM Trace</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={recorder.isEnabled()} onChange={e => recorder.setEnabled(e.target.checked)} className="accent-violet-500" />
+            Record
+          </label>
+          <button onClick={handleExport} disabled={recorder.getEntries().length === 0} className={buttonClass}>Export JSONL</button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import JSONL</button>
+          <input ref={fileInputRef} type="file" accept=".jsonl,application/x-ndjson,text/plain" onChange={handleImport} className="hidden" />
+          <button onClick={() => recorder.clear()} className={buttonClass}>Clear</button>
+        </div>
+      </div>
+      {importError && <Alert type="error" message={importError} className="mb-3" />}
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-slate-300">
+        {importedEntries && (
+          <select
+            value={showImported ? 'imported' : 'live'}
+            onChange={e => setShowImported(e.target.value === 'imported')}
+            className="bg-slate-700 text-slate-200 border border-slate-600 rounded-md py-1 px-2"
+          >
+            <option value="live">This session ({recorder.getEntries().length})</option>
+            <option value="imported">Imported ({importedEntries.length})</option>
+          </select>
+        )}
+        <input
+          value={serviceFilter}
+          onChange={e => setServiceFilter(e.target.value)}
+          placeholder="Filter by service"
+          className="bg-slate-700 text-slate-200 border border-slate-600 rounded-md py-1 px-2"
+        />
+        <select
+          value={outcomeFilter}
+          onChange={e => setOutcomeFilter(e.target.value as LlmTraceOutcome | '')}
+          className="bg-slate-700 text-slate-200 border border-slate-600 rounded-md py-1 px-2"
+        >
+          <option value="">All outcomes</option>
+          {(Object.keys(OUTCOME_CLASSES) as LlmTraceOutcome[]).map(outcome => <option key={outcome} value={outcome}>{outcome}</option>)}
+        </select>
+        <button onClick={handleToggleReplay} disabled={!isReplaying && !importedEntries} className={buttonClass}
+          title="Answer every LLM call from the imported trace instead of the model. Start a new game with the same inputs to reproduce the session.">
+          {isReplaying ? 'Stop replay' : 'Replay imported trace'}
+        </button>
+        {isReplaying && replayProvider && <span className="text-violet-300">Replaying: {replayProvider.remaining()} recorded answers left</span>}
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-sm text-slate-400">No LLM calls traced yet.</p>
+      ) : (
+        <ul className="space-y-1 max-h-96 overflow-y-auto">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="bg-slate-700 rounded-md px-3 py-2">
+              <button onClick={() => setExpandedId(id => (id === entry.id ? null : entry.id))} className="w-full flex items-center gap-2 text-xs text-left">
+                <span className="text-slate-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                <span className="text-slate-100 font-medium truncate">{entry.service}</span>
+                <span className="text-slate-400">{entry.kind}{entry.attempt > 0 ? ` · retry ${entry.attempt}` : ''}</span>
+                <span className={`ml-auto rounded px-1.5 py-0.5 ${OUTCOME_CLASSES[entry.outcome]}`}>{entry.outcome}</span>
+                <span className="text-slate-400 w-16 text-right">{entry.durationMs} ms</span>
+              </button>
+              {expandedId === entry.id && <TraceEntryDetails entry={entry} />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default LlmTraceInspector;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { useLlmUsage } from '../hooks/useLlmUsage';
+import { LlmBudget, LlmBudgetMode } from '../services/llm';
+import Alert from './Alert';
+
+const formatCost = (cost: number | null): string => (cost === null ? '–' : `$${cost.toFixed(4)}`);
+const formatLimit = (limit: number | null): string => (limit === null ? '' : String(limit));
+const parseLimit = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const LlmUsagePanel: React.FC = () => {
+  const tracker = useLlmUsage();
+  const totals = tracker.getTotals();
+  const breakdown = tracker.getServiceBreakdown();
+  const budget = tracker.getBudget();
+  const budgetStatus = tracker.getBudgetStatus();
+
+  const [draftTokens, setDraftTokens] = useState(formatLimit(budget.maxTokens));
+  const [draftImages, setDraftImages] = useState(formatLimit(budget.maxImages));
+  const [draftCost, setDraftCost] = useState(formatLimit(budget.maxCostUsd));
+  const [draftMode, setDraftMode] = useState<LlmBudgetMode>(budget.mode);
+
+  useEffect(() => {
+    setDraftTokens(formatLimit(budget.maxTokens));
+    setDraftImages(formatLimit(budget.maxImages));
+    setDraftCost(formatLimit(budget.maxCostUsd));
+    setDraftMode(budget.mode);
+  }, [budget]);
+
+  const handleApplyBudget = () => {
+    const next: LlmBudget = { maxTokens: parseLimit(draftTokens), maxImages: parseLimit(draftImages), maxCostUsd: parseLimit(draftCost), mode: draftMode };
+    tracker.setBudget(next);
+  };
+
+  const inputClass = "w-full bg-slate-700 text-slate-200 border border-slate-600 rounded-lg py-1.5 px-2 text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+  return (
+    <div className="bg-slate-800 shadow-2xl rounded-lg p-6 space-y-6 ring-1 ring-slate-700 text-left">
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-semibold text-sky-400">LLM Usage (this session)</h2>
+          <button
+            onClick={() => tracker.reset()}
+            className="bg-slate-600 hover:bg-slate-500 text-white text-xs font-semibold py-1.5 px-3 rounded-md transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+        {budgetStatus.exceeded && (
+          <Alert
+            type={budget.mode === 'block' ? 'error' : 'warning'}
+            message={`Budget exceeded: ${budgetStatus.reasons.join('; ')}.${budget.mode === 'block' ? ' New LLM calls are refused.' : ''}`}
+            className="mb-3"
+          />
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-slate-300">
+          <div>Calls: <span className="text-slate-100">{totals.calls}</span></div>
+          <div>Tokens in: <span className="text-slate-100">{totals.promptTokens}</span></div>
+          <div>Tokens out: <span className="text-slate-100">{totals.responseTokens}</span></div>
+          <div>Images: <span className="text-slate-100">{totals.images}</span></div>
+          <div>Retries: <span className="text-slate-100">{totals.retries}</span></div>
+          <div>Cache hits: <span className="text-slate-100">{totals.cacheHits}</span></div>
+          <div>Failures: <span className="text-slate-100">{totals.failures}</span></div>
+          <div>Est. cost: <span className="text-slate-100">{formatCost(totals.estimatedCostUsd)}</span></div>
+        </div>
+      </section>
+
+      <section className="overflow-x-auto">
+        <h3 className="text-lg font-medium text-slate-200 mb-2">By service</h3>
+        {breakdown.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">No LLM calls yet.</p>
+        ) : (
+          <table className="w-full text-xs text-slate-300">
+            <thead className="text-slate-400 border-b border-slate-700">
+              <tr>
+                <th className="text-left py-1 pr-2">Service</th>
+                <th className="text-right px-1">Calls</th>
+                <th className="text-right px-1">In</th>
+                <th className="text-right px-1">Out</th>
+                <th className="text-right px-1">Images</th>
+                <th className="text-right px-1">Avg ms</th>
+                <th className="text-right px-1">Retries</th>
+                <th className="text-right px-1">Cached</th>
+                <th className="text-right px-1">Failed</th>
+                <th className="text-right pl-1">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.map(usage => (
+                <tr key={usage.service} className="border-b border-slate-700/50">
+                  <td className="py-1 pr-2 font-mono text-slate-200 break-all">{usage.service}</td>
+                  <td className="text-right px-1">{usage.calls}</td>
+                  <td className="text-right px-1">{usage.promptTokens}</td>
+                  <td className="text-right px-1">{usage.responseTokens}</td>
+                  <td className="text-right px-1">{usage.images}</td>
+                  <td className="text-right px-1">{Math.round(usage.latencyMs / usage.calls)}</td>
+                  <td className="text-right px-1">{usage.retries}</td>
+                  <td className="text-right px-1">{usage.cacheHits}</td>
+                  <td className="text-right px-1">{usage.failures}</td>
+                  <td className="text-right pl-1">{formatCost(usage.estimatedCostUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <div className="border-t border-slate-700"></div>
+
+      <section>
+        <h3 className="text-lg font-medium text-slate-200 mb-2">Session budget</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <label className="text-slate-300">
+            Max tokens
+            <input type="number" min="0" value={draftTokens} onChange={e => setDraftTokens(e.target.value)} placeholder="No limit" className={inputClass} />
+          </label>
+          <label className="text-slate-300">
+            Max images
+            <input type="number" min="0" value={draftImages} onChange={e => setDraftImages(e.target.value)} placeholder="No limit" className={inputClass} />
+          </label>
+          <label className="text-slate-300">
+            Max cost (USD)
+            <input type="number" min="0" step="0.01" value={draftCost} onChange={e => setDraftCost(e.target.value)} placeholder="No limit" className={inputClass} />
+          </label>
+          <label className="text-slate-300">
+            When exceeded
+            <select value={draftMode} onChange={e => setDraftMode(e.target.value as LlmBudgetMode)} className={inputClass}>
+              <option value="warn">Warn</option>
+              <option value="block">Block</option>
+            </select>
+          </label>
+        </div>
+        {totals.estimatedCostUsd === null && (
+          <p className="mt-2 text-xs text-slate-500">No pricing configured, so the cost limit is not enforced. Set LLM_PRICE_* to enable it.</p>
+        )}
+        <button
+          onClick={handleApplyBudget}
+          className="mt-3 bg-sky-600 hover:bg-sky-500 text-white text-sm font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          Apply Budget
+        </button>
+      </section>
+    </div>
+  );
+};
+
+export default LlmUsagePanel;
@@ -5,6 +5,7 @@ import { FullLocationData, CharacterData, LocationRarity, PotentialDiscovery, Vi
 import { elaborateOnLocationDescription } from '../services/locationService';
 import Spinner from './Spinner';
 import { useEntityElaboration } from '../hooks/useEntityElaboration'; // Import the new hook
+import StoredImage from './StoredImage';
 
 interface LocationDetailsModalProps {
   location: FullLocationData;
@@ -96,7 +97,7 @@ const LocationDetailsModal: React.FC<LocationDetailsModalProps> = ({
                 aria-label={`View larger image of ${location.name}`}
                 title={`View larger image of ${location.name}`}
             >
-                <img 
+                <StoredImage 
                     src={location.imageUrl} 
                     alt={`${location.name}`} 
                     className="w-20 h-20 object-contain rounded-md bg-slate-700 p-1 ring-1 ring-slate-600"
@@ -2,13 +2,15 @@
 // components/LocationImagePanel.tsx
 import React, { useState } from 'react';
 import { FullLocationData, LocationRarity, GameItem, GameNPC, VisualStyleType } from '../services/gameTypes'; // Added VisualStyleType
+import { getCoordinateKey } from '../services/gameEngine';
+import StoredImage from './StoredImage';
 
 interface LocationImagePanelProps {
   imageUrl: string; 
   imageAltText: string; 
   onSelectLocationForModal: (location: FullLocationData, coordinateKey: string) => void;
   locationData: FullLocationData | null; 
-  currentCoordinates: { x: number, y: number };
+  currentCoordinates: { x: number, y: number, z: number };
   isEventActive: boolean; 
   talkingToNPC: GameNPC | null;
   onDropItemOnNpcImage: (item: GameItem, npc: GameNPC) => Promise<void>; 
@@ -42,7 +44,7 @@ const LocationImagePanel: React.FC<LocationImagePanelProps> = ({
 
   const handleImageClick = () => {
     if (!isEventActive && locationData) {
-      const coordinateKey = `${currentCoordinates.x},${currentCoordinates.y}`;
+      const coordinateKey = getCoordinateKey(currentCoordinates);
       onSelectLocationForModal(locationData, coordinateKey);
     }
   };
@@ -128,7 +130,7 @@ const LocationImagePanel: React.FC<LocationImagePanelProps> = ({
         disabled={isEventActive && !locationData} 
         title={titleText}
       >
-        <img 
+        <StoredImage 
           src={imageUrl} 
           alt={imageAltText} 
           aria-label={`Visual representation of ${imageAltText}`}
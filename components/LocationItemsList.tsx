@@ -2,6 +2,7 @@
 import React from 'react';
 import { GameItem, ItemRarity } from '../services/gameTypes'; // Corrected import path for GameItem type
 import Spinner from './Spinner';
+import StoredImage from './StoredImage';
 
 interface LocationItemsListProps {
   items: GameItem[] | null; 
@@ -47,7 +48,7 @@ const LocationItemsList: React.FC<LocationItemsListProps> = ({ items, onPickupIt
               className="w-full flex flex-col items-center focus:outline-none focus:ring-2 focus:ring-red-400 rounded-md p-1 flex-grow"
               aria-label={`View details for ${item.name}`}
             >
-              <img 
+              <StoredImage 
                 src={item.iconUrl} 
                 alt={`${item.name} icon`} 
                 className="w-20 h-20 md:w-24 md:h-24 object-contain mb-2 rounded bg-slate-600/50 p-1 group-hover:scale-105 transition-transform"
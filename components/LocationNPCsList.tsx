@@ -3,6 +3,7 @@
 import React from 'react';
 import { GameNPC, NPCRarity, EventEffects, VisualStyleType } from '../services/gameTypes'; // Added EventEffects, VisualStyleType
 import { useGameContext } from '../contexts/GameContext';
+import StoredImage from './StoredImage';
 
 interface LocationNPCsListProps {
   npcs: GameNPC[] | null;
@@ -76,7 +77,7 @@ const LocationNPCsList: React.FC<LocationNPCsListProps> = ({
         // For simplicity, we'll assume `isEventSpawned` handles this.
         const existingEventNpc = activeNpcs.find(n => n.isEventSpawned && n.name === tempNpcFromEvent.name);
         if (!existingEventNpc) {
-            // This is a simplified GameNPC structure for display. Full generation happens in useEventSystem.
+            // This is a simplified GameNPC structure for display. Full generation happens in services/gameFlows (eventFlows).
             // If `locationNPCs` from context ALREADY includes this temp NPC (because applyEventEffects added it),
             // the filter above will correctly include it if `isEventSpawned` is true.
             // This part is more of a fallback or for display logic if the temp NPC isn't yet in the main list.
@@ -113,7 +114,7 @@ const LocationNPCsList: React.FC<LocationNPCsListProps> = ({
             aria-label={`Character: ${npc.name}, Rarity: ${npc.rarity}`}
             onClick={() => onSelectNPCForModal(npc)}
           >
-            <img
+            <StoredImage
               src={npc.iconUrl}
               alt={`${npc.name}`}
               className="absolute inset-0 w-full h-full object-cover transition-transform duration-300 ease-in-out group-hover:scale-105 pointer-events-none" // Added pointer-events-none so click goes to parent div
@@ -3,7 +3,7 @@ import React from 'react'; // Removed useState, useEffect as form state moved
 import Spinner from './Spinner';
 import Alert from './Alert';
 import GameInterface, { GameInterfaceProps } from './GameInterface';
-import { CharacterData, FullLocationData, VisualStyleType } from '../services/gameTypes';
+import { CharacterData, FullLocationData, GameRulesPresetId, DifficultyMode, VisualStyleType } from '../services/gameTypes';
 import NewGameForm from './NewGameForm'; // Import the new form component
 
 interface MainGameContentProps {
@@ -16,8 +16,8 @@ interface MainGameContentProps {
   locationData: FullLocationData | null;
   gameInterfaceProps: GameInterfaceProps;
   // Props for custom start form - these are now passed to NewGameForm
-  handleStartNewGame: () => void; // For quick start
-  handleCustomStartGame: (settingType: 'Fictional' | 'Historical', userIdea: string, visualStyle: VisualStyleType) => void; // For custom start
+  handleStartNewGame: (rulesPreset?: GameRulesPresetId, difficultyMode?: DifficultyMode) => void; // For quick start
+  handleCustomStartGame: (settingType: 'Fictional' | 'Historical', userIdea: string, visualStyle: VisualStyleType, rulesPreset: GameRulesPresetId, difficultyMode: DifficultyMode) => void; // For custom start
 }
 
 const MainGameContent: React.FC<MainGameContentProps> = ({
@@ -57,7 +57,7 @@ const MainGameContent: React.FC<MainGameContentProps> = ({
             <Alert type="error" message={error} />
             {!gameStarted && !apiKeyMissing && (
                 <button
-                    onClick={handleStartNewGame} 
+                    onClick={() => handleStartNewGame()} 
                     className="mt-6 w-full bg-red-600 hover:bg-red-500 text-white font-semibold py-3 px-6 rounded-lg transition-colors duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-opacity-75 flex items-center justify-center"
                     aria-label="Retry starting a new game"
                   >
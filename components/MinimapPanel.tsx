@@ -1,10 +1,12 @@
 
 // components/MinimapPanel.tsx
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { VisitedLocationEntry } from '../contexts/GameContext';
 // Corrected import path for Coordinates
 import { Coordinates } from '../contexts/GameContext';
 import { FullLocationData, VisualStyleType } from '../services/gameTypes'; // Added VisualStyleType
+import { getCoordinateKey, getAdjacentCoordinates, describeLevel, getVisitedLevels } from '../services/gameEngine';
+import StoredImage from './StoredImage';
 
 interface MinimapPanelProps {
   visitedLocations: Map<string, VisitedLocationEntry>;
@@ -17,6 +19,13 @@ const MAP_SIZE_RADIUS = 3; // Creates a (2*radius + 1) x (2*radius + 1) grid, e.
 
 const MinimapPanel: React.FC<MinimapPanelProps> = ({ visitedLocations, currentCoordinates, onSelectLocationForModal, visualStyle }) => {
   const mapCells = [];
+  const [level, setLevel] = useState<number>(currentCoordinates.z);
+  // Follow the player whenever they change level; the switcher only changes what is shown.
+  useEffect(() => { setLevel(currentCoordinates.z); }, [currentCoordinates.z]);
+
+  const knownLevels = useMemo(() => getVisitedLevels(visitedLocations, currentCoordinates.z), [visitedLocations, currentCoordinates.z]);
+  const lowestLevel = knownLevels[0];
+  const highestLevel = knownLevels[knownLevels.length - 1];
   const imageRenderingStyle: React.CSSProperties = {
     imageRendering: visualStyle === 'Pixel Art' ? 'pixelated' : 'auto',
   };
@@ -26,9 +35,10 @@ const MinimapPanel: React.FC<MinimapPanelProps> = ({ visitedLocations, currentCo
     for (let xOffset = -MAP_SIZE_RADIUS; xOffset <= MAP_SIZE_RADIUS; xOffset++) {
       const cellX = currentCoordinates.x + xOffset;
       const cellY = currentCoordinates.y + yOffset;
-      const cellKey = `${cellX},${cellY}`;
+      const cellCoordinates = { x: cellX, y: cellY, z: level };
+      const cellKey = getCoordinateKey(cellCoordinates);
       const visitedEntry = visitedLocations.get(cellKey);
-      const isCurrentLocation = cellX === currentCoordinates.x && cellY === currentCoordinates.y;
+      const isCurrentLocation = cellX === currentCoordinates.x && cellY === currentCoordinates.y && level === currentCoordinates.z;
 
       const cellElements: React.ReactNode[] = [];
       let cellWrapperClasses = "w-14 h-14 border border-slate-700 flex items-center justify-center relative text-xs"; 
@@ -40,7 +50,7 @@ const MinimapPanel: React.FC<MinimapPanelProps> = ({ visitedLocations, currentCo
         title = `${visitedEntry.location.name} (${visitedEntry.location.rarity}) (${cellX},${cellY})`;
         buttonAriaLabel = `View details for ${visitedEntry.location.name} at ${cellX},${cellY}`;
         cellElements.push(
-          <img 
+          <StoredImage 
             key={`${cellKey}-img`}
             src={visitedEntry.location.imageUrl} 
             alt={visitedEntry.location.name} 
@@ -52,13 +62,15 @@ const MinimapPanel: React.FC<MinimapPanelProps> = ({ visitedLocations, currentCo
         const exits = visitedEntry.location.validExits || [];
         const exitIndicatorBaseClasses = "absolute bg-lime-500/80 pointer-events-none";
         const neighborCoords = {
-            north: `${cellX},${cellY + 1}`, south: `${cellX},${cellY - 1}`,
-            east: `${cellX + 1},${cellY}`, west: `${cellX - 1},${cellY}`,
+            north: getCoordinateKey(getAdjacentCoordinates(cellCoordinates, 'north')), south: getCoordinateKey(getAdjacentCoordinates(cellCoordinates, 'south')),
+            east: getCoordinateKey(getAdjacentCoordinates(cellCoordinates, 'east')), west: getCoordinateKey(getAdjacentCoordinates(cellCoordinates, 'west')),
         };
         
         if (exits.includes("north")) cellElements.push(<div key={`${cellKey}-exit-n`} className={`${exitIndicatorBaseClasses} h-1.5 w-4 top-0 left-1/2 -translate-x-1/2 rounded-b-sm`} title={`Exit North to ${visitedLocations.get(neighborCoords.north)?.location.name || 'Unexplored'}`}></div>);
         if (exits.includes("south")) cellElements.push(<div key={`${cellKey}-exit-s`} className={`${exitIndicatorBaseClasses} h-1.5 w-4 bottom-0 left-1/2 -translate-x-1/2 rounded-t-sm`} title={`Exit South to ${visitedLocations.get(neighborCoords.south)?.location.name || 'Unexplored'}`}></div>);
         if (exits.includes("east")) cellElements.push(<div key={`${cellKey}-exit-e`} className={`${exitIndicatorBaseClasses} w-1.5 h-4 top-1/2 right-0 -translate-y-1/2 rounded-l-sm`} title={`Exit East to ${visitedLocations.get(neighborCoords.east)?.location.name || 'Unexplored'}`}></div>);
+        if (exits.includes("up")) cellElements.push(<div key={`${cellKey}-exit-u`} className="absolute top-0 right-0.5 text-lime-400 text-[0.6rem] leading-none pointer-events-none" title={`Way up to ${visitedLocations.get(getCoordinateKey(getAdjacentCoordinates(cellCoordinates, 'up')))?.location.name || 'Unexplored'}`}>&#x25B2;</div>);
+        if (exits.includes("down")) cellElements.push(<div key={`${cellKey}-exit-d`} className="absolute bottom-0 right-0.5 text-lime-400 text-[0.6rem] leading-none pointer-events-none" title={`Way down to ${visitedLocations.get(getCoordinateKey(getAdjacentCoordinates(cellCoordinates, 'down')))?.location.name || 'Unexplored'}`}>&#x25BC;</div>);
         if (exits.includes("west")) cellElements.push(<div key={`${cellKey}-exit-w`} className={`${exitIndicatorBaseClasses} w-1.5 h-4 top-1/2 left-0 -translate-y-1/2 rounded-r-sm`} title={`Exit West to ${visitedLocations.get(neighborCoords.west)?.location.name || 'Unexplored'}`}></div>);
 
       } else {
@@ -99,6 +111,25 @@ const MinimapPanel: React.FC<MinimapPanelProps> = ({ visitedLocations, currentCo
 
   return (
     <div className="flex flex-col items-center p-2 bg-slate-700/30 rounded-md shadow-inner">
+      {knownLevels.length > 1 && (
+        <div className="flex items-center gap-2 mb-2 text-sm text-slate-300">
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded bg-slate-600 hover:bg-slate-500 disabled:opacity-40 disabled:cursor-default"
+            onClick={() => setLevel(prev => prev - 1)}
+            disabled={level <= lowestLevel}
+            aria-label="Show the level below"
+          >&#x25BC;</button>
+          <span className={level === currentCoordinates.z ? 'text-amber-300' : ''}>{describeLevel(level)}</span>
+          <button
+            type="button"
+            className="px-2 py-0.5 rounded bg-slate-600 hover:bg-slate-500 disabled:opacity-40 disabled:cursor-default"
+            onClick={() => setLevel(prev => prev + 1)}
+            disabled={level >= highestLevel}
+            aria-label="Show the level above"
+          >&#x25B2;</button>
+        </div>
+      )}
       <div className="grid grid-cols-1 gap-0">
         {mapCells}
       </div>
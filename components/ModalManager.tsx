@@ -5,6 +5,8 @@ import ItemDetailsModal from './ItemDetailsModal';
 import NPCDetailsModal from './NPCDetailsModal';
 import LocationDetailsModal from './LocationDetailsModal';
 import ImageViewModal from './ImageViewModal';
+import WorldMapModal from './WorldMapModal';
+import { VisitedLocationEntry, Coordinates } from '../contexts/GameContext';
 
 interface ModalManagerProps {
   itemToViewInModal: GameItem | null;
@@ -41,6 +43,13 @@ interface ModalManagerProps {
   imageAltTextToView: string | null;
   onCloseImageViewModal: () => void;
   onSelectImageForViewing: (url: string, alt: string) => void;
+
+  isWorldMapOpen: boolean;
+  onCloseWorldMap: () => void;
+  visitedLocations: Map<string, VisitedLocationEntry>;
+  currentCoordinates: Coordinates;
+  potentialDiscoveries: ReadonlyArray<PotentialDiscovery>;
+  onSelectLocationForModal: (location: FullLocationData, coordinateKey: string) => void;
 }
 
 const ModalManager: React.FC<ModalManagerProps> = ({
@@ -59,9 +68,26 @@ const ModalManager: React.FC<ModalManagerProps> = ({
   imageAltTextToView,
   onCloseImageViewModal,
   onSelectImageForViewing,
+  isWorldMapOpen,
+  onCloseWorldMap,
+  visitedLocations,
+  currentCoordinates,
+  potentialDiscoveries,
+  onSelectLocationForModal,
 }) => {
   return (
     <>
+      {/* Rendered first so detail modals opened from the map stack on top of it */}
+      {isWorldMapOpen && characterData && (
+        <WorldMapModal
+          visitedLocations={visitedLocations}
+          currentCoordinates={currentCoordinates}
+          potentialDiscoveries={potentialDiscoveries}
+          visualStyle={characterData.visualStyle}
+          onSelectLocationForModal={onSelectLocationForModal}
+          onClose={onCloseWorldMap}
+        />
+      )}
       {itemToViewInModal && characterData && (
         <ItemDetailsModal
           item={itemToViewInModal}
@@ -6,6 +6,7 @@ import { elaborateOnNpcDescription } from '../services/npcService';
 import { ProcessedTextWithDiscoveries } from '../services/loreService';
 import Spinner from './Spinner';
 import { useEntityElaboration } from '../hooks/useEntityElaboration'; // Import the new hook
+import StoredImage from './StoredImage';
 
 interface NPCDetailsModalProps {
   npc: GameNPC;
@@ -105,7 +106,7 @@ const NPCDetailsModal: React.FC<NPCDetailsModalProps> = ({
             aria-label={`View larger image of ${npc.name}`}
             title={`View larger image of ${npc.name}`}
           >
-            <img 
+            <StoredImage 
               src={npc.iconUrl} 
               alt={`${npc.name} portrait`} 
               className="w-32 h-32 object-contain rounded-md bg-slate-700 p-2 ring-1 ring-slate-600"
@@ -1,11 +1,15 @@
 // components/NewGameForm.tsx
 import React, { useState, useEffect } from 'react';
-import { VisualStyleType } from '../services/gameTypes';
+import { DifficultyMode, GameRulesPresetId, VisualStyleType } from '../services/gameTypes';
+import {
+  DEFAULT_DIFFICULTY_MODE, DEFAULT_GAME_RULES_PRESET, DIFFICULTY_MODE_DESCRIPTIONS, DIFFICULTY_MODE_IDS,
+  GAME_RULES_PRESET_DESCRIPTIONS, GAME_RULES_PRESET_IDS
+} from '../services/config/gameRules';
 import Alert from './Alert'; // If API key warning is shown here
 
 interface NewGameFormProps {
-  onCustomStart: (settingType: 'Fictional' | 'Historical', userIdea: string, visualStyle: VisualStyleType) => void;
-  onQuickStart: () => void;
+  onCustomStart: (settingType: 'Fictional' | 'Historical', userIdea: string, visualStyle: VisualStyleType, rulesPreset: GameRulesPresetId, difficultyMode: DifficultyMode) => void;
+  onQuickStart: (rulesPreset: GameRulesPresetId, difficultyMode: DifficultyMode) => void;
   isLoading: boolean;
   apiKeyMissing: boolean;
 }
@@ -19,6 +23,8 @@ const NewGameForm: React.FC<NewGameFormProps> = ({
   const [settingType, setSettingType] = useState<'Fictional' | 'Historical'>('Historical');
   const [userWorldAndCharacterIdea, setUserWorldAndCharacterIdea] = useState<string>('');
   const [visualStyle, setVisualStyle] = useState<VisualStyleType>('Pixel Art');
+  const [rulesPreset, setRulesPreset] = useState<GameRulesPresetId>(DEFAULT_GAME_RULES_PRESET);
+  const [difficultyMode, setDifficultyMode] = useState<DifficultyMode>(DEFAULT_DIFFICULTY_MODE);
 
   const historicalPlaceholder = "e.g., Being Plato orating in the Parthenon. OR A eunuch in the Chinese imperial court. OR A farmer in Cleopatra's age. OR A knight at King Arthur's table.";
   const fictionalPlaceholder = "e.g., A lone cyborg scavenger in a neon-drenched metropolis. OR A young sorcerer discovering a hidden portal in an enchanted forest.";
@@ -36,7 +42,7 @@ const NewGameForm: React.FC<NewGameFormProps> = ({
         alert("Please describe your desired world and character.");
         return;
     }
-    onCustomStart(settingType, userWorldAndCharacterIdea, visualStyle);
+    onCustomStart(settingType, userWorldAndCharacterIdea, visualStyle, rulesPreset, difficultyMode);
   };
 
   return (
@@ -73,6 +79,36 @@ const NewGameForm: React.FC<NewGameFormProps> = ({
         </select>
       </div>
 
+      <div>
+        <label htmlFor="rulesPreset" className="block text-sm font-medium text-slate-300 mb-1">Rules</label>
+        <select
+          id="rulesPreset"
+          value={rulesPreset}
+          onChange={(e) => setRulesPreset(e.target.value as GameRulesPresetId)}
+          className="w-full bg-slate-700 text-slate-200 border border-slate-600 rounded-lg py-2.5 px-3 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          aria-label="Choose the game rules: Story, Standard or Hardcore"
+          aria-describedby="rulesPresetDescription"
+        >
+          {GAME_RULES_PRESET_IDS.map(preset => <option key={preset} value={preset}>{preset}</option>)}
+        </select>
+        <p id="rulesPresetDescription" className="mt-1 text-xs text-slate-400">{GAME_RULES_PRESET_DESCRIPTIONS[rulesPreset]}</p>
+      </div>
+
+      <div>
+        <label htmlFor="difficultyMode" className="block text-sm font-medium text-slate-300 mb-1">Difficulty</label>
+        <select
+          id="difficultyMode"
+          value={difficultyMode}
+          onChange={(e) => setDifficultyMode(e.target.value as DifficultyMode)}
+          className="w-full bg-slate-700 text-slate-200 border border-slate-600 rounded-lg py-2.5 px-3 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          aria-label="Choose what happens on defeat: Story, Checkpoint or Permadeath"
+          aria-describedby="difficultyModeDescription"
+        >
+          {DIFFICULTY_MODE_IDS.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+        </select>
+        <p id="difficultyModeDescription" className="mt-1 text-xs text-slate-400">{DIFFICULTY_MODE_DESCRIPTIONS[difficultyMode]}</p>
+      </div>
+
       <div>
         <label htmlFor="userWorldAndCharacterIdea" className="block text-sm font-medium text-slate-300 mb-1">Describe Your Desired World & Character</label>
         <textarea
@@ -98,7 +134,7 @@ const NewGameForm: React.FC<NewGameFormProps> = ({
         </button>
         <button
           type="button"
-          onClick={onQuickStart}
+          onClick={() => onQuickStart(rulesPreset, difficultyMode)}
           disabled={isLoading || apiKeyMissing || settingType === 'Historical'}
           className="flex-1 bg-sky-600 hover:bg-sky-500 text-white font-bold py-3 px-6 rounded-lg transition-colors duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-sky-400 disabled:opacity-50 disabled:cursor-not-allowed text-lg"
           aria-label={settingType === 'Historical' ? "Quick Start is disabled for Historical settings" : "Start a new game with a random character and location"}
@@ -0,0 +1,97 @@
+// components/SaveSlotsPanel.tsx
+import React, { useState } from 'react';
+import Alert from './Alert';
+import { SaveSlotSummary } from '../services/saveGameService';
+
+interface SaveSlotsPanelProps {
+  saveSlots: (SaveSlotSummary | null)[];
+  canSave: boolean;
+  isBusy: boolean;
+  onSaveToSlot: (slotId: number) => void;
+  onLoadFromSlot: (slotId: number) => void;
+  onDeleteSlot: (slotId: number) => void;
+  error: string | null;
+}
+
+const SaveSlotsPanel: React.FC<SaveSlotsPanelProps> = ({
+  saveSlots,
+  canSave,
+  isBusy,
+  onSaveToSlot,
+  onLoadFromSlot,
+  onDeleteSlot,
+  error,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="w-full bg-slate-900/60 border-b border-slate-700/60">
+      <div className="w-full max-w-7xl mx-auto px-4 py-2 flex flex-col items-end">
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          className="text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-1.5 px-3 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500"
+          aria-expanded={isOpen}
+          aria-controls="save-slots-list"
+        >
+          {isOpen ? 'Hide Saves' : 'Save / Load'}
+        </button>
+
+        {isOpen && (
+          <div id="save-slots-list" className="w-full mt-2 grid grid-cols-1 md:grid-cols-3 gap-3">
+            {saveSlots.map((slot, index) => {
+              const slotId = index + 1;
+              return (
+                <div key={slotId} className="bg-slate-800 p-3 rounded-lg ring-1 ring-slate-700 text-sm">
+                  <p className="font-semibold text-sky-300">Slot {slotId}</p>
+                  {slot ? (
+                    <>
+                      <p className="text-slate-300 truncate">{slot.characterName}</p>
+                      <p className="text-slate-400 text-xs truncate">{slot.locationName}</p>
+                      <p className="text-slate-500 text-xs">{new Date(slot.savedAt).toLocaleString()}</p>
+                    </>
+                  ) : (
+                    <p className="text-slate-500 italic">Empty</p>
+                  )}
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => onSaveToSlot(slotId)}
+                      disabled={!canSave || isBusy}
+                      className="flex-1 bg-emerald-700 hover:bg-emerald-600 text-white text-xs font-semibold py-1 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Save game to slot ${slotId}`}
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => onLoadFromSlot(slotId)}
+                      disabled={!slot || isBusy}
+                      className="flex-1 bg-sky-700 hover:bg-sky-600 text-white text-xs font-semibold py-1 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Load game from slot ${slotId}`}
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => onDeleteSlot(slotId)}
+                      disabled={!slot || isBusy}
+                      className="bg-red-800 hover:bg-red-700 text-white text-xs font-semibold py-1 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Delete save in slot ${slotId}`}
+                    >
+                      &times;
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {isOpen && error && (
+          <div className="w-full mt-2">
+            <Alert type="error" message={error} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SaveSlotsPanel;
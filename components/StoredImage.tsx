@@ -0,0 +1,15 @@
+// components/StoredImage.tsx
+import React from 'react';
+import { useImageUrl } from '../hooks/useImageUrl';
+
+type StoredImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & {
+  src: string | null | undefined; // An image ref from game state, or any ordinary URL
+};
+
+// Drop-in <img> for generated images, which game state keeps as refs into the image store.
+const StoredImage: React.FC<StoredImageProps> = ({ src, ...imgProps }) => {
+  const resolvedUrl = useImageUrl(src);
+  return <img src={resolvedUrl} {...imgProps} />;
+};
+
+export default StoredImage;
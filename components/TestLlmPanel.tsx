@@ -5,6 +5,8 @@ import { generateTestDescription, generateTestImage } from '../services/geminiCl
 import Spinner from './Spinner';
 import Alert from './Alert';
 import { VisualStyleType } from '../services/gameTypes'; // Added import
+import StoredImage from './StoredImage';
+import LlmTraceInspector from './LlmTraceInspector';
 
 const TestLlmPanel: React.FC = () => {
   const [description, setDescription] = useState<string | null>(null);
@@ -117,7 +119,7 @@ const TestLlmPanel: React.FC = () => {
         {imageUrl && !isLoadingImage && (
           <div className="mt-6 p-4 bg-slate-700 rounded-md text-center">
             <h3 className="text-lg font-medium text-slate-200 mb-3">Generated Image:</h3>
-            <img
+            <StoredImage
               src={imageUrl}
               alt="Generated by AI"
               className="max-w-full h-auto rounded-md shadow-lg mx-auto border-2 border-slate-600"
@@ -126,6 +128,11 @@ const TestLlmPanel: React.FC = () => {
           </div>
         )}
       </section>
+
+      <div className="border-t border-slate-700"></div>
+
+      {/* Request/response trace and replay */}
+      <LlmTraceInspector />
     </div>
   );
 };
@@ -0,0 +1,36 @@
+// components/WorldClockWidget.tsx
+import React from 'react';
+import { Coordinates, TimeOfDay, WorldState } from '../services/gameTypes';
+import { formatWorldTime, getRegionWeather, getTimeOfDay, isShelteredFromWeather } from '../services/gameEngine';
+
+interface WorldClockWidgetProps {
+  worldState: WorldState;
+  coordinates: Coordinates;
+}
+
+const TIME_OF_DAY_COLORS: Record<TimeOfDay, string> = {
+  dawn: 'text-rose-300', day: 'text-amber-300', dusk: 'text-orange-400', night: 'text-indigo-300',
+};
+
+const WorldClockWidget: React.FC<WorldClockWidgetProps> = ({ worldState, coordinates }) => {
+  const timeOfDay = getTimeOfDay(worldState.minutesElapsed);
+  const weather = getRegionWeather(worldState, coordinates);
+  const isSheltered = isShelteredFromWeather(coordinates);
+
+  return (
+    <div
+      className="absolute top-4 left-4 bg-slate-800/80 ring-1 ring-slate-700 rounded-md px-3 py-1.5 text-left text-sm"
+      title={isSheltered ? `Underground. Above: ${weather.description}` : weather.description}
+    >
+      <div className="text-slate-200 font-semibold">
+        {formatWorldTime(worldState.minutesElapsed)}
+        <span className={`font-normal capitalize ${TIME_OF_DAY_COLORS[timeOfDay]}`}> · {timeOfDay}</span>
+      </div>
+      <div className="text-slate-400">
+        {isSheltered ? `Sheltered (${weather.condition} above)` : weather.condition}
+      </div>
+    </div>
+  );
+};
+
+export default WorldClockWidget;
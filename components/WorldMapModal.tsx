@@ -0,0 +1,253 @@
+// components/WorldMapModal.tsx
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { VisitedLocationEntry, Coordinates } from '../contexts/GameContext';
+import { FullLocationData, LocationRarity, PotentialDiscovery, VisualStyleType } from '../services/gameTypes';
+import { parseCoordinateKey, describeLevel, getVisitedLevels } from '../services/gameEngine';
+import StoredImage from './StoredImage';
+
+interface WorldMapModalProps {
+  visitedLocations: Map<string, VisitedLocationEntry>;
+  currentCoordinates: Coordinates;
+  potentialDiscoveries: ReadonlyArray<PotentialDiscovery>;
+  visualStyle: VisualStyleType;
+  onSelectLocationForModal: (location: FullLocationData, coordinateKey: string) => void;
+  onClose: () => void;
+}
+
+const CELL_SIZE = 72; // px at zoom 1
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 1.2;
+const DRAG_CLICK_THRESHOLD = 5; // px of pointer travel before a press counts as a pan instead of a click
+
+const getRarityColorClasses = (rarity: LocationRarity): { border: string; bg: string; text: string } => {
+  switch (rarity) {
+    case 'Common': return { border: 'border-slate-500', bg: 'bg-slate-600/60', text: 'text-slate-300' };
+    case 'Uncommon': return { border: 'border-green-500', bg: 'bg-green-900/50', text: 'text-green-400' };
+    case 'Rare': return { border: 'border-sky-500', bg: 'bg-sky-900/50', text: 'text-sky-400' };
+    case 'Epic': return { border: 'border-purple-500', bg: 'bg-purple-900/50', text: 'text-purple-400' };
+    case 'Legendary': return { border: 'border-amber-500', bg: 'bg-amber-900/50', text: 'text-amber-300' };
+    default: return { border: 'border-slate-600', bg: 'bg-slate-700/60', text: 'text-slate-400' };
+  }
+};
+
+const LEGEND_RARITIES: LocationRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const WorldMapModal: React.FC<WorldMapModalProps> = ({
+  visitedLocations, currentCoordinates, potentialDiscoveries, visualStyle, onSelectLocationForModal, onClose,
+}) => {
+  const [level, setLevel] = useState<number>(currentCoordinates.z);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; panX: number; panY: number; moved: boolean } | null>(null);
+
+  const knownLevels = useMemo(() => getVisitedLevels(visitedLocations, currentCoordinates.z), [visitedLocations, currentCoordinates.z]);
+
+  const cells = useMemo(() => Array.from(visitedLocations.entries())
+    .map(([key, entry]) => ({ key, entry, coordinates: parseCoordinateKey(key) }))
+    .filter((cell): cell is { key: string; entry: VisitedLocationEntry; coordinates: Coordinates } => cell.coordinates !== null && cell.coordinates.z === level),
+  [visitedLocations, level]);
+
+  // Leads still waiting to be found, grouped by the location they were first heard about in.
+  const openLeadsByLocation = useMemo(() => {
+    const byLocation = new Map<string, PotentialDiscovery[]>();
+    potentialDiscoveries.filter(pd => pd.status === 'mentioned').forEach(pd => {
+      const key = pd.firstMentionedLocationKey;
+      if (!key) return;
+      byLocation.set(key, [...(byLocation.get(key) || []), pd]);
+    });
+    return byLocation;
+  }, [potentialDiscoveries]);
+
+  const bounds = useMemo(() => {
+    const xs = cells.map(c => c.coordinates.x);
+    const ys = cells.map(c => c.coordinates.y);
+    if (level === currentCoordinates.z) { xs.push(currentCoordinates.x); ys.push(currentCoordinates.y); }
+    if (xs.length === 0) return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+    return { minX: Math.min(...xs) - 1, maxX: Math.max(...xs) + 1, minY: Math.min(...ys) - 1, maxY: Math.max(...ys) + 1 };
+  }, [cells, level, currentCoordinates]);
+
+  const gridWidth = (bounds.maxX - bounds.minX + 1) * CELL_SIZE;
+  const gridHeight = (bounds.maxY - bounds.minY + 1) * CELL_SIZE;
+  // North is up, so y grows towards the top of the screen.
+  const cellLeft = (x: number) => (x - bounds.minX) * CELL_SIZE;
+  const cellTop = (y: number) => (bounds.maxY - y) * CELL_SIZE;
+
+  const centerOn = (x: number, y: number, zoomLevel: number = zoom) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    setPan({
+      x: viewport.clientWidth / 2 - (cellLeft(x) + CELL_SIZE / 2) * zoomLevel,
+      y: viewport.clientHeight / 2 - (cellTop(y) + CELL_SIZE / 2) * zoomLevel,
+    });
+  };
+
+  // Start centred on the player, and re-centre when switching levels.
+  useEffect(() => {
+    centerOn(currentCoordinates.x, currentCoordinates.y);
+  }, [level]);
+
+  // Zooms around a point in viewport space so whatever is under the cursor stays put.
+  const zoomAround = (factor: number, viewportX: number, viewportY: number) => {
+    const nextZoom = clampZoom(zoom * factor);
+    const ratio = nextZoom / zoom;
+    setZoom(nextZoom);
+    setPan(prevPan => ({ x: viewportX - (viewportX - prevPan.x) * ratio, y: viewportY - (viewportY - prevPan.y) * ratio }));
+  };
+
+  const zoomAroundCenter = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    zoomAround(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    zoomAround(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, panX: pan.x, panY: pan.y, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_CLICK_THRESHOLD) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setPan({ x: drag.panX + dx, y: drag.panY + dy });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.moved && e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    // Keep the drag record until the click handler has seen it.
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const handleCellClick = (location: FullLocationData, key: string) => {
+    if (dragRef.current?.moved) return;
+    onSelectLocationForModal(location, key);
+  };
+
+  const imageRenderingStyle: React.CSSProperties = {
+    imageRendering: visualStyle === 'Pixel Art' ? 'pixelated' : 'auto',
+  };
+  const exitIndicatorBaseClasses = "absolute bg-lime-500/80 pointer-events-none";
+  const controlButtonClasses = "px-2.5 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-40 disabled:cursor-default";
+
+  return (
+    <div
+      className="fixed inset-0 bg-slate-900/90 backdrop-blur-sm flex flex-col p-4 z-40"
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="world-map-modal-title"
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <h2 id="world-map-modal-title" className="text-2xl font-semibold text-lime-400 mr-auto">World Map</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <button type="button" className={controlButtonClasses} onClick={() => setLevel(prev => prev - 1)} disabled={level <= knownLevels[0]} aria-label="Show the level below">&#x25BC;</button>
+          <span className={`min-w-[8rem] text-center ${level === currentCoordinates.z ? 'text-amber-300' : 'text-slate-300'}`}>{describeLevel(level)}</span>
+          <button type="button" className={controlButtonClasses} onClick={() => setLevel(prev => prev + 1)} disabled={level >= knownLevels[knownLevels.length - 1]} aria-label="Show the level above">&#x25B2;</button>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button type="button" className={controlButtonClasses} onClick={() => zoomAroundCenter(1 / ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} aria-label="Zoom out">&minus;</button>
+          <span className="w-12 text-center text-slate-400">{Math.round(zoom * 100)}%</span>
+          <button type="button" className={controlButtonClasses} onClick={() => zoomAroundCenter(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} aria-label="Zoom in">+</button>
+          <button
+            type="button"
+            className={controlButtonClasses}
+            onClick={() => { setLevel(currentCoordinates.z); centerOn(currentCoordinates.x, currentCoordinates.y); }}
+          >
+            Find Me
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-400 hover:text-slate-200 text-3xl leading-none px-2"
+          aria-label="Close world map"
+        >
+          &times;
+        </button>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className="relative flex-grow overflow-hidden rounded-lg ring-1 ring-slate-700 bg-slate-950/60 cursor-grab active:cursor-grabbing touch-none select-none"
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{ width: gridWidth, height: gridHeight, transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
+        >
+          {cells.map(({ key, entry, coordinates }) => {
+            const rarityClasses = getRarityColorClasses(entry.location.rarity);
+            const exits = entry.location.validExits || [];
+            const leads = openLeadsByLocation.get(key) || [];
+            const isCurrentLocation = coordinates.x === currentCoordinates.x && coordinates.y === currentCoordinates.y && coordinates.z === currentCoordinates.z;
+            return (
+              <button
+                key={key}
+                type="button"
+                className={`absolute border-2 ${rarityClasses.border} ${rarityClasses.bg} ${isCurrentLocation ? 'ring-2 ring-amber-400 z-10' : 'hover:ring-2 hover:ring-sky-400'} focus:outline-none focus:ring-2 focus:ring-sky-500`}
+                style={{ left: cellLeft(coordinates.x), top: cellTop(coordinates.y), width: CELL_SIZE, height: CELL_SIZE }}
+                title={`${entry.location.name} (${entry.location.rarity}) (${key})${leads.length > 0 ? `\nLeads: ${leads.map(pd => pd.name).join(', ')}` : ''}`}
+                aria-label={`View details for ${entry.location.name} at ${key}`}
+                onClick={() => handleCellClick(entry.location, key)}
+              >
+                <StoredImage src={entry.location.imageUrl} alt={entry.location.name} className="w-full h-full object-contain pointer-events-none" style={imageRenderingStyle} draggable={false} />
+                {exits.includes("north") && <div className={`${exitIndicatorBaseClasses} h-1.5 w-5 top-0 left-1/2 -translate-x-1/2 rounded-b-sm`}></div>}
+                {exits.includes("south") && <div className={`${exitIndicatorBaseClasses} h-1.5 w-5 bottom-0 left-1/2 -translate-x-1/2 rounded-t-sm`}></div>}
+                {exits.includes("east") && <div className={`${exitIndicatorBaseClasses} w-1.5 h-5 top-1/2 right-0 -translate-y-1/2 rounded-l-sm`}></div>}
+                {exits.includes("west") && <div className={`${exitIndicatorBaseClasses} w-1.5 h-5 top-1/2 left-0 -translate-y-1/2 rounded-r-sm`}></div>}
+                {exits.includes("up") && <div className="absolute top-0.5 right-1 text-lime-400 text-xs leading-none pointer-events-none">&#x25B2;</div>}
+                {exits.includes("down") && <div className="absolute bottom-0.5 right-1 text-lime-400 text-xs leading-none pointer-events-none">&#x25BC;</div>}
+                {leads.length > 0 && (
+                  <div className="absolute top-0.5 left-1 bg-rose-600 text-white text-[0.6rem] font-bold rounded-full w-4 h-4 flex items-center justify-center pointer-events-none">
+                    {leads.length}
+                  </div>
+                )}
+                {isCurrentLocation && (
+                  <div className="absolute inset-0 flex items-center justify-center text-amber-300 font-bold text-2xl pointer-events-none" aria-hidden="true">&#x25CE;</div>
+                )}
+              </button>
+            );
+          })}
+          {cells.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-slate-500 text-sm">Nothing explored on this level yet.</div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-slate-400">
+        {LEGEND_RARITIES.map(rarity => (
+          <span key={rarity} className="flex items-center gap-1.5">
+            <span className={`inline-block w-3 h-3 border-2 ${getRarityColorClasses(rarity).border} ${getRarityColorClasses(rarity).bg}`}></span>
+            <span className={getRarityColorClasses(rarity).text}>{rarity}</span>
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block bg-rose-600 text-white text-[0.6rem] font-bold rounded-full w-4 h-4 text-center leading-4">n</span>
+          Unresolved leads heard here
+        </span>
+        <span className="ml-auto">Drag to pan, scroll to zoom, click a location for details.</span>
+      </div>
+    </div>
+  );
+};
+
+export default WorldMapModal;
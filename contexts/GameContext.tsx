@@ -1,21 +1,25 @@
 // contexts/GameContext.tsx
-import React, { createContext, useState, useContext, useCallback, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useCallback, useMemo, useRef, ReactNode } from 'react';
 import {
-  CharacterData, FullLocationData, GameItem, GameNPC, GameLogEntry, Skill,
-  MemorableEntity, MajorPlotPoint, MemorableEntityType, MemorableEntityRarity,
-  EventEffects, PlayerInitiatedActionEventDetails, PotentialDiscovery,
-  GameDirectorDirective // Added GameDirectorDirective
+  FullLocationData, GameItem, GameNPC, GameLogEntry,
+  MemorableEntityType, MemorableEntityRarity, EventEffects, WeatherCondition, WorldState,
+  GameDirectorDirective, // Added GameDirectorDirective
+  GameRules, GameRulesPresetId, DifficultyMode
 } from '../services/gameTypes';
 import { useGameLog as useGameLogHook } from '../hooks/useGameLog';
 import { useMemorySystem, UseMemorySystemReturn } from '../hooks/useMemorySystem';
 import { useCharacterSystem, UseCharacterSystemReturn } from '../hooks/useCharacterSystem';
 import { useGameSession, UseGameSessionReturn } from '../hooks/useGameSession';
-import { useEventSystem, UseEventSystemDeps } from '../hooks/useEventSystem';
+import { useWorldState, UseWorldStateReturn } from '../hooks/useWorldState';
+import { DEFAULT_DIFFICULTY_MODE, DEFAULT_GAME_RULES_PRESET, GAME_RULES_PRESETS } from '../services/config/gameRules';
+import * as gameFlows from '../services/gameFlows';
+import { GameFlowActivity, GameFlowHost, GameFlowState, PotentialDiscoveryData } from '../services/gameFlows';
 // Removed: useGameDirector import from here, will be used internally by GameProvider
 
 export interface Coordinates {
   x: number;
   y: number;
+  z: number; // Level: 0 is ground, negative is below ground, positive is above
 }
 export interface VisitedLocationEntry {
   location: FullLocationData;
@@ -23,19 +27,20 @@ export interface VisitedLocationEntry {
   npcs: GameNPC[] | null;
 }
 
-interface GameContextState extends UseMemorySystemReturn, UseCharacterSystemReturn, Omit<UseGameSessionReturn,
+interface GameContextState extends UseMemorySystemReturn, UseCharacterSystemReturn, UseWorldStateReturn, Omit<UseGameSessionReturn,
   never
 > {
   gameLog: GameLogEntry[];
   addLogEntry: (type: GameLogEntry['type'], text: string, processedText?: string) => void;
   setGameLog: React.Dispatch<React.SetStateAction<GameLogEntry[]>>;
 
+  // The game flows (services/gameFlows) run against this host; the wrappers below are shortcuts into them.
+  gameFlowHost: GameFlowHost;
+
   _consumeEnergy: (amount: number, relevantSkillName?: string) => void;
   _gainSkillExperience: (skillName: string, amount: number) => void;
 
   attemptToTriggerUnexpectedEvent: (triggerContext: string) => Promise<void>;
-  handlePlayerInitiatedSignificantAction: (actionDetails: PlayerInitiatedActionEventDetails) => Promise<void>;
-  applyEventEffects: (effects: EventEffects) => Promise<void>;
 
   addMemorableEntity: (
     entityId: string, name: string, type: MemorableEntityType, rarity: MemorableEntityRarity,
@@ -45,12 +50,14 @@ interface GameContextState extends UseMemorySystemReturn, UseCharacterSystemRetu
     summary: string, involvedEntityIds?: string[], locationName?: string
   ) => void;
   clearMemorySystem: () => void;
-  addPotentialDiscovery: (
-    discoveryData: Omit<PotentialDiscovery, 'id' | 'status' | 'firstMentionedTimestamp' | 'firstMentionedLocationKey' | 'fulfilledById'>,
-    baseId: string,
-    locationKey: string
-  ) => Promise<void>;
+  addPotentialDiscovery: (discoveryData: PotentialDiscoveryData, baseId: string, locationKey: string) => Promise<void>;
   markPotentialDiscoveryFound: (id: string, actualGeneratedEntityId?: string) => void;
+  getMemoryContextString: () => string;
+
+  // Coordinates default to the current location; movement passes the destination.
+  advanceWorldTime: (minutes: number, coordinates?: Coordinates) => WorldState;
+  changeWeather: (description: string, condition?: WeatherCondition | null, coordinates?: Coordinates) => void;
+  getWorldContextString: (coordinates?: Coordinates) => string;
 
   isEventActive: boolean;
   setIsEventActive: React.Dispatch<React.SetStateAction<boolean>>;
@@ -59,19 +66,31 @@ interface GameContextState extends UseMemorySystemReturn, UseCharacterSystemRetu
   currentEventDetails: EventEffects | null;
   setCurrentEventDetails: React.Dispatch<React.SetStateAction<EventEffects | null>>;
 
-  setItemToViewInModal: React.Dispatch<React.SetStateAction<GameItem | null>>;
-  setNpcToViewInModal: React.Dispatch<React.SetStateAction<GameNPC | null>>;
-  setLocationToViewInModal: React.Dispatch<React.SetStateAction<FullLocationData | null>>;
-  setSelectedLocationCoordinateKeyForModal: React.Dispatch<React.SetStateAction<string | null>>;
-
   // Game Director State
   currentDirectives: GameDirectorDirective | null;
   setCurrentDirectives: React.Dispatch<React.SetStateAction<GameDirectorDirective | null>>;
   triggerGameDirectorAnalysis: (forceAnalysis?: boolean) => Promise<void>; // Expose trigger for manual calls
   playerCommandCount: number; // Track player commands
-  incrementPlayerCommandCount: () => void; // To increment command count
+  setPlayerCommandCount: React.Dispatch<React.SetStateAction<number>>; // Used when restoring a saved game
+
+  // Balance rules, picked on the new game form and kept with the save
+  gameRulesPreset: GameRulesPresetId;
+  setGameRulesPreset: React.Dispatch<React.SetStateAction<GameRulesPresetId>>;
+  gameRules: GameRules;
+
+  // What a defeat costs, also picked on the new game form. runId ties the saves of one adventure together.
+  difficultyMode: DifficultyMode;
+  setDifficultyMode: React.Dispatch<React.SetStateAction<DifficultyMode>>;
+  runId: string;
+  setRunId: React.Dispatch<React.SetStateAction<string>>;
+  // Bumped where Checkpoint difficulty takes a snapshot (new location, concluded event); useSaveGame writes it
+  // once the state from that moment has rendered.
+  checkpointRequest: number;
+  requestCheckpoint: () => void;
 }
 
+type GameFlowSetters = { [K in keyof GameFlowState]: (value: GameFlowState[K]) => void };
+
 const GameContext = createContext<GameContextState | undefined>(undefined);
 
 export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -79,11 +98,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const memorySystem = useMemorySystem();
   const characterSystem = useCharacterSystem();
   const gameSession = useGameSession();
-
-  const [itemToViewInModal, setItemToViewInModal] = useState<GameItem | null>(null);
-  const [npcToViewInModal, setNpcToViewInModal] = useState<GameNPC | null>(null);
-  const [locationToViewInModal, setLocationToViewInModal] = useState<FullLocationData | null>(null);
-  const [selectedLocationCoordinateKeyForModal, setSelectedLocationCoordinateKeyForModal] = useState<string | null>(null);
+  const worldSystem = useWorldState();
 
   const [isEventActive, setIsEventActive] = useState<boolean>(false);
   const [currentEventImageUrl, setCurrentEventImageUrl] = useState<string | null>(null);
@@ -93,8 +108,14 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [currentDirectives, setCurrentDirectives] = useState<GameDirectorDirective | null>(null);
   const [playerCommandCount, setPlayerCommandCount] = useState<number>(0);
 
-  const incrementPlayerCommandCount = useCallback(() => {
-    setPlayerCommandCount(prev => prev + 1);
+  const [gameRulesPreset, setGameRulesPreset] = useState<GameRulesPresetId>(DEFAULT_GAME_RULES_PRESET);
+  const gameRules = GAME_RULES_PRESETS[gameRulesPreset];
+  const [difficultyMode, setDifficultyMode] = useState<DifficultyMode>(DEFAULT_DIFFICULTY_MODE);
+  const [runId, setRunId] = useState<string>(() => crypto.randomUUID());
+  const [checkpointRequest, setCheckpointRequest] = useState<number>(0);
+
+  const requestCheckpoint = useCallback(() => {
+    setCheckpointRequest(prev => prev + 1);
   }, []);
 
   // --- Internal setup for useGameDirector hook ---
@@ -115,160 +136,195 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     // In a full setup, this would call a function from an instantiated `useGameDirector` hook.
   }, [playerCommandCount]);
 
+  // A flow awaits between steps and must read what it wrote before React re-renders, so the host
+  // keeps its own copy of the state. Every render refreshes it with what components set directly.
+  const flowStateRef = useRef<GameFlowState>(gameFlows.createInitialGameFlowState());
+  flowStateRef.current = {
+    characterData: characterSystem.characterData,
+    locationData: gameSession.locationData,
+    currentCoordinates: gameSession.currentCoordinates,
+    visitedLocations: gameSession.visitedLocations,
+    playerInventory: gameSession.playerInventory,
+    locationItems: gameSession.locationItems,
+    locationNPCs: gameSession.locationNPCs,
+    memorableEntities: memorySystem.memorableEntities,
+    majorPlotPoints: memorySystem.majorPlotPoints,
+    potentialDiscoveries: memorySystem.potentialDiscoveries,
+    gameLog,
+    isEventActive,
+    currentEventImageUrl,
+    currentEventDetails,
+    currentDirectives,
+    playerCommandCount,
+    worldState: worldSystem.worldState,
+    gameRulesPreset,
+    talkingToNPC: gameSession.talkingToNPC,
+    isGeneratingEvent: gameSession.isGeneratingEvent,
+  };
 
-  const addLogEntry = useCallback((type: GameLogEntry['type'], text: string, processedText?: string) => {
-    addLogEntryHook(type, text, processedText);
-  }, [addLogEntryHook]);
+  const {
+    setLocationData, setCurrentCoordinates, setVisitedLocations, setPlayerInventory, setLocationItems, setLocationNPCs,
+    setTalkingToNPC, setIsGeneratingEvent, setIsLoading, setLoadingMessage, setEventLoadingMessage, getLocationWorkSignal,
+    setIsLoadingItems, setItemsError, setIsLoadingNPCs, setNpcsError, setIsPickingUpItem, setIsUsingItem, setIsApplyingToLimb,
+    setGameStarted,
+  } = gameSession;
+  const { setCharacterData } = characterSystem;
+  const { setMemorableEntities, setMajorPlotPoints, setPotentialDiscoveries } = memorySystem;
+  const { setWorldState } = worldSystem;
+
+  const gameFlowHost = useMemo((): GameFlowHost => {
+    const setters: GameFlowSetters = {
+      characterData: setCharacterData,
+      locationData: setLocationData,
+      currentCoordinates: setCurrentCoordinates, // Aborts the work tied to the old location
+      visitedLocations: setVisitedLocations,
+      playerInventory: setPlayerInventory,
+      locationItems: setLocationItems,
+      locationNPCs: setLocationNPCs,
+      memorableEntities: setMemorableEntities,
+      majorPlotPoints: setMajorPlotPoints,
+      potentialDiscoveries: setPotentialDiscoveries,
+      gameLog: setGameLog,
+      isEventActive: setIsEventActive,
+      currentEventImageUrl: setCurrentEventImageUrl,
+      currentEventDetails: setCurrentEventDetails,
+      currentDirectives: setCurrentDirectives,
+      playerCommandCount: setPlayerCommandCount,
+      worldState: setWorldState,
+      gameRulesPreset: setGameRulesPreset,
+      talkingToNPC: setTalkingToNPC,
+      isGeneratingEvent: setIsGeneratingEvent,
+    };
+    const setActivity = (activity: GameFlowActivity, active: boolean, message: string, subjectId?: string) => {
+      switch (activity) {
+        case 'world_creation': setLoadingMessage(message); break; // useGameInitialization owns isLoading
+        case 'event': setEventLoadingMessage(active ? message : null); break;
+        case 'movement': setIsLoading(active); setLoadingMessage(message); break;
+        case 'examine': case 'item_identification': setLoadingMessage(message); break;
+        case 'item_search': setIsLoadingItems(active); if (active) setItemsError(null); break;
+        case 'npc_search': setIsLoadingNPCs(active); if (active) setNpcsError(null); break;
+        case 'item_pickup': setIsPickingUpItem(active ? subjectId ?? null : null); break;
+        case 'item_use': setIsUsingItem(active ? subjectId ?? null : null); break;
+        case 'limb_application': setIsApplyingToLimb(active ? subjectId ?? null : null); break;
+        case 'revival': break; // useDefeatHandling shows its own progress
+      }
+    };
+    return {
+      getState: () => flowStateRef.current,
+      update: changes => {
+        flowStateRef.current = { ...flowStateRef.current, ...changes };
+        (Object.keys(changes) as (keyof GameFlowState)[]).forEach(key => {
+          (setters[key] as (value: unknown) => void)(changes[key]);
+        });
+      },
+      addLogEntry: (type, text, processedText) => {
+        const entry = addLogEntryHook(type, text, processedText);
+        flowStateRef.current = { ...flowStateRef.current, gameLog: [...flowStateRef.current.gameLog, entry] };
+      },
+      requestCheckpoint,
+      getLocationWorkSignal,
+      beginActivity: (activity, message, subjectId) => setActivity(activity, true, message, subjectId),
+      endActivity: activity => setActivity(activity, false, ''),
+      onWorldCreated: () => setGameStarted(true),
+      onSearchFailed: (search, message) => (search === 'items' ? setItemsError : setNpcsError)(message),
+    };
+  }, [
+    addLogEntryHook, setGameLog, requestCheckpoint, getLocationWorkSignal, setCharacterData, setLocationData, setCurrentCoordinates,
+    setVisitedLocations, setPlayerInventory, setLocationItems, setLocationNPCs, setMemorableEntities, setMajorPlotPoints,
+    setPotentialDiscoveries, setWorldState, setTalkingToNPC, setIsGeneratingEvent, setIsLoading, setLoadingMessage,
+    setEventLoadingMessage, setIsLoadingItems, setItemsError, setIsLoadingNPCs, setNpcsError, setIsPickingUpItem,
+    setIsUsingItem, setIsApplyingToLimb, setGameStarted
+  ]);
+
+  const addLogEntry = gameFlowHost.addLogEntry;
 
   const _consumeEnergy = useCallback((amount: number, relevantSkillName?: string) => {
-    const { wasDefeated } = characterSystem.consumeEnergyLogic(amount, addLogEntry, relevantSkillName);
-    if (wasDefeated) {
-      // Defeat message now handled by consumeEnergyLogic if it needs to addLogEntry directly or handled by caller
-    }
-  }, [characterSystem.consumeEnergyLogic, addLogEntry]);
+    gameFlows.consumeEnergy(gameFlowHost, amount, relevantSkillName);
+  }, [gameFlowHost]);
 
   const _gainSkillExperience = useCallback((skillName: string, amount: number) => {
-    const oldLevel = characterSystem.characterData?.skills.find(s => s.name === skillName)?.level;
-    characterSystem.gainSkillExperienceLogic(skillName, amount, addLogEntry);
-    const newCharData = characterSystem.characterData;
-    const newLevel = newCharData?.skills.find(s => s.name === skillName)?.level;
-    if (amount > 0) addLogEntry('system', `Gained ${amount}XP in ${skillName}.`);
-    if (oldLevel !== undefined && newLevel !== undefined && newLevel > oldLevel) {
-        if (newLevel === 1 && oldLevel === 0) addLogEntry('game_event', `You learned ${skillName} (Level ${newLevel})!`);
-        else addLogEntry('game_event', `${skillName} increased to Level ${newLevel}!`);
-    }
-  }, [characterSystem.gainSkillExperienceLogic, characterSystem.characterData, addLogEntry]);
+    gameFlows.gainSkillExperience(gameFlowHost, skillName, amount);
+  }, [gameFlowHost]);
 
   const addMemorableEntity = useCallback((
     entityId: string, name: string, type: MemorableEntityType, rarity: MemorableEntityRarity,
     descriptionHint: string, firstEncounteredContext: string
   ) => {
-    const { entityAddedOrUpdated, newEntity } = memorySystem.addMemorableEntityLogic(entityId, name, type, rarity, descriptionHint, firstEncounteredContext);
-    if (entityAddedOrUpdated && newEntity && newEntity.type !== 'lore_hint') {
-      addLogEntry('system', `Key entity noted: ${newEntity.name} (${newEntity.type}, ${newEntity.rarity}).`);
-    }
-  }, [memorySystem.addMemorableEntityLogic, addLogEntry]);
+    gameFlows.addMemorableEntity(gameFlowHost, entityId, name, type, rarity, descriptionHint, firstEncounteredContext);
+  }, [gameFlowHost]);
 
-  const addMajorPlotPoint = useCallback((
-    summary: string, involvedEntityIds?: string[], locationName?: string
-  ) => {
-    const { plotPointAdded, newPlotPoint } = memorySystem.addMajorPlotPointLogic(summary, involvedEntityIds, locationName);
-    if (plotPointAdded && newPlotPoint) {
-      addLogEntry('game_event', `PLOT UPDATE: ${newPlotPoint.summary}`);
-      // Consider triggering Game Director analysis after major plot points
-      // internalTriggerGameDirectorAnalysis(true); // force analysis
-    }
-  }, [memorySystem.addMajorPlotPointLogic, addLogEntry /*, internalTriggerGameDirectorAnalysis*/]);
-
-  const addPotentialDiscovery = useCallback(async (
-    discoveryData: Omit<PotentialDiscovery, 'id' | 'status' | 'firstMentionedTimestamp' | 'firstMentionedLocationKey' | 'fulfilledById'>,
-    baseId: string,
-    locationKey: string
-  ): Promise<void> => {
-    const { newDiscovery, duplicatePrevented, preConfirmedLead } = await memorySystem.addPotentialDiscoveryLogic(
-        discoveryData, baseId, locationKey, memorySystem.getMemoryContextString, memorySystem.memorableEntities
-    );
-    if (preConfirmedLead) {
-        addLogEntry('system', `Hint for '${preConfirmedLead.name}' already known and confirmed.`);
-    } else if (newDiscovery) {
-      addLogEntry('system', `Lore hint: Heard of a ${newDiscovery.type} named '${newDiscovery.name}'.`);
-    } else if (duplicatePrevented) {
-      addLogEntry('system', `A similar hint about '${discoveryData.name}' already exists.`);
-    }
-  }, [memorySystem.addPotentialDiscoveryLogic, memorySystem.getMemoryContextString, memorySystem.memorableEntities, addLogEntry]);
+  const addMajorPlotPoint = useCallback((summary: string, involvedEntityIds?: string[], locationName?: string) => {
+    gameFlows.addMajorPlotPoint(gameFlowHost, summary, involvedEntityIds, locationName);
+  }, [gameFlowHost]);
+
+  const addPotentialDiscovery = useCallback((discoveryData: PotentialDiscoveryData, baseId: string, locationKey: string) =>
+    gameFlows.addPotentialDiscovery(gameFlowHost, discoveryData, baseId, locationKey),
+  [gameFlowHost]);
 
   const markPotentialDiscoveryFound = useCallback((id: string, actualGeneratedEntityId?: string) => {
-    const { updatedDiscovery } = memorySystem.markPotentialDiscoveryFoundLogic(id, actualGeneratedEntityId);
-    if (updatedDiscovery) {
-      addLogEntry('game_event', `Discovered: ${updatedDiscovery.name} (previously hinted at)!`);
-    }
-  }, [memorySystem.markPotentialDiscoveryFoundLogic, addLogEntry]);
-
-  const clearMemorySystem = useCallback(() => {
-    memorySystem.clearMemorySystemLogic();
-    addLogEntry('system', "Memory systems cleared for new game.");
-  }, [memorySystem.clearMemorySystemLogic, addLogEntry]);
-
-  const eventSystemDeps: UseEventSystemDeps = {
-    characterData: characterSystem.characterData,
-    locationData: gameSession.locationData,
-    playerInventory: gameSession.playerInventory,
-    gameLog: gameLog,
-    currentCoordinates: gameSession.currentCoordinates,
-    talkingToNPC: gameSession.talkingToNPC,
-    locationNPCs: gameSession.locationNPCs,
-    potentialDiscoveries: memorySystem.potentialDiscoveries,
-    isGeneratingEvent: gameSession.isGeneratingEvent,
-    lastEventTimestamp: gameSession.lastEventTimestamp,
-
-    setCharacterData: characterSystem.setCharacterData,
-    setLocationData: gameSession.setLocationData,
-    setPlayerInventory: gameSession.setPlayerInventory,
-    setVisitedLocations: gameSession.setVisitedLocations,
-    setLocationItems: gameSession.setLocationItems,
-    setLocationNPCs: gameSession.setLocationNPCs,
-    setTalkingToNPC: gameSession.setTalkingToNPC,
-    setIsGeneratingEvent: gameSession.setIsGeneratingEvent,
-    setEventLoadingMessage: gameSession.setEventLoadingMessage,
-    setLastEventTimestamp: gameSession.setLastEventTimestamp,
-
-    addLogEntry,
-    gainSkillExperienceLogic: characterSystem.gainSkillExperienceLogic,
-    addMajorPlotPointLogic: memorySystem.addMajorPlotPointLogic,
-    addMemorableEntityLogic: memorySystem.addMemorableEntityLogic,
-    getMemoryContextString: memorySystem.getMemoryContextString,
-    markPotentialDiscoveryFoundLogic: memorySystem.markPotentialDiscoveryFoundLogic,
-    consumeEnergyLogic: characterSystem.consumeEnergyLogic,
-    addPotentialDiscovery,
+    gameFlows.markPotentialDiscoveryFound(gameFlowHost, id, actualGeneratedEntityId);
+  }, [gameFlowHost]);
 
-    isEventActive,
-    setIsEventActive,
-    currentEventImageUrl,
-    setCurrentEventImageUrl,
-    currentEventDetails,
-    setCurrentEventDetails,
-    // Game Director context for event service
-    currentDirectives,
-  };
+  const clearMemorySystem = useCallback(() => gameFlows.clearMemorySystem(gameFlowHost), [gameFlowHost]);
 
-  const {
-    applyEventEffects,
-    attemptToTriggerUnexpectedEvent,
-    handlePlayerInitiatedSignificantAction,
-  } = useEventSystem(eventSystemDeps);
+  const getMemoryContextString = useCallback(() => gameFlows.getMemoryContextString(gameFlowHost), [gameFlowHost]);
+
+  const attemptToTriggerUnexpectedEvent = useCallback((triggerContext: string) =>
+    gameFlows.attemptToTriggerUnexpectedEvent(gameFlowHost, triggerContext),
+  [gameFlowHost]);
+
+  const advanceWorldTime = useCallback((minutes: number, coordinates?: Coordinates) =>
+    gameFlows.advanceWorldTime(gameFlowHost, minutes, coordinates),
+  [gameFlowHost]);
+
+  const changeWeather = useCallback((description: string, condition?: WeatherCondition | null, coordinates?: Coordinates) => {
+    gameFlows.changeWeather(gameFlowHost, description, condition, coordinates);
+  }, [gameFlowHost]);
 
+  const getWorldContextString = useCallback((coordinates?: Coordinates) =>
+    gameFlows.getWorldContextString(gameFlowHost, coordinates),
+  [gameFlowHost]);
 
   const contextValue: GameContextState = {
     ...memorySystem,
     ...characterSystem,
     ...gameSession,
+    ...worldSystem,
     gameLog, addLogEntry, setGameLog,
+    gameFlowHost,
     addMemorableEntity,
     addMajorPlotPoint,
     addPotentialDiscovery,
     markPotentialDiscoveryFound,
     clearMemorySystem,
+    getMemoryContextString,
+    advanceWorldTime,
+    changeWeather,
+    getWorldContextString,
     _consumeEnergy,
     _gainSkillExperience,
-    applyEventEffects,
     attemptToTriggerUnexpectedEvent,
-    handlePlayerInitiatedSignificantAction,
     isEventActive,
     setIsEventActive,
     currentEventImageUrl,
     setCurrentEventImageUrl,
     currentEventDetails,
     setCurrentEventDetails,
-    setItemToViewInModal,
-    setNpcToViewInModal,
-    setLocationToViewInModal,
-    setSelectedLocationCoordinateKeyForModal,
     // Game Director
     currentDirectives,
     setCurrentDirectives,
     triggerGameDirectorAnalysis: internalTriggerGameDirectorAnalysis, // Provide the trigger
     playerCommandCount,
-    incrementPlayerCommandCount,
+    setPlayerCommandCount,
+    gameRulesPreset,
+    setGameRulesPreset,
+    gameRules,
+    difficultyMode,
+    setDifficultyMode,
+    runId,
+    setRunId,
+    checkpointRequest,
+    requestCheckpoint,
   };
 
   return <GameContext.Provider value={contextValue}>{children}</GameContext.Provider>;
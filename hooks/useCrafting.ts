@@ -1,9 +1,10 @@
 
 // hooks/useCrafting.ts
 import { useState, useCallback } from 'react';
-import { GameItem, CharacterData, CraftingRecipe, CraftingDetails, DynamicCraftingOutcome, ItemRarity, PotentialDiscovery } from '../services/gameTypes';
+import { GameItem, CharacterData, CraftingRecipe, CraftingDetails, DynamicCraftingOutcome, PotentialDiscovery } from '../services/gameTypes';
 import { generateCraftedItemDetailsAndNarration, guessDynamicCraftingOutcome } from '../services/itemService';
 import { useGameContext } from '../contexts/GameContext'; 
+import { WORLD_CLOCK_CONFIG } from '../services/config/gameConstants';
 import { linkGeneratedEntityToLead } from '../services/loreService'; // Added for predefined recipe lead linking
 
 const recipes: CraftingRecipe[] = [ /* ... (recipes as before) ... */ ];
@@ -16,7 +17,8 @@ export const useCrafting = ({}: UseCraftingProps) => {
     _consumeEnergy, _gainSkillExperience, attemptToTriggerUnexpectedEvent,
     addMemorableEntity, getMemoryContextString, locationData, 
     potentialDiscoveries, // Destructure potentialDiscoveries
-    markPotentialDiscoveryFound // Added for lead fulfillment
+    markPotentialDiscoveryFound, // Added for lead fulfillment
+    advanceWorldTime, gameRules
   } = useGameContext();
 
   const [craftingSlots, setCraftingSlots] = useState<(GameItem | null)[]>(Array(NUM_CRAFTING_SLOTS).fill(null));
@@ -33,23 +35,13 @@ export const useCrafting = ({}: UseCraftingProps) => {
     if (itemInSlot) addLogEntry('system', `Removed ${itemInSlot.name} from slot ${slotIndex + 1}.`);
   }, [craftingSlots, addLogEntry]);
 
-  const getXpForRarity = (rarity: ItemRarity): number => { 
-    switch(rarity) {
-        case 'Common': return 5;
-        case 'Uncommon': return 10;
-        case 'Rare': return 20;
-        case 'Epic': return 50;
-        case 'Legendary': return 100;
-        default: return 0;
-    }
-  };
-
   const handleAttemptCraft = useCallback(async () => {
     if (!characterData) return;
     if (characterData.isDefeated) { addLogEntry('system', "Too weak to craft."); return; }
     const itemsInSlotsUnfiltered = craftingSlots.filter(item => item !== null) as GameItem[];
     if (itemsInSlotsUnfiltered.length === 0) { addLogEntry('system', 'Place items in slots.'); return; }
-    _consumeEnergy(3, "Crafting");  // Reduced energy cost for crafting
+    _consumeEnergy(gameRules.energyCosts.craft, "Crafting");
+    advanceWorldTime(WORLD_CLOCK_CONFIG.minutesPerAction.craft);
     const freshCharacterData = characterData; 
     if (freshCharacterData.isDefeated) return;
 
@@ -101,7 +93,7 @@ export const useCrafting = ({}: UseCraftingProps) => {
             addMemorableEntity(result.craftedItem.id, result.craftedItem.name, 'item', result.craftedItem.rarity, result.craftedItem.description.substring(0,50) + "...", `Crafted in ${locationData?.name || 'current area'}`);
             addLogEntry('narration', result.narration);
             addLogEntry('game_event', `Crafted ${result.craftedItem.name} (Rarity: ${result.craftedItem.rarity}).`);
-            _gainSkillExperience("Crafting", getXpForRarity(result.craftedItem.rarity) * 0.5); 
+            _gainSkillExperience("Crafting", gameRules.skillXp.craftByRarity[result.craftedItem.rarity] * gameRules.skillXp.recipeCraftShare);
             setCraftingSlots(Array(NUM_CRAFTING_SLOTS).fill(null));
             
             // Link predefined recipe output to leads
@@ -128,7 +120,7 @@ export const useCrafting = ({}: UseCraftingProps) => {
             addMemorableEntity(result.newItem.id, result.newItem.name, 'item', result.newItem.rarity, result.newItem.description.substring(0,50) + "...", `Dynamically crafted in ${locationData?.name || 'current area'}`);
             addLogEntry('narration', result.narration);
             addLogEntry('game_event', `Experimentally crafted ${result.newItem.name} (Rarity: ${result.newItem.rarity}).`);
-            _gainSkillExperience("Crafting", getXpForRarity(result.newItem.rarity)); 
+            _gainSkillExperience("Crafting", gameRules.skillXp.craftByRarity[result.newItem.rarity]);
 
             // Handle lead fulfillment from dynamic crafting
             if (result.fulfilledLeadId) {
@@ -157,8 +149,8 @@ export const useCrafting = ({}: UseCraftingProps) => {
     }
   }, [
     craftingSlots, characterData, playerInventory, setPlayerInventory, addLogEntry, 
-    _consumeEnergy, _gainSkillExperience, attemptToTriggerUnexpectedEvent,
-    addMemorableEntity, getMemoryContextString, locationData?.name, locationData?.visualPromptHint, 
+    _consumeEnergy, _gainSkillExperience, attemptToTriggerUnexpectedEvent, gameRules,
+    addMemorableEntity, getMemoryContextString, advanceWorldTime, locationData?.name, locationData?.visualPromptHint, 
     potentialDiscoveries, // Added potentialDiscoveries to dependency array
     markPotentialDiscoveryFound // Added markPotentialDiscoveryFound
   ]); 
@@ -0,0 +1,59 @@
+// hooks/useDefeatHandling.ts
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useGameContext } from '../contexts/GameContext';
+import { reviveInStoryMode as runStoryRevival } from '../services/gameFlows';
+import { UseSaveGameReturn } from './useSaveGame';
+
+interface UseDefeatHandlingProps {
+  eraseRunSaves: UseSaveGameReturn['eraseRunSaves'];
+}
+
+export interface UseDefeatHandlingReturn {
+  isReviving: boolean;
+  revivalError: string | null;
+  retryRevival: () => void;
+  erasedSaveCount: number | null; // Permadeath: save slots erased when the run ended
+}
+
+// Acts the moment the character is defeated, by difficulty: Story brings them back with a price the LLM
+// narrates, Permadeath erases the run's saves. Checkpoint leaves the choice to the game over screen.
+export const useDefeatHandling = ({ eraseRunSaves }: UseDefeatHandlingProps): UseDefeatHandlingReturn => {
+  const { gameFlowHost, characterData, difficultyMode } = useGameContext();
+  const [isReviving, setIsReviving] = useState(false);
+  const [revivalError, setRevivalError] = useState<string | null>(null);
+  const [erasedSaveCount, setErasedSaveCount] = useState<number | null>(null);
+
+  // The revival itself is services/gameFlows (defeatFlows); a failure is offered for retry.
+  const reviveInStoryMode = useCallback(async () => {
+    setIsReviving(true);
+    setRevivalError(null);
+    try {
+      await runStoryRevival(gameFlowHost);
+    } catch (e: any) {
+      console.error("Story revival failed:", e);
+      setRevivalError(e.message || "The story could not find a way back for you.");
+    } finally {
+      setIsReviving(false);
+    }
+  }, [gameFlowHost]);
+
+  const wasDefeatedRef = useRef(false);
+  useEffect(() => {
+    const isDefeated = !!characterData?.isDefeated;
+    const justDefeated = isDefeated && !wasDefeatedRef.current;
+    wasDefeatedRef.current = isDefeated;
+    if (!justDefeated) return;
+    if (difficultyMode === 'Story') {
+      reviveInStoryMode();
+    } else if (difficultyMode === 'Permadeath') {
+      setErasedSaveCount(eraseRunSaves());
+    }
+  }, [characterData?.isDefeated, difficultyMode, reviveInStoryMode, eraseRunSaves]);
+
+  return {
+    isReviving,
+    revivalError,
+    retryRevival: reviveInStoryMode,
+    erasedSaveCount,
+  };
+};
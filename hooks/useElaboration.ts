@@ -5,6 +5,7 @@ import { useGameContext } from '../contexts/GameContext';
 import { CharacterData, GameItem, GameNPC, FullLocationData, PotentialDiscovery } from '../services/gameTypes';
 import { ProcessedTextWithDiscoveries } from '../services/loreService';
 import { parseLoreTagsToReactNode } from '../utils/textUtils';
+import { getCoordinateKey } from '../services/gameEngine';
 
 type Entity = GameItem | GameNPC | FullLocationData;
 type ElaborationServiceFn<T extends Entity> = (
@@ -80,7 +81,7 @@ export const useEntityElaboration = <T extends Entity>({
 
     try {
       const memoryContext = getMemoryContextString();
-      const locationKey = `${currentCoordinates.x},${currentCoordinates.y}`;
+      const locationKey = getCoordinateKey(currentCoordinates);
       
       const elaborationResult: ProcessedTextWithDiscoveries = await elaborationServiceFn(
         entity,
@@ -5,13 +5,16 @@ import { useGameContext } from '../contexts/GameContext';
 import { CharacterData, GameItem, GameNPC, FullLocationData, PotentialDiscovery } from '../services/gameTypes';
 import { ProcessedTextWithDiscoveries } from '../services/loreService';
 import { parseLoreTagsToReactNode } from '../utils/textUtils'; // Ensure this path is correct
+import { getCoordinateKey } from '../services/gameEngine';
+import { isAbortError } from '../services/utils/abortUtils';
 
 type Entity = GameItem | GameNPC | FullLocationData;
 type ElaborationServiceFn<T extends Entity> = (
   entity: T,
   characterData: CharacterData,
   currentLocationKey: string,
-  memoryContextString: string
+  memoryContextString: string,
+  signal?: AbortSignal
 ) => Promise<ProcessedTextWithDiscoveries>;
 
 interface UseEntityElaborationProps<T extends Entity> {
@@ -40,7 +43,7 @@ export const useEntityElaboration = <T extends Entity>({
 }: UseEntityElaborationProps<T>) => {
   const {
     addElaboratingEntityId, removeElaboratingEntityId, elaboratingEntityIds,
-    getMemoryContextString, currentCoordinates,
+    getMemoryContextString, currentCoordinates, getLocationWorkSignal,
   } = useGameContext();
 
   const [internalDescription, setInternalDescription] = useState<string>(initialDescription);
@@ -82,17 +85,20 @@ export const useEntityElaboration = <T extends Entity>({
 
     setIsLocallyElaborating(true);
     addElaboratingEntityId(entityId);
+    const signal = getLocationWorkSignal();
 
     try {
       const memoryContext = getMemoryContextString();
-      const locationKey = `${currentCoordinates.x},${currentCoordinates.y}`;
+      const locationKey = getCoordinateKey(currentCoordinates);
 
       const elaborationResult: ProcessedTextWithDiscoveries = await elaborationServiceFn(
         entity,
         characterData,
         locationKey,
-        memoryContext
+        memoryContext,
+        signal
       );
+      if (signal.aborted) return; // The player moved on; the text belongs to a location they left
 
       setInternalDescription(elaborationResult.processedText); 
       setHasElaboratedForCurrentEntity(true); // Mark that this modal instance has elaborated.
@@ -105,6 +111,7 @@ export const useEntityElaboration = <T extends Entity>({
       );
 
     } catch (error) {
+      if (isAbortError(error) || signal.aborted) return; // Left unelaborated so it can be tried again
       console.error(`Error elaborating on entity ${entityId}:`, error);
       const errorText = internalDescription + "\n\n(Could not retrieve more details at this time.)";
       setInternalDescription(errorText);
@@ -116,7 +123,7 @@ export const useEntityElaboration = <T extends Entity>({
   }, [
     characterData, entity, entityId, elaborationServiceFn, onSuccess,
     addElaboratingEntityId, removeElaboratingEntityId, getMemoryContextString,
-    currentCoordinates, internalDescription 
+    currentCoordinates, internalDescription, getLocationWorkSignal
   ]);
 
   const canElaborate = useMemo(() => {
@@ -1,16 +1,20 @@
 // hooks/useGameLog.ts
 import { useState, useCallback } from 'react';
 import { GameLogEntry } from '../services/gameTypes'; // Import from centralized types
+import { getLlmTraceRecorder } from '../services/geminiClient';
 
 export const useGameLog = () => {
   const [gameLog, setGameLog] = useState<GameLogEntry[]>([]);
 
-  const addLogEntry = useCallback((type: GameLogEntry['type'], text: string, processedText?: string) => {
-    setGameLog(prevLog => [
-      ...prevLog,
-      { id: crypto.randomUUID(), type, text, processedText, timestamp: new Date() }
-    ]);
+  // Returns the new entry so the game flow host can keep its own copy of the log current.
+  const addLogEntry = useCallback((type: GameLogEntry['type'], text: string, processedText?: string): GameLogEntry => {
+    const id = crypto.randomUUID();
+    getLlmTraceRecorder().linkLogEntry({ id, type, text }); // Ties the LLM calls behind this line to it in the trace inspector
+    const entry: GameLogEntry = { id, type, text, processedText, timestamp: new Date() };
+    setGameLog(prevLog => [...prevLog, entry]);
+    return entry;
   }, []);
 
   return { gameLog, addLogEntry, setGameLog }; // Expose setGameLog for resetGameState
 };
+
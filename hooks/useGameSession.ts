@@ -1,6 +1,6 @@
 
 // hooks/useGameSession.ts
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import {
   FullLocationData,
   GameItem,
@@ -8,6 +8,7 @@ import {
 // Corrected import path for Coordinates and VisitedLocationEntry
 } from '../services/gameTypes';
 import { Coordinates, VisitedLocationEntry } from '../contexts/GameContext';
+import { getCoordinateKey } from '../services/gameEngine';
 
 export interface UseGameSessionReturn {
   gameStarted: boolean;
@@ -41,13 +42,33 @@ export interface UseGameSessionReturn {
   setIsGeneratingEvent: React.Dispatch<React.SetStateAction<boolean>>;
   eventLoadingMessage: string | null;
   setEventLoadingMessage: React.Dispatch<React.SetStateAction<string | null>>;
-  lastEventTimestamp: number | null;
-  setLastEventTimestamp: React.Dispatch<React.SetStateAction<number | null>>;
+
+  // Progress of the game flows, shown on the buttons that started them (see GameContext's host).
+  isLoadingItems: boolean;
+  setIsLoadingItems: React.Dispatch<React.SetStateAction<boolean>>;
+  itemsError: string | null;
+  setItemsError: React.Dispatch<React.SetStateAction<string | null>>;
+  isLoadingNPCs: boolean;
+  setIsLoadingNPCs: React.Dispatch<React.SetStateAction<boolean>>;
+  npcsError: string | null;
+  setNpcsError: React.Dispatch<React.SetStateAction<string | null>>;
+  isPickingUpItem: string | null; // Item id
+  setIsPickingUpItem: React.Dispatch<React.SetStateAction<string | null>>;
+  isUsingItem: string | null; // Item id
+  setIsUsingItem: React.Dispatch<React.SetStateAction<string | null>>;
+  isApplyingToLimb: string | null; // "itemId-limbId"
+  setIsApplyingToLimb: React.Dispatch<React.SetStateAction<string | null>>;
 
   elaboratingEntityIds: ReadonlySet<string>;
   addElaboratingEntityId: (entityId: string) => void;
   removeElaboratingEntityId: (entityId: string) => void;
 
+  // Generation tied to the current location (item/NPC searches, elaborations) runs under this signal.
+  // It is aborted as soon as the player moves to other coordinates, or when cancelLocationWork is
+  // called (new game, loaded save). Check signal.aborted after every await before writing state.
+  getLocationWorkSignal: () => AbortSignal;
+  cancelLocationWork: () => void;
+
   // Modal States & Handlers are REMOVED from here
 }
 
@@ -55,7 +76,7 @@ export const useGameSession = (): UseGameSessionReturn => {
   const [gameStarted, setGameStarted] = useState<boolean>(false);
   const [locationData, setLocationData] = useState<FullLocationData | null>(null);
   const [playerInventory, setPlayerInventory] = useState<GameItem[]>([]);
-  const [currentCoordinates, setCurrentCoordinates] = useState<Coordinates>({ x: 0, y: 0 });
+  const [currentCoordinates, setCurrentCoordinatesState] = useState<Coordinates>({ x: 0, y: 0, z: 0 });
   const [visitedLocations, setVisitedLocations] = useState<Map<string, VisitedLocationEntry>>(new Map());
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -69,12 +90,37 @@ export const useGameSession = (): UseGameSessionReturn => {
 
   const [isGeneratingEvent, setIsGeneratingEvent] = useState<boolean>(false);
   const [eventLoadingMessage, setEventLoadingMessage] = useState<string | null>(null);
-  const [lastEventTimestamp, setLastEventTimestamp] = useState<number | null>(null);
+
+  const [isLoadingItems, setIsLoadingItems] = useState<boolean>(false);
+  const [itemsError, setItemsError] = useState<string | null>(null);
+  const [isLoadingNPCs, setIsLoadingNPCs] = useState<boolean>(false);
+  const [npcsError, setNpcsError] = useState<string | null>(null);
+  const [isPickingUpItem, setIsPickingUpItem] = useState<string | null>(null);
+  const [isUsingItem, setIsUsingItem] = useState<string | null>(null);
+  const [isApplyingToLimb, setIsApplyingToLimb] = useState<string | null>(null);
 
   const [elaboratingEntityIdsInternal, setElaboratingEntityIdsInternal] = useState<Set<string>>(new Set());
 
   // Modal States & Handlers are REMOVED from here
 
+  const locationWorkControllerRef = useRef(new AbortController());
+  const currentCoordinatesRef = useRef(currentCoordinates);
+
+  const getLocationWorkSignal = useCallback(() => locationWorkControllerRef.current.signal, []);
+
+  const cancelLocationWork = useCallback(() => {
+    locationWorkControllerRef.current.abort();
+    locationWorkControllerRef.current = new AbortController();
+  }, []);
+
+  // Aborts synchronously, before React re-renders, so no stale continuation can slip in between.
+  const setCurrentCoordinates = useCallback<React.Dispatch<React.SetStateAction<Coordinates>>>(value => {
+    const next = typeof value === 'function' ? value(currentCoordinatesRef.current) : value;
+    if (getCoordinateKey(next) !== getCoordinateKey(currentCoordinatesRef.current)) cancelLocationWork();
+    currentCoordinatesRef.current = next;
+    setCurrentCoordinatesState(next);
+  }, [cancelLocationWork]);
+
   const addElaboratingEntityId = useCallback((entityId: string) => {
     setElaboratingEntityIdsInternal(prev => new Set(prev).add(entityId));
   }, []);
@@ -102,10 +148,18 @@ export const useGameSession = (): UseGameSessionReturn => {
     talkingToNPC, setTalkingToNPC,
     isGeneratingEvent, setIsGeneratingEvent,
     eventLoadingMessage, setEventLoadingMessage,
-    lastEventTimestamp, setLastEventTimestamp,
+    isLoadingItems, setIsLoadingItems,
+    itemsError, setItemsError,
+    isLoadingNPCs, setIsLoadingNPCs,
+    npcsError, setNpcsError,
+    isPickingUpItem, setIsPickingUpItem,
+    isUsingItem, setIsUsingItem,
+    isApplyingToLimb, setIsApplyingToLimb,
     elaboratingEntityIds: elaboratingEntityIdsInternal,
     addElaboratingEntityId,
     removeElaboratingEntityId,
+    getLocationWorkSignal,
+    cancelLocationWork,
 
     // Modal state and handlers are REMOVED from here
   };
@@ -0,0 +1,28 @@
+// hooks/useImageUrl.ts
+import { useState, useEffect } from 'react';
+import { getImageRepository } from '../services/geminiClient';
+import { isImageRef } from '../services/images';
+
+// Resolves an image ref from game state into a URL an <img> can load. Plain URLs pass straight through.
+// Returns undefined while a stored image is still being read.
+export const useImageUrl = (src: string | null | undefined): string | undefined => {
+  const [resolvedUrl, setResolvedUrl] = useState<string | undefined>(() => (src ? getImageRepository().peekUrl(src) ?? undefined : undefined));
+
+  useEffect(() => {
+    if (!src) { setResolvedUrl(undefined); return; }
+    if (!isImageRef(src)) { setResolvedUrl(src); return; }
+
+    const repository = getImageRepository();
+    const known = repository.peekUrl(src);
+    if (known) { setResolvedUrl(known); return; }
+
+    let cancelled = false;
+    setResolvedUrl(undefined);
+    repository.resolveUrl(src)
+      .then(url => { if (!cancelled) setResolvedUrl(url ?? undefined); })
+      .catch(error => console.error(`Failed to load stored image ${src}:`, error));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  return resolvedUrl;
+};
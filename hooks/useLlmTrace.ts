@@ -0,0 +1,14 @@
+// hooks/useLlmTrace.ts
+import { useState, useEffect } from 'react';
+import { getLlmTraceRecorder } from '../services/geminiClient';
+import { LlmTraceRecorder } from '../services/llm';
+
+// Re-renders the caller whenever a call is traced or a log entry is linked to one.
+export const useLlmTrace = (): LlmTraceRecorder => {
+  const recorder = getLlmTraceRecorder();
+  const [, setVersion] = useState(0);
+
+  useEffect(() => recorder.subscribe(() => setVersion(version => version + 1)), [recorder]);
+
+  return recorder;
+};
@@ -0,0 +1,14 @@
+// hooks/useLlmUsage.ts
+import { useState, useEffect } from 'react';
+import { getLlmUsageTracker } from '../services/geminiClient';
+import { LlmUsageTracker } from '../services/llm';
+
+// Re-renders the caller whenever a call is recorded or the budget changes.
+export const useLlmUsage = (): LlmUsageTracker => {
+  const tracker = getLlmUsageTracker();
+  const [, setVersion] = useState(0);
+
+  useEffect(() => tracker.subscribe(() => setVersion(version => version + 1)), [tracker]);
+
+  return tracker;
+};
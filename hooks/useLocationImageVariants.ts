@@ -0,0 +1,52 @@
+// hooks/useLocationImageVariants.ts
+import { useEffect, useRef } from 'react';
+import { FullLocationData } from '../services/gameTypes';
+import { useGameContext } from '../contexts/GameContext';
+import { generateLocationImage } from '../services/locationService';
+import { API_KEY, getLlmSettings } from '../services/geminiClient';
+import { getCoordinateKey, getLocationImageVariant, getTimeOfDay, isShelteredFromWeather, setLocationImageVariant } from '../services/gameEngine';
+import { isAbortError } from '../services/utils/abortUtils';
+
+// Shows the current location as it looks at this time of day. A missing variant is generated once
+// and kept with the location, so later visits at that time of day reuse it. Underground locations
+// look the same at any hour and keep the image they have.
+export const useLocationImageVariants = () => {
+  const {
+    gameStarted, characterData, locationData, setLocationData, setVisitedLocations,
+    currentCoordinates, worldState, getLocationWorkSignal,
+  } = useGameContext();
+  const pendingRequestRef = useRef<string | null>(null);
+  const timeOfDay = getTimeOfDay(worldState.minutesElapsed);
+  const coordinateKey = getCoordinateKey(currentCoordinates);
+  const visualStyle = characterData?.visualStyle;
+
+  useEffect(() => {
+    if (!gameStarted || !visualStyle || !locationData || isShelteredFromWeather(currentCoordinates)) return;
+
+    const showVariant = (imageUrl: string) => {
+      const update = (location: FullLocationData) => setLocationImageVariant(location, timeOfDay, imageUrl);
+      setLocationData(prev => prev ? update(prev) : prev);
+      setVisitedLocations(prev => {
+        const entry = prev.get(coordinateKey);
+        return entry ? new Map(prev).set(coordinateKey, { ...entry, location: update(entry.location) }) : prev;
+      });
+    };
+
+    const variant = getLocationImageVariant(locationData, timeOfDay);
+    if (variant) {
+      if (variant !== locationData.imageUrl) showVariant(variant);
+      return;
+    }
+    if (!API_KEY || !getLlmSettings().imagesEnabled) return;
+
+    const requestKey = `${coordinateKey}:${timeOfDay}`;
+    if (pendingRequestRef.current === requestKey) return;
+    pendingRequestRef.current = requestKey;
+    // Aborted when the player moves on, so the image never lands on the next location.
+    const signal = getLocationWorkSignal();
+    generateLocationImage(locationData.visualPromptHint, locationData.name, visualStyle, timeOfDay, signal)
+      .then(imageUrl => { if (!signal.aborted) showVariant(imageUrl); })
+      .catch(err => { if (!isAbortError(err)) console.error(`Error generating the ${timeOfDay} image of ${locationData.name}:`, err); })
+      .finally(() => { if (pendingRequestRef.current === requestKey) pendingRequestRef.current = null; });
+  }, [gameStarted, visualStyle, locationData, timeOfDay, coordinateKey, currentCoordinates, setLocationData, setVisitedLocations, getLocationWorkSignal]);
+};
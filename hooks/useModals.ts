@@ -25,6 +25,9 @@ export interface UseModalsReturn {
   handleCloseLocationModal: () => void;
   handleSelectImageForViewing: (url: string, alt: string) => void;
   handleCloseImageViewModal: () => void;
+  isWorldMapOpen: boolean;
+  handleOpenWorldMap: () => void;
+  handleCloseWorldMap: () => void;
 }
 
 export const useModals = (): UseModalsReturn => {
@@ -34,6 +37,7 @@ export const useModals = (): UseModalsReturn => {
   const [selectedLocationCoordinateKeyForModal, setSelectedLocationCoordinateKeyForModal] = useState<string | null>(null);
   const [imageUrlToView, setImageUrlToView] = useState<string | null>(null);
   const [imageAltTextToView, setImageAltTextToView] = useState<string | null>(null);
+  const [isWorldMapOpen, setIsWorldMapOpen] = useState(false);
 
   const handleSelectItemForModal = useCallback((item: GameItem) => {
     setItemToViewInModal(item);
@@ -71,6 +75,14 @@ export const useModals = (): UseModalsReturn => {
     setImageAltTextToView(null);
   }, []);
 
+  const handleOpenWorldMap = useCallback(() => {
+    setIsWorldMapOpen(true);
+  }, []);
+
+  const handleCloseWorldMap = useCallback(() => {
+    setIsWorldMapOpen(false);
+  }, []);
+
   return {
     itemToViewInModal, setItemToViewInModal,
     npcToViewInModal, setNpcToViewInModal,
@@ -82,5 +94,6 @@ export const useModals = (): UseModalsReturn => {
     handleSelectNPCForModal, handleCloseNPCModal,
     handleSelectLocationForModal, handleCloseLocationModal,
     handleSelectImageForViewing, handleCloseImageViewModal,
+    isWorldMapOpen, handleOpenWorldMap, handleCloseWorldMap,
   };
 };
@@ -0,0 +1,195 @@
+// hooks/useSaveGame.ts
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useGameContext } from '../contexts/GameContext';
+import {
+  listSaveSlots, writeSaveSlot, readSaveSlot, deleteSaveSlot, listImageRefsInSaves,
+  writeCheckpoint, readCheckpoint, readCheckpointSummary, deleteCheckpoint, deleteRunSaves,
+  serializeGameState, SaveSlotSummary, CheckpointSummary, SerializableGameState, RestoredGameState
+} from '../services/saveGameService';
+import { getImageRepository } from '../services/geminiClient';
+import { collectImageRefs } from '../services/images';
+
+interface UseSaveGameProps {
+  resetGameState: () => void; // Clears modals, crafting slots etc. before a save is applied
+}
+
+export interface UseSaveGameReturn {
+  saveSlots: (SaveSlotSummary | null)[];
+  refreshSaveSlots: () => void;
+  saveToSlot: (slotId: number) => void;
+  loadFromSlot: (slotId: number) => void;
+  deleteSlot: (slotId: number) => void;
+  saveLoadError: string | null;
+  checkpoint: CheckpointSummary | null; // Last checkpoint of the run in progress (Checkpoint difficulty)
+  reloadCheckpoint: () => void;
+  eraseRunSaves: () => number;          // Permadeath: deletes the run's slots and checkpoint, returns the slot count
+}
+
+export const useSaveGame = ({ resetGameState }: UseSaveGameProps): UseSaveGameReturn => {
+  const {
+    gameFlowHost,
+    gameStarted, setGameStarted,
+    characterData, locationData, currentCoordinates, visitedLocations,
+    playerInventory, locationItems, locationNPCs,
+    memorableEntities, majorPlotPoints, potentialDiscoveries,
+    gameLog, addLogEntry,
+    isEventActive, currentEventImageUrl, currentEventDetails,
+    currentDirectives, playerCommandCount, worldState, gameRulesPreset,
+    difficultyMode, setDifficultyMode,
+    runId, setRunId,
+    checkpointRequest,
+  } = useGameContext();
+
+  const [saveSlots, setSaveSlots] = useState<(SaveSlotSummary | null)[]>(() => listSaveSlots());
+  const [saveLoadError, setSaveLoadError] = useState<string | null>(null);
+  const [checkpoint, setCheckpoint] = useState<CheckpointSummary | null>(null);
+
+  const refreshSaveSlots = useCallback(() => {
+    setSaveSlots(listSaveSlots());
+  }, []);
+
+  const buildCurrentSnapshot = useCallback((): SerializableGameState | null => {
+    if (!gameStarted || !characterData) return null;
+    return {
+      characterData, locationData, currentCoordinates, visitedLocations,
+      playerInventory, locationItems, locationNPCs,
+      memorableEntities, majorPlotPoints, potentialDiscoveries,
+      gameLog, isEventActive, currentEventImageUrl, currentEventDetails,
+      currentDirectives, playerCommandCount, worldState, gameRulesPreset, difficultyMode, runId,
+    };
+  }, [
+    gameStarted, characterData, locationData, currentCoordinates, visitedLocations,
+    playerInventory, locationItems, locationNPCs,
+    memorableEntities, majorPlotPoints, potentialDiscoveries,
+    gameLog, isEventActive, currentEventImageUrl, currentEventDetails,
+    currentDirectives, playerCommandCount, worldState, gameRulesPreset, difficultyMode, runId
+  ]);
+
+  // Saves are the only other place image refs live, so after they change, drop stored images
+  // that neither a slot nor the game in progress still points at.
+  const collectUnusedImages = useCallback(() => {
+    const refsInUse = listImageRefsInSaves();
+    const snapshot = buildCurrentSnapshot();
+    if (snapshot) collectImageRefs(serializeGameState(snapshot)).forEach(ref => refsInUse.add(ref));
+    getImageRepository().collectGarbage(refsInUse)
+      .catch(e => console.warn("Image garbage collection failed:", e));
+  }, [buildCurrentSnapshot]);
+
+  const saveToSlot = useCallback((slotId: number) => {
+    const state = buildCurrentSnapshot();
+    if (!state) {
+      setSaveLoadError("There is no game in progress to save.");
+      return;
+    }
+    try {
+      writeSaveSlot(slotId, state);
+      setSaveLoadError(null);
+      addLogEntry('system', `Game saved to slot ${slotId}.`);
+    } catch (e: any) {
+      setSaveLoadError(e.message || "Failed to save the game.");
+    }
+    refreshSaveSlots();
+    collectUnusedImages();
+  }, [buildCurrentSnapshot, addLogEntry, refreshSaveSlots, collectUnusedImages]);
+
+  const applyRestoredState = useCallback((restored: RestoredGameState) => {
+    resetGameState();
+
+    // Through the game flow host, so the flows see the restored run before React re-renders.
+    const { difficultyMode: restoredDifficultyMode, runId: restoredRunId, ...flowState } = restored;
+    gameFlowHost.update(flowState);
+    setDifficultyMode(restoredDifficultyMode);
+    setRunId(restoredRunId);
+    setGameStarted(true);
+  }, [resetGameState, gameFlowHost, setDifficultyMode, setRunId, setGameStarted]);
+
+  const loadFromSlot = useCallback((slotId: number) => {
+    let restored;
+    try {
+      restored = readSaveSlot(slotId);
+    } catch (e: any) {
+      console.error(`Failed to load save slot ${slotId}:`, e);
+      setSaveLoadError(e.message || "Failed to load the saved game.");
+      return;
+    }
+    if (!restored) {
+      setSaveLoadError(`Save slot ${slotId} is empty.`);
+      return;
+    }
+
+    applyRestoredState(restored);
+    setSaveLoadError(null);
+    addLogEntry('system', `Loaded saved game from slot ${slotId}.`);
+  }, [applyRestoredState, addLogEntry]);
+
+  // The checkpoint shown on the game over screen follows the run in progress.
+  useEffect(() => {
+    setCheckpoint(readCheckpointSummary(runId));
+  }, [runId]);
+
+  // Written here rather than where it is requested, so the snapshot holds the state those updates produced.
+  // Other difficulties keep no checkpoint, and a defeat is never checkpointed.
+  const handledCheckpointRequestRef = useRef(checkpointRequest);
+  useEffect(() => {
+    if (checkpointRequest === handledCheckpointRequestRef.current) return;
+    handledCheckpointRequestRef.current = checkpointRequest;
+    if (difficultyMode !== 'Checkpoint') {
+      deleteCheckpoint(runId);
+      setCheckpoint(null);
+      return;
+    }
+    const state = buildCurrentSnapshot();
+    if (!state || state.characterData?.isDefeated) return;
+    try {
+      setCheckpoint(writeCheckpoint(state));
+      addLogEntry('system', "Checkpoint reached.");
+    } catch (e: any) {
+      addLogEntry('error', e.message || "Could not write a checkpoint.");
+    }
+  }, [checkpointRequest, difficultyMode, runId, buildCurrentSnapshot, addLogEntry]);
+
+  const reloadCheckpoint = useCallback(() => {
+    let restored;
+    try {
+      restored = readCheckpoint(runId);
+    } catch (e: any) {
+      console.error("Failed to load the checkpoint:", e);
+      setSaveLoadError(e.message || "Failed to load the checkpoint.");
+      return;
+    }
+    if (!restored) {
+      setSaveLoadError("There is no checkpoint for this adventure.");
+      return;
+    }
+
+    applyRestoredState(restored);
+    setSaveLoadError(null);
+    addLogEntry('system', `Reloaded the last checkpoint (${restored.locationData?.name || 'unknown location'}).`);
+  }, [runId, applyRestoredState, addLogEntry]);
+
+  const deleteSlot = useCallback((slotId: number) => {
+    deleteSaveSlot(slotId);
+    refreshSaveSlots();
+    collectUnusedImages();
+  }, [refreshSaveSlots, collectUnusedImages]);
+
+  const eraseRunSaves = useCallback((): number => {
+    const deletedSlots = deleteRunSaves(runId);
+    setCheckpoint(null);
+    refreshSaveSlots();
+    collectUnusedImages();
+    return deletedSlots;
+  }, [runId, refreshSaveSlots, collectUnusedImages]);
+
+  return {
+    saveSlots,
+    refreshSaveSlots,
+    saveToSlot,
+    loadFromSlot,
+    deleteSlot,
+    saveLoadError,
+    checkpoint,
+    reloadCheckpoint,
+    eraseRunSaves,
+  };
+};
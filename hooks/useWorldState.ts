@@ -0,0 +1,16 @@
+// hooks/useWorldState.ts
+import { useState } from 'react';
+import { WorldState } from '../services/gameTypes';
+import { createInitialWorldState } from '../services/gameEngine';
+
+export interface UseWorldStateReturn {
+  worldState: WorldState;
+  setWorldState: (worldState: WorldState) => void; // New game or restored save
+}
+
+// The clock and weather rules run in services/gameFlows (worldFlows) via the GameContext host.
+export const useWorldState = (): UseWorldStateReturn => {
+  const [worldState, setWorldState] = useState<WorldState>(() => createInitialWorldState());
+  return { worldState, setWorldState };
+};
+
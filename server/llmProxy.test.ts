@@ -0,0 +1,34 @@
+// server/llmProxy.test.ts
+import { describe, expect, it } from 'vitest';
+import { createProxyRateLimiter } from './llmProxy';
+
+const LIMITS = {
+  sessionRequestsPerMinute: 2, sessionImagesPerMinute: 1,
+  addressRequestsPerMinute: 3, addressImagesPerMinute: 2,
+  globalRequestsPerMinute: 5, globalImagesPerMinute: 3,
+};
+
+describe('createProxyRateLimiter', () => {
+  it('limits one address however many session ids it sends', () => {
+    const limiter = createProxyRateLimiter(LIMITS);
+    ['a', 'b', 'c'].forEach(session => expect(limiter.take(session, '10.0.0.1', false, 0)).toBeNull());
+    expect(limiter.take('d', '10.0.0.1', false, 1000)).toEqual({ scope: 'address', waitMs: 59_000 });
+    expect(limiter.take('d', '10.0.0.2', false, 1000)).toBeNull();
+  });
+
+  it('limits the whole server across addresses', () => {
+    const limiter = createProxyRateLimiter(LIMITS);
+    [1, 2, 3, 4, 5].forEach(n => expect(limiter.take('s', `10.0.0.${n}`, false, 0)).toBeNull());
+    expect(limiter.take('s', '10.0.0.6', false, 0)).toMatchObject({ scope: 'global' });
+    expect(limiter.take('s', '10.0.0.6', false, 60_000)).toBeNull();
+  });
+
+  it('does not count a refused request in the scopes that allowed it', () => {
+    const limiter = createProxyRateLimiter(LIMITS);
+    expect(limiter.take('a', '10.0.0.1', true, 0)).toBeNull();
+    expect(limiter.take('a', '10.0.0.1', true, 0)).toMatchObject({ scope: 'session' });
+    expect(limiter.take('b', '10.0.0.1', false, 0)).toBeNull();
+    expect(limiter.take('c', '10.0.0.1', false, 0)).toBeNull();
+    expect(limiter.take('d', '10.0.0.1', false, 0)).toMatchObject({ scope: 'address' });
+  });
+});
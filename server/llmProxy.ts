@@ -0,0 +1,295 @@
+// server/llmProxy.ts
+// Request handler for the LLM proxy. It checks each request against the per-session, per-address
+// and global rate limits and the size caps, validates the body, and forwards it to the real provider. Validation of the
+// model's answers, retries, caching and usage accounting stay in the client's geminiClient.
+import { IncomingMessage, ServerResponse } from 'http';
+import { Tool } from "@google/genai";
+import {
+  LlmProvider, LlmTokenUsage, LLM_PROXY_ROUTES, LLM_PROXY_SESSION_HEADER, LlmProxyResponse, LlmProxyInfo,
+  schema, createSchemaValidator, StructureValidator, getRateLimitRetryAfterMs
+} from '../services/llm';
+import { isAbortError } from '../services/utils/abortUtils';
+
+export interface LlmProxyConfig {
+  allowedOrigin: string;        // Access-Control-Allow-Origin for browser clients
+  maxBodyBytes: number;
+  maxHistoryMessages: number;   // Prior turns accepted on one request
+  sessionRequestsPerMinute: number;
+  sessionImagesPerMinute: number; // Counted on top of the request limit
+  // The session id is whatever the client sends, so these caps hold however many ids one client makes up.
+  addressRequestsPerMinute: number;
+  addressImagesPerMinute: number;
+  globalRequestsPerMinute: number;
+  globalImagesPerMinute: number;
+}
+
+const parsePositiveInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Read at runtime, so the limits can change without rebuilding the server.
+export const getLlmProxyConfigFromEnv = (): LlmProxyConfig => ({
+  allowedOrigin: process.env.LLM_PROXY_ALLOWED_ORIGIN || '*',
+  maxBodyBytes: parsePositiveInteger(process.env.LLM_PROXY_MAX_BODY_BYTES, 256 * 1024),
+  maxHistoryMessages: parsePositiveInteger(process.env.LLM_PROXY_MAX_HISTORY_MESSAGES, 40),
+  sessionRequestsPerMinute: parsePositiveInteger(process.env.LLM_PROXY_SESSION_REQUESTS_PER_MINUTE, 60),
+  sessionImagesPerMinute: parsePositiveInteger(process.env.LLM_PROXY_SESSION_IMAGES_PER_MINUTE, 10),
+  addressRequestsPerMinute: parsePositiveInteger(process.env.LLM_PROXY_ADDRESS_REQUESTS_PER_MINUTE, 120),
+  addressImagesPerMinute: parsePositiveInteger(process.env.LLM_PROXY_ADDRESS_IMAGES_PER_MINUTE, 20),
+  globalRequestsPerMinute: parsePositiveInteger(process.env.LLM_PROXY_GLOBAL_REQUESTS_PER_MINUTE, 600),
+  globalImagesPerMinute: parsePositiveInteger(process.env.LLM_PROXY_GLOBAL_IMAGES_PER_MINUTE, 60),
+});
+
+const RATE_WINDOW_MS = 60_000;
+const MAX_TRACKED_KEYS = 1000; // Per scope. Idle keys go first, then the least recently used ones.
+
+export type RateLimitScope = 'session' | 'address' | 'global';
+
+export interface ProxyRateLimiter {
+  // Counts the request in every scope and returns null, or returns the scope that is over its limit
+  // and how long to wait (ms). A refused request is not counted anywhere.
+  take(sessionId: string, address: string, isImage: boolean, now?: number): { scope: RateLimitScope; waitMs: number } | null;
+}
+
+interface RateWindow {
+  requests: number[];
+  images: number[];
+}
+
+const createRateWindows = (requestsPerMinute: number, imagesPerMinute: number) => {
+  const windows = new Map<string, RateWindow>();
+
+  const waitFor = (times: number[], limit: number, now: number): number =>
+    times.length >= limit ? times[times.length - limit] + RATE_WINDOW_MS - now : 0;
+
+  return {
+    // Returns the window for key with expired times dropped, tracked as the most recently used one.
+    get(key: string, now: number): RateWindow {
+      const window = windows.get(key) ?? { requests: [], images: [] };
+      window.requests = window.requests.filter(time => now - time < RATE_WINDOW_MS);
+      window.images = window.images.filter(time => now - time < RATE_WINDOW_MS);
+      windows.delete(key);
+      windows.set(key, window);
+      if (windows.size > MAX_TRACKED_KEYS) {
+        for (const [id, tracked] of windows) {
+          if (tracked.requests.every(time => now - time >= RATE_WINDOW_MS)) windows.delete(id);
+        }
+        // Map order is least recently used first.
+        for (const id of windows.keys()) {
+          if (windows.size <= MAX_TRACKED_KEYS) break;
+          windows.delete(id);
+        }
+      }
+      return window;
+    },
+    waitMs: (window: RateWindow, isImage: boolean, now: number): number => Math.max(
+      waitFor(window.requests, requestsPerMinute, now),
+      isImage ? waitFor(window.images, imagesPerMinute, now) : 0
+    ),
+  };
+};
+
+export const createProxyRateLimiter = (config: Pick<LlmProxyConfig,
+  'sessionRequestsPerMinute' | 'sessionImagesPerMinute' | 'addressRequestsPerMinute' | 'addressImagesPerMinute'
+  | 'globalRequestsPerMinute' | 'globalImagesPerMinute'>): ProxyRateLimiter => {
+  const scopes: Record<RateLimitScope, ReturnType<typeof createRateWindows>> = {
+    session: createRateWindows(config.sessionRequestsPerMinute, config.sessionImagesPerMinute),
+    address: createRateWindows(config.addressRequestsPerMinute, config.addressImagesPerMinute),
+    global: createRateWindows(config.globalRequestsPerMinute, config.globalImagesPerMinute),
+  };
+
+  return {
+    take(sessionId, address, isImage, now = Date.now()) {
+      const keys: Record<RateLimitScope, string> = { session: `${address}|${sessionId}`, address, global: '*' };
+      const checked = (Object.keys(scopes) as RateLimitScope[]).map(scope => {
+        const window = scopes[scope].get(keys[scope], now);
+        return { scope, window, waitMs: scopes[scope].waitMs(window, isImage, now) };
+      });
+      const over = checked.filter(entry => entry.waitMs > 0).sort((a, b) => b.waitMs - a.waitMs)[0];
+      if (over) return { scope: over.scope, waitMs: over.waitMs };
+      checked.forEach(({ window }) => {
+        window.requests.push(now);
+        if (isImage) window.images.push(now);
+      });
+      return null;
+    },
+  };
+};
+
+// --- Request bodies (see LlmProxy*Body in services/llm/proxyProvider.ts) ---
+
+const CHAT_MESSAGE_SCHEMA = schema.object({
+  role: schema.enumOf(['user', 'model'] as const),
+  text: schema.string(),
+});
+const PROMPT_SCHEMA = schema.string(undefined, { nonEmpty: true });
+
+const TEXT_BODY_SCHEMA = schema.object({
+  prompt: PROMPT_SCHEMA,
+  systemInstruction: schema.optional(schema.string()),
+  history: schema.optional(schema.array(CHAT_MESSAGE_SCHEMA)),
+});
+const CHAT_BODY_SCHEMA = schema.object({
+  prompt: PROMPT_SCHEMA,
+  systemInstruction: schema.optional(schema.string()),
+  history: schema.array(CHAT_MESSAGE_SCHEMA, undefined, { minItems: 1 }),
+});
+// Only what the proxy relies on is checked; the rest of the declaration is passed on as sent.
+const TOOL_BODY_SCHEMA = schema.object({
+  prompt: PROMPT_SCHEMA,
+  tool: schema.object({
+    functionDeclarations: schema.array(schema.object({ name: schema.string(undefined, { nonEmpty: true }) }), undefined, { minItems: 1 }),
+  }),
+  history: schema.optional(schema.array(CHAT_MESSAGE_SCHEMA)),
+});
+const JSON_BODY_SCHEMA = schema.object({
+  prompt: PROMPT_SCHEMA,
+  history: schema.optional(schema.array(CHAT_MESSAGE_SCHEMA)),
+});
+const IMAGE_BODY_SCHEMA = schema.object({
+  prompt: PROMPT_SCHEMA,
+  outputMimeType: schema.enumOf(['image/jpeg', 'image/png'] as const),
+});
+
+interface ProviderCall {
+  onUsage: (usage: LlmTokenUsage) => void;
+  signal: AbortSignal;
+}
+
+interface ProxyRoute<T> {
+  validator: StructureValidator<T>;
+  isImage?: boolean;
+  run(body: T, call: ProviderCall): Promise<LlmProxyResponse>;
+}
+
+const RATE_LIMIT_SCOPE_LABELS: Record<RateLimitScope, string> = { session: 'Session', address: 'Address', global: 'Server' };
+
+const defineRoute = <T>(route: ProxyRoute<T>): ProxyRoute<any> => route;
+
+const sendJson = (res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Resolves to null once the body grows past maxBytes; the rest is read and dropped.
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string | null> => new Promise((resolve, reject) => {
+  if (Number(req.headers['content-length']) > maxBytes) {
+    req.resume();
+    resolve(null);
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size <= maxBytes) chunks.push(chunk);
+  });
+  req.on('end', () => resolve(size > maxBytes ? null : Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+export const createLlmProxyHandler = (provider: LlmProvider, config: LlmProxyConfig) => {
+  const limiter = createProxyRateLimiter(config);
+  const historyCap = (body: { history?: unknown[] }): string[] =>
+    (body.history?.length ?? 0) > config.maxHistoryMessages
+      ? [`history: at most ${config.maxHistoryMessages} messages are accepted, got ${body.history?.length}`]
+      : [];
+
+  const routes: Record<string, ProxyRoute<any>> = {
+    [LLM_PROXY_ROUTES.text]: defineRoute({
+      validator: createSchemaValidator(TEXT_BODY_SCHEMA, 'proxy_text_body', historyCap),
+      run: async (body, call) => ({ text: await provider.generateText({ ...body, ...call }) }),
+    }),
+    [LLM_PROXY_ROUTES.chat]: defineRoute({
+      validator: createSchemaValidator(CHAT_BODY_SCHEMA, 'proxy_chat_body', historyCap),
+      run: async (body, call) => ({ text: await provider.generateText({ ...body, ...call }) }),
+    }),
+    [LLM_PROXY_ROUTES.tool]: defineRoute({
+      validator: createSchemaValidator(TOOL_BODY_SCHEMA, 'proxy_tool_body', historyCap),
+      run: async (body, call) => ({ functionCall: await provider.generateToolCall({ ...body, tool: body.tool as Tool, ...call }) }),
+    }),
+    [LLM_PROXY_ROUTES.json]: defineRoute({
+      validator: createSchemaValidator(JSON_BODY_SCHEMA, 'proxy_json_body', historyCap),
+      run: async (body, call) => ({ text: await provider.generateJsonText({ ...body, ...call }) }),
+    }),
+    [LLM_PROXY_ROUTES.image]: defineRoute({
+      validator: createSchemaValidator(IMAGE_BODY_SCHEMA, 'proxy_image_body'),
+      isImage: true,
+      run: async (body, call) => ({ image: await provider.generateImage({ ...body, ...call }) }),
+    }),
+  };
+
+  const info: LlmProxyInfo = { providerId: String(provider.id), textModel: provider.textModel, imageModel: provider.imageModel };
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const corsHeaders = {
+      'Access-Control-Allow-Origin': config.allowedOrigin,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': `Content-Type, ${LLM_PROXY_SESSION_HEADER}`,
+      'Access-Control-Expose-Headers': 'Retry-After',
+    };
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && path === '/health') return sendJson(res, 200, { status: 'ok' }, corsHeaders);
+    if (req.method === 'GET' && path === LLM_PROXY_ROUTES.info) return sendJson(res, 200, info, corsHeaders);
+
+    const route = routes[path];
+    if (!route) return sendJson(res, 404, { error: `No route for ${req.method} ${path}` }, corsHeaders);
+    if (req.method !== 'POST') return sendJson(res, 405, { error: `${path} only accepts POST` }, { ...corsHeaders, 'Allow': 'POST' });
+
+    // Behind a reverse proxy every client shares its address, so the address cap then acts as a second global cap.
+    const address = req.socket.remoteAddress ?? 'unknown';
+    const sessionHeader = req.headers[LLM_PROXY_SESSION_HEADER.toLowerCase()];
+    const sessionId = typeof sessionHeader === 'string' && sessionHeader ? sessionHeader : 'no-session';
+    const limited = limiter.take(sessionId, address, Boolean(route.isImage));
+    if (limited) {
+      req.resume();
+      const retryAfterSeconds = Math.ceil(limited.waitMs / 1000);
+      return sendJson(res, 429, { error: `${RATE_LIMIT_SCOPE_LABELS[limited.scope]} rate limit reached. Retry in ${retryAfterSeconds} s.` },
+        { ...corsHeaders, 'Retry-After': String(retryAfterSeconds) });
+    }
+
+    const rawBody = await readBody(req, config.maxBodyBytes);
+    if (rawBody === null) return sendJson(res, 413, { error: `Request body is larger than ${config.maxBodyBytes} bytes.` }, corsHeaders);
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch (e: any) {
+      return sendJson(res, 400, { error: `Request body is not valid JSON: ${e.message}` }, corsHeaders);
+    }
+    if (!route.validator(body)) {
+      const issues = route.validator.getIssues?.(body) ?? [];
+      return sendJson(res, 400, { error: `Invalid request body: ${issues.join('; ')}`, issues }, corsHeaders);
+    }
+
+    // A client that goes away (aborted call, closed tab) cancels the provider request too.
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+    const usage: LlmTokenUsage = { promptTokens: 0, responseTokens: 0 };
+    const onUsage = (reported: LlmTokenUsage) => {
+      usage.promptTokens += reported.promptTokens;
+      usage.responseTokens += reported.responseTokens;
+    };
+
+    try {
+      const answer = await route.run(body, { onUsage, signal: controller.signal });
+      sendJson(res, 200, { ...answer, usage }, corsHeaders);
+    } catch (error: any) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      // The provider's own rate limits reach the client as 429s, so its scheduler backs off.
+      const retryAfterMs = getRateLimitRetryAfterMs(error);
+      if (retryAfterMs !== undefined) {
+        return sendJson(res, 429, { error: error.message || 'Provider rate limit reached.' },
+          retryAfterMs !== null ? { ...corsHeaders, 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : corsHeaders);
+      }
+      console.error(`LLM proxy: ${path} failed:`, error);
+      sendJson(res, 502, { error: error.message || 'Provider request failed.' }, corsHeaders);
+    }
+  };
+};
@@ -0,0 +1,32 @@
+// server/proxyServer.ts
+// Local LLM proxy, so the provider API key never ships to the browser. Build + run with
+// `npm run server`. Provider settings are built in from .env.local like the terminal runner;
+// PORT and the LLM_PROXY_* limits are read when the server starts.
+import { createServer } from 'http';
+import { createLlmProvider, getLlmConfigFromEnv } from '../services/llm';
+import { createLlmProxyHandler, getLlmProxyConfigFromEnv } from './llmProxy';
+
+// The server always talks to the provider itself, whatever LLM_TRANSPORT the web build uses.
+const llmConfig = { ...getLlmConfigFromEnv(), transport: 'direct' as const };
+if (!llmConfig.apiKey) {
+  console.error("No API key configured. Set GEMINI_API_KEY / LLM_API_KEY (or LLM_PROVIDER=mock) before building the server.");
+  process.exit(1);
+}
+
+const provider = createLlmProvider(llmConfig);
+const config = getLlmProxyConfigFromEnv();
+const handleRequest = createLlmProxyHandler(provider, config);
+const port = Number(process.env.PORT) || 3001;
+
+createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error('LLM proxy: unexpected error:', error);
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Internal proxy error.' }));
+  });
+}).listen(port, () => {
+  console.log(`LostWorld LLM proxy (${provider.id}, ${provider.textModel}) listening on http://localhost:${port}`);
+  console.log(`Limits per minute: ${config.sessionRequestsPerMinute} requests and ${config.sessionImagesPerMinute} images per session, `
+    + `${config.addressRequestsPerMinute} and ${config.addressImagesPerMinute} per address, `
+    + `${config.globalRequestsPerMinute} and ${config.globalImagesPerMinute} in total; bodies up to ${config.maxBodyBytes} bytes.`);
+});
@@ -0,0 +1,143 @@
+// services/__fixtures__/llmPayloads.ts
+// Tool-call arguments as the model sends them: well-formed answers, near misses the validators
+// repair, and malformed ones they must reject. Shared by the validator tests.
+
+// --- interpret_player_action ---
+
+export const GOOD_PLAYER_ACTION = {
+  action: 'go',
+  targets: ['north'],
+  parameters: { intendedLocationTypeHint: 'forest' },
+  isPlausible: true,
+  reasonIfNotPlausible: null,
+  narrationForPlausibleAction: null,
+};
+
+export const GOOD_DIALOGUE_ACTION = {
+  action: 'dialogue_input',
+  targets: [],
+  parameters: { dialogue_text: 'Have you seen the lighthouse keeper?' },
+  isPlausible: true,
+};
+
+// Optional fields sent as null are dropped rather than rejected.
+export const PLAYER_ACTION_WITH_NULL_OPTIONALS = {
+  action: 'examine',
+  targets: [],
+  parameters: { examine_detail_target: 'carvings', withItem: null },
+  isPlausible: true,
+  narrationForPlausibleAction: null,
+};
+
+export const PLAYER_ACTION_MISSING_PLAUSIBILITY = {
+  action: 'take',
+  targets: ['rusty key'],
+};
+
+export const PLAYER_ACTION_WRONG_TYPES = {
+  action: 42,
+  targets: 'north',
+  isPlausible: true,
+};
+
+// Repairable: the boolean arrives as a string.
+export const PLAYER_ACTION_STRINGLY_TYPED = {
+  action: 'go',
+  targets: ['south'],
+  isPlausible: 'true',
+};
+
+// --- generate_complex_event_with_effects ---
+
+export const GOOD_EVENT_EFFECTS = {
+  eventTitle: 'Ambush at the Crossroads',
+  narration: 'Two bandits step out from behind the signpost, blades drawn. They demand your coin.',
+  visualPromptHintForEventImage: 'First-person view of two bandits with drawn blades at a mossy crossroads.',
+  requiresPlayerActionToResolve: true,
+  resolutionCriteriaPrompt: 'Fight, flee or talk your way out.',
+  characterEffects: {
+    energyChange: -5,
+    limbEffects: [{ limbName: 'Left Arm', healthChange: -10, newStatus: 'Cut' }],
+    statusEffectAdded: { name: 'Bleeding', durationTurns: 3, healthPerTurn: -2 },
+  },
+  itemEffects: {
+    itemsAddedToLocation: [
+      { name: 'Bandit Mask', description: 'A cloth mask.', itemTypeGuess: 'clothing', rarity: 'Common' },
+    ],
+  },
+  npcEffects: [{ npcIdTargeted: 'npc-1', dispositionChange: 'Hostile' }],
+  worldEffects: { timePasses: 'a few minutes', minutesPassed: 5, weatherCondition: 'fog' },
+  potentialDiscoveriesGenerated: [{
+    name: 'Bandit Camp',
+    type: 'location',
+    descriptionHint: 'Where the bandits came from.',
+    sourceTextSnippet: 'Two bandits step out',
+    sourceType: 'event_narration',
+    sourceEntityId: 'Ambush at the Crossroads',
+  }],
+};
+
+export const MINIMAL_EVENT_EFFECTS = {
+  eventTitle: 'The Moment Passes',
+  narration: 'A breeze stirs the moss, then all is still.',
+};
+
+export const EVENT_EFFECTS_EMPTY_TITLE = {
+  eventTitle: '   ',
+  narration: 'Something happens.',
+};
+
+export const EVENT_EFFECTS_BAD_NESTED_VALUES = {
+  eventTitle: 'Strange Gift',
+  narration: 'A stranger presses a trinket into your hand.',
+  itemEffects: {
+    itemsAddedToInventory: [
+      { name: 'Trinket', description: 'Shiny.', itemTypeGuess: 'trinket', rarity: 'Mythic' },
+    ],
+  },
+  worldEffects: { weatherCondition: 'hail' },
+};
+
+// Repairable: enum casing and a numeric string.
+export const EVENT_EFFECTS_NEAR_MISS = {
+  eventTitle: 'Found Coins',
+  narration: 'Coins glint between the cobbles.',
+  itemEffects: {
+    itemsAddedToInventory: [
+      { name: 'Copper Coins', description: 'A few coins.', itemTypeGuess: 'currency', rarity: 'common' },
+    ],
+  },
+  characterEffects: { energyChange: '3' },
+};
+
+// --- provide_game_direction_suggestions ---
+
+export const GOOD_GAME_DIRECTIVES = {
+  currentGameFocus: 'ExplorationAdventure',
+  promptEnhancements: [
+    { targetSystem: 'LocationDescription', suggestion: 'Dwell on landmarks worth travelling to.', priority: 'high' },
+    { targetSystem: 'EventGeneration', suggestion: 'Favour discoveries over fights.' },
+  ],
+  gameplayParameterSuggestions: {
+    adjustEnergyDecayRate: 'decreased',
+    adjustHealthRegenRate: 'normal',
+    preferredEventType: 'balanced',
+    pacing: 'medium',
+  },
+  reasoning: 'The player mostly travels and examines things.',
+};
+
+export const GAME_DIRECTIVES_UNKNOWN_FOCUS = {
+  ...GOOD_GAME_DIRECTIVES,
+  currentGameFocus: 'SpaceOpera',
+};
+
+export const GAME_DIRECTIVES_BAD_ENHANCEMENT = {
+  ...GOOD_GAME_DIRECTIVES,
+  promptEnhancements: [{ targetSystem: 'Weather', suggestion: 'More rain.' }, { targetSystem: 'EventGeneration' }],
+};
+
+export const GAME_DIRECTIVES_MISSING_PARAMETERS = {
+  currentGameFocus: 'NoSpecificFocus',
+  promptEnhancements: [],
+};
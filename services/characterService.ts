@@ -1,20 +1,8 @@
 // services/characterService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, IMAGE_MODEL_NAME, TEXT_MODEL_NAME, Tool, Type } from './geminiClient';
-import { CharacterData, Limb, Skill, SuggestedItemFromLLM, ItemRarity, MemorableEntityRarity, VisualStyleType } from './gameTypes'; 
-
-type RawCharacterLimbFromTool = { name: string; status: string; health: number; };
-type RawCharacterLimbs = RawCharacterLimbFromTool[];
-
-type StartingSkillFromTool = { skillName: string; startingLevel: number }; 
-
-type RawCharacterDetailsAndItemsFromTool = {
-  characterName: string; 
-  characterConcept: string;
-  characterRarity: MemorableEntityRarity; 
-  limbs: RawCharacterLimbs;
-  startingSkills?: StartingSkillFromTool[];
-  initialItemSuggestions?: SuggestedItemFromLLM[]; 
-};
+import { API_KEY, callLLMWithToolAndValidateArgs, generateLLMImage, schema, defineTool } from './geminiClient';
+import { CharacterData, Limb, Skill, SkillProgressionRules, SuggestedItemFromLLM, VisualStyleType } from './gameTypes'; 
+import { ITEM_RARITIES, MEMORABLE_ENTITY_RARITIES } from './config/gameConstants';
+import { getExperienceToNextLevel } from './gameEngine';
 
 export type CharacterDetailsOnly = Omit<CharacterData, 'characterImageUrl'>;
 
@@ -34,36 +22,6 @@ export const PREDEFINED_SKILLS_CONFIG: Omit<Skill, 'level' | 'experience' | 'exp
 ];
 
 
-const validateCharacterDetailsStructure = (data: any): data is RawCharacterDetailsAndItemsFromTool => {
-  const validItemRarities: ItemRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
-  const validMemorableRarities: MemorableEntityRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Lore', 'Character_Self'];
-  const charConceptWords = data.characterConcept ? data.characterConcept.trim().split(/\s+/).length : 0;
-
-  return (
-    data &&
-    typeof data.characterName === 'string' && data.characterName.trim() !== '' && 
-    typeof data.characterConcept === 'string' && data.characterConcept.trim() !== '' &&
-    (charConceptWords >= 5 && charConceptWords <= 40) && 
-    typeof data.characterRarity === 'string' && validMemorableRarities.includes(data.characterRarity as MemorableEntityRarity) && 
-    Array.isArray(data.limbs) && data.limbs.length > 0 &&
-    data.limbs.every((limb: any) =>
-        limb && typeof limb.name === 'string' && limb.name.trim() !== '' &&
-        typeof limb.status === 'string' && limb.status.trim() !== '' &&
-        typeof limb.health === 'number' && limb.health >= 0 && limb.health <= 100) &&
-    (data.startingSkills === undefined || (Array.isArray(data.startingSkills) && data.startingSkills.every((skill: any) =>
-        skill && typeof skill.skillName === 'string' && PREDEFINED_SKILLS_CONFIG.some(s => s.name === skill.skillName) &&
-        typeof skill.startingLevel === 'number' && skill.startingLevel >= 0 && skill.startingLevel <= 10 
-    ))) &&
-    (data.initialItemSuggestions === undefined || (Array.isArray(data.initialItemSuggestions) && data.initialItemSuggestions.every((item: any) =>
-        item && typeof item.name === 'string' && item.name.trim() !== '' &&
-        typeof item.description === 'string' && item.description.trim() !== '' &&
-        typeof item.itemTypeGuess === 'string' && item.itemTypeGuess.trim() !== '' &&
-        typeof item.rarity === 'string' && validItemRarities.includes(item.rarity as ItemRarity) &&
-        typeof item.visualPromptHint === 'string' && item.visualPromptHint.trim() !== '' 
-    )))
-  );
-};
-
 // Helper to get the string like "Pixel Art icon" or "distinctive impasto oil painting style icon"
 const getStyleForItemIconPromptType = (visualStyle: VisualStyleType): string => {
   switch (visualStyle) {
@@ -78,74 +36,45 @@ const getStyleForItemIconPromptType = (visualStyle: VisualStyleType): string =>
 };
 
 
-const CREATE_CHARACTER_DETAILS_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "provide_character_details_and_initial_items",
-    description: "Generates conceptual details for a new game character, including their name, concept, rarity, limb statuses, suggested starting skills (levels 0-10, appropriate to concept), and 0-3 fitting initial inventory items for a fantasy or historical adventure game. Avoids duplicating known Epic/Legendary entities from memory context. The game's visual style (e.g., 'Pixel Art', 'Ink Painting', 'distinctive impasto oil painting style', 'luminous watercolor painting style') will be provided in the main prompt context. Visual prompt hints for items MUST be phrased for generating an icon in that specific game visual style (e.g., if game style is 'Ink Painting', the hint would be for a 'black and white traditional Chinese ink painting style icon').",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        characterName: { 
-            type: Type.STRING, 
-            description: "A plausible name for the character. If the characterConcept itself IS a famous name, then this characterName should be that exact name. This field IS MANDATORY." 
-        },
-        characterConcept: { 
-            type: Type.STRING, 
-            description: "The character's core concept or archetype (10-40 words long). MUST directly reflect and preserve the core elements of the input character concept." 
-        },
-        characterRarity: {
-            type: Type.STRING,
-            enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Character_Self'], 
-            description: "The character's overall significance/rarity (Common, Uncommon, Rare, Epic, Legendary, Character_Self) based on their concept, name, and historical/fictional context. 'Einstein' or 'a dragon lord' should be Epic/Legendary. A simple 'young squire' would be Common/Uncommon. 'Character_Self' implies their self-perceived or narrative-defined importance."
-        },
-        limbs: {
-          type: Type.ARRAY,
-          description: "An array detailing the status of character's limbs (Head, Torso, Left Arm, Right Arm, Left Leg, Right Leg). All start with 100 health.",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "Name of the limb." },
-              status: { type: Type.STRING, description: "Current status, including health (e.g., 'Healthy (100HP)')." },
-              health: {type: Type.NUMBER, description: "Numeric health (0-100). Should be 100 for new characters."}
-            },
-            required: ["name", "status", "health"],
-          },
-        },
-        startingSkills: {
-          type: Type.ARRAY,
-          description: `Suggest 2-4 starting skills from predefined list: ${PREDEFINED_SKILLS_CONFIG.map(s => s.name).join(', ')}. Skill levels (0-10) MUST be highly appropriate for the character concept. **For most typical concepts, aim for a balanced distribution with many skills falling in the 2-6 (Novice to Adept) range.** Extreme values (0-1 or 9-10) should be reserved for concepts that explicitly suggest untrained/mastery in a skill, or for iconic figures. E.g., 'Lu Bu' concept gets Combat: 9-10. 'Young squire' gets Combat: 1-2. A 'seasoned traveler' might have Survival 4-5, Perception 3-4. Untrained skills are level 0. Skill proficiency scale: 0=Untrained, 1-2=Novice, 3-4=Apprentice, 5-6=Adept, 7-8=Expert, 9=Virtuoso, 10=Master. Omit if none fit.`,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              skillName: { type: Type.STRING, description: "Name of skill." },
-              startingLevel: { type: Type.NUMBER, description: "Starting level (0-10) reflecting concept's proficiency." }
-            },
-            required: ["skillName", "startingLevel"]
-          }
-        },
-        initialItemSuggestions: {
-            type: Type.ARRAY,
-            description: "Optional: Array of 0-3 suggested starting items. Must fit character concept and setting. If historical, items must be plausible. Rarity matches significance. If suggesting Epic/Legendary, ensure it's distinct from known entities in memory context unless they are iconic starting gear for a known character concept within a universe. Omit or empty array if none.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    name: { type: Type.STRING, description: "Item name." },
-                    description: { type: Type.STRING, description: "Brief description." },
-                    itemTypeGuess: { type: Type.STRING, description: "Category (e.g., 'weapon', 'tool')." },
-                    rarity: { type: Type.STRING, enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'], description: "Rarity." },
-                    visualPromptHint: { 
-                        type: Type.STRING, 
-                        description: "Detailed visual description for a [GAME_STYLE_ICON_TYPE] of THE ITEM ITSELF. For example, if the game style is 'Pixel Art', the prompt might be 'Pixel Art icon of a gleaming steel longsword with a sapphire embedded in the pommel'. The specific [GAME_STYLE_ICON_TYPE] (e.g., 'Pixel Art icon', 'black and white traditional Chinese ink painting style icon', 'distinctive impasto oil painting style icon', 'luminous watercolor painting style icon') will be determined by the game's visual style provided in the main prompt context. Focus on the item's appearance; background should be simple/neutral or subtly thematic for an icon. DO NOT describe a full scene, only the item icon."
-                    }
-                },
-                required: ["name", "description", "itemTypeGuess", "rarity", "visualPromptHint"]
-            }
-        }
-      },
-      required: ["characterName", "characterConcept", "characterRarity", "limbs"],
-    },
-  }],
-};
+const { string, number, enumOf, array, object, optional } = schema;
+
+const CREATE_CHARACTER_DETAILS_TOOL = defineTool({
+  name: "provide_character_details_and_initial_items",
+  description: "Generates conceptual details for a new game character, including their name, concept, rarity, limb statuses, suggested starting skills (levels 0-10, appropriate to concept), and 0-3 fitting initial inventory items for a fantasy or historical adventure game. Avoids duplicating known Epic/Legendary entities from memory context. The game's visual style (e.g., 'Pixel Art', 'Ink Painting', 'distinctive impasto oil painting style', 'luminous watercolor painting style') will be provided in the main prompt context. Visual prompt hints for items MUST be phrased for generating an icon in that specific game visual style (e.g., if game style is 'Ink Painting', the hint would be for a 'black and white traditional Chinese ink painting style icon').",
+  parameters: object({
+    characterName: string("A plausible name for the character. If the characterConcept itself IS a famous name, then this characterName should be that exact name. This field IS MANDATORY.", { nonEmpty: true }),
+    characterConcept: string("The character's core concept or archetype (10-40 words long). MUST directly reflect and preserve the core elements of the input character concept.", { nonEmpty: true }),
+    characterRarity: enumOf(MEMORABLE_ENTITY_RARITIES.filter(rarity => rarity !== 'Lore'), "The character's overall significance/rarity (Common, Uncommon, Rare, Epic, Legendary, Character_Self) based on their concept, name, and historical/fictional context. 'Einstein' or 'a dragon lord' should be Epic/Legendary. A simple 'young squire' would be Common/Uncommon. 'Character_Self' implies their self-perceived or narrative-defined importance."),
+    limbs: array(object({
+      name: string("Name of the limb.", { nonEmpty: true }),
+      status: string("Current status, including health (e.g., 'Healthy (100HP)').", { nonEmpty: true }),
+      health: number("Numeric health (0-100). Should be 100 for new characters."),
+    }), "An array detailing the status of character's limbs (Head, Torso, Left Arm, Right Arm, Left Leg, Right Leg). All start with 100 health.", { minItems: 1 }),
+    startingSkills: optional(array(object({
+      skillName: enumOf(PREDEFINED_SKILLS_CONFIG.map(s => s.name), "Name of skill."),
+      startingLevel: number("Starting level (0-10) reflecting concept's proficiency."),
+    }), `Suggest 2-4 starting skills from predefined list: ${PREDEFINED_SKILLS_CONFIG.map(s => s.name).join(', ')}. Skill levels (0-10) MUST be highly appropriate for the character concept. **For most typical concepts, aim for a balanced distribution with many skills falling in the 2-6 (Novice to Adept) range.** Extreme values (0-1 or 9-10) should be reserved for concepts that explicitly suggest untrained/mastery in a skill, or for iconic figures. E.g., 'Lu Bu' concept gets Combat: 9-10. 'Young squire' gets Combat: 1-2. A 'seasoned traveler' might have Survival 4-5, Perception 3-4. Untrained skills are level 0. Skill proficiency scale: 0=Untrained, 1-2=Novice, 3-4=Apprentice, 5-6=Adept, 7-8=Expert, 9=Virtuoso, 10=Master. Omit if none fit.`)),
+    initialItemSuggestions: optional(array(object({
+      name: string("Item name.", { nonEmpty: true }),
+      description: string("Brief description.", { nonEmpty: true }),
+      itemTypeGuess: string("Category (e.g., 'weapon', 'tool').", { nonEmpty: true }),
+      rarity: enumOf(ITEM_RARITIES, "Rarity."),
+      visualPromptHint: string("Detailed visual description for a [GAME_STYLE_ICON_TYPE] of THE ITEM ITSELF. For example, if the game style is 'Pixel Art', the prompt might be 'Pixel Art icon of a gleaming steel longsword with a sapphire embedded in the pommel'. The specific [GAME_STYLE_ICON_TYPE] (e.g., 'Pixel Art icon', 'black and white traditional Chinese ink painting style icon', 'distinctive impasto oil painting style icon', 'luminous watercolor painting style icon') will be determined by the game's visual style provided in the main prompt context. Focus on the item's appearance; background should be simple/neutral or subtly thematic for an icon. DO NOT describe a full scene, only the item icon.", { nonEmpty: true }),
+    }), "Optional: Array of 0-3 suggested starting items. Must fit character concept and setting. If historical, items must be plausible. Rarity matches significance. If suggesting Epic/Legendary, ensure it's distinct from known entities in memory context unless they are iconic starting gear for a known character concept within a universe. Omit or empty array if none.")),
+  }),
+  refine: ({ characterConcept, limbs, startingSkills = [] }) => {
+    const issues: string[] = [];
+    const conceptWords = characterConcept.trim().split(/\s+/).length;
+    if (conceptWords < 5 || conceptWords > 40) issues.push(`characterConcept: expected 5-40 words, got ${conceptWords}`);
+    limbs.forEach((limb, i) => {
+      if (limb.health < 0 || limb.health > 100) issues.push(`limbs[${i}].health: expected 0-100, got ${limb.health}`);
+    });
+    startingSkills.forEach((skill, i) => {
+      if (skill.startingLevel < 0 || skill.startingLevel > 10) issues.push(`startingSkills[${i}].startingLevel: expected 0-10, got ${skill.startingLevel}`);
+    });
+    return issues;
+  },
+});
 
 const getStylePromptSegment = (visualStyle: VisualStyleType): string => {
   switch (visualStyle) {
@@ -211,15 +140,11 @@ A-pose or neutral standing pose, facing forward/slightly angled. Background: ${b
 Style: ${stylePromptSegment} for character sheet.
 CRITICAL: Image MUST ONLY contain the character sprite on the background. NO text, watermarks, labels, icons, borders, UI elements. Limbs correct and clear. Roughly square canvas, full figure visible.`;
 
-    const response = await ai.models.generateImages({
-        model: IMAGE_MODEL_NAME,
-        prompt: prompt,
-        config: { numberOfImages: 1, outputMimeType: 'image/png' },
-    });
-    if (response.generatedImages?.[0]?.image?.imageBytes) {
-      return `data:image/png;base64,${response.generatedImages[0].image.imageBytes}`;
+    const imageUrl = await generateLLMImage(prompt, 'image/png', { service: 'generatePlayerCharacterImage' });
+    if (imageUrl) {
+      return imageUrl;
     } else {
-      console.warn("No image data from Gemini API for player character. Response:", JSON.stringify(response, null, 2));
+      console.warn("No image data from LLM provider for player character.");
       return null;
     }
   } catch (error: any) {
@@ -236,6 +161,7 @@ CRITICAL: Image MUST ONLY contain the character sprite on the background. NO tex
 export const generateCharacterDetails = async (
   initialCharacterConcept: string, 
   visualStyle: VisualStyleType,
+  skillProgression: SkillProgressionRules,
   initialCharacterName?: string | null, 
   gameSetting: 'Fictional' | 'Historical' = 'Fictional',
   worldContext: string | null = null, 
@@ -284,10 +210,11 @@ The 'characterName' should be consistent with "${initialCharacterName}" (if give
 
   const charDetailsFromTool = await callLLMWithToolAndValidateArgs(
     prompt,
-    CREATE_CHARACTER_DETAILS_TOOL,
-    validateCharacterDetailsStructure,
+    CREATE_CHARACTER_DETAILS_TOOL.tool,
+    CREATE_CHARACTER_DETAILS_TOOL.validateArgs,
     "Invalid character data (name, concept length/fidelity, rarity, limbs, skills levels, initial items). Check for known entity conflicts, skill level appropriateness (aim for 2-6 for typical concepts), and universe consistency.",
-    "generateCharacterDetails"
+    "generateCharacterDetails",
+    1, { service: 'generateCharacterDetails' }
   );
 
   const formattedLimbs: Limb[] = charDetailsFromTool.limbs.map(limb => ({
@@ -305,7 +232,7 @@ The 'characterName' should be consistent with "${initialCharacterName}" (if give
         description: skillConfig.description, 
         level, 
         experience: 0, 
-        experienceToNextLevel: level === 0 && skillConfig.name !== "Combat" ? 50 : (level * 100 + 100) 
+        experienceToNextLevel: level === 0 && skillConfig.name !== "Combat" ? skillProgression.xpToLearnSkill : getExperienceToNextLevel(level, skillProgression)
     };
   });
   
@@ -0,0 +1,111 @@
+// services/commandService.test.ts
+import { describe, expect, it } from 'vitest';
+import { PARSE_PLAYER_COMMAND_TOOL, parsePlayerCommandLocally } from './commandService';
+import { CharacterData, FullLocationData, GameItem, GameNPC } from './gameTypes';
+import {
+  GOOD_PLAYER_ACTION, GOOD_DIALOGUE_ACTION, PLAYER_ACTION_WITH_NULL_OPTIONALS, PLAYER_ACTION_MISSING_PLAUSIBILITY,
+  PLAYER_ACTION_WRONG_TYPES, PLAYER_ACTION_STRINGLY_TYPED
+} from './__fixtures__/llmPayloads';
+
+// Replaced validatePlayerActionParseResult when the tool schemas moved to defineTool.
+const validate = PARSE_PLAYER_COMMAND_TOOL.validateArgs;
+const clone = <T>(value: T): T => structuredClone(value);
+
+describe('interpret_player_action validation', () => {
+  it('accepts well-formed actions', () => {
+    expect(validate(clone(GOOD_PLAYER_ACTION))).toBe(true);
+    expect(validate(clone(GOOD_DIALOGUE_ACTION))).toBe(true);
+  });
+
+  it('drops optional fields the model sent as null', () => {
+    const payload = clone(PLAYER_ACTION_WITH_NULL_OPTIONALS);
+    expect(validate(payload)).toBe(true);
+    expect(payload.parameters).not.toHaveProperty('withItem');
+  });
+
+  it('reports a missing required field by path', () => {
+    expect(validate(clone(PLAYER_ACTION_MISSING_PLAUSIBILITY))).toBe(false);
+    expect(validate.getIssues!(clone(PLAYER_ACTION_MISSING_PLAUSIBILITY))).toEqual(['isPlausible: required field is missing']);
+  });
+
+  it('reports every wrongly typed field', () => {
+    const issues = validate.getIssues!(clone(PLAYER_ACTION_WRONG_TYPES));
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^action: expected a string/);
+    expect(issues[1]).toMatch(/^targets: expected an array/);
+  });
+
+  it('repairs a boolean sent as a string', () => {
+    expect(validate(clone(PLAYER_ACTION_STRINGLY_TYPED))).toBe(false);
+    const repaired = validate.repair!(clone(PLAYER_ACTION_STRINGLY_TYPED));
+    expect(validate(repaired)).toBe(true);
+    expect(repaired).toMatchObject({ isPlausible: true });
+  });
+
+  it('rejects payloads that are not objects', () => {
+    expect(validate(null)).toBe(false);
+    expect(validate('go north')).toBe(false);
+  });
+});
+
+const CHARACTER: CharacterData = {
+  characterName: 'Ada', characterConcept: 'A wandering cartographer.', overallHealth: 100, currentEnergy: 50, maxEnergy: 100,
+  isDefeated: false, limbs: [], skills: [], characterImageUrl: null, gameSettingType: 'Fictional', initialHistoricalContext: null,
+  characterRarity: 'Common', visualStyle: 'Pixel Art', statusEffects: [],
+};
+const LOCATION: FullLocationData = {
+  name: 'Mossy Crossroads', description: '', environmentTags: [], visualPromptHint: '', validExits: ['North', 'east', 'up'],
+  rarity: 'Common', imageUrl: '',
+};
+const makeItem = (name: string): GameItem => ({ id: name, name, description: '', itemTypeGuess: 'tool', visualPromptHint: '', rarity: 'Common', iconUrl: '' });
+const LANTERN = makeItem('Brass Lantern');
+const ROPE = makeItem('Rope');
+const HERMIT: GameNPC = {
+  id: 'npc-1', name: 'Old Hermit', description: '', appearanceDetails: '', dialogueGreeting: 'Hm?', visualPromptHint: '', rarity: 'Common',
+  iconUrl: '', inventory: [], skills: [],
+};
+
+const parseLocally = (command: string, character: CharacterData = CHARACTER, talkingToNPC: GameNPC | null = null) =>
+  parsePlayerCommandLocally(command, character, LOCATION, [LANTERN], [ROPE], [HERMIT], talkingToNPC);
+
+describe('parsePlayerCommandLocally', () => {
+  it('resolves exits written as a letter, with a verb or as a level change', () => {
+    expect(parseLocally('n')).toMatchObject({ action: 'go', targets: ['north'], isPlausible: true });
+    expect(parseLocally('Go north.')).toMatchObject({ action: 'go', targets: ['north'], isPlausible: true });
+    expect(parseLocally('up')).toMatchObject({ action: 'go', targets: ['up'], isPlausible: true });
+  });
+
+  it('refuses a direction without an exit and names the exits', () => {
+    const result = parseLocally('go west');
+    expect(result).toMatchObject({ action: 'go', targets: ['west'], isPlausible: false });
+    expect(result?.reasonIfNotPlausible).toContain('North, east, up');
+  });
+
+  it('resolves inventory and status, even in a conversation or under a status effect', () => {
+    const dazed = { ...CHARACTER, statusEffects: [{
+      name: 'Dazed', description: '', source: 'test', remainingTurns: 2, stacks: 1, stacking: 'refresh' as const,
+      healthPerTurn: 0, energyPerTurn: 0, skillModifiers: [],
+    }] };
+    expect(parseLocally('inventory')).toMatchObject({ action: 'inventory', targets: [] });
+    expect(parseLocally('i', CHARACTER, HERMIT)).toMatchObject({ action: 'inventory' });
+    expect(parseLocally('status', dazed)).toMatchObject({ action: 'status', targets: [] });
+  });
+
+  it('matches items and NPCs by their exact name, ignoring case and articles', () => {
+    expect(parseLocally('take the brass lantern')).toMatchObject({ action: 'take', targets: ['Brass Lantern'] });
+    expect(parseLocally('use my rope')).toMatchObject({ action: 'use', targets: ['Rope'] });
+    expect(parseLocally('talk to old hermit')).toMatchObject({ action: 'talk', targets: ['Old Hermit'] });
+    expect(parseLocally('examine the Old Hermit')).toMatchObject({ action: 'examine', targets: ['Old Hermit'] });
+  });
+
+  it('leaves ambiguous or free-form commands to the LLM', () => {
+    expect(parseLocally('take lantern')).toBeNull();            // Not the full name
+    expect(parseLocally('use the lantern')).toBeNull();         // On the ground, not carried
+    expect(parseLocally('talk to the hermit')).toBeNull();
+    expect(parseLocally('look at the carvings')).toBeNull();    // A detail, not a known item or NPC
+    expect(parseLocally('go north quietly')).toBeNull();
+    expect(parseLocally('climb the signpost')).toBeNull();
+    expect(parseLocally('where does this road lead?', CHARACTER, HERMIT)).toBeNull();
+    expect(parseLocally('n', { ...CHARACTER, isDefeated: true })).toBeNull();
+  });
+});
@@ -1,75 +1,182 @@
 // services/commandService.ts
-import { API_KEY, callLLMWithToolAndValidateArgs, TEXT_MODEL_NAME, Tool, Type } from './geminiClient';
+import { API_KEY, callLLMWithToolAndValidateArgs, schema, defineTool, ToolArgs } from './geminiClient';
 import {
     CharacterData, FullLocationData, GameItem, GameNPC,
-    PlayerActionParseResult, Skill, ParsedPlayerActionParameters, EventEffects
+    PlayerActionParseResult, Skill, ParsedPlayerActionParameters, EventEffects, PLAYER_ACTIONS
 } from './gameTypes';
-import { SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM, formatEquippedItemsForLLM, formatCharacterLimbDetailsForLLM } from './llmPromptUtils';
-
-
-const PARSE_PLAYER_COMMAND_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "interpret_player_action",
-    description: "Interprets player command in fantasy/historical game. Identifies action, targets, params. Checks plausibility (skills like Perception/Mobility, memory context, game setting/universe, ACTIVE EVENT CONTEXT). Provides narration. Skills, memory, setting/universe, AND ACTIVE EVENT CONTEXT influence plausibility/narration.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        action: { type: Type.STRING, description: "Core action verb (e.g., 'go', 'take', 'dialogue_input', 'attack_npc', 'leave_area', 'event_dialogue_input'). For examining non-objects, use 'examine'." },
-        targets: { type: Type.ARRAY, description: "Primary targets (item names, directions, NPC names/IDs, 'area', 'self', '0,0', 'current_location'). Empty if general. For 'examine' of non-objects, this can be empty or contain the detail phrase.", items: { type: Type.STRING } },
-        parameters: {
-            type: Type.OBJECT, description: "Additional parameters. All optional.",
-            properties: {
-                withItem: { type: Type.STRING, nullable: true, description: "Item used with the action, if any." },
-                on_target: { type: Type.STRING, nullable: true, description: "Secondary target of an action, if any (e.g. 'apply bandage on arm')." },
-                is_limb_target: { type: Type.BOOLEAN, nullable: true, description: "True if 'on_target' refers to a character's limb." },
-                interaction_type: { type: Type.STRING, nullable: true, description: "Type of interaction (e.g., 'inspect', 'read')." },
-                npc_target_name: { type: Type.STRING, nullable: true, description: "Name of the NPC being interacted with directly for non-dialogue actions (e.g. examine NPC, attack NPC). This should be the primary target for actions like 'attack'." },
-                dialogue_text: { type: Type.STRING, nullable: true, description: "The text of the player's speech if the action is 'dialogue_input', 'event_dialogue_input', or an initial utterance with 'talk'." },
-                item_to_give_name: { type: Type.STRING, nullable: true, description: "Name of the item to give an NPC." },
-                target_npc_name_for_interaction: { type: Type.STRING, nullable: true, description: "Name of the NPC to give an item to." },
-                item_to_request_name: { type: Type.STRING, nullable: true, description: "Name of the item being requested from an NPC." },
-                target_npc_name_for_request: { type: Type.STRING, nullable: true, description: "Name of the NPC from whom an item is requested." },
-                direct_object_npc_id: { type: Type.STRING, nullable: true, description: "ID of NPC being targeted if 'npc_target_name' resolved to a known NPC ID from context. Crucial for 'attack_npc'."},
-                intendedLocationTypeHint: { type: Type.STRING, nullable: true, description: "If moving, a player-suggested location type (e.g., 'forest', 'market', 'cave'). Null otherwise." },
-                examine_detail_target: { type: Type.STRING, nullable: true, description: "If player examines a detail not an item/NPC (e.g., 'examine fissure', 'look at carvings'), this field holds the detail string (e.g., 'fissure', 'carvings'). 'action' is 'examine', 'targets' may be empty or hold the detail. If this is populated, narrationForPlausibleAction should be null as specific handling is needed." }
-            },
-        },
-        isPlausible: { type: Type.BOOLEAN, description: "Contextually plausible (game state, skills, equipped items, MEMORY CONTEXT, game setting/universe, ACTIVE EVENT CONTEXT). E.g., picking complex lock with 0 Lockpicking & no memory of a key is implausible." },
-        reasonIfNotPlausible: { type: Type.STRING, nullable: true, description: "Brief reason if not plausible." },
-        narrationForPlausibleAction: { type: Type.STRING, nullable: true, description: "Optional brief narration IF PLAUSIBLE SIMPLE ACTION (e.g., 'You scan surroundings.'). CRITICALLY, IF action IS 'dialogue_input', 'event_dialogue_input', 'attack_npc', 'leave_area', 'give_item', 'request_item_from_npc', OR ('talk' AND parameters.dialogue_text is present), OR IF 'examine_detail_target' is populated, THIS FIELD MUST BE NULL or empty, as these actions have their own dedicated narration mechanisms that will be invoked by the game system based on the parsed action type and parameters. This field is ONLY for simple, self-contained actions that don't trigger complex downstream logic. Reflects skills, memory, game setting/universe, AND ACTIVE EVENT CONTEXT." },
-      },
-      required: ["action", "targets", "isPlausible"],
-    },
-  }],
-};
+import {
+  SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM, formatEquippedItemsForLLM, formatCharacterLimbDetailsForLLM, formatStatusEffectsForLLM
+} from './llmPromptUtils';
+import { getNewCoordinates, getEffectiveSkills } from './gameEngine';
 
-const validatePlayerActionParseResult = (data: any): data is PlayerActionParseResult => {
-    if (!data || typeof data.action !== 'string' || !Array.isArray(data.targets) || typeof data.isPlausible !== 'boolean') {
-        return false;
-    }
-    if (data.parameters !== undefined && data.parameters !== null && typeof data.parameters !== 'object') {
-        return false;
-    }
-    if (data.parameters?.intendedLocationTypeHint !== undefined && data.parameters?.intendedLocationTypeHint !== null && typeof data.parameters.intendedLocationTypeHint !== 'string') {
-        console.warn(`Validation Warning: intendedLocationTypeHint should be string or null, but was: '${data.parameters.intendedLocationTypeHint}'`);
-        return false;
-    }
-    if (data.parameters?.examine_detail_target !== undefined && data.parameters?.examine_detail_target !== null && typeof data.parameters.examine_detail_target !== 'string') {
-        console.warn(`Validation Warning: examine_detail_target should be string or null, but was: '${data.parameters.examine_detail_target}'`);
-        return false;
-    }
+
+const { string, boolean, array, object, optional, nullable } = schema;
+const optionalText = (description: string) => optional(string(description));
+
+export const PARSE_PLAYER_COMMAND_TOOL = defineTool({
+  name: "interpret_player_action",
+  description: "Interprets player command in fantasy/historical game. Identifies action, targets, params. Checks plausibility (skills like Perception/Mobility, memory context, game setting/universe, ACTIVE EVENT CONTEXT). Provides narration. Skills, memory, setting/universe, AND ACTIVE EVENT CONTEXT influence plausibility/narration.",
+  parameters: object({
+    action: string("Core action verb (e.g., 'go', 'take', 'dialogue_input', 'attack_npc', 'leave_area', 'event_dialogue_input'). For examining non-objects, use 'examine'. To recover energy use 'rest' (short break), 'camp' (longer rest, setting up camp) or 'sleep'."),
+    targets: array(string(), "Primary targets (item names, directions, NPC names/IDs, 'area', 'self', '0,0', 'current_location'). Empty if general. For 'examine' of non-objects, this can be empty or contain the detail phrase."),
+    parameters: optional(nullable(object({
+      withItem: optionalText("Item used with the action, if any."),
+      on_target: optionalText("Secondary target of an action, if any (e.g. 'apply bandage on arm')."),
+      is_limb_target: optional(boolean("True if 'on_target' refers to a character's limb.")),
+      interaction_type: optionalText("Type of interaction (e.g., 'inspect', 'read')."),
+      npc_target_name: optionalText("Name of the NPC being interacted with directly for non-dialogue actions (e.g. examine NPC, attack NPC). This should be the primary target for actions like 'attack'."),
+      dialogue_text: optionalText("The text of the player's speech if the action is 'dialogue_input', 'event_dialogue_input', or an initial utterance with 'talk'."),
+      item_to_give_name: optionalText("Name of the item to give an NPC."),
+      target_npc_name_for_interaction: optionalText("Name of the NPC to give an item to."),
+      item_to_request_name: optionalText("Name of the item being requested from an NPC."),
+      target_npc_name_for_request: optionalText("Name of the NPC from whom an item is requested."),
+      direct_object_npc_id: optionalText("ID of NPC being targeted if 'npc_target_name' resolved to a known NPC ID from context. Crucial for 'attack_npc'."),
+      intendedLocationTypeHint: optionalText("If moving, a player-suggested location type (e.g., 'forest', 'market', 'cave'). Null otherwise."),
+      examine_detail_target: optionalText("If player examines a detail not an item/NPC (e.g., 'examine fissure', 'look at carvings'), this field holds the detail string (e.g., 'fissure', 'carvings'). 'action' is 'examine', 'targets' may be empty or hold the detail. If this is populated, narrationForPlausibleAction should be null as specific handling is needed."),
+    }, "Additional parameters. All optional."))),
+    isPlausible: boolean("Contextually plausible (game state, skills, equipped items, STATUS EFFECTS, MEMORY CONTEXT, game setting/universe, ACTIVE EVENT CONTEXT). E.g., picking complex lock with 0 Lockpicking & no memory of a key is implausible; reading a sign while 'Blinded' is implausible."),
+    reasonIfNotPlausible: optional(nullable(string("Brief reason if not plausible."))),
+    narrationForPlausibleAction: optional(nullable(string("Optional brief narration IF PLAUSIBLE SIMPLE ACTION (e.g., 'You scan surroundings.'). CRITICALLY, IF action IS 'dialogue_input', 'event_dialogue_input', 'attack_npc', 'leave_area', 'give_item', 'request_item_from_npc', OR ('talk' AND parameters.dialogue_text is present), OR IF 'examine_detail_target' is populated, THIS FIELD MUST BE NULL or empty, as these actions have their own dedicated narration mechanisms that will be invoked by the game system based on the parsed action type and parameters. This field is ONLY for simple, self-contained actions that don't trigger complex downstream logic. Reflects skills, memory, game setting/universe, AND ACTIVE EVENT CONTEXT."))),
+  }),
+});
+
+// Fills the fields the model may leave out and logs narration the game will ignore anyway.
+const toPlayerActionParseResult = (args: ToolArgs<typeof PARSE_PLAYER_COMMAND_TOOL>): PlayerActionParseResult => {
+    const result: PlayerActionParseResult = {
+        ...args,
+        parameters: args.parameters ?? null,
+        reasonIfNotPlausible: args.reasonIfNotPlausible ?? null,
+        narrationForPlausibleAction: args.narrationForPlausibleAction ?? null,
+    };
+    const narration = result.narrationForPlausibleAction?.trim();
+    if (!narration) return result;
 
     const restrictedNarrationActions = ['dialogue_input', 'event_dialogue_input', 'attack_npc', 'leave_area', 'give_item', 'request_item_from_npc'];
-    if (restrictedNarrationActions.includes(data.action) && data.narrationForPlausibleAction && data.narrationForPlausibleAction.trim() !== '') {
-        console.warn(`Validation Warning: narrationForPlausibleAction should be null/empty for action '${data.action}', but was: '${data.narrationForPlausibleAction}'`);
+    if (restrictedNarrationActions.includes(result.action)) {
+        console.warn(`Validation Warning: narrationForPlausibleAction should be null/empty for action '${result.action}', but was: '${narration}'`);
     }
-    if (data.action === 'talk' && data.parameters?.dialogue_text && data.narrationForPlausibleAction && data.narrationForPlausibleAction.trim() !== '') {
-         console.warn(`Validation Warning: narrationForPlausibleAction should be null/empty for 'talk' with dialogue_text, but was: '${data.narrationForPlausibleAction}'`);
+    if (result.action === 'talk' && result.parameters?.dialogue_text) {
+         console.warn(`Validation Warning: narrationForPlausibleAction should be null/empty for 'talk' with dialogue_text, but was: '${narration}'`);
     }
-    if (data.parameters?.examine_detail_target && data.narrationForPlausibleAction && data.narrationForPlausibleAction.trim() !== '') {
-        console.warn(`Validation Warning: narrationForPlausibleAction should be null/empty when 'examine_detail_target' is present, but was: '${data.narrationForPlausibleAction}'`);
+    if (result.parameters?.examine_detail_target) {
+        console.warn(`Validation Warning: narrationForPlausibleAction should be null/empty when 'examine_detail_target' is present, but was: '${narration}'`);
     }
-    return true;
+    return result;
+};
+
+// --- Local fast path ---
+// Resolves short, unambiguous commands without an LLM round trip. Anything free-form,
+// anything that names something we can't match exactly, and anything said during an
+// event or conversation or under a status effect (other than global commands) returns
+// null and goes to the LLM.
+
+const INVENTORY_PHRASES = ['inventory', 'inv', 'i', 'check inventory', 'show inventory'];
+const STATUS_PHRASES = ['status', 'health', 'stats', 'check self', 'check status', 'check health'];
+const END_CONVERSATION_PHRASES = ['bye', 'goodbye', 'good bye', 'farewell', 'end conversation', 'stop talking'];
+const LOOK_AROUND_PHRASES = ['look', 'l', 'look around', 'examine area', 'examine surroundings', 'look at surroundings'];
+const SEARCH_ITEMS_PHRASES = ['search', 'search area', 'search the area', 'search for items', 'look for items'];
+const LOOK_FOR_PEOPLE_PHRASES = ['look for people', 'search for people', 'find people', 'look for someone'];
+const REST_PHRASES: Record<string, string> = {
+  'rest': PLAYER_ACTIONS.REST, 'take a rest': PLAYER_ACTIONS.REST, 'take a break': PLAYER_ACTIONS.REST, 'sit down': PLAYER_ACTIONS.REST,
+  'camp': PLAYER_ACTIONS.CAMP, 'make camp': PLAYER_ACTIONS.CAMP, 'set up camp': PLAYER_ACTIONS.CAMP,
+  'sleep': PLAYER_ACTIONS.SLEEP, 'go to sleep': PLAYER_ACTIONS.SLEEP, 'go to bed': PLAYER_ACTIONS.SLEEP,
+};
+const MOVE_VERBS = ['go', 'move', 'walk', 'run', 'head'];
+const TAKE_PREFIXES = ['pick up', 'take', 'get', 'grab'];
+const EXAMINE_PREFIXES = ['examine', 'inspect', 'look at'];
+const ARTICLE_REGEX = /^(the|a|an|my)\s+/;
+
+const normalizeCommand = (command: string): string =>
+  command.toLowerCase().trim().replace(/[.!?]+$/, '').replace(/\s+/g, ' ');
+
+const localResult = (action: string, targets: string[]): PlayerActionParseResult => ({
+  action, targets, parameters: null, isPlausible: true, reasonIfNotPlausible: null, narrationForPlausibleAction: null,
+});
+
+// Returns the text after the first matching prefix, minus a leading article.
+const stripPrefix = (text: string, prefixes: string[]): string | null => {
+  const prefix = prefixes.find(p => text.startsWith(`${p} `));
+  return prefix ? text.slice(prefix.length + 1).replace(ARTICLE_REGEX, '').trim() : null;
+};
+
+const findByExactName = <T extends { name: string }>(candidates: ReadonlyArray<T> | null | undefined, name: string): T | undefined =>
+  candidates?.find(c => c.name.toLowerCase() === name);
+
+const parseDirection = (text: string): string | null => {
+  const words = text.split(' ');
+  const directionWord = words.length === 1 ? words[0]
+    : words.length === 2 && MOVE_VERBS.includes(words[0]) ? words[1]
+    : null;
+  if (!directionWord) return null;
+  const { normalizedDirection } = getNewCoordinates(0, 0, directionWord);
+  return normalizedDirection === 'an_unknown_direction' ? null : normalizedDirection;
+};
+
+export const parsePlayerCommandLocally = (
+  command: string, character: CharacterData, location: FullLocationData,
+  locationItems: GameItem[] | null, playerInventory: GameItem[],
+  locationNPCs: GameNPC[], talkingToNPC: GameNPC | null,
+  activeEventDetails?: EventEffects | null
+): PlayerActionParseResult | null => {
+  // Defeated players get the LLM's judgement on what is still possible.
+  if (character.isDefeated) return null;
+  const text = normalizeCommand(command);
+  if (!text) return null;
+
+  if (INVENTORY_PHRASES.includes(text)) return localResult(PLAYER_ACTIONS.INVENTORY, []);
+  if (STATUS_PHRASES.includes(text)) return localResult(PLAYER_ACTIONS.STATUS, []);
+
+  if (activeEventDetails?.requiresPlayerActionToResolve) return null;
+  // A "Blinded" or "Paralysed" player can't simply look around or walk off; the LLM judges that.
+  if (character.statusEffects?.length) return null;
+  if (talkingToNPC) {
+    return END_CONVERSATION_PHRASES.includes(text) ? localResult(PLAYER_ACTIONS.END_CONVERSATION, []) : null;
+  }
+
+  const direction = parseDirection(text);
+  if (direction) {
+    if (!location.validExits.map(e => e.toLowerCase()).includes(direction)) {
+      return {
+        ...localResult(PLAYER_ACTIONS.GO, [direction]),
+        isPlausible: false,
+        reasonIfNotPlausible: `You can't go ${direction} from ${location.name}. Exits: ${location.validExits.join(', ') || 'none'}.`,
+      };
+    }
+    return localResult(PLAYER_ACTIONS.GO, [direction]);
+  }
+
+  if (LOOK_AROUND_PHRASES.includes(text)) return localResult(PLAYER_ACTIONS.LOOK, ['area']);
+  if (SEARCH_ITEMS_PHRASES.includes(text)) return localResult(PLAYER_ACTIONS.SEARCH_AREA_FOR_ITEMS, ['area']);
+  if (LOOK_FOR_PEOPLE_PHRASES.includes(text)) return localResult(PLAYER_ACTIONS.LOOK_FOR_PEOPLE, ['area']);
+  if (REST_PHRASES[text]) return localResult(REST_PHRASES[text], []);
+
+  const takeTarget = stripPrefix(text, TAKE_PREFIXES);
+  if (takeTarget) {
+    const item = findByExactName(locationItems, takeTarget);
+    return item ? localResult(PLAYER_ACTIONS.TAKE, [item.name]) : null;
+  }
+
+  const useTarget = stripPrefix(text, ['use']);
+  if (useTarget) {
+    const item = findByExactName(playerInventory, useTarget);
+    return item ? localResult(PLAYER_ACTIONS.USE, [item.name]) : null;
+  }
+
+  const talkTarget = stripPrefix(text, ['talk to', 'speak to', 'speak with']);
+  if (talkTarget) {
+    const npc = findByExactName(locationNPCs, talkTarget);
+    return npc ? localResult(PLAYER_ACTIONS.TALK, [npc.name]) : null;
+  }
+
+  const examineTarget = stripPrefix(text, EXAMINE_PREFIXES);
+  if (examineTarget) {
+    const known = findByExactName(playerInventory, examineTarget)
+      || findByExactName(locationItems, examineTarget)
+      || findByExactName(locationNPCs, examineTarget);
+    return known ? localResult(PLAYER_ACTIONS.EXAMINE, [known.name]) : null;
+  }
+
+  return null;
 };
 
 export const parsePlayerCommandAndDetermineAction = async (
@@ -77,10 +184,14 @@ export const parsePlayerCommandAndDetermineAction = async (
   locationItems: GameItem[] | null, playerInventory: GameItem[],
   recentGameLog: string[], locationNPCs: GameNPC[], talkingToNPC: GameNPC | null,
   memoryContextString: string = "",
-  activeEventDetails?: EventEffects | null // Added optional activeEventDetails
+  activeEventDetails?: EventEffects | null, // Added optional activeEventDetails
+  signal?: AbortSignal
 ): Promise<PlayerActionParseResult> => {
+  const localParse = parsePlayerCommandLocally(command, character, location, locationItems, playerInventory, locationNPCs, talkingToNPC, activeEventDetails);
+  if (localParse) return localParse;
+
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
-  const charSkillsStr = formatSkillsForLLM(character.skills);
+  const charSkillsStr = formatSkillsForLLM(getEffectiveSkills(character));
   const charEquippedStr = formatEquippedItemsForLLM(character.limbs);
   const charLimbDetailsStr = formatCharacterLimbDetailsForLLM(character.limbs);
 
@@ -93,7 +204,7 @@ export const parsePlayerCommandAndDetermineAction = async (
     gameSettingContext += ` This is a general fictional world.`;
   }
 
-  let contextPrompt = `Player: ${character.characterConcept}. Vitals: Health ${character.overallHealth}HP, Energy ${character.currentEnergy}/${character.maxEnergy}EN. Limbs & Equipment: [${charLimbDetailsStr}]. Defeated: ${character.isDefeated}. Skills: [${charSkillsStr}]. ${gameSettingContext} ${SKILL_LEVEL_INTERPRETATION_GUIDE}`;
+  let contextPrompt = `Player: ${character.characterConcept}. Vitals: Health ${character.overallHealth}HP, Energy ${character.currentEnergy}/${character.maxEnergy}EN. Limbs & Equipment: [${charLimbDetailsStr}]. Defeated: ${character.isDefeated}. Status effects: [${formatStatusEffectsForLLM(character.statusEffects)}]. Skills (status effects included): [${charSkillsStr}]. ${gameSettingContext} ${SKILL_LEVEL_INTERPRETATION_GUIDE}`;
   contextPrompt += `\nLocation: ${location.name} (Description: "${location.description}"). Env: ${location.environmentTags.join(', ')}. Exits: [${location.validExits.join(', ') || 'None'}].`;
   if (locationItems?.length) contextPrompt += `\nItems here: ${locationItems.map(i => i.name).join(', ')}.`;
   else if (locationItems === null) contextPrompt += `\nItems here: Unknown (not searched).`; else contextPrompt += `\nItems here: None.`;
@@ -121,6 +232,9 @@ export const parsePlayerCommandAndDetermineAction = async (
     contextPrompt += eventContextForParsing;
   }
 
+  if (character.statusEffects?.length) {
+    contextPrompt += "\nCRITICAL: Player's STATUS EFFECTS limit what they can do. An action the condition rules out (e.g. reading, aiming or examining details while 'Blinded', sprinting while 'Exhausted') is NOT plausible; say why in reasonIfNotPlausible. Plausible actions should be narrated as hampered by the condition.";
+  }
   if (character.isDefeated) contextPrompt += "\nCRITICAL: Player DEFEATED. Most actions implausible (unless 'try again'/'restart').";
 
   const prompt = `${contextPrompt}
@@ -149,6 +263,8 @@ If an NPC is attacked and their ID is available in the "NPCs present" context, Y
 ALWAYS call the 'interpret_player_action' tool to structure your response.
 `;
 
-  return callLLMWithToolAndValidateArgs(prompt, PARSE_PLAYER_COMMAND_TOOL, validatePlayerActionParseResult,
-    "Invalid player action parse (check conversation/event mode, memory context, attack handling, ID provision, 'leave_area' handling, narration rule for complex actions, or game setting/universe consistency, examine_detail_target)", "parsePlayerCommandAndDetermineAction");
+  const args = await callLLMWithToolAndValidateArgs(prompt, PARSE_PLAYER_COMMAND_TOOL.tool, PARSE_PLAYER_COMMAND_TOOL.validateArgs,
+    "Invalid player action parse (check conversation/event mode, memory context, attack handling, ID provision, 'leave_area' handling, narration rule for complex actions, or game setting/universe consistency, examine_detail_target)", "parsePlayerCommandAndDetermineAction",
+    1, { service: 'parsePlayerCommandAndDetermineAction', priority: 'interactive', signal });
+  return toPlayerActionParseResult(args);
 };
@@ -1,5 +1,9 @@
 // services/config/gameConstants.ts
-import { Skill } from '../types/characterTypes';
+import { Skill, StatusEffectStacking } from '../types/characterTypes';
+import { ItemRarity, LocationRarity, MemorableEntityRarity } from '../types/commonTypes';
+import { GameNPC } from '../types/npcTypes';
+import { PotentialDiscoveryType } from '../types/loreTypes';
+import { WeatherCondition } from '../types/worldTypes';
 
 export const PREDEFINED_SKILLS_CONFIG: Omit<Skill, 'level' | 'experience' | 'experienceToNextLevel' | 'id'>[] = [
   { name: 'Combat', description: 'Proficiency in physical confrontations, including using weapons and unarmed techniques. Affects attack accuracy, damage, and defensive maneuvers.' },
@@ -9,3 +13,59 @@ export const PREDEFINED_SKILLS_CONFIG: Omit<Skill, 'level' | 'experience' | 'exp
   { name: 'Persuasion', description: 'Skill in influencing others through dialogue, negotiation, or charm. Affects NPC reactions, quest outcomes, and trading.' },
   { name: 'Mobility', description: 'Represents agility, nimbleness, and ease of movement. May influence future actions like evasion or navigating difficult terrain.' },
 ];
+
+// Allowed values for LLM tool enums. Typed against the game types so the two cannot drift apart.
+export const ITEM_RARITIES = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'] as const satisfies readonly ItemRarity[];
+export const LOCATION_RARITIES = ITEM_RARITIES satisfies readonly LocationRarity[];
+export const MEMORABLE_ENTITY_RARITIES = [...ITEM_RARITIES, 'Lore', 'Character_Self'] as const satisfies readonly MemorableEntityRarity[];
+export const NPC_DISPOSITIONS = ['Neutral', 'Friendly', 'Hostile', 'Afraid'] as const satisfies readonly NonNullable<GameNPC['disposition']>[];
+export const POTENTIAL_DISCOVERY_TYPES = ['item', 'npc', 'location'] as const satisfies readonly PotentialDiscoveryType[];
+export const STATUS_EFFECT_STACKING_RULES = ['refresh', 'stack', 'ignore'] as const satisfies readonly StatusEffectStacking[];
+export const WEATHER_CONDITIONS = ['clear', 'cloudy', 'fog', 'rain', 'storm', 'snow', 'wind', 'heat'] as const satisfies readonly WeatherCondition[];
+
+// Bounds for status effects suggested by the LLM, so a single answer cannot drain or max out the character.
+export const STATUS_EFFECT_LIMITS = {
+  maxDurationTurns: 50,
+  maxChangePerTurn: 10,  // Health or energy, per stack
+  maxSkillModifier: 5,   // Per stack
+  maxStacks: 5,
+};
+
+// How much resting restores is part of the game rules (services/config/gameRules.ts).
+export const REST_SAFETY_CONFIG = {
+  // Environment tags that make a location unsafe to rest in (matched as substrings, lower case).
+  dangerousEnvironmentTags: ['hostile', 'danger', 'haunted', 'cursed', 'infested', 'lair', 'battlefield', 'war', 'monster', 'bandit', 'predator'],
+};
+
+// Story difficulty: where a defeated character gets back up (services/gameEngine/recovery.ts).
+export const STORY_REVIVAL_CONFIG = {
+  limbHealth: 30,   // Every limb, destroyed ones included, comes back at this health
+  minEnergy: 30,    // Energy is raised to at least this
+  maxLostItems: 2,  // Most inventory items the narrated consequence may take
+};
+
+// In-game minutes each action takes on the world clock (services/gameEngine/worldClock.ts).
+// Hours of the day bound the time-of-day periods: dawn from dawnHour, day from dayHour, and so on.
+export const WORLD_CLOCK_CONFIG = {
+  startHour: 8,
+  dawnHour: 5,
+  dayHour: 7,
+  duskHour: 18,
+  nightHour: 20,
+  minutesPerAction: {
+    command: 5, // Every plausible command; the actions below take their time on top
+    move: 30,
+    search: 20,
+    craft: 60,
+    rest: 60,
+    camp: 240,
+    sleep: 480,
+    event: 30, // An event's "time passes" text that names no duration
+  },
+  regionSize: 3,                // Locations per side of a weather region
+  weatherPeriodMinutes: 360,    // Rolled weather lasts this long
+  eventWeatherMinutes: 240,     // Weather changed by an event lasts this long
+  maxEventMinutes: 24 * 60,     // So a single event cannot skip days
+  // Relative chance of each condition when weather is rolled.
+  weatherWeights: { clear: 30, cloudy: 25, fog: 8, rain: 15, storm: 5, snow: 4, wind: 9, heat: 4 } satisfies Record<WeatherCondition, number>,
+};
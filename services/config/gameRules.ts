@@ -0,0 +1,197 @@
+// services/config/gameRules.ts
+import { DifficultyMode, GameRules, GameRulesPresetId } from '../types/rulesTypes';
+
+export const GAME_RULES_PRESET_IDS = ['Story', 'Standard', 'Hardcore'] as const satisfies readonly GameRulesPresetId[];
+export const DEFAULT_GAME_RULES_PRESET: GameRulesPresetId = 'Standard';
+export const DIFFICULTY_MODE_IDS = ['Story', 'Checkpoint', 'Permadeath'] as const satisfies readonly DifficultyMode[];
+export const DEFAULT_DIFFICULTY_MODE: DifficultyMode = 'Checkpoint';
+
+const STANDARD_RULES: GameRules = {
+  energyCosts: {
+    move: 2,
+    searchForItems: 2,
+    searchForPeople: 2,
+    pickupItem: 0,
+    useItem: 1,
+    applyItemToLimb: 1,
+    unequipItem: 0,
+    giveItem: 1,
+    requestItem: 1,
+    craft: 3,
+  },
+  skillXp: {
+    examine: 1,
+    itemsFound: 5,
+    peopleFound: 3,
+    move: 1,
+    giftAccepted: 10,
+    itemReceived: 10,
+    craftByRarity: { Common: 5, Uncommon: 10, Rare: 20, Epic: 50, Legendary: 100 },
+    recipeCraftShare: 0.5,
+  },
+  skillProgression: {
+    baseXpToNextLevel: 100,
+    xpToNextLevelPerLevel: 100,
+    xpToLearnSkill: 50,
+  },
+  npcSkillLevels: {
+    generated: {
+      Common: { min: 0, max: 1 },
+      Uncommon: { min: 0, max: 1 },
+      Rare: { min: 1, max: 2 },
+      Epic: { min: 2, max: 4 },
+      Legendary: { min: 3, max: 5 },
+    },
+    untrainedChance: 0.6,
+    legendaryCombat: { min: 7, max: 8 },
+    eventSpawned: {
+      Common: { min: 1, max: 3 },
+      Uncommon: { min: 1, max: 3 },
+      Rare: { min: 3, max: 5 },
+      Epic: { min: 5, max: 7 },
+      Legendary: { min: 7, max: 10 },
+    },
+  },
+  recovery: {
+    passiveEnergyPerTurn: 1,
+    passiveLimbHealthPerTurn: 0.5,
+    rest: { energy: 15, limbHealth: 3 },
+    camp: { energy: 35, limbHealth: 8 },
+    sleep: { energy: 60, limbHealth: 15 },
+    disturbedRestFactor: 0.5,
+  },
+};
+
+// Cheaper actions, faster progress, weaker event foes and generous recovery.
+const STORY_RULES: GameRules = {
+  energyCosts: {
+    move: 1,
+    searchForItems: 1,
+    searchForPeople: 1,
+    pickupItem: 0,
+    useItem: 0,
+    applyItemToLimb: 0,
+    unequipItem: 0,
+    giveItem: 0,
+    requestItem: 0,
+    craft: 1,
+  },
+  skillXp: {
+    ...STANDARD_RULES.skillXp,
+    examine: 2,
+    itemsFound: 10,
+    peopleFound: 6,
+    move: 2,
+    giftAccepted: 20,
+    itemReceived: 20,
+    craftByRarity: { Common: 10, Uncommon: 20, Rare: 40, Epic: 100, Legendary: 200 },
+    recipeCraftShare: 1,
+  },
+  skillProgression: {
+    baseXpToNextLevel: 60,
+    xpToNextLevelPerLevel: 60,
+    xpToLearnSkill: 30,
+  },
+  npcSkillLevels: {
+    ...STANDARD_RULES.npcSkillLevels,
+    legendaryCombat: { min: 5, max: 6 },
+    eventSpawned: {
+      Common: { min: 0, max: 2 },
+      Uncommon: { min: 1, max: 2 },
+      Rare: { min: 2, max: 4 },
+      Epic: { min: 3, max: 5 },
+      Legendary: { min: 5, max: 7 },
+    },
+  },
+  recovery: {
+    passiveEnergyPerTurn: 2,
+    passiveLimbHealthPerTurn: 1,
+    rest: { energy: 25, limbHealth: 6 },
+    camp: { energy: 50, limbHealth: 15 },
+    sleep: { energy: 80, limbHealth: 30 },
+    disturbedRestFactor: 0.75,
+  },
+};
+
+// Every action costs more, skills grow slowly, foes are tougher and rest only goes so far.
+const HARDCORE_RULES: GameRules = {
+  energyCosts: {
+    move: 4,
+    searchForItems: 3,
+    searchForPeople: 3,
+    pickupItem: 1,
+    useItem: 2,
+    applyItemToLimb: 2,
+    unequipItem: 1,
+    giveItem: 2,
+    requestItem: 2,
+    craft: 6,
+  },
+  skillXp: {
+    ...STANDARD_RULES.skillXp,
+    itemsFound: 4,
+    peopleFound: 2,
+    giftAccepted: 8,
+    itemReceived: 8,
+    craftByRarity: { Common: 4, Uncommon: 8, Rare: 15, Epic: 40, Legendary: 80 },
+    recipeCraftShare: 0.25,
+  },
+  skillProgression: {
+    baseXpToNextLevel: 150,
+    xpToNextLevelPerLevel: 150,
+    xpToLearnSkill: 80,
+  },
+  npcSkillLevels: {
+    generated: {
+      Common: { min: 0, max: 2 },
+      Uncommon: { min: 1, max: 2 },
+      Rare: { min: 2, max: 3 },
+      Epic: { min: 3, max: 5 },
+      Legendary: { min: 4, max: 6 },
+    },
+    untrainedChance: 0.4,
+    legendaryCombat: { min: 8, max: 10 },
+    eventSpawned: {
+      Common: { min: 2, max: 4 },
+      Uncommon: { min: 2, max: 4 },
+      Rare: { min: 4, max: 6 },
+      Epic: { min: 6, max: 8 },
+      Legendary: { min: 8, max: 10 },
+    },
+  },
+  recovery: {
+    passiveEnergyPerTurn: 0.5,
+    passiveLimbHealthPerTurn: 0.25,
+    rest: { energy: 10, limbHealth: 2 },
+    camp: { energy: 25, limbHealth: 5 },
+    sleep: { energy: 45, limbHealth: 10 },
+    disturbedRestFactor: 0.25,
+  },
+};
+
+export const GAME_RULES_PRESETS: Record<GameRulesPresetId, GameRules> = {
+  Story: STORY_RULES,
+  Standard: STANDARD_RULES,
+  Hardcore: HARDCORE_RULES,
+};
+
+// Shown next to the preset picker on the new game form.
+export const GAME_RULES_PRESET_DESCRIPTIONS: Record<GameRulesPresetId, string> = {
+  Story: 'Actions cost little energy, skills grow quickly and rest restores a lot. For following the story.',
+  Standard: 'The intended balance.',
+  Hardcore: 'Every action is tiring, skills grow slowly, foes are tougher and rest restores little.',
+};
+
+// For preset names read from saves and the command line.
+export const isGameRulesPresetId = (value: unknown): value is GameRulesPresetId =>
+  (GAME_RULES_PRESET_IDS as readonly unknown[]).includes(value);
+
+// Shown next to the difficulty picker on the new game form.
+export const DIFFICULTY_MODE_DESCRIPTIONS: Record<DifficultyMode, string> = {
+  Story: 'Defeat is never the end: you come back at reduced health, and the story remembers what it cost you.',
+  Checkpoint: 'The game is checkpointed on reaching new places and when events conclude. Defeat offers to reload the last checkpoint.',
+  Permadeath: 'Defeat ends the run for good and erases its saves.',
+};
+
+export const isDifficultyMode = (value: unknown): value is DifficultyMode =>
+  (DIFFICULTY_MODE_IDS as readonly unknown[]).includes(value);
@@ -1,40 +1,8 @@
 // services/event/eventDecisionService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, Tool, Type, FunctionDeclaration } from '../geminiClient';
+import { API_KEY, callLLMWithToolAndValidateArgs } from '../geminiClient';
 import { CharacterData, FullLocationData, GameItem, GameLogEntry, VisualStyleType } from '../types';
 import { formatSkillsForLLM, SKILL_LEVEL_INTERPRETATION_GUIDE, formatCharacterLimbDetailsForLLM } from '../llmPromptUtils';
-
-export type EventDecisionFromTool = {
-  shouldTriggerEvent: boolean;
-  eventConcept: string | null;
-  eventIntensity: 'low' | 'medium' | 'high' | null;
-};
-
-const validateEventDecisionStructure = (data: any): data is EventDecisionFromTool => {
-  const validIntensities: Array<'low' | 'medium' | 'high' | null> = ['low', 'medium', 'high', null];
-  return (
-    data &&
-    typeof data.shouldTriggerEvent === 'boolean' &&
-    (data.eventConcept === null || (typeof data.eventConcept === 'string' && data.eventConcept.trim() !== '')) &&
-    (validIntensities.includes(data.eventIntensity)) &&
-    (data.shouldTriggerEvent ? (data.eventConcept !== null && data.eventIntensity !== null) : true)
-  );
-};
-
-export const DECIDE_EVENT_TRIGGER_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "decide_event_trigger_and_concept",
-    description: "Decides if an event should trigger based on player action and game context. Provides a concept and intensity if an event is warranted. Considers significance of trigger (rarity of involved entities: Epic/Legendary), character skills (Perception), location, inventory, recent logs, memory, and game setting. CRITICAL: Mundane actions or those involving Common/Uncommon entities should NOT trigger events unless context is exceptional. Events should be STORY-DRIVEN and impactful. If trigger context involves 'dialogue_interaction_with_', consider the dialogue content from Recent Log/Memory for significance.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        shouldTriggerEvent: { type: Type.BOOLEAN, description: "True if an event is warranted (primarily for Epic/Legendary triggers, or significant dialogue with Epic/Legendary NPCs), false otherwise. False for mundane triggers." },
-        eventConcept: { type: Type.STRING, nullable: true, description: "If true, a brief (3-10 word) evocative concept for the event, focusing on STORY or CHALLENGE. E.g., 'The ground trembles ominously', 'NPC Enraged by Insult', 'Secret Revealed to the Council'. Null if false. (Nullable)" },
-        eventIntensity: { type: Type.STRING, nullable: true, description: "If true, suggested intensity: 'low' (atmospheric, minor choice), 'medium' (direct interaction, some consequence), 'high' (significant challenge/plot). Null if false. (Nullable, Enum: low, medium, high)" }
-      },
-      required: ["shouldTriggerEvent", "eventConcept", "eventIntensity"]
-    }
-  } as FunctionDeclaration]
-};
+import { DECIDE_EVENT_TRIGGER_TOOL, EventDecisionFromTool } from './eventTools';
 
 export const decideIfEventShouldTrigger = async (
   triggerContext: string,
@@ -105,11 +73,12 @@ CRITICAL: Invoke 'decide_event_trigger_and_concept' tool. Adhere to schema.
 If 'shouldTriggerEvent' is true, 'eventConcept' and 'eventIntensity' MUST be provided and align with the trigger (rarity and/or dialogue significance).
 If 'shouldTriggerEvent' is false, 'eventConcept' and 'eventIntensity' MUST be null.`;
 
-  return callLLMWithToolAndValidateArgs(
+  return callLLMWithToolAndValidateArgs<EventDecisionFromTool>(
     prompt,
-    DECIDE_EVENT_TRIGGER_TOOL,
-    validateEventDecisionStructure,
+    DECIDE_EVENT_TRIGGER_TOOL.tool,
+    DECIDE_EVENT_TRIGGER_TOOL.validateArgs,
     "Invalid event decision structure (check shouldTriggerEvent, eventConcept, eventIntensity, consistency, focus on story/challenge and rarity/dialogue rules)",
-    `decideIfEventShouldTrigger (Trigger: ${triggerContext})`
+    `decideIfEventShouldTrigger (Trigger: ${triggerContext})`,
+    1, { service: 'decideIfEventShouldTrigger' }
   );
 };
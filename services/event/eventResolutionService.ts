@@ -1,22 +1,8 @@
 // services/event/eventResolutionService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, Tool, Type, FunctionDeclaration, Schema } from '../geminiClient';
+import { API_KEY, callLLMWithToolAndValidateArgs } from '../geminiClient';
 import { EventEffects, PlayerActionParseResult, CharacterData, GameNPC, EventResolutionResult, GameItem, VisualStyleType } from '../types';
 import { formatSkillsForLLM, SKILL_LEVEL_INTERPRETATION_GUIDE, formatCharacterLimbDetailsForLLM } from '../llmPromptUtils';
-
-const validateEventResolutionResult = (data: any): data is EventResolutionResult => {
-  return (
-    data &&
-    typeof data.resolved === 'boolean' &&
-    typeof data.resolutionNarration === 'string' && data.resolutionNarration.trim() !== '' &&
-    (data.majorPlotPointSummary === undefined || data.majorPlotPointSummary === null || typeof data.majorPlotPointSummary === 'string') && 
-    (data.updatedNpcDisposition === undefined || data.updatedNpcDisposition === null || (typeof data.updatedNpcDisposition === 'object' && typeof data.updatedNpcDisposition.npcId === 'string')) &&
-    (data.itemsAwardedToPlayer === undefined || data.itemsAwardedToPlayer === null || Array.isArray(data.itemsAwardedToPlayer)) &&
-    (data.progressed === undefined || typeof data.progressed === 'boolean') &&
-    (data.nextStageNarration === undefined || data.nextStageNarration === null || typeof data.nextStageNarration === 'string') &&
-    (data.updatedVisualPromptHintForEventImage === undefined || data.updatedVisualPromptHintForEventImage === null || typeof data.updatedVisualPromptHintForEventImage === 'string') &&
-    (data.updatedResolutionCriteriaPrompt === undefined || data.updatedResolutionCriteriaPrompt === null || typeof data.updatedResolutionCriteriaPrompt === 'string')
-  );
-};
+import { EVALUATE_EVENT_RESOLUTION_TOOL } from './eventTools';
 
 const getStyleForEventImagePrompt = (visualStyle: VisualStyleType): string => {
   switch (visualStyle) {
@@ -30,28 +16,6 @@ const getStyleForEventImagePrompt = (visualStyle: VisualStyleType): string => {
   }
 };
 
-export const EVALUATE_EVENT_RESOLUTION_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "evaluate_event_resolution_attempt",
-    description: "Evaluates player's attempt to resolve/progress an event. Determines if action leads to full resolution, progression to new stage, or no change. Considers event's current criteria, player skills, items, game setting/universe. Outcomes (positive/negative/mixed) reflected in narration, effects, and story progression. Visual prompts for event/items must be for game's current visual style (e.g., 'Pixel Art style', 'Anime style', 'distinctive impasto oil painting style', 'luminous watercolor painting style'). The event's progression should allow for player agency and be thematically consistent with the original event concept.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        resolved: { type: Type.BOOLEAN, description: "True if player's action FULLY resolves the event. False otherwise." },
-        resolutionNarration: { type: Type.STRING, description: "Briefly narrate the *direct impact and consequence* of the player's action on the event (1-2 sentences), not just a description of the action itself. E.g., 'The ancient mechanism shudders and a hidden door grinds open...' or 'Your attempt to reason with the spirit fails; it becomes more agitated.'. This narration should be CHRONICLE-FRIENDLY, summarizing the key outcome of the resolution." },
-        majorPlotPointSummary: { type: Type.STRING, nullable: true, description: "If the resolution action itself introduces a new, distinct piece of lore or plot not covered by the main narration, summarize it here for the chronicle. (Optional)" },
-        progressed: { type: Type.BOOLEAN, description: "True if action causes event to change state or progress to a new stage, but isn't fully resolved. False if action fully resolves or has no significant impact. (Optional, defaults false)"},
-        nextStageNarration: {type: Type.STRING, nullable: true, description: "CRITICAL: If 'progressed' is true, describe the *story progression* and how the event *evolves* (2-3 sentences), CONSIDERING THE PLAYER'S ACTION AND THE ORIGINAL EVENT CONCEPT. Introduce new story elements, challenges, dangers, NPC reactions, or lore revelations that are thematically consistent. What happens TO PLAYER or what CHANGES AROUND THEM? This should be DENSE with lore/change and actively involve the player. It's not a static re-description. (Optional)"},
-        updatedVisualPromptHintForEventImage: { type: Type.STRING, nullable: true, description: "If 'progressed' is true AND the visual scene changes significantly, prompt for a new [CURRENT_GAME_STYLE] image reflecting the event's new state. (Optional)" },
-        updatedResolutionCriteriaPrompt: { type: Type.STRING, nullable: true, description: "If 'progressed' is true, new criteria/hint/challenge for resolving the event from its new stage. This new criteria MUST remain thematically consistent with the player's successful thematic action and the original event concept. (Optional)" },
-        updatedNpcDisposition: { type: Type.OBJECT, nullable: true, description: "If FULLY resolved AND causes NPC disposition change. (Optional)", properties: { npcId: { type: Type.STRING }, newDisposition: { type: Type.STRING, description: "New disposition. Must be one of: 'Neutral', 'Friendly', 'Hostile', 'Afraid'." } }, required: ["npcId", "newDisposition"] }, // Enum in description
-        itemsAwardedToPlayer: { type: Type.ARRAY, nullable: true, description: "If FULLY resolved AND items awarded. (Optional)", items: { type: Type.OBJECT, properties: { name: {type: Type.STRING}, description: {type: Type.STRING}, itemTypeGuess: {type: Type.STRING}, rarity: {type: Type.STRING, description: "Rarity. Must be one of: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'."}, visualPromptHint: {type:Type.STRING, nullable: true, description:"(Optional, for a [CURRENT_GAME_STYLE] icon)"} }, required: ["name", "description", "itemTypeGuess", "rarity"]} } // Enum in description
-      },
-      required: ["resolved", "resolutionNarration"],
-    }
-  } as FunctionDeclaration],
-};
-
 export const checkEventResolution = async (
   eventDetails: EventEffects,
   playerCommandText: string,
@@ -116,11 +80,12 @@ CRITICAL: Invoke 'evaluate_event_resolution_attempt' tool. Adhere strictly to it
 Replace '[CURRENT_GAME_STYLE]' in tool schema descriptions with '${currentGameStyleString}'.
 For 'itemsAwardedToPlayer', any 'visualPromptHint' should be for a '${currentGameStyleString} icon of...'.`;
 
-  return callLLMWithToolAndValidateArgs(
+  return callLLMWithToolAndValidateArgs<EventResolutionResult>(
     prompt,
-    EVALUATE_EVENT_RESOLUTION_TOOL,
-    validateEventResolutionResult,
+    EVALUATE_EVENT_RESOLUTION_TOOL.tool,
+    EVALUATE_EVENT_RESOLUTION_TOOL.validateArgs,
     "Invalid event resolution structure (check resolved, narration, progression fields, consistency, challenge, lore density, thematic relevance, majorPlotPointSummary)",
-    `checkEventResolution (Event: ${eventDetails.eventTitle})`
+    `checkEventResolution (Event: ${eventDetails.eventTitle})`,
+    1, { service: 'checkEventResolution' }
   );
 };
\ No newline at end of file
@@ -0,0 +1,43 @@
+// services/event/eventTools.test.ts
+import { describe, expect, it } from 'vitest';
+import { GENERATE_COMPLEX_EVENT_DETAILS_TOOL } from './eventTools';
+import {
+  GOOD_EVENT_EFFECTS, MINIMAL_EVENT_EFFECTS, EVENT_EFFECTS_EMPTY_TITLE, EVENT_EFFECTS_BAD_NESTED_VALUES, EVENT_EFFECTS_NEAR_MISS
+} from '../__fixtures__/llmPayloads';
+
+// Replaced validateEventEffectsStructure when the tool schemas moved to defineTool.
+const validate = GENERATE_COMPLEX_EVENT_DETAILS_TOOL.validateArgs;
+const clone = <T>(value: T): T => structuredClone(value);
+
+describe('generate_complex_event_with_effects validation', () => {
+  it('accepts an event with every kind of effect', () => {
+    expect(validate.getIssues!(clone(GOOD_EVENT_EFFECTS))).toEqual([]);
+  });
+
+  it('accepts an event with only a title and narration', () => {
+    expect(validate(clone(MINIMAL_EVENT_EFFECTS))).toBe(true);
+  });
+
+  it('rejects a blank title', () => {
+    expect(validate.getIssues!(clone(EVENT_EFFECTS_EMPTY_TITLE))).toEqual([
+      expect.stringMatching(/^eventTitle: expected a non-empty string/),
+    ]);
+  });
+
+  it('reports invalid values deep inside the effects', () => {
+    const issues = validate.getIssues!(clone(EVENT_EFFECTS_BAD_NESTED_VALUES));
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^itemEffects\.itemsAddedToInventory\[0\]\.rarity: expected one of/);
+    expect(issues[1]).toMatch(/^worldEffects\.weatherCondition: expected one of/);
+  });
+
+  it('repairs enum casing and numeric strings', () => {
+    expect(validate(clone(EVENT_EFFECTS_NEAR_MISS))).toBe(false);
+    const repaired = validate.repair!(clone(EVENT_EFFECTS_NEAR_MISS));
+    expect(validate(repaired)).toBe(true);
+    expect(repaired).toMatchObject({
+      itemEffects: { itemsAddedToInventory: [{ rarity: 'Common' }] },
+      characterEffects: { energyChange: 3 },
+    });
+  });
+});
@@ -0,0 +1,221 @@
+// services/event/eventTools.ts
+// Tool declarations for events, shared by services/eventService.ts and the services/event/ modules
+// so the schema the model sees and the validator that checks its answer cannot drift apart.
+import { schema, defineTool, ToolArgs } from '../geminiClient';
+import {
+  ITEM_RARITIES, MEMORABLE_ENTITY_RARITIES, NPC_DISPOSITIONS, POTENTIAL_DISCOVERY_TYPES, PREDEFINED_SKILLS_CONFIG,
+  STATUS_EFFECT_STACKING_RULES, STATUS_EFFECT_LIMITS, STORY_REVIVAL_CONFIG, WEATHER_CONDITIONS
+} from '../config/gameConstants';
+
+const { string, number, integer, boolean, enumOf, array, object, optional, nullable } = schema;
+
+const itemSuggestion = (rarityDescription: string, visualPromptHintDescription: string) => object({
+  name: string(),
+  description: string(),
+  itemTypeGuess: string(),
+  rarity: enumOf(ITEM_RARITIES, rarityDescription),
+  visualPromptHint: optional(string(visualPromptHintDescription)),
+});
+
+const npcDispositionChange = (description: string) => object({
+  npcId: string(),
+  newDisposition: enumOf(NPC_DISPOSITIONS, "New disposition."),
+}, description);
+
+const eventDiscovery = (descriptions: { type: string; descriptionHint: string; rarityHint: string; sourceTextSnippet: string }) => object({
+  name: string("Name of the potential discovery.", { nonEmpty: true }),
+  type: enumOf(POTENTIAL_DISCOVERY_TYPES, descriptions.type),
+  descriptionHint: string(descriptions.descriptionHint),
+  rarityHint: optional(enumOf(MEMORABLE_ENTITY_RARITIES, descriptions.rarityHint)),
+  sourceTextSnippet: string(descriptions.sourceTextSnippet),
+  sourceType: enumOf(['event_narration'], "MUST be 'event_narration'."),
+  sourceEntityId: string("The title of this event."),
+});
+
+const limbEffect = (descriptions: { healthChange: string; newStatus: string; newHealthAbsolute: string }) => object({
+  limbName: string(),
+  healthChange: optional(number(descriptions.healthChange)),
+  newStatus: optional(string(descriptions.newStatus)),
+  newHealthAbsolute: optional(number(descriptions.newHealthAbsolute)),
+});
+
+const skillXpGain = object({ skillName: string(), amount: number() });
+
+const statusEffectSuggestion = (description: string) => object({
+  name: string("Short name of the condition, e.g. 'Blinded', 'Poisoned', 'Exhausted', 'Inspired'.", { nonEmpty: true }),
+  description: optional(string("What the condition does to the player, e.g. 'Cannot see; anything relying on sight fails.' (Optional)")),
+  durationTurns: optional(nullable(number(`How many player commands it lasts (1-${STATUS_EFFECT_LIMITS.maxDurationTurns}). Null or omitted lasts until a later event removes it. (Optional)`))),
+  stacking: optional(enumOf(STATUS_EFFECT_STACKING_RULES, "If the player already has it: 'refresh' restarts the duration, 'stack' adds intensity, 'ignore' keeps the existing one. (Optional, defaults 'refresh')")),
+  healthPerTurn: optional(number(`Health change on every command, e.g. -3 for bleeding (-${STATUS_EFFECT_LIMITS.maxChangePerTurn} to ${STATUS_EFFECT_LIMITS.maxChangePerTurn}). (Optional)`)),
+  energyPerTurn: optional(number(`Energy change on every command (-${STATUS_EFFECT_LIMITS.maxChangePerTurn} to ${STATUS_EFFECT_LIMITS.maxChangePerTurn}). (Optional)`)),
+  skillModifiers: optional(array(object({
+    skillName: string(`One of: ${PREDEFINED_SKILLS_CONFIG.map(skill => skill.name).join(', ')}.`),
+    modifier: number(`Added to the skill level while active (-${STATUS_EFFECT_LIMITS.maxSkillModifier} to ${STATUS_EFFECT_LIMITS.maxSkillModifier}), e.g. -4 Perception for 'Blinded'.`),
+  }), "(Optional)")),
+}, description);
+
+// --- Tool for Spontaneous Random Events ---
+export const GENERATE_COMPLEX_EVENT_DETAILS_TOOL = defineTool({
+  name: "generate_complex_event_with_effects",
+  description: "Generates an unexpected event based on an optional concept and intensity. An event MUST be a single, uninterrupted interaction or sequence that concludes within the current context (time and place). It should NOT automatically transition to a new location or a significantly later time. Provides initial narrative details, optional effects, image hint, resolution needs, NPC visibility, and potential new discoveries (leads). Events aim to introduce leads. Considers game context, setting, thematic consistency. Prioritizes narrative value and player engagement. Visual prompt hints for event/items must be for the game's current visual style (e.g., 'Pixel Art style', 'Anime style', 'distinctive impasto oil painting style', 'luminous watercolor painting style').",
+  parameters: object({
+    eventTitle: string("A short, catchy, and impactful title (typically 3-7 words) that captures the essence of the event. If no significant event occurs (based on low intensity input), use a mundane title like 'A Fleeting Sensation' or 'The Moment Passes'. MUST strongly align with the provided eventConcept if any.", { nonEmpty: true }),
+    narration: string("An atmospheric and cinematic description of the INITIAL STATE and progression of the event, concluding with its natural end for the current scene (2-4 sentences). This narration MUST describe what is *actively happening* TO THE PLAYER or how the environment/NPCs are *dynamically changing*. Focus on setting the scene with an emphasis on a developing PLOT, a concrete SITUATION, or an unfolding CHALLENGE. Convey tension or new circumstances. MUST strongly align with the provided eventConcept if any. Example: If eventConcept is 'discussing a war plan', narration describes the discussion and its conclusion (e.g., 'The generals agree on the pincer maneuver. The meeting adjourns, thoughts heavy with the coming battle.').", { nonEmpty: true }),
+    visualPromptHintForEventImage: optional(nullable(string("If the event's INITIAL STATE warrants a specific visual, provide a descriptive prompt for a DYNAMIC, FIRST-PERSON perspective [CURRENT_GAME_STYLE] image, blending location essence with event action/mood. Example for [CURRENT_GAME_STYLE]=Anime style: 'First-person view of a war map, a general's finger decisively tracing a route through mountains.' Null if mundane/low intensity or visual not central. Suitable for the specified [CURRENT_GAME_STYLE]. (Optional, can be null)"))),
+    requiresPlayerActionToResolve: optional(boolean("True if player must actively address/interact to resolve/progress the event WITHIN THE CURRENT SCENE. False if self-contained, effects immediate, or event stage naturally concludes (e.g., meeting ends). If false, event considered over from interactive standpoint in this scene. Defaults false for mundane events. (Optional)")),
+    resolutionCriteriaPrompt: optional(nullable(string("If 'requiresPlayerActionToResolve' is true, hint for player actions to progress event INITIALLY. If 'requiresPlayerActionToResolve' was true and is now false (event concluding), this can guide player on how to act on 'majorPlotPointSummary' and 'potentialDiscoveriesGenerated' (e.g., 'The war council has ended. Will you investigate the Northern Pass or gather more intelligence?'). Null if event simply narrates to a conclusion. MUST strongly align with eventConcept. Example: for 'football match', criteria 'Make a decisive play' or 'Score a goal'. (Optional, can be null)"))),
+    majorPlotPointSummary: optional(string("ESSENTIAL for context. If event is plot-significant or reveals important lore, summarize the key OUTCOME, DECISION, or significant LORE revealed by THIS CONCLUDED EVENT (1-2 sentences) for the game's chronicle. This summary, combined with leads, provides context for future LLM decisions when player explores related areas or acts on leads. Example: 'War plan XYZ was decided, targeting the Northern Pass.' (Optional)")),
+    potentialDiscoveriesGenerated: optional(array(eventDiscovery({
+      type: "Type: 'item', 'npc', 'location'.",
+      descriptionHint: "Brief hint about this discovery.",
+      rarityHint: "Optional rarity: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Lore', 'Character_Self'. (Optional, null)",
+      sourceTextSnippet: "Exact phrase from event narration hinting at this.",
+    }), "CRITICAL for story progression. If the event's outcome or revealed information logically suggests a next step, a related location, a key NPC, or a consequential item, generate 1-2 actionable leads. These leads, combined with chronicle entries, form the context for future, player-driven discoveries or subsequent emergent events. Each discovery details name, type (item, npc, location), descriptionHint, optional rarityHint, sourceTextSnippet (from narration), sourceEntityId (event title), and sourceType ('event_narration'). AIM FOR AT LEAST ONE. Especially important for dialogue-triggered lore reveals.")),
+    resolutionNpcDispositionChange: optional(nullable(npcDispositionChange("Optional: Define an NPC's disposition change upon FINAL successful resolution of the event. New disposition. Must be one of: 'Neutral', 'Friendly', 'Hostile', 'Afraid'."))),
+    resolutionItemsAwardedToPlayer: optional(nullable(array(
+      itemSuggestion("Rarity: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'.", "Visual prompt for item, suitable for game's style (e.g. '[CURRENT_GAME_STYLE] icon of...'). (Optional, null)"),
+      "Optional: List items awarded to player upon FINAL successful event resolution. Rarity: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'."
+    ))),
+    characterEffects: optional(object({
+      healthChange: optional(number("(Optional)")),
+      energyChange: optional(number("(Optional)")),
+      limbEffects: optional(array(limbEffect({ healthChange: "(Optional)", newStatus: "(Optional)", newHealthAbsolute: "(Optional)" }), "(Optional)")),
+      skillXpGains: optional(array(skillXpGain, "(Optional)")),
+      statusEffectAdded: optional(statusEffectSuggestion("A lasting condition the event puts on the player. (Optional)")),
+      statusEffectRemoved: optional(string("Exact name of one of the player's active status effects that the event ends. (Optional)")),
+    }, "Initial effects on player from event's start. Contribute to story/challenge, or reflect skills being tested. (Optional)")),
+    itemEffects: optional(object({
+      itemsAddedToInventory: optional(array(itemSuggestion("Rarity: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'.", "(Optional, for a [CURRENT_GAME_STYLE] icon)"), "(Optional)")),
+      itemsRemovedFromInventoryByName: optional(array(string(), "(Optional)")),
+      itemsAddedToLocation: optional(array(itemSuggestion("Rarity: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'.", "(Optional, for a [CURRENT_GAME_STYLE] icon)"), "(Optional)")),
+      itemsRemovedFromLocationByName: optional(array(string(), "(Optional)")),
+    }, "Effects on items (player/location) that advance story or present challenge. (Optional)")),
+    locationEffects: optional(object({
+      descriptionChange: optional(string("(Optional)")),
+      newTemporaryNpc: optional(object({
+        name: string(),
+        description: string(),
+        appearanceDetails: string(),
+        dialogueGreeting: string(),
+        rarity: enumOf(ITEM_RARITIES, "Rarity: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'."),
+        visualPromptHint: string(),
+        initialInventoryInstructions: optional(string("(Optional)")),
+        skillSuggestions: optional(array(object({ skillName: string(), level: number() }), "(Optional)")),
+      }, "(Optional)")),
+      environmentTagAdded: optional(string("(Optional)")),
+      environmentTagRemoved: optional(string("(Optional)")),
+    }, "Effects on current location driving story/challenge, making environment dynamic. (Optional)")),
+    npcEffects: optional(array(object({
+      npcIdTargeted: string("ID of NPC affected."),
+      healthChange: optional(number("(Optional)")),
+      isDefeated: optional(boolean("(Optional)")),
+      dispositionChange: optional(enumOf(NPC_DISPOSITIONS, "New disposition: 'Neutral', 'Friendly', 'Hostile', 'Afraid'. (Optional)")),
+      dialogueOverride: optional(string("Specific line NPC says. (Optional)")),
+      isHiddenDuringEvent: optional(boolean("If true, NPC becomes temporarily hidden/non-interactive. (Optional)")),
+    }), "Effects on existing NPCs in location that are part of story/challenge, making them react dynamically. (Optional)")),
+    worldEffects: optional(object({
+      timePasses: optional(string("How much time passes, in words, e.g. 'two hours'. (Optional)")),
+      minutesPassed: optional(integer("The same time in minutes, advanced on the world clock. (Optional)")),
+      weatherChanges: optional(string("The new weather in this area, as one sentence. (Optional)")),
+      weatherCondition: optional(enumOf(WEATHER_CONDITIONS, "Kind of the new weather: 'clear', 'cloudy', 'fog', 'rain', 'storm', 'snow', 'wind', 'heat'. (Optional)")),
+    }, "Broader world effects: time passing and weather changes in this area. (Optional)")),
+    involvedEntityIdsForPlotPoint: optional(array(string(), "Relevant entity IDs for plot point. (Optional)")),
+  }),
+});
+
+// --- Tool for Player-Initiated Attack on NPC ---
+export const GENERATE_ATTACK_CONSEQUENCES_TOOL = defineTool({
+  name: "generate_attack_consequences",
+  description: "Determines consequences of player attacking an NPC. Considers combat skills of both, NPC rarity/status, memory context, game setting/universe. Provides combat narration, effects on both, and resolution needs if combat continues. Visual prompts hints for items/event must be for game's current visual style (e.g., 'Pixel Art style', 'Anime style', 'distinctive impasto oil painting style', 'luminous watercolor painting style').",
+  parameters: object({
+    eventTitle: string("E.g., 'Skirmish with [NPC Name]', 'Assault on [NPC Name]'.", { nonEmpty: true }),
+    narration: string("Initial cinematic narration of player's attack action and NPC's immediate reaction (2-3 sentences). Reflects skills. Focus on IMPACT and STORY, not just visual detail.", { nonEmpty: true }),
+    combatNarration: optional(string("Detailed blow-by-blow of this combat round. (Optional)")),
+    visualPromptHintForEventImage: optional(nullable(string("Optional: Prompt for dynamic [CURRENT_GAME_STYLE] image of combat. E.g., 'First-person view: narrowly dodging a goblin's rusty scimitar swing in a dark cave.' Null if not visually distinct."))),
+    requiresPlayerActionToResolve: boolean("True if combat continues, false if NPC defeated or player defeated/flees."),
+    resolutionCriteriaPrompt: optional(nullable(string("If combat continues, hint for next player action (e.g., 'Press the attack!', 'Defend yourself!', 'Look for an escape!'). (Optional)"))),
+    characterEffects: optional(object({
+      healthChange: optional(number("Numeric change in health. (Optional)")),
+      energyChange: optional(number("Numeric change in energy. (Optional)")),
+      limbEffects: optional(array(limbEffect({
+        healthChange: "Change in limb health. (Optional)",
+        newStatus: "New status for the limb. (Optional)",
+        newHealthAbsolute: "Absolute new health (0-100) for the limb. (Optional)",
+      }), "Effects on specific limbs. (Optional)")),
+      skillXpGains: optional(array(skillXpGain, "XP gains for skills. (Optional)")),
+      statusEffectAdded: optional(statusEffectSuggestion("A lasting condition from this round, e.g. 'Bleeding' or 'Stunned'. (Optional)")),
+      statusEffectRemoved: optional(string("Exact name of one of the player's active status effects that this round ends. (Optional)")),
+    }, "Effects on player. (Optional)")),
+    npcEffects: optional(array(object({
+      npcIdTargeted: string("ID of the NPC affected."),
+      healthChange: optional(number("(Optional)")),
+      isDefeated: optional(boolean("(Optional)")),
+      dispositionChange: optional(enumOf(NPC_DISPOSITIONS, "New disposition. Must be one of: 'Neutral', 'Friendly', 'Hostile', 'Afraid'. (Optional)")),
+      dialogueOverride: optional(string("A specific line NPC says. (Optional)")),
+      isHiddenDuringEvent: optional(boolean("If true, this NPC becomes temporarily hidden or non-interactive during the event. (Optional)")),
+    }), "Effects on NPCs (target NPC primarily). (Optional)")),
+    itemEffects: optional(object({
+      itemsAddedToInventory: optional(array(itemSuggestion("Rarity. Must be one of: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'.", "(Optional, for a [CURRENT_GAME_STYLE] icon)"), "Items added to player inventory. (Optional)")),
+      itemsRemovedFromInventoryByName: optional(array(string(), "Names of items removed from inventory. (Optional)")),
+      itemsAddedToLocation: optional(array(itemSuggestion("Rarity. Must be one of: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'.", "(Optional, for a [CURRENT_GAME_STYLE] icon)"), "Items added to current location. (Optional)")),
+      itemsRemovedFromLocationByName: optional(array(string(), "Names of items removed from location. (Optional)")),
+    }, "Items dropped by NPC, etc. (Optional)")),
+    majorPlotPointSummary: optional(string("If attack is plot-significant (e.g., a key NPC defeated). This should capture chronicle-worthy details.")),
+    involvedEntityIdsForPlotPoint: optional(array(string(), "Player, NPC ID, etc. (Optional)")),
+    potentialDiscoveriesGenerated: optional(array(eventDiscovery({
+      type: "Type of the discovery. Must be one of: 'item', 'npc', 'location'.",
+      descriptionHint: "A brief hint about this discovery.",
+      rarityHint: "Implied rarity. Must be one of: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Lore', 'Character_Self'. (Optional)",
+      sourceTextSnippet: "The exact phrase from event narration hinting at this.",
+    }), "Leads revealed by combat. (Optional)")),
+  }),
+});
+
+// --- Tool for Event Resolution/Progression ---
+export const EVALUATE_EVENT_RESOLUTION_TOOL = defineTool({
+  name: "evaluate_event_resolution_attempt",
+  description: "Evaluates player's attempt to resolve/progress an event. Determines if action leads to full resolution, progression to new stage, or no change. Considers event's current criteria, player skills, items, game setting/universe. Outcomes (positive/negative/mixed) reflected in narration, effects, and story progression. Visual prompts for event/items must be for game's current visual style (e.g., 'Pixel Art style', 'Anime style', 'distinctive impasto oil painting style', 'luminous watercolor painting style'). The event's progression should allow for player agency and be thematically consistent with the original event concept.",
+  parameters: object({
+    resolved: boolean("True if player's action FULLY resolves the event. False otherwise."),
+    resolutionNarration: string("Briefly narrate the *direct impact and consequence* of the player's action on the event (1-2 sentences), not just a description of the action itself. E.g., 'The ancient mechanism shudders and a hidden door grinds open...' or 'Your attempt to reason with the spirit fails; it becomes more agitated.'. This narration should be CHRONICLE-FRIENDLY, summarizing the key outcome of the resolution.", { nonEmpty: true }),
+    majorPlotPointSummary: optional(nullable(string("If the resolution action itself introduces a new, distinct piece of lore or plot not covered by the main narration, summarize it here for the chronicle. (Optional)"))),
+    progressed: optional(boolean("True if action causes event to change state or progress to a new stage, but isn't fully resolved. False if action fully resolves or has no significant impact. (Optional, defaults false)")),
+    nextStageNarration: optional(string("CRITICAL: If 'progressed' is true, describe the *story progression* and how the event *evolves* (2-3 sentences), CONSIDERING THE PLAYER'S ACTION AND THE ORIGINAL EVENT CONCEPT. Introduce new story elements, challenges, dangers, NPC reactions, or lore revelations that are thematically consistent. What happens TO PLAYER or what CHANGES AROUND THEM? This should be DENSE with lore/change and actively involve the player. It's not a static re-description. (Optional)")),
+    updatedVisualPromptHintForEventImage: optional(nullable(string("If 'progressed' is true AND the visual scene changes significantly, prompt for a new [CURRENT_GAME_STYLE] image reflecting the event's new state. (Optional)"))),
+    updatedResolutionCriteriaPrompt: optional(nullable(string("If 'progressed' is true, new criteria/hint/challenge for resolving the event from its new stage. This new criteria MUST remain thematically consistent with the player's successful thematic action and the original event concept. (Optional)"))),
+    updatedNpcDisposition: optional(nullable(npcDispositionChange("If FULLY resolved AND causes NPC disposition change. (Optional)"))),
+    itemsAwardedToPlayer: optional(nullable(array(
+      itemSuggestion("Rarity. Must be one of: 'Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'.", "(Optional, for a [CURRENT_GAME_STYLE] icon)"),
+      "If FULLY resolved AND items awarded. (Optional)"
+    ))),
+  }),
+});
+
+// --- Tool for Deciding Event Trigger ---
+export const DECIDE_EVENT_TRIGGER_TOOL = defineTool({
+  name: "decide_event_trigger_and_concept",
+  description: "Decides if an event should trigger based on player action and game context. Provides a concept and intensity if an event is warranted. Considers significance of trigger (rarity of involved entities: Epic/Legendary), character skills (Perception), location, inventory, recent logs, memory, and game setting. CRITICAL: Mundane actions or those involving Common/Uncommon entities should NOT trigger events unless context is exceptional. Events should be STORY-DRIVEN and impactful. If trigger context involves 'dialogue_interaction_with_', consider the dialogue content from Recent Log/Memory for significance.",
+  parameters: object({
+    shouldTriggerEvent: boolean("True if an event is warranted (primarily for Epic/Legendary triggers, or significant dialogue with Epic/Legendary NPCs), false otherwise. False for mundane triggers."),
+    eventConcept: nullable(string("If true, a brief (3-10 word) evocative concept for the event, focusing on STORY or CHALLENGE. E.g., 'The ground trembles ominously', 'NPC Enraged by Insult', 'Secret Revealed to the Council'. Null if false. (Nullable)", { nonEmpty: true })),
+    eventIntensity: nullable(enumOf(['low', 'medium', 'high'], "If true, suggested intensity: 'low' (atmospheric, minor choice), 'medium' (direct interaction, some consequence), 'high' (significant challenge/plot). Null if false. (Nullable, Enum: low, medium, high)")),
+  }),
+  refine: args => args.shouldTriggerEvent && (args.eventConcept === null || args.eventIntensity === null)
+    ? ["eventConcept and eventIntensity: must both be given when shouldTriggerEvent is true"]
+    : [],
+});
+
+export type EventDecisionFromTool = ToolArgs<typeof DECIDE_EVENT_TRIGGER_TOOL>;
+
+// --- Tool for Story Difficulty Revivals ---
+export const NARRATE_STORY_REVIVAL_TOOL = defineTool({
+  name: "narrate_story_revival",
+  description: "Narrates how a defeated player survives and gets back up, and the lasting price they pay for it. The revival must follow from how they fell, where they are and who is around, and fit the game setting/universe. The consequence should be felt but must not end the adventure.",
+  parameters: object({
+    narration: string("How the player comes back from defeat (2-3 sentences): who or what saves them, what they wake up to. Second person.", { nonEmpty: true }),
+    consequence: string("The lasting price of this revival in one CHRONICLE-FRIENDLY sentence, e.g. 'A debt is now owed to the hermit who dragged you from the river.'", { nonEmpty: true }),
+    lostItemNames: optional(nullable(array(string("Exact name of an item from the player's inventory."), `Items lost, stolen or used up in the process (at most ${STORY_REVIVAL_CONFIG.maxLostItems}). (Optional)`))),
+    statusEffectAdded: optional(nullable(statusEffectSuggestion("A lingering condition from the ordeal, e.g. 'Shaken' or 'Scarred'. Must NOT drain health. (Optional)"))),
+    minutesPassed: optional(nullable(number("In-game minutes spent unconscious or being tended to, e.g. 120. (Optional)"))),
+  }),
+});
@@ -2,4 +2,5 @@
 export * from './eventDecisionService';
 export * from './eventGenerationService';
 export * from './eventResolutionService';
+export * from './eventTools';
 // No need to re-export specific functions if they are covered by the above barrels
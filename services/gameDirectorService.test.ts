@@ -0,0 +1,35 @@
+// services/gameDirectorService.test.ts
+import { describe, expect, it } from 'vitest';
+import { PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL } from './gameDirectorService';
+import {
+  GOOD_GAME_DIRECTIVES, GAME_DIRECTIVES_UNKNOWN_FOCUS, GAME_DIRECTIVES_BAD_ENHANCEMENT, GAME_DIRECTIVES_MISSING_PARAMETERS
+} from './__fixtures__/llmPayloads';
+
+// Replaced validateGameDirectorToolOutput when the tool schemas moved to defineTool.
+const validate = PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL.validateArgs;
+const clone = <T>(value: T): T => structuredClone(value);
+
+describe('provide_game_direction_suggestions validation', () => {
+  it('accepts well-formed directives', () => {
+    expect(validate.getIssues!(clone(GOOD_GAME_DIRECTIVES))).toEqual([]);
+  });
+
+  it('rejects a focus outside the known list', () => {
+    expect(validate.getIssues!(clone(GAME_DIRECTIVES_UNKNOWN_FOCUS))).toEqual([
+      expect.stringMatching(/^currentGameFocus: expected one of/),
+    ]);
+  });
+
+  it('reports each broken prompt enhancement by index', () => {
+    expect(validate.getIssues!(clone(GAME_DIRECTIVES_BAD_ENHANCEMENT))).toEqual([
+      expect.stringMatching(/^promptEnhancements\[0\]\.targetSystem: expected one of/),
+      'promptEnhancements[1].suggestion: required field is missing',
+    ]);
+  });
+
+  it('requires the gameplay parameter suggestions', () => {
+    expect(validate.getIssues!(clone(GAME_DIRECTIVES_MISSING_PARAMETERS))).toEqual([
+      'gameplayParameterSuggestions: required field is missing',
+    ]);
+  });
+});
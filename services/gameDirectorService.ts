@@ -1,102 +1,59 @@
 
 // services/gameDirectorService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, TEXT_MODEL_NAME, Tool, Type, FunctionDeclaration, Schema } from './geminiClient';
+import { API_KEY, callLLMWithToolAndValidateArgs, schema, defineTool, ToolArgs } from './geminiClient';
 import {
   CharacterData, FullLocationData, GameItem, GameNPC, EventEffects,
   GameLogEntry, MajorPlotPoint, PotentialDiscovery, GameDirectorDirective,
-  GameFocusType, PromptEnhancementSuggestion, GameplayParameterSuggestions, TargetSystemType
+  GameFocusType, TargetSystemType
 } from './gameTypes';
 import { formatSkillsForLLM, SKILL_LEVEL_INTERPRETATION_GUIDE, formatEquippedItemsForLLM, formatCharacterLimbDetailsForLLM } from './llmPromptUtils';
 
-const GAME_FOCUS_TYPES_ENUM: GameFocusType[] = [
+const GAME_FOCUS_TYPES_ENUM = [
   'SurvivalHorror', 'DetectiveMystery', 'HighStakesCombat', 'SocialIntrigue',
   'ExplorationAdventure', 'ResourceManagement', 'PuzzleSolving', 'SportsMatchFocus',
   'PoliticalIntrigue', 'StealthOperations', 'HumorousAdventure', 'PhilosophicalDebate',
   'RomanticPursuit', 'TragedyUnfolding', 'PersonalGrowthJourney', 'FactionConflict',
   'BaseBuildingDefense', 'NoSpecificFocus', 'CustomScenario'
-];
+] as const satisfies readonly GameFocusType[];
 
-const TARGET_SYSTEM_TYPES_ENUM: TargetSystemType[] = [
+const TARGET_SYSTEM_TYPES_ENUM = [
   'EventGeneration', 'NPCInteraction', 'CombatResolution', 'LocationDescription',
   'ItemGeneration', 'PlayerVitals', 'GameLogNarration', 'WorldProgression'
-];
-
-const GAMEPLAY_PARAMETER_KEYS: (keyof GameplayParameterSuggestions)[] = [
-  'focusOnResourceScarcity', 'adjustEnergyDecayRate', 'adjustHealthRegenRate',
-  'preferredEventType', 'increaseNarrativeLengthForScenario', 'triggerChanceModifierForGoodEvents',
-  'triggerChanceModifierForBadEvents', 'npcDispositionVolatility', 'customFocusDescription',
-  'attentionToDetailLevel', 'dialogueStyle', 'pacing'
-];
-
-
-const PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "provide_game_direction_suggestions",
-    description: "Analyzes the comprehensive game state and player interaction patterns to determine the current gameplay focus. Based on this focus, suggests directives to enhance player immersion and experience. These directives include general prompt enhancements for various game AI systems and specific gameplay parameter adjustments.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        currentGameFocus: {
-          type: Type.STRING,
-          enum: GAME_FOCUS_TYPES_ENUM,
-          description: "The primary gameplay style or genre the player seems to be engaged in or the game is leaning towards. If 'CustomScenario', provide details in 'customFocusDescription'."
-        },
-        promptEnhancements: {
-          type: Type.ARRAY,
-          description: "Array of suggestions to modify prompts for other AI systems to align with the current game focus.",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              targetSystem: { type: Type.STRING, enum: TARGET_SYSTEM_TYPES_ENUM, description: "The game system this suggestion targets." },
-              suggestion: { type: Type.STRING, description: "Specific textual advice for the target system's LLM prompts (e.g., 'For EventGeneration, emphasize a sense of urgency and danger.')." },
-              priority: { type: Type.STRING, enum: ['low', 'medium', 'high'], nullable: true, description: "Optional priority for this enhancement." }
-            },
-            required: ["targetSystem", "suggestion"]
-          }
-        },
-        gameplayParameterSuggestions: {
-          type: Type.OBJECT,
-          description: "Specific suggestions for adjusting game parameters to match the focus.",
-          properties: {
-            focusOnResourceScarcity: { type: Type.BOOLEAN, nullable: true, description: "True if survival/resource management is key." },
-            adjustEnergyDecayRate: { type: Type.STRING, enum: ['normal', 'increased', 'decreased', 'none'], nullable: true, description: "Suggest change to player energy decay." },
-            adjustHealthRegenRate: { type: Type.STRING, enum: ['normal', 'slowed', 'none', 'event_driven'], nullable: true, description: "Suggest change to health regeneration." },
-            preferredEventType: { type: Type.STRING, enum: [...GAME_FOCUS_TYPES_ENUM, 'balanced', null] as (GameFocusType | 'balanced' | null)[], nullable: true, description: "Suggest preferred type of event to generate." },
-            increaseNarrativeLengthForScenario: { type: Type.STRING, nullable: true, description: "Suggest specific scenario (e.g., a GameFocusType or a unique string like 'BossBattle') where narration should be longer." },
-            triggerChanceModifierForGoodEvents: { type: Type.NUMBER, nullable: true, description: "Multiplier for good events (e.g., 1.2 for +20%)." },
-            triggerChanceModifierForBadEvents: { type: Type.NUMBER, nullable: true, description: "Multiplier for bad events." },
-            npcDispositionVolatility: { type: Type.STRING, enum: ['low', 'medium', 'high'], nullable: true, description: "How easily NPC dispositions might change." },
-            customFocusDescription: { type: Type.STRING, nullable: true, description: "Detailed description if currentGameFocus is 'CustomScenario'." },
-            attentionToDetailLevel: { type: Type.STRING, enum: ['low', 'medium', 'high'], nullable: true, description: "Suggested level for perception detail."},
-            dialogueStyle: {type: Type.STRING, enum: ['concise', 'descriptive', 'action_oriented', 'introspective'], nullable: true, description: "Preferred NPC dialogue style."},
-            pacing: {type: Type.STRING, enum: ['fast', 'medium', 'slow'], nullable: true, description: "Overall game pacing."}
-          },
-        },
-        reasoning: { type: Type.STRING, nullable: true, description: "Brief explanation for the suggested directives based on the game state analysis." }
-      },
-      required: ["currentGameFocus", "promptEnhancements", "gameplayParameterSuggestions"]
-    }
-  } as FunctionDeclaration]
-};
-
-type GameDirectorToolOutput = Omit<GameDirectorDirective, 'directiveId' | 'timestamp' | 'analyzedCommandCount' | 'lastGameLogEntryIdAnalyzed'>;
-
-const validateGameDirectorToolOutput = (data: any): data is GameDirectorToolOutput => {
-  if (!data || !GAME_FOCUS_TYPES_ENUM.includes(data.currentGameFocus)) return false;
-  if (!Array.isArray(data.promptEnhancements)) return false;
-  for (const pe of data.promptEnhancements) {
-    if (!TARGET_SYSTEM_TYPES_ENUM.includes(pe.targetSystem) || typeof pe.suggestion !== 'string') return false;
-    if (pe.priority && !['low', 'medium', 'high'].includes(pe.priority)) return false;
-  }
-  if (typeof data.gameplayParameterSuggestions !== 'object' || data.gameplayParameterSuggestions === null) return false;
-  for (const key in data.gameplayParameterSuggestions) {
-    if (!GAMEPLAY_PARAMETER_KEYS.includes(key as keyof GameplayParameterSuggestions)) {
-        // console.warn(`GameDirector Validation: Unknown key in gameplayParameterSuggestions: ${key}`);
-    }
-  }
-  if (data.reasoning !== undefined && data.reasoning !== null && typeof data.reasoning !== 'string') return false;
-  return true;
-};
+] as const satisfies readonly TargetSystemType[];
+
+const LEVELS = ['low', 'medium', 'high'] as const;
+
+const { string, number, enumOf, boolean, array, object, optional, nullable } = schema;
+
+export const PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL = defineTool({
+  name: "provide_game_direction_suggestions",
+  description: "Analyzes the comprehensive game state and player interaction patterns to determine the current gameplay focus. Based on this focus, suggests directives to enhance player immersion and experience. These directives include general prompt enhancements for various game AI systems and specific gameplay parameter adjustments.",
+  parameters: object({
+    currentGameFocus: enumOf(GAME_FOCUS_TYPES_ENUM, "The primary gameplay style or genre the player seems to be engaged in or the game is leaning towards. If 'CustomScenario', provide details in 'customFocusDescription'."),
+    promptEnhancements: array(object({
+      targetSystem: enumOf(TARGET_SYSTEM_TYPES_ENUM, "The game system this suggestion targets."),
+      suggestion: string("Specific textual advice for the target system's LLM prompts (e.g., 'For EventGeneration, emphasize a sense of urgency and danger.')."),
+      priority: optional(enumOf(LEVELS, "Optional priority for this enhancement.")),
+    }), "Array of suggestions to modify prompts for other AI systems to align with the current game focus."),
+    gameplayParameterSuggestions: object({
+      focusOnResourceScarcity: optional(boolean("True if survival/resource management is key.")),
+      adjustEnergyDecayRate: optional(enumOf(['normal', 'increased', 'decreased', 'none'], "Suggest change to player energy decay.")),
+      adjustHealthRegenRate: optional(enumOf(['normal', 'slowed', 'none', 'event_driven'], "Suggest change to health regeneration.")),
+      preferredEventType: optional(nullable(enumOf([...GAME_FOCUS_TYPES_ENUM, 'balanced'], "Suggest preferred type of event to generate."))),
+      increaseNarrativeLengthForScenario: optional(nullable(string("Suggest specific scenario (e.g., a GameFocusType or a unique string like 'BossBattle') where narration should be longer."))),
+      triggerChanceModifierForGoodEvents: optional(number("Multiplier for good events (e.g., 1.2 for +20%).")),
+      triggerChanceModifierForBadEvents: optional(number("Multiplier for bad events.")),
+      npcDispositionVolatility: optional(enumOf(LEVELS, "How easily NPC dispositions might change.")),
+      customFocusDescription: optional(nullable(string("Detailed description if currentGameFocus is 'CustomScenario'."))),
+      attentionToDetailLevel: optional(enumOf(LEVELS, "Suggested level for perception detail.")),
+      dialogueStyle: optional(enumOf(['concise', 'descriptive', 'action_oriented', 'introspective'], "Preferred NPC dialogue style.")),
+      pacing: optional(enumOf(['fast', 'medium', 'slow'], "Overall game pacing.")),
+    }, "Specific suggestions for adjusting game parameters to match the focus."),
+    reasoning: optional(string("Brief explanation for the suggested directives based on the game state analysis.")),
+  }),
+});
+
+type GameDirectorToolOutput = ToolArgs<typeof PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL>;
 
 
 export const analyzeAndSuggestGameDirectives = async (
@@ -227,10 +184,11 @@ If an active event is present, the game focus should heavily consider the nature
   try {
     const result = await callLLMWithToolAndValidateArgs(
       prompt,
-      PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL,
-      validateGameDirectorToolOutput,
+      PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL.tool,
+      PROVIDE_GAME_DIRECTION_SUGGESTIONS_TOOL.validateArgs,
       "Invalid Game Director directive structure.",
-      "analyzeAndSuggestGameDirectives"
+      "analyzeAndSuggestGameDirectives",
+      1, { service: 'analyzeAndSuggestGameDirectives' }
     );
     return result;
   } catch (error) {
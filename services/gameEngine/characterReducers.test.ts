@@ -0,0 +1,120 @@
+// services/gameEngine/characterReducers.test.ts
+import { describe, expect, it } from 'vitest';
+import { CharacterData, Skill, StatusEffect } from '../types/characterTypes';
+import { SkillProgressionRules } from '../types/rulesTypes';
+import { applyCharacterEffect, applyEnergyConsumption, applySkillExperienceToSkill, tickStatusEffects } from './characterReducers';
+
+// A level-N skill needs 100 + N * 100 XP for the next level: 200 at level 1, 300 at level 2.
+const PROGRESSION: SkillProgressionRules = { baseXpToNextLevel: 100, xpToNextLevelPerLevel: 100, xpToLearnSkill: 50 };
+
+const makeSkill = (overrides: Partial<Skill> = {}): Skill => ({
+  id: 'skill-1', name: 'Perception', description: 'Noticing things.', level: 1, experience: 0, experienceToNextLevel: 200, ...overrides,
+});
+
+const makeCharacter = (overrides: Partial<CharacterData> = {}): CharacterData => ({
+  characterName: 'Ada',
+  characterConcept: 'A wandering cartographer.',
+  overallHealth: 100,
+  currentEnergy: 50,
+  maxEnergy: 100,
+  isDefeated: false,
+  limbs: ['Head', 'Torso', 'Left Arm', 'Right Arm'].map((name, i) => ({ id: `limb-${i}`, name, status: 'Healthy', health: 100 })),
+  skills: [makeSkill()],
+  characterImageUrl: null,
+  gameSettingType: 'Fictional',
+  initialHistoricalContext: null,
+  characterRarity: 'Common',
+  visualStyle: 'Pixel Art',
+  statusEffects: [],
+  ...overrides,
+});
+
+const makeStatusEffect = (overrides: Partial<StatusEffect> = {}): StatusEffect => ({
+  name: 'Bleeding', description: '', source: 'test', remainingTurns: 3, stacks: 1,
+  stacking: 'refresh', healthPerTurn: 0, energyPerTurn: 0, skillModifiers: [], ...overrides,
+});
+
+describe('applySkillExperienceToSkill', () => {
+  it('adds experience without levelling below the threshold', () => {
+    const skill = applySkillExperienceToSkill(makeSkill(), 150, PROGRESSION);
+    expect(skill).toMatchObject({ level: 1, experience: 150, experienceToNextLevel: 200 });
+  });
+
+  it('levels up and carries the surplus over', () => {
+    const skill = applySkillExperienceToSkill(makeSkill({ experience: 190 }), 30, PROGRESSION);
+    expect(skill).toMatchObject({ level: 2, experience: 20, experienceToNextLevel: 300 });
+  });
+
+  it('gains several levels from one large award', () => {
+    const skill = applySkillExperienceToSkill(makeSkill(), 200 + 300 + 10, PROGRESSION);
+    expect(skill).toMatchObject({ level: 3, experience: 10, experienceToNextLevel: 400 });
+  });
+
+  it('learns an untrained skill using its own threshold', () => {
+    const untrained = makeSkill({ level: 0, experienceToNextLevel: PROGRESSION.xpToLearnSkill });
+    const skill = applySkillExperienceToSkill(untrained, 60, PROGRESSION);
+    expect(skill).toMatchObject({ level: 1, experience: 10, experienceToNextLevel: 200 });
+  });
+
+  it('does not modify the skill it was given', () => {
+    const original = makeSkill({ experience: 190 });
+    applySkillExperienceToSkill(original, 30, PROGRESSION);
+    expect(original).toMatchObject({ level: 1, experience: 190 });
+  });
+});
+
+describe('applyEnergyConsumption', () => {
+  it('spends energy without defeat while some is left', () => {
+    const { character, wasDefeated } = applyEnergyConsumption(makeCharacter(), 20);
+    expect(wasDefeated).toBe(false);
+    expect(character).toMatchObject({ currentEnergy: 30, isDefeated: false, overallHealth: 100 });
+  });
+
+  it('defeats the character when energy reaches zero', () => {
+    const { character, wasDefeated } = applyEnergyConsumption(makeCharacter({ currentEnergy: 5 }), 8);
+    expect(wasDefeated).toBe(true);
+    expect(character).toMatchObject({ currentEnergy: 0, isDefeated: true, overallHealth: 0 });
+  });
+
+  it('does not report a second defeat', () => {
+    const defeated = makeCharacter({ currentEnergy: 0, isDefeated: true, overallHealth: 0 });
+    const result = applyEnergyConsumption(defeated, 10);
+    expect(result.wasDefeated).toBe(false);
+    expect(result.character).toBe(defeated);
+  });
+
+  it('does not defeat a character who was already out of energy', () => {
+    const { wasDefeated } = applyEnergyConsumption(makeCharacter({ currentEnergy: 0 }), 5);
+    expect(wasDefeated).toBe(false);
+  });
+});
+
+describe('tickStatusEffects', () => {
+  it('applies per-turn damage to the limbs so overall health stays derived from them', () => {
+    const character = makeCharacter({ statusEffects: [makeStatusEffect({ healthPerTurn: -5 })] });
+    const { state } = tickStatusEffects(character);
+    expect(state.limbs.every(limb => limb.health === 95)).toBe(true);
+    expect(state.overallHealth).toBe(95);
+  });
+
+  it('keeps flat event damage when a tick follows it', () => {
+    const { state: hurt } = applyCharacterEffect(makeCharacter({ statusEffects: [makeStatusEffect({ healthPerTurn: -5 })] }), { healthChange: -40 }, PROGRESSION);
+    expect(hurt.overallHealth).toBe(60);
+    const { state } = tickStatusEffects(hurt);
+    expect(state.overallHealth).toBe(55);
+  });
+
+  it('heals overall health directly when every limb is already whole', () => {
+    const { state: hurt } = applyCharacterEffect(makeCharacter({ statusEffects: [makeStatusEffect({ name: 'Soothed', healthPerTurn: 5 })] }), { healthChange: -40 }, PROGRESSION);
+    const { state } = tickStatusEffects(hurt);
+    expect(state.overallHealth).toBe(65);
+    expect(state.limbs.every(limb => limb.health === 100)).toBe(true);
+  });
+
+  it('defeats the character when a drain empties their energy, like spending it does', () => {
+    const character = makeCharacter({ currentEnergy: 3, statusEffects: [makeStatusEffect({ energyPerTurn: -5 })] });
+    const { state, logs } = tickStatusEffects(character);
+    expect(state).toMatchObject({ currentEnergy: 0, isDefeated: true, overallHealth: 0 });
+    expect(logs.some(log => log.text.includes('defeated'))).toBe(true);
+  });
+});
@@ -0,0 +1,336 @@
+// services/gameEngine/characterReducers.ts
+import { CharacterData, Limb, Skill, StatusEffect } from '../types/characterTypes';
+import { CharacterEffectForEvent, StatusEffectSuggestionForEvent } from '../types/eventTypes';
+import { ItemUsageOutcome, GameItem } from '../types/itemTypes';
+import { LevelRange, SkillProgressionRules } from '../types/rulesTypes';
+import { STATUS_EFFECT_LIMITS } from '../config/gameConstants';
+import { EngineLogEntry, EngineResult } from './engineTypes';
+
+const clampHealth = (value: number): number => Math.max(0, Math.min(100, value));
+
+export const recalculateOverallHealth = (limbs: Limb[]): number => {
+  if (limbs.length === 0) return 0;
+  const totalLimbHealth = limbs.reduce((sum, limb) => sum + limb.health, 0);
+  return Math.round(totalLimbHealth / limbs.length);
+};
+
+// Flags the character as defeated the first time overall health hits zero.
+export const applyDefeatCheck = (character: CharacterData, defeatMessage: string): EngineResult<CharacterData> => {
+  if (character.overallHealth > 0 || character.isDefeated) return { state: character, logs: [] };
+  return { state: { ...character, isDefeated: true }, logs: [{ type: 'game_event', text: defeatMessage }] };
+};
+
+export const applyEnergyConsumption = (
+  charData: CharacterData,
+  amount: number
+): { character: CharacterData; wasDefeated: boolean } => {
+  if (charData.isDefeated) return { character: charData, wasDefeated: false };
+
+  const newEnergy = Math.max(0, charData.currentEnergy - amount);
+  let charUpdate = { ...charData, currentEnergy: newEnergy };
+
+  if (newEnergy === 0 && charData.currentEnergy > 0) {
+    charUpdate = { ...charUpdate, isDefeated: true, overallHealth: 0 };
+    return { character: charUpdate, wasDefeated: true };
+  }
+  return { character: charUpdate, wasDefeated: false };
+};
+
+export const getExperienceToNextLevel = (level: number, progression: SkillProgressionRules): number =>
+  progression.baseXpToNextLevel + level * progression.xpToNextLevelPerLevel;
+
+// Level for a skill the LLM left open, anywhere in the (inclusive) range.
+export const rollSkillLevel = (range: LevelRange): number =>
+  range.min + Math.floor(Math.random() * (range.max - range.min + 1));
+
+export const applySkillExperienceToSkill = (skill: Skill, amount: number, progression: SkillProgressionRules): Skill => {
+  let newExperience = skill.experience + amount;
+  let newLevel = skill.level;
+  let newExperienceToNextLevel = skill.experienceToNextLevel;
+
+  if (newLevel === 0 && newExperience >= newExperienceToNextLevel) {
+    newLevel = 1;
+    newExperience -= skill.experienceToNextLevel;
+    newExperienceToNextLevel = getExperienceToNextLevel(newLevel, progression);
+  }
+
+  while (newLevel > 0 && newExperience >= newExperienceToNextLevel) {
+    newLevel++;
+    newExperience -= newExperienceToNextLevel;
+    newExperienceToNextLevel = getExperienceToNextLevel(newLevel, progression);
+  }
+  return { ...skill, level: newLevel, experience: newExperience, experienceToNextLevel: newExperienceToNextLevel };
+};
+
+export const applySkillExperience = (
+  charData: CharacterData, skillName: string, amount: number, progression: SkillProgressionRules
+): CharacterData => {
+  if (amount <= 0 || !charData.skills.some(skill => skill.name === skillName)) return charData;
+  return {
+    ...charData,
+    skills: charData.skills.map(skill => skill.name === skillName ? applySkillExperienceToSkill(skill, amount, progression) : skill),
+  };
+};
+
+// --- Status effects ---
+
+const clampMagnitude = (value: number | undefined, limit: number): number =>
+  Math.max(-limit, Math.min(limit, Math.round(value ?? 0)));
+
+const isSameStatusEffect = (effect: StatusEffect, name: string): boolean =>
+  effect.name.trim().toLowerCase() === name.trim().toLowerCase();
+
+const describeRemainingTurns = (effect: StatusEffect): string =>
+  effect.remainingTurns === null ? 'until removed' : `${effect.remainingTurns} turn${effect.remainingTurns === 1 ? '' : 's'}`;
+
+// Turns an LLM suggestion into a stored effect, clamped to STATUS_EFFECT_LIMITS.
+export const createStatusEffect = (suggestion: StatusEffectSuggestionForEvent, source: string): StatusEffect => {
+  const { durationTurns } = suggestion;
+  return {
+    name: suggestion.name.trim(),
+    description: suggestion.description?.trim() || '',
+    source,
+    remainingTurns: durationTurns === undefined || durationTurns === null
+      ? null
+      : Math.max(1, Math.min(STATUS_EFFECT_LIMITS.maxDurationTurns, Math.round(durationTurns))),
+    stacking: suggestion.stacking ?? 'refresh',
+    stacks: 1,
+    healthPerTurn: clampMagnitude(suggestion.healthPerTurn, STATUS_EFFECT_LIMITS.maxChangePerTurn),
+    energyPerTurn: clampMagnitude(suggestion.energyPerTurn, STATUS_EFFECT_LIMITS.maxChangePerTurn),
+    skillModifiers: (suggestion.skillModifiers ?? [])
+      .map(m => ({ skillName: m.skillName, modifier: clampMagnitude(m.modifier, STATUS_EFFECT_LIMITS.maxSkillModifier) }))
+      .filter(m => m.modifier !== 0),
+  };
+};
+
+// Re-applying an active effect follows the stacking rule of the one already on the character.
+export const addStatusEffect = (character: CharacterData, effect: StatusEffect): EngineResult<CharacterData> => {
+  const effects = character.statusEffects ?? [];
+  const existing = effects.find(e => isSameStatusEffect(e, effect.name));
+  if (!existing) {
+    return {
+      state: { ...character, statusEffects: [...effects, effect] },
+      logs: [{ type: 'game_event', text: `Status effect gained: ${effect.name} (${describeRemainingTurns(effect)}).` }],
+    };
+  }
+  if (existing.stacking === 'ignore') {
+    return { state: character, logs: [{ type: 'system', text: `${existing.name} is already in effect.` }] };
+  }
+
+  let updated: StatusEffect;
+  let text: string;
+  if (existing.stacking === 'stack' && existing.stacks < STATUS_EFFECT_LIMITS.maxStacks) {
+    updated = { ...existing, stacks: existing.stacks + 1, remainingTurns: effect.remainingTurns };
+    text = `${existing.name} intensifies (x${updated.stacks}, ${describeRemainingTurns(updated)}).`;
+  } else {
+    updated = { ...effect, name: existing.name, stacks: existing.stacks };
+    text = `${existing.name} is renewed (${describeRemainingTurns(updated)}).`;
+  }
+  return {
+    state: { ...character, statusEffects: effects.map(e => e === existing ? updated : e) },
+    logs: [{ type: 'game_event', text }],
+  };
+};
+
+export const removeStatusEffect = (character: CharacterData, name: string): EngineResult<CharacterData> => {
+  const effects = character.statusEffects ?? [];
+  const existing = effects.find(e => isSameStatusEffect(e, name));
+  if (!existing) return { state: character, logs: [] };
+  return {
+    state: { ...character, statusEffects: effects.filter(e => e !== existing) },
+    logs: [{ type: 'game_event', text: `Status effect ended: ${existing.name}.` }],
+  };
+};
+
+// A per-turn change goes to every limb that still works; destroyed limbs (0HP) only come back through
+// items or events. Overall health moves by what the limbs moved, not re-derived from them, so flat
+// event damage stays; when no limb can move (all full on a heal) the change applies to it directly.
+const applyHealthChangeToLimbs = (character: CharacterData, change: number): CharacterData => {
+  const limbs = character.limbs.map(limb => limb.health > 0 ? { ...limb, health: clampHealth(limb.health + change) } : limb);
+  const limbChange = recalculateOverallHealth(limbs) - recalculateOverallHealth(character.limbs);
+  return { ...character, limbs, overallHealth: clampHealth(character.overallHealth + (limbChange !== 0 ? limbChange : change)) };
+};
+
+// Runs once per turn: applies each effect's per-turn health/energy change,
+// then counts its duration down and drops the effects that ran out.
+export const tickStatusEffects = (character: CharacterData): EngineResult<CharacterData> => {
+  const effects = character.statusEffects ?? [];
+  if (effects.length === 0 || character.isDefeated) return { state: character, logs: [] };
+  const logs: EngineLogEntry[] = [];
+  let next: CharacterData = { ...character };
+
+  effects.forEach(effect => {
+    const healthChange = effect.healthPerTurn * effect.stacks;
+    const energyChange = effect.energyPerTurn * effect.stacks;
+    const changes: string[] = [];
+    if (healthChange) {
+      next = applyHealthChangeToLimbs(next, healthChange);
+      changes.push(`health ${healthChange > 0 ? '+' : ''}${healthChange} (now ${next.overallHealth}HP)`);
+    }
+    if (energyChange) {
+      next.currentEnergy = Math.max(0, Math.min(next.maxEnergy, next.currentEnergy + energyChange));
+      changes.push(`energy ${energyChange > 0 ? '+' : ''}${energyChange} (now ${next.currentEnergy}EN)`);
+    }
+    if (changes.length) logs.push({ type: 'game_event', text: `${effect.name}: ${changes.join(', ')}.` });
+  });
+
+  const remaining: StatusEffect[] = [];
+  effects.forEach(effect => {
+    if (effect.remainingTurns === null) { remaining.push(effect); return; }
+    if (effect.remainingTurns > 1) { remaining.push({ ...effect, remainingTurns: effect.remainingTurns - 1 }); return; }
+    logs.push({ type: 'game_event', text: `Status effect ended: ${effect.name}.` });
+  });
+  next.statusEffects = remaining;
+
+  // Same rule as applyEnergyConsumption: running out of energy is a defeat.
+  if (next.currentEnergy === 0 && character.currentEnergy > 0) {
+    next = { ...next, isDefeated: true, overallHealth: 0 };
+    logs.push({ type: 'game_event', text: "Your condition drains the last of your energy. You have been defeated." });
+  }
+  const defeat = applyDefeatCheck(next, "Your condition overwhelms you. You have been defeated.");
+  logs.push(...defeat.logs);
+  return { state: defeat.state, logs };
+};
+
+export const getStatusSkillModifier = (character: CharacterData, skillName: string): number =>
+  (character.statusEffects ?? []).reduce((sum, effect) =>
+    sum + effect.stacks * effect.skillModifiers.filter(m => m.skillName === skillName).reduce((s, m) => s + m.modifier, 0), 0);
+
+// Skill levels with status effect modifiers applied. For prompts and checks only; XP is always
+// applied to character.skills.
+export const getEffectiveSkills = (character: CharacterData): Skill[] => {
+  if (!character.statusEffects?.length) return character.skills;
+  return character.skills.map(skill => {
+    const modifier = getStatusSkillModifier(character, skill.name);
+    return modifier ? { ...skill, level: Math.max(0, skill.level + modifier) } : skill;
+  });
+};
+
+// Event-driven changes: flat health/energy deltas, per-limb damage or healing, skill XP and status effects.
+// Limb changes win over a flat health delta because overall health is re-derived from the limbs.
+export const applyCharacterEffect = (
+  character: CharacterData,
+  effect: CharacterEffectForEvent,
+  progression: SkillProgressionRules,
+  source: string = 'an event'
+): EngineResult<CharacterData> => {
+  const logs: EngineLogEntry[] = [];
+  let next: CharacterData = { ...character };
+  const { healthChange, energyChange, limbEffects, skillXpGains } = effect;
+
+  if (healthChange) {
+    next.overallHealth = clampHealth(next.overallHealth + healthChange);
+    logs.push({ type: 'game_event', text: `Your overall health changes by ${healthChange}. Now: ${next.overallHealth}HP.` });
+  }
+  if (energyChange) {
+    next.currentEnergy = Math.max(0, Math.min(next.maxEnergy, next.currentEnergy + energyChange));
+    logs.push({ type: 'game_event', text: `Your energy changes by ${energyChange}. Now: ${next.currentEnergy}EN.` });
+  }
+  if (limbEffects?.length) {
+    let limbsChanged = false;
+    const newLimbs = [...next.limbs];
+    limbEffects.forEach(le => {
+      const limbIndex = newLimbs.findIndex(l => l.name === le.limbName);
+      if (limbIndex === -1) return;
+      const limb = { ...newLimbs[limbIndex] };
+      if (le.healthChange) limb.health = clampHealth(limb.health + le.healthChange);
+      if (le.newHealthAbsolute !== undefined) limb.health = clampHealth(le.newHealthAbsolute);
+      limb.status = le.newStatus || `Affected (${limb.health}HP)`;
+      newLimbs[limbIndex] = limb;
+      logs.push({ type: 'game_event', text: `${limb.name} is now ${limb.status} (${limb.health}HP).` });
+      limbsChanged = true;
+    });
+    if (limbsChanged) {
+      next.limbs = newLimbs;
+      next.overallHealth = recalculateOverallHealth(newLimbs);
+      logs.push({ type: 'game_event', text: `Overall health recalculated to ${next.overallHealth}HP.` });
+    }
+  }
+
+  const defeat = applyDefeatCheck(next, "The effects are overwhelming. You have been defeated.");
+  next = defeat.state;
+  logs.push(...defeat.logs);
+
+  skillXpGains?.forEach(xp => { next = applySkillExperience(next, xp.skillName, xp.amount, progression); });
+
+  if (effect.statusEffectRemoved) {
+    const removal = removeStatusEffect(next, effect.statusEffectRemoved);
+    next = removal.state;
+    logs.push(...removal.logs);
+  }
+  if (effect.statusEffectAdded?.name.trim()) {
+    const addition = addStatusEffect(next, createStatusEffect(effect.statusEffectAdded, source));
+    next = addition.state;
+    logs.push(...addition.logs);
+  }
+
+  return { state: next, logs };
+};
+
+export interface ItemUsageState {
+  character: CharacterData;
+  inventory: GameItem[];
+}
+
+// Applies the outcome of using (or applying to a limb) an inventory item.
+// XP gains are left to the caller so they go through the logging XP path in GameContext.
+export const applyItemUsageOutcome = (
+  state: ItemUsageState,
+  itemUsed: GameItem,
+  outcome: ItemUsageOutcome,
+  targetLimbForEquipName?: string
+): EngineResult<ItemUsageState> => {
+  const logs: EngineLogEntry[] = [];
+  const { itemEffect, characterEffect } = outcome;
+  let inventory = state.inventory;
+  let character: CharacterData = { ...state.character };
+
+  if (itemEffect.consumed) {
+    inventory = inventory.filter(item => item.id !== itemUsed.id);
+  } else if (itemEffect.newNameIfChanged || itemEffect.newDescriptionIfChanged || itemEffect.newVisualPromptHintIfChanged) {
+    inventory = inventory.map(item => item.id !== itemUsed.id ? item : {
+      ...item,
+      name: itemEffect.newNameIfChanged || item.name,
+      description: itemEffect.newDescriptionIfChanged || item.description,
+      visualPromptHint: itemEffect.newVisualPromptHintIfChanged || item.visualPromptHint,
+    });
+  }
+
+  if (characterEffect.overallHealthChange) {
+    character.overallHealth = clampHealth(character.overallHealth + characterEffect.overallHealthChange);
+    logs.push({ type: 'game_event', text: `Overall health changed by ${characterEffect.overallHealthChange}. Now: ${character.overallHealth}HP.` });
+  }
+  if (characterEffect.energyChange) {
+    character.currentEnergy = Math.max(0, Math.min(character.maxEnergy, character.currentEnergy + characterEffect.energyChange));
+    logs.push({ type: 'game_event', text: `Energy changed by ${characterEffect.energyChange}. Now: ${character.currentEnergy}EN.` });
+  }
+
+  let limbsChanged = false;
+  if (characterEffect.limbStatusChanges) {
+    character.limbs = character.limbs.map(limb => {
+      const change = characterEffect.limbStatusChanges!.find(lsc => lsc.limbName === limb.name);
+      if (!change) return limb;
+      limbsChanged = true;
+      return { ...limb, status: change.newStatus, health: change.newHealth };
+    });
+  }
+  if (itemEffect.isEquippedToLimb && targetLimbForEquipName) {
+    // Equip the item as it was before this use (renames above only affect the inventory copy)
+    const itemToEquip = state.inventory.find(i => i.id === itemUsed.id);
+    if (itemToEquip && character.limbs.some(limb => limb.name === targetLimbForEquipName)) {
+      character.limbs = character.limbs.map(limb => limb.name !== targetLimbForEquipName ? limb : {
+        ...limb, equippedItems: [...(limb.equippedItems || []), itemToEquip],
+      });
+      inventory = inventory.filter(invItem => invItem.id !== itemToEquip.id);
+    }
+    logs.push({ type: 'game_event', text: `${itemUsed.name} equipped to ${targetLimbForEquipName}.` });
+  }
+  if (limbsChanged) {
+    character.overallHealth = recalculateOverallHealth(character.limbs);
+  }
+
+  const defeat = applyDefeatCheck(character, "The effects are devastating. You have been defeated.");
+  logs.push(...defeat.logs);
+
+  return { state: { character: defeat.state, inventory }, logs };
+};
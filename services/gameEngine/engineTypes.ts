@@ -0,0 +1,14 @@
+// services/gameEngine/engineTypes.ts
+import { GameLogEntry } from '../types/commonTypes';
+
+// Reducers never touch React state or the log directly. They hand back the new state plus
+// the log lines the caller should emit, so the same rules can run inside hooks, a CLI or a test.
+export interface EngineLogEntry {
+  type: GameLogEntry['type'];
+  text: string;
+}
+
+export interface EngineResult<T> {
+  state: T;
+  logs: EngineLogEntry[];
+}
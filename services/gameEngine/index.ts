@@ -0,0 +1,11 @@
+// services/gameEngine/index.ts
+export * from './engineTypes';
+export * from './characterReducers';
+export * from './npcReducers';
+export * from './locationReducers';
+export * from './inventoryReducers';
+export * from './memoryReducers';
+export * from './movement';
+export * from './recovery';
+export * from './worldGraph';
+export * from './worldClock';
@@ -0,0 +1,18 @@
+// services/gameEngine/inventoryReducers.ts
+import { GameItem } from '../types/itemTypes';
+import { EngineLogEntry, EngineResult } from './engineTypes';
+
+// Name-based removal, as used by event effects. `describeRemoval` builds the log line per removed item.
+export const removeItemsByName = (
+  items: GameItem[],
+  names: string[],
+  describeRemoval: (item: GameItem) => string
+): EngineResult<GameItem[]> => {
+  const logs: EngineLogEntry[] = [];
+  const remaining = items.filter(item => {
+    const shouldRemove = names.includes(item.name);
+    if (shouldRemove) logs.push({ type: 'game_event', text: describeRemoval(item) });
+    return !shouldRemove;
+  });
+  return { state: remaining, logs };
+};
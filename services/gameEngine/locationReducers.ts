@@ -0,0 +1,27 @@
+// services/gameEngine/locationReducers.ts
+import { FullLocationData } from '../types/locationTypes';
+import { LocationEffectForEvent } from '../types/eventTypes';
+import { EngineLogEntry, EngineResult } from './engineTypes';
+
+// Description and environment tag changes only. Spawning a temporary NPC needs an icon
+// (and so an LLM call), which stays with the caller.
+export const applyLocationEffect = (location: FullLocationData, effect: LocationEffectForEvent): EngineResult<FullLocationData> => {
+  const logs: EngineLogEntry[] = [];
+  const { descriptionChange, environmentTagAdded, environmentTagRemoved } = effect;
+  if (!descriptionChange && !environmentTagAdded && !environmentTagRemoved) return { state: location, logs };
+
+  const next: FullLocationData = { ...location };
+  if (descriptionChange) {
+    next.description += `\n${descriptionChange}`;
+    logs.push({ type: 'narration', text: `The area changes: ${descriptionChange}` });
+  }
+  if (environmentTagAdded) {
+    next.environmentTags = [...new Set([...next.environmentTags, environmentTagAdded])];
+    logs.push({ type: 'system', text: `Area environment is now also: ${environmentTagAdded}` });
+  }
+  if (environmentTagRemoved) {
+    next.environmentTags = next.environmentTags.filter(tag => tag !== environmentTagRemoved);
+    logs.push({ type: 'system', text: `Area environment is no longer: ${environmentTagRemoved}` });
+  }
+  return { state: next, logs };
+};
@@ -0,0 +1,65 @@
+// services/gameEngine/memoryReducers.ts
+import { MemorableEntity, MajorPlotPoint, PotentialDiscovery } from '../types/loreTypes';
+
+const MAX_PLOT_POINTS = 20;
+
+// Returns the same array when the point duplicates one of the last three (same summary and entities).
+export const appendMajorPlotPoint = (plotPoints: ReadonlyArray<MajorPlotPoint>, newPlotPoint: MajorPlotPoint): ReadonlyArray<MajorPlotPoint> => {
+  const recentSimilar = plotPoints.slice(-3).some(p =>
+    p.summary.toLowerCase() === newPlotPoint.summary.toLowerCase() &&
+    JSON.stringify(p.involvedEntityIds?.slice().sort()) === JSON.stringify(newPlotPoint.involvedEntityIds?.slice().sort())
+  );
+  if (recentSimilar) return plotPoints;
+  return [...plotPoints, newPlotPoint].slice(-MAX_PLOT_POINTS);
+};
+
+// The "MEMORY CONTEXT" block that gets prepended to most prompts.
+export const buildMemoryContextString = (
+  memorableEntities: ReadonlyMap<string, MemorableEntity>,
+  majorPlotPoints: ReadonlyArray<MajorPlotPoint>,
+  potentialDiscoveries: ReadonlyArray<PotentialDiscovery>
+): string => {
+  let contextStr = "MEMORY CONTEXT:\n";
+  const discoveredLeadIds = new Set(potentialDiscoveries.filter(pd => pd.status === 'discovered').map(pd => pd.id));
+
+  const entitiesToShow = Array.from(memorableEntities.values())
+    .filter(entity => {
+      // If entity is a lore_hint, check if it corresponds to a discovered lead.
+      // The ID of a lore_hint memorableEntity is the same as the ID of its corresponding PotentialDiscovery.
+      if (entity.type === 'lore_hint') {
+        return !discoveredLeadIds.has(entity.id);
+      }
+      return true; // Include all other types of memorable entities
+    })
+    .slice(-10); // Show last 10 of the filtered list
+
+  if (entitiesToShow.length > 0) {
+    contextStr += "\nNotable Entities (Name, Type, Rarity, Hint, First Encounter):\n";
+    entitiesToShow.forEach(entity => {
+      contextStr += `- ${entity.name} (${entity.type}, ${entity.rarity}). Hint: ${entity.descriptionHint}. Seen: ${entity.firstEncounteredContext}\n`;
+    });
+  } else {
+      contextStr += "No specific notable entities recorded yet.\n";
+  }
+
+  if (majorPlotPoints.length > 0) {
+    contextStr += "\nRecent Major Plot Points (Chronicle - Summary, Involved, Location):\n";
+    majorPlotPoints.slice(-10).forEach(point => { 
+      contextStr += `- ${point.summary}. Involved: ${point.involvedEntityIds?.join(', ') || 'N/A'}. At: ${point.locationName || 'Unknown Location'}\n`;
+    });
+  } else {
+    contextStr += "No major plot points recorded yet.\n";
+  }
+
+  const mentionedDiscoveries = potentialDiscoveries.filter(pd => pd.status === 'mentioned');
+  if (mentionedDiscoveries.length > 0) {
+    contextStr += "\nActive Leads (Potential Discoveries - Name, Type, Hint, Rarity Hint):\n";
+    mentionedDiscoveries.slice(-10).forEach(pd => {
+      contextStr += `- ${pd.name} (${pd.type}, Hint: ${pd.descriptionHint}, Rarity Hint: ${pd.rarityHint || 'Unknown'}).\n`;
+    });
+  } else {
+    contextStr += "No specific rumors or unconfirmed leads noted yet.\n";
+  }
+
+  return contextStr;
+};
@@ -0,0 +1,17 @@
+// services/gameEngine/movement.ts
+
+// Maps a typed direction ("n", "forward", "east", "u"...) onto the grid. 'up' and 'down'
+// keep x/y and change the level instead.
+export const getNewCoordinates = (currentX: number, currentY: number, direction: string, currentZ: number = 0): { x: number; y: number; z: number; normalizedDirection: string } => {
+  const dir = direction.toLowerCase(); let dx = 0; let dy = 0; let dz = 0; let normalizedDirection = direction;
+  if (['north', 'n', 'forwards', 'forward'].includes(dir)) { dy = 1; normalizedDirection = 'north'; }
+  else if (['south', 's', 'backwards', 'backward'].includes(dir)) { dy = -1; normalizedDirection = 'south'; }
+  else if (['east', 'e', 'right'].includes(dir)) { dx = 1; normalizedDirection = 'east'; }
+  else if (['west', 'w', 'left'].includes(dir)) { dx = -1; normalizedDirection = 'west'; }
+  else if (['up', 'u'].includes(dir)) { dz = 1; normalizedDirection = 'up'; }
+  else if (['down', 'd'].includes(dir)) { dz = -1; normalizedDirection = 'down'; }
+  else {
+    return { x: currentX, y: currentY, z: currentZ, normalizedDirection: 'an_unknown_direction' };
+  }
+  return { x: currentX + dx, y: currentY + dy, z: currentZ + dz, normalizedDirection };
+};
@@ -0,0 +1,69 @@
+// services/gameEngine/npcReducers.ts
+import { GameNPC } from '../types/npcTypes';
+import { NpcEffectForEvent } from '../types/eventTypes';
+import { EngineLogEntry, EngineResult } from './engineTypes';
+
+export interface NpcEffectsResult extends EngineResult<GameNPC[]> {
+  // IDs of NPCs that were defeated or hidden - the player can't keep talking to them.
+  unavailableNpcIds: string[];
+}
+
+export const applyNpcEffect = (npc: GameNPC, effect: NpcEffectForEvent): { npc: GameNPC; logs: EngineLogEntry[]; becameUnavailable: boolean } => {
+  const logs: EngineLogEntry[] = [];
+  const next: GameNPC = { ...npc };
+  let becameUnavailable = false;
+
+  if (effect.healthChange) {
+    next.currentHealth = Math.max(0, Math.min(next.maxHealth || 100, (next.currentHealth || 100) + effect.healthChange));
+    logs.push({ type: 'combat', text: `${next.name}'s health changes by ${effect.healthChange}. Now: ${next.currentHealth}HP.` });
+  }
+  if (effect.isDefeated !== undefined) {
+    next.isDefeated = effect.isDefeated;
+    logs.push({ type: 'combat', text: `${next.name} is now ${effect.isDefeated ? 'defeated' : 'no longer defeated'}.` });
+    if (effect.isDefeated) becameUnavailable = true;
+  }
+  if (effect.dispositionChange) {
+    next.disposition = effect.dispositionChange;
+    logs.push({ type: 'system', text: `${next.name}'s disposition towards you is now ${effect.dispositionChange}.` });
+  }
+  if (effect.dialogueOverride) {
+    logs.push({ type: 'narration', text: `${next.name} exclaims: "${effect.dialogueOverride}"` });
+  }
+  if (effect.isHiddenDuringEvent !== undefined) {
+    next.isHiddenDuringEvent = effect.isHiddenDuringEvent;
+    logs.push({ type: 'system', text: `${next.name} is now ${effect.isHiddenDuringEvent ? 'hidden by the event' : 'no longer hidden'}.` });
+    if (effect.isHiddenDuringEvent) becameUnavailable = true;
+  }
+  return { npc: next, logs, becameUnavailable };
+};
+
+// Effects targeting NPCs that aren't in the list are ignored.
+export const applyNpcEffects = (npcs: GameNPC[], effects: NpcEffectForEvent[]): NpcEffectsResult => {
+  const logs: EngineLogEntry[] = [];
+  const unavailableNpcIds: string[] = [];
+  const updatedNpcs = [...npcs];
+
+  effects.forEach(effect => {
+    const npcIndex = updatedNpcs.findIndex(n => n.id === effect.npcIdTargeted);
+    if (npcIndex === -1) return;
+    const result = applyNpcEffect(updatedNpcs[npcIndex], effect);
+    updatedNpcs[npcIndex] = result.npc;
+    logs.push(...result.logs);
+    if (result.becameUnavailable) unavailableNpcIds.push(result.npc.id);
+  });
+
+  return { state: updatedNpcs, logs, unavailableNpcIds };
+};
+
+export const applyNpcDispositionChange = (
+  npcs: GameNPC[],
+  npcId: string,
+  newDisposition: GameNPC['disposition']
+): EngineResult<GameNPC[]> => {
+  const target = npcs.find(n => n.id === npcId);
+  if (!target) return { state: npcs, logs: [] };
+  return {
+    state: npcs.map(n => n.id === npcId ? { ...n, disposition: newDisposition } : n),
+    logs: [{ type: 'system', text: `${target.name}'s disposition is now ${newDisposition}.` }],
+  };
+};
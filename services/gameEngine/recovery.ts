@@ -0,0 +1,139 @@
+// services/gameEngine/recovery.ts
+import { CharacterData } from '../types/characterTypes';
+import { FullLocationData } from '../types/locationTypes';
+import { GameNPC } from '../types/npcTypes';
+import { GameplayParameterSuggestions } from '../gameTypes';
+import { RecoveryRules } from '../types/rulesTypes';
+import { REST_SAFETY_CONFIG } from '../config/gameConstants';
+import { EngineLogEntry, EngineResult } from './engineTypes';
+import { recalculateOverallHealth, tickStatusEffects } from './characterReducers';
+
+export type RestKind = 'rest' | 'camp' | 'sleep';
+
+export interface RecoveryRates {
+  energyCostMultiplier: number;  // Applied to every energy cost
+  energyRegenMultiplier: number; // Applied to passive and resting energy gains
+  healthRegenMultiplier: number; // Applied to passive and resting limb healing
+}
+
+type EnergyDecayRate = NonNullable<GameplayParameterSuggestions['adjustEnergyDecayRate']>;
+type HealthRegenRate = NonNullable<GameplayParameterSuggestions['adjustHealthRegenRate']>;
+
+const ENERGY_DECAY_RATES: Record<EnergyDecayRate, Pick<RecoveryRates, 'energyCostMultiplier' | 'energyRegenMultiplier'>> = {
+  normal: { energyCostMultiplier: 1, energyRegenMultiplier: 1 },
+  increased: { energyCostMultiplier: 1.5, energyRegenMultiplier: 0.5 },
+  decreased: { energyCostMultiplier: 0.5, energyRegenMultiplier: 1.5 },
+  none: { energyCostMultiplier: 0, energyRegenMultiplier: 1 },
+};
+
+// 'event_driven' leaves healing to events alone, like 'none'.
+const HEALTH_REGEN_RATES: Record<HealthRegenRate, number> = { normal: 1, slowed: 0.5, none: 0, event_driven: 0 };
+
+export const getRecoveryRates = (suggestions?: GameplayParameterSuggestions | null): RecoveryRates => ({
+  ...ENERGY_DECAY_RATES[suggestions?.adjustEnergyDecayRate ?? 'normal'],
+  healthRegenMultiplier: HEALTH_REGEN_RATES[suggestions?.adjustHealthRegenRate ?? 'normal'],
+});
+
+export const scaleEnergyCost = (amount: number, rates: RecoveryRates): number =>
+  Math.round(amount * rates.energyCostMultiplier);
+
+// Whole points earned on this turn for a fractional per-turn rate, so 0.5 heals 1 point every other turn.
+const amountForTurn = (ratePerTurn: number, turn: number): number =>
+  Math.floor(ratePerTurn * turn) - Math.floor(ratePerTurn * (turn - 1));
+
+const isHealableLimb = (health: number): boolean => health > 0 && health < 100;
+
+// Hurt limbs heal by `amount`; destroyed ones (0HP) only heal through items or events. Flat event
+// damage lowers overallHealth without touching the limbs, so with no hurt limbs it heals directly.
+const heal = (character: CharacterData, amount: number): CharacterData => {
+  if (amount <= 0 || character.overallHealth <= 0) return character;
+  const limbs = character.limbs.map(limb => isHealableLimb(limb.health) ? { ...limb, health: Math.min(100, limb.health + amount) } : limb);
+  const limbGain = recalculateOverallHealth(limbs) - recalculateOverallHealth(character.limbs);
+  const overallHealth = Math.min(100, character.overallHealth + (limbGain > 0 ? limbGain : amount));
+  if (overallHealth === character.overallHealth && !character.limbs.some(limb => isHealableLimb(limb.health))) return character;
+  return { ...character, limbs, overallHealth };
+};
+
+const gainEnergy = (character: CharacterData, amount: number): CharacterData =>
+  amount > 0 ? { ...character, currentEnergy: Math.min(character.maxEnergy, character.currentEnergy + amount) } : character;
+
+// Quiet trickle of energy and healing on every turn; the panels show the result.
+export const applyPassiveRegeneration = (character: CharacterData, recovery: RecoveryRules, rates: RecoveryRates, turn: number): CharacterData => {
+  if (character.isDefeated) return character;
+  const energy = amountForTurn(recovery.passiveEnergyPerTurn * rates.energyRegenMultiplier, turn);
+  const limbHealth = amountForTurn(recovery.passiveLimbHealthPerTurn * rates.healthRegenMultiplier, turn);
+  return heal(gainEnergy(character, energy), limbHealth);
+};
+
+// Everything that happens to the character once a command has taken its turn: status effects tick
+// (see tickStatusEffects), then passive regeneration.
+export const applyTurnUpkeep = (character: CharacterData, recovery: RecoveryRules, rates: RecoveryRates, turn: number): EngineResult<CharacterData> => {
+  const tick = tickStatusEffects(character);
+  return { state: applyPassiveRegeneration(tick.state, recovery, rates, turn), logs: tick.logs };
+};
+
+export interface RestSafety {
+  isSafe: boolean;
+  threat: string | null; // What makes it unsafe, for the log and the event trigger
+}
+
+export const assessRestSafety = (location: FullLocationData, visibleNpcs: ReadonlyArray<GameNPC>): RestSafety => {
+  const hostileNpc = visibleNpcs.find(npc => npc.disposition === 'Hostile' && !npc.isDefeated);
+  if (hostileNpc) return { isSafe: false, threat: hostileNpc.name };
+  const dangerousTag = location.environmentTags.find(tag =>
+    REST_SAFETY_CONFIG.dangerousEnvironmentTags.some(danger => tag.toLowerCase().includes(danger)));
+  if (dangerousTag) return { isSafe: false, threat: dangerousTag };
+  return { isSafe: true, threat: null };
+};
+
+const REST_DESCRIPTIONS: Record<RestKind, string> = {
+  rest: 'You take a short rest',
+  camp: 'You make camp and rest for a while',
+  sleep: 'You sleep',
+};
+
+// A disturbed rest (unsafe spot) keeps only part of the recovery.
+export const applyRest = (
+  character: CharacterData, kind: RestKind, recovery: RecoveryRules, rates: RecoveryRates, isDisturbed: boolean
+): EngineResult<CharacterData> => {
+  if (character.isDefeated) return { state: character, logs: [] };
+  const factor = isDisturbed ? recovery.disturbedRestFactor : 1;
+  const energy = Math.round(recovery[kind].energy * rates.energyRegenMultiplier * factor);
+  const limbHealth = Math.round(recovery[kind].limbHealth * rates.healthRegenMultiplier * factor);
+  const next = heal(gainEnergy(character, energy), limbHealth);
+
+  const gains: string[] = [];
+  if (next.currentEnergy !== character.currentEnergy) gains.push(`energy ${character.currentEnergy} -> ${next.currentEnergy}/${next.maxEnergy}EN`);
+  if (next.overallHealth !== character.overallHealth) gains.push(`health ${character.overallHealth} -> ${next.overallHealth}HP`);
+  const logs: EngineLogEntry[] = [{
+    type: 'game_event',
+    text: `${REST_DESCRIPTIONS[kind]}${isDisturbed ? ', but never fully at ease' : ''}. ${gains.length ? `Recovered: ${gains.join(', ')}.` : 'You feel no different.'}`,
+  }];
+  return { state: next, logs };
+};
+
+export interface RevivalRules {
+  limbHealth: number;
+  minEnergy: number;
+}
+
+// Story difficulty: a defeated character gets back up with every limb at `limbHealth` and some energy.
+// Lasting effects that drain health or energy are lifted, or they would bring the defeat straight back.
+export const reviveCharacter = (character: CharacterData, revival: RevivalRules): EngineResult<CharacterData> => {
+  if (!character.isDefeated) return { state: character, logs: [] };
+  const limbs = character.limbs.map(limb => ({ ...limb, health: revival.limbHealth, status: `Recovering (${revival.limbHealth}HP)` }));
+  const statusEffects = (character.statusEffects ?? []).filter(effect => effect.healthPerTurn >= 0 && effect.energyPerTurn >= 0);
+  const next: CharacterData = {
+    ...character,
+    isDefeated: false,
+    limbs,
+    overallHealth: recalculateOverallHealth(limbs),
+    currentEnergy: Math.max(character.currentEnergy, Math.min(character.maxEnergy, revival.minEnergy)),
+    statusEffects,
+  };
+  const logs: EngineLogEntry[] = (character.statusEffects ?? [])
+    .filter(effect => !statusEffects.includes(effect))
+    .map((effect): EngineLogEntry => ({ type: 'game_event', text: `Status effect ended: ${effect.name}.` }));
+  logs.push({ type: 'game_event', text: `You are back on your feet, badly hurt (${next.overallHealth}HP, ${next.currentEnergy}/${next.maxEnergy}EN).` });
+  return { state: next, logs };
+};
@@ -0,0 +1,168 @@
+// services/gameEngine/worldClock.ts
+import { Coordinates } from '../types/commonTypes';
+import { FullLocationData } from '../types/locationTypes';
+import { RegionWeather, TimeOfDay, WeatherCondition, WorldState } from '../types/worldTypes';
+import { WEATHER_CONDITIONS, WORLD_CLOCK_CONFIG } from '../config/gameConstants';
+import { EngineLogEntry, EngineResult } from './engineTypes';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export type TimedAction = keyof typeof WORLD_CLOCK_CONFIG.minutesPerAction;
+
+export const createInitialWorldState = (weatherSeed: number = Math.floor(Math.random() * 2 ** 31)): WorldState => ({
+  minutesElapsed: WORLD_CLOCK_CONFIG.startHour * 60,
+  weatherSeed,
+  weatherByRegion: {},
+});
+
+export const getTimeOfDay = (minutesElapsed: number): TimeOfDay => {
+  const hour = Math.floor((minutesElapsed % MINUTES_PER_DAY) / 60);
+  const { dawnHour, dayHour, duskHour, nightHour } = WORLD_CLOCK_CONFIG;
+  if (hour >= nightHour || hour < dawnHour) return 'night';
+  if (hour < dayHour) return 'dawn';
+  if (hour < duskHour) return 'day';
+  return 'dusk';
+};
+
+// "Day 2, 14:30"
+export const formatWorldTime = (minutesElapsed: number): string => {
+  const minuteOfDay = minutesElapsed % MINUTES_PER_DAY;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `Day ${Math.floor(minutesElapsed / MINUTES_PER_DAY) + 1}, ${pad(Math.floor(minuteOfDay / 60))}:${pad(minuteOfDay % 60)}`;
+};
+
+// All levels of a spot share one sky, so only x/y pick the region.
+export const getRegionKey = (coordinates: Coordinates): string => {
+  const size = WORLD_CLOCK_CONFIG.regionSize;
+  return `${Math.floor(coordinates.x / size)},${Math.floor(coordinates.y / size)}`;
+};
+
+// Underground locations keep the weather of the region above but are sheltered from it.
+export const isShelteredFromWeather = (coordinates: Coordinates): boolean => coordinates.z < 0;
+
+const WEATHER_DESCRIPTIONS: Record<WeatherCondition, string> = {
+  clear: 'The sky is clear.',
+  cloudy: 'Grey clouds hang low overhead.',
+  fog: 'A thick fog clings to the ground.',
+  rain: 'A steady rain is falling.',
+  storm: 'A storm rages, with howling wind and driving rain.',
+  snow: 'Snow drifts down from a pale sky.',
+  wind: 'A strong wind gusts through the area.',
+  heat: 'The air is hot and heavy.',
+};
+
+// FNV-1a, so rolled weather depends only on the world's seed, the region and the period.
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const rollWeather = (world: WorldState, regionKey: string): RegionWeather => {
+  const { weatherPeriodMinutes, weatherWeights } = WORLD_CLOCK_CONFIG;
+  const period = Math.floor(world.minutesElapsed / weatherPeriodMinutes);
+  const totalWeight = WEATHER_CONDITIONS.reduce((sum, condition) => sum + weatherWeights[condition], 0);
+  let roll = hashString(`${world.weatherSeed}:${regionKey}:${period}`) % totalWeight;
+  const condition = WEATHER_CONDITIONS.find(candidate => (roll -= weatherWeights[candidate]) < 0) ?? 'clear';
+  return { condition, description: WEATHER_DESCRIPTIONS[condition], untilMinute: (period + 1) * weatherPeriodMinutes };
+};
+
+// Stored weather holds until it runs out; after that (or in a region never visited) it is rolled.
+export const getRegionWeather = (world: WorldState, coordinates: Coordinates): RegionWeather => {
+  const regionKey = getRegionKey(coordinates);
+  const stored = world.weatherByRegion[regionKey];
+  return stored && stored.untilMinute > world.minutesElapsed ? stored : rollWeather(world, regionKey);
+};
+
+const TIME_OF_DAY_ANNOUNCEMENTS: Record<TimeOfDay, string> = {
+  dawn: 'Dawn breaks.',
+  day: 'The sun is up; it is full day.',
+  dusk: 'Dusk settles over the land.',
+  night: 'Night falls.',
+};
+
+// Moves the clock forward and stores the weather of the region at `coordinates`, logging a new
+// time of day or a change in the weather there.
+export const advanceWorldClock = (world: WorldState, minutes: number, coordinates: Coordinates): EngineResult<WorldState> => {
+  if (minutes <= 0) return { state: world, logs: [] };
+  const weatherBefore = getRegionWeather(world, coordinates);
+  const advanced: WorldState = { ...world, minutesElapsed: world.minutesElapsed + Math.round(minutes) };
+  const weather = getRegionWeather(advanced, coordinates);
+  const state: WorldState = { ...advanced, weatherByRegion: { ...world.weatherByRegion, [getRegionKey(coordinates)]: weather } };
+
+  const logs: EngineLogEntry[] = [];
+  const timeOfDay = getTimeOfDay(state.minutesElapsed);
+  if (timeOfDay !== getTimeOfDay(world.minutesElapsed)) logs.push({ type: 'system', text: TIME_OF_DAY_ANNOUNCEMENTS[timeOfDay] });
+  if (weather.condition !== weatherBefore.condition && !isShelteredFromWeather(coordinates)) {
+    logs.push({ type: 'system', text: `The weather changes: ${weather.description}` });
+  }
+  return { state, logs };
+};
+
+// Checked in order, so "blizzard" reads as snow and "thunderstorm" as a storm rather than rain.
+const WEATHER_KEYWORDS: Array<[WeatherCondition, RegExp]> = [
+  ['snow', /snow|sleet|hail|blizzard|frost/],
+  ['storm', /storm|thunder|lightning|tempest|gale/],
+  ['rain', /rain|drizzle|shower|downpour/],
+  ['fog', /fog|mist|haze/],
+  ['wind', /wind|gust|breez/],
+  ['heat', /heat|hot|swelter|scorch/],
+  ['cloudy', /cloud|overcast|grey|gray/],
+  ['clear', /clear|sunny|sunshine|calm/],
+];
+
+export const inferWeatherCondition = (description: string): WeatherCondition | null =>
+  WEATHER_KEYWORDS.find(([, pattern]) => pattern.test(description.toLowerCase()))?.[0] ?? null;
+
+// Weather set by an event overrides the rolled weather of the region for a while.
+export const applyWeatherChange = (
+  world: WorldState, coordinates: Coordinates, description: string, condition?: WeatherCondition | null
+): EngineResult<WorldState> => {
+  const text = description.trim();
+  if (!text) return { state: world, logs: [] };
+  const weather: RegionWeather = {
+    condition: condition ?? inferWeatherCondition(text) ?? getRegionWeather(world, coordinates).condition,
+    description: /[.!?]$/.test(text) ? text : `${text}.`,
+    untilMinute: world.minutesElapsed + WORLD_CLOCK_CONFIG.eventWeatherMinutes,
+  };
+  return {
+    state: { ...world, weatherByRegion: { ...world.weatherByRegion, [getRegionKey(coordinates)]: weather } },
+    logs: [{ type: 'system', text: `The weather changes: ${weather.description}` }],
+  };
+};
+
+const DURATION_UNIT_MINUTES: Record<string, number> = { minute: 1, min: 1, hour: 60, hr: 60, night: 480, day: MINUTES_PER_DAY };
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, ten: 10, twelve: 12, couple: 2, few: 3, several: 4,
+};
+
+// Reads an event's free-text "time passes" ("two hours", "a few minutes", "overnight") as minutes.
+export const parseTimePassesToMinutes = (text: string): number => {
+  const lc = text.toLowerCase();
+  if (/half an hour|half-hour/.test(lc)) return 30;
+  if (/overnight/.test(lc)) return DURATION_UNIT_MINUTES.night;
+  const match = lc.match(/\b(\d+(?:\.\d+)?|an?|one|two|three|four|five|six|ten|twelve|couple|few|several)(?: of)?\s+(minute|min|hour|hr|night|day)s?\b/);
+  if (!match) return WORLD_CLOCK_CONFIG.minutesPerAction.event;
+  const count = NUMBER_WORDS[match[1]] ?? parseFloat(match[1]);
+  return Math.round(count * DURATION_UNIT_MINUTES[match[2]]);
+};
+
+// Minutes that pass for an event's worldEffects; the exact minutes win over the text.
+export const getEventMinutesPassed = (worldEffects: { timePasses?: string; minutesPassed?: number }): number => {
+  const minutes = worldEffects.minutesPassed ?? (worldEffects.timePasses ? parseTimePassesToMinutes(worldEffects.timePasses) : 0);
+  return Math.max(0, Math.min(minutes, WORLD_CLOCK_CONFIG.maxEventMinutes));
+};
+
+// Locations made before the clock existed have a single image, which counts as the daytime one.
+export const getLocationImageVariant = (location: FullLocationData, timeOfDay: TimeOfDay): string | undefined =>
+  (location.imageUrlsByTimeOfDay ?? { day: location.imageUrl })[timeOfDay];
+
+// Stores the image for `timeOfDay` and shows it.
+export const setLocationImageVariant = (location: FullLocationData, timeOfDay: TimeOfDay, imageUrl: string): FullLocationData => ({
+  ...location,
+  imageUrl,
+  imageUrlsByTimeOfDay: { ...(location.imageUrlsByTimeOfDay ?? { day: location.imageUrl }), [timeOfDay]: imageUrl },
+});
@@ -0,0 +1,104 @@
+// services/gameEngine/worldGraph.ts
+import { Coordinates } from '../types/commonTypes';
+import { VisitedLocationEntry } from '../types/locationTypes';
+
+// Visited locations form a grid graph: each cell links to the cell next to it through an exit,
+// and the exit on the other side must point back. Up/down move between levels (z).
+
+export const WORLD_DIRECTIONS = ['north', 'south', 'east', 'west', 'up', 'down'] as const;
+export type WorldDirection = typeof WORLD_DIRECTIONS[number];
+
+const DIRECTION_OFFSETS: Record<WorldDirection, { dx: number; dy: number; dz: number }> = {
+  north: { dx: 0, dy: 1, dz: 0 },
+  south: { dx: 0, dy: -1, dz: 0 },
+  east: { dx: 1, dy: 0, dz: 0 },
+  west: { dx: -1, dy: 0, dz: 0 },
+  up: { dx: 0, dy: 0, dz: 1 },
+  down: { dx: 0, dy: 0, dz: -1 },
+};
+
+export const OPPOSITE_DIRECTIONS: Record<WorldDirection, WorldDirection> = {
+  north: 'south', south: 'north', east: 'west', west: 'east', up: 'down', down: 'up',
+};
+
+export const isWorldDirection = (value: string): value is WorldDirection =>
+  (WORLD_DIRECTIONS as ReadonlyArray<string>).includes(value);
+
+export const getCoordinateKey = (coordinates: Coordinates): string => `${coordinates.x},${coordinates.y},${coordinates.z}`;
+
+// Also accepts the old two-part "x,y" keys (ground level).
+export const parseCoordinateKey = (key: string): Coordinates | null => {
+  const match = key.match(/^(-?\d+),(-?\d+)(?:,(-?\d+))?$/);
+  if (!match) return null;
+  const z = match[3] !== undefined ? parseInt(match[3], 10) : 0;
+  return { x: parseInt(match[1], 10), y: parseInt(match[2], 10), z };
+};
+
+export const getAdjacentCoordinates = (coordinates: Coordinates, direction: WorldDirection): Coordinates => {
+  const { dx, dy, dz } = DIRECTION_OFFSETS[direction];
+  return { x: coordinates.x + dx, y: coordinates.y + dy, z: coordinates.z + dz };
+};
+
+export const describeLevel = (level: number): string =>
+  level === 0 ? 'Ground Level' : level < 0 ? `Underground ${Math.abs(level)}` : `Upper Level ${level}`;
+
+// Sorted list of every level that has at least one visited location, plus any extra levels passed in.
+export const getVisitedLevels = (visitedLocations: ReadonlyMap<string, VisitedLocationEntry>, ...alwaysInclude: number[]): number[] => {
+  const levels = new Set<number>(alwaysInclude);
+  visitedLocations.forEach((_, key) => {
+    const coordinates = parseCoordinateKey(key);
+    if (coordinates) levels.add(coordinates.z);
+  });
+  return Array.from(levels).sort((a, b) => a - b);
+};
+
+const hasExit = (entry: VisitedLocationEntry, direction: WorldDirection): boolean =>
+  entry.location.validExits.some(exit => exit.toLowerCase() === direction);
+
+export interface NeighbourExitConstraints {
+  requiredExits: WorldDirection[];  // A known neighbour has an exit pointing at this cell
+  forbiddenExits: WorldDirection[]; // A known neighbour has no exit back, so this side must stay closed
+}
+
+// What the already-visited cells around `coordinates` say about the exits a new location there may have.
+export const getNeighbourExitConstraints = (
+  visitedLocations: ReadonlyMap<string, VisitedLocationEntry>, coordinates: Coordinates
+): NeighbourExitConstraints => {
+  const constraints: NeighbourExitConstraints = { requiredExits: [], forbiddenExits: [] };
+  WORLD_DIRECTIONS.forEach(direction => {
+    const neighbour = visitedLocations.get(getCoordinateKey(getAdjacentCoordinates(coordinates, direction)));
+    if (!neighbour) return;
+    if (hasExit(neighbour, OPPOSITE_DIRECTIONS[direction])) constraints.requiredExits.push(direction);
+    else constraints.forbiddenExits.push(direction);
+  });
+  return constraints;
+};
+
+// Lower-cases and de-duplicates exits, then adds every required exit and drops every forbidden one.
+export const applyNeighbourExitConstraints = (exits: ReadonlyArray<string>, constraints: NeighbourExitConstraints): string[] => {
+  const normalized = [...new Set(exits.map(exit => exit.toLowerCase()))];
+  return [...new Set([...normalized, ...constraints.requiredExits])]
+    .filter(exit => !(constraints.forbiddenExits as string[]).includes(exit));
+};
+
+// Makes both ends of the edge from `from` towards `direction` list each other. Older saves can hold
+// one-sided exits; travelling through one repairs it. Returns the same map when nothing changes.
+export const linkReciprocalExits = (
+  visitedLocations: ReadonlyMap<string, VisitedLocationEntry>, from: Coordinates, direction: WorldDirection
+): ReadonlyMap<string, VisitedLocationEntry> => {
+  const fromKey = getCoordinateKey(from);
+  const toKey = getCoordinateKey(getAdjacentCoordinates(from, direction));
+  const fromEntry = visitedLocations.get(fromKey);
+  const toEntry = visitedLocations.get(toKey);
+  if (!fromEntry || !toEntry) return visitedLocations;
+
+  const backDirection = OPPOSITE_DIRECTIONS[direction];
+  const needsFrom = !hasExit(fromEntry, direction);
+  const needsTo = !hasExit(toEntry, backDirection);
+  if (!needsFrom && !needsTo) return visitedLocations;
+
+  const next = new Map(visitedLocations);
+  if (needsFrom) next.set(fromKey, { ...fromEntry, location: { ...fromEntry.location, validExits: [...fromEntry.location.validExits, direction] } });
+  if (needsTo) next.set(toKey, { ...toEntry, location: { ...toEntry.location, validExits: [...toEntry.location.validExits, backDirection] } });
+  return next;
+};
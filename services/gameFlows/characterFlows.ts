@@ -0,0 +1,30 @@
+// services/gameFlows/characterFlows.ts
+import { applyEnergyConsumption, applySkillExperience, getRecoveryRates, scaleEnergyCost } from '../gameEngine';
+import { GameFlowHost } from './flowTypes';
+import { getRules } from './flowUtils';
+
+// The Game Director can make actions cost more or less energy (adjustEnergyDecayRate).
+export const consumeEnergy = (host: GameFlowHost, amount: number, relevantSkillName?: string) => {
+  const { characterData, currentDirectives } = host.getState();
+  if (!characterData) return;
+  const rates = getRecoveryRates(currentDirectives?.gameplayParameterSuggestions);
+  const { character, wasDefeated } = applyEnergyConsumption(characterData, scaleEnergyCost(amount, rates));
+  host.update({ characterData: character });
+  if (wasDefeated) {
+    host.addLogEntry('game_event', `You collapse from exhaustion${relevantSkillName ? ` while using ${relevantSkillName}` : ''}. You have been defeated.`);
+  }
+};
+
+export const gainSkillExperience = (host: GameFlowHost, skillName: string, amount: number) => {
+  const state = host.getState();
+  if (!state.characterData) return;
+  const oldLevel = state.characterData.skills.find(s => s.name === skillName)?.level;
+  const characterData = applySkillExperience(state.characterData, skillName, amount, getRules(state).skillProgression);
+  host.update({ characterData });
+  const newLevel = characterData.skills.find(s => s.name === skillName)?.level;
+  if (amount > 0) host.addLogEntry('system', `Gained ${amount}XP in ${skillName}.`);
+  if (oldLevel !== undefined && newLevel !== undefined && newLevel > oldLevel) {
+    if (newLevel === 1 && oldLevel === 0) host.addLogEntry('game_event', `You learned ${skillName} (Level ${newLevel})!`);
+    else host.addLogEntry('game_event', `${skillName} increased to Level ${newLevel}!`);
+  }
+};
@@ -0,0 +1,200 @@
+// services/gameFlows/commandFlows.ts
+import { ParsedPlayerActionParameters, PLAYER_ACTIONS } from '../gameTypes';
+import { parsePlayerCommandAndDetermineAction } from '../commandService';
+import { examineContextualDetail } from '../locationService';
+import { RestKind, applyRest, applyTurnUpkeep, assessRestSafety, getRecoveryRates } from '../gameEngine';
+import { WORLD_CLOCK_CONFIG } from '../config/gameConstants';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+import { emitLogs, getLocationKey, getRules, getVisibleNpcs, underscored } from './flowUtils';
+import { addPotentialDiscovery, getMemoryContextString } from './memoryFlows';
+import { gainSkillExperience } from './characterFlows';
+import { advanceWorldTime, getWorldContextString } from './worldFlows';
+import { attackNpc, attemptToTriggerUnexpectedEvent, resolveEventDialogue } from './eventFlows';
+import { lookForItems, lookForPeople } from './locationFlows';
+import { endConversation, giveItemToNpc, requestItemFromNpc, speakToNpc, talkToNpc } from './npcFlows';
+import { activateItemByName, pickupItemByName } from './itemFlows';
+import { moveInDirection } from './movementFlows';
+
+const AREA_EXAMINE_TARGETS = ['area', 'location', 'surroundings', 'room', 'here', 'around'];
+
+export const describeStatus = (host: GameFlowHost) => {
+  const { characterData } = host.getState();
+  if (!characterData) return;
+  host.addLogEntry('system', `Overall Health: ${characterData.overallHealth}HP. Energy: ${characterData.currentEnergy}/${characterData.maxEnergy}EN. Limbs: ${characterData.limbs.map(l => `${l.name} (${l.status}, ${l.health}HP)`).join('; ')}. Status effects: ${characterData.statusEffects?.map(e => `${e.name} (${e.remainingTurns === null ? 'lasting' : `${e.remainingTurns} turns left`})`).join(', ') || 'none'}.`);
+};
+
+export const describeInventory = (host: GameFlowHost) => {
+  const { playerInventory } = host.getState();
+  host.addLogEntry('system', playerInventory.length > 0 ? `You have: ${playerInventory.map(i => `${i.name} (${i.rarity})`).join(', ')}.` : "Your inventory is empty.");
+};
+
+export const rest = async (host: GameFlowHost, kind: RestKind) => {
+  const { characterData, locationData, isEventActive, currentEventDetails, talkingToNPC, currentDirectives } = host.getState();
+  if (!characterData || !locationData) return;
+  if (characterData.isDefeated) { host.addLogEntry('system', "You are beyond the help of rest."); return; }
+  if (isEventActive && currentEventDetails?.requiresPlayerActionToResolve) {
+    host.addLogEntry('system', "You can't rest while the event demands your attention."); return;
+  }
+  if (talkingToNPC) { host.addLogEntry('system', `You are still talking to ${talkingToNPC.name}.`); return; }
+
+  const safety = assessRestSafety(locationData, getVisibleNpcs(host.getState()));
+  if (!safety.isSafe) host.addLogEntry('system', `This is no safe place to rest (${safety.threat}).`);
+  const result = applyRest(characterData, kind, getRules(host.getState()).recovery, getRecoveryRates(currentDirectives?.gameplayParameterSuggestions), !safety.isSafe);
+  emitLogs(host, result.logs);
+  host.update({ characterData: result.state });
+  advanceWorldTime(host, WORLD_CLOCK_CONFIG.minutesPerAction[kind]);
+  if (!safety.isSafe) {
+    await attemptToTriggerUnexpectedEvent(host, `event_rest_disturbed_while_${kind}_by_${underscored(safety.threat!.toLowerCase())}`);
+  }
+};
+
+// Known items and NPCs are shown through the host (a detail modal in the browser); anything else
+// is a detail of the scene the LLM describes.
+export const examine = async (host: GameFlowHost, targetName: string, parameters?: ParsedPlayerActionParameters) => {
+  const detailToExamine = parameters?.examine_detail_target || targetName;
+  if (!detailToExamine) { host.addLogEntry('error', "What do you want to examine?"); return; }
+  const targetLower = detailToExamine.toLowerCase();
+  const { isEventActive, currentEventDetails, playerInventory, locationItems } = host.getState();
+
+  if (AREA_EXAMINE_TARGETS.includes(targetLower)) {
+    if (isEventActive && currentEventDetails) {
+      host.addLogEntry('narration', currentEventDetails.narration || "You survey the chaotic scene of the event.");
+      host.addLogEntry('system', `Contextual examination of event: ${currentEventDetails.eventTitle}`);
+      return;
+    }
+    host.addLogEntry('system', "You scan your surroundings...");
+    await lookForItems(host);
+    await lookForPeople(host);
+    const { locationData } = host.getState();
+    if (locationData) host.addLogEntry('narration', locationData.description);
+    return;
+  }
+
+  const knownItem = playerInventory.find(item => item.name.toLowerCase() === targetLower)
+    || locationItems?.find(item => item.name.toLowerCase() === targetLower);
+  if (knownItem) {
+    if (host.showItem) host.showItem(knownItem);
+    else host.addLogEntry('narration', `${knownItem.name} (${knownItem.rarity}, ${knownItem.itemTypeGuess}): ${knownItem.description}`);
+    return;
+  }
+  const knownNpc = getVisibleNpcs(host.getState()).find(npc => npc.name.toLowerCase() === targetLower);
+  if (knownNpc) {
+    if (host.showNpc) host.showNpc(knownNpc);
+    else host.addLogEntry('narration', `${knownNpc.name} (${knownNpc.rarity}, ${knownNpc.disposition || 'Neutral'}): ${knownNpc.description}`);
+    return;
+  }
+
+  const { characterData, locationData } = host.getState();
+  if (!characterData || !locationData) {
+    host.addLogEntry('error', `You don't see a "${detailToExamine}" to examine closely here, or they are currently obscured.`);
+    return;
+  }
+  host.beginActivity('examine', `Examining ${detailToExamine}...`);
+  const signal = host.getLocationWorkSignal();
+  try {
+    const locationKey = getLocationKey(host.getState());
+    const examResult = await examineContextualDetail(
+      detailToExamine, characterData, locationData, currentEventDetails, locationKey, getMemoryContextString(host), signal
+    );
+    throwIfAborted(signal);
+    host.addLogEntry('narration', examResult.narration);
+    for (const pd of examResult.potentialDiscoveries) {
+      await addPotentialDiscovery(host, pd, `examine_${underscored(detailToExamine)}`, locationKey, signal);
+    }
+    gainSkillExperience(host, "Perception", getRules(host.getState()).skillXp.examine);
+    await attemptToTriggerUnexpectedEvent(host, `examined_detail_${underscored(detailToExamine)}_in_${underscored(locationData.name)}`);
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      console.info(`Examining "${detailToExamine}" cancelled.`);
+      return;
+    }
+    host.addLogEntry('error', `Cannot examine "${detailToExamine}": ${err.message || 'Nothing noteworthy observed.'}`);
+  } finally {
+    host.endActivity('examine');
+  }
+};
+
+// Status effects tick and passive regeneration runs once for every action that takes a turn.
+const applyUpkeepForTurn = (host: GameFlowHost, playerCommandCount: number) => {
+  const { characterData, currentDirectives } = host.getState();
+  if (!characterData || characterData.isDefeated) return;
+  const upkeep = applyTurnUpkeep(
+    characterData, getRules(host.getState()).recovery, getRecoveryRates(currentDirectives?.gameplayParameterSuggestions), playerCommandCount
+  );
+  if (upkeep.state === characterData) return;
+  emitLogs(host, upkeep.logs);
+  host.update({ characterData: upkeep.state });
+};
+
+// A typed command: logged, parsed by the LLM into an action, dispatched, then turn upkeep applied.
+// A command whose game was replaced while it ran (new game, loaded save) stops without a word.
+export const processPlayerCommand = async (host: GameFlowHost, commandText: string) => {
+  const { characterData, locationData } = host.getState();
+  if (!characterData || !locationData) { host.addLogEntry('error', 'Game not ready for commands.'); return; }
+  host.addLogEntry('command', `You say: "${commandText}"`, commandText);
+  const playerCommandCount = host.getState().playerCommandCount + 1;
+  host.update({ playerCommandCount });
+
+  const signal = host.getLocationWorkSignal();
+  try {
+    const { locationItems, playerInventory, gameLog, talkingToNPC, isEventActive, currentEventDetails } = host.getState();
+    const eventDetailsForParse = (isEventActive && currentEventDetails?.requiresPlayerActionToResolve) ? currentEventDetails : null;
+    const parsedResult = await parsePlayerCommandAndDetermineAction(
+      commandText, characterData, locationData, locationItems, playerInventory, gameLog.slice(-5).map(entry => entry.text),
+      getVisibleNpcs(host.getState()), talkingToNPC, getMemoryContextString(host) + getWorldContextString(host), eventDetailsForParse, signal
+    );
+    throwIfAborted(signal);
+    if (!parsedResult.isPlausible) {
+      host.addLogEntry('error', parsedResult.reasonIfNotPlausible || "That action doesn't seem possible right now.");
+      return;
+    }
+    advanceWorldTime(host, WORLD_CLOCK_CONFIG.minutesPerAction.command);
+    if (parsedResult.narrationForPlausibleAction) host.addLogEntry('narration', parsedResult.narrationForPlausibleAction);
+    const targetName = parsedResult.targets[0];
+    const parameters = parsedResult.parameters || undefined;
+
+    switch (parsedResult.action) {
+      case PLAYER_ACTIONS.EVENT_DIALOGUE_INPUT: await resolveEventDialogue(host, commandText, parsedResult); break;
+      case PLAYER_ACTIONS.DIALOGUE_INPUT: await speakToNpc(host, parameters?.dialogue_text); break;
+      case PLAYER_ACTIONS.TALK: await talkToNpc(host, targetName, parameters?.dialogue_text); break;
+      case PLAYER_ACTIONS.END_CONVERSATION: endConversation(host); break;
+      case PLAYER_ACTIONS.PICKUP: case PLAYER_ACTIONS.TAKE: case PLAYER_ACTIONS.GET: await pickupItemByName(host, targetName); break;
+      case PLAYER_ACTIONS.USE: await activateItemByName(host, targetName, parameters); break;
+      case PLAYER_ACTIONS.EXAMINE: case PLAYER_ACTIONS.LOOK: case PLAYER_ACTIONS.INSPECT: await examine(host, targetName, parameters); break;
+      case PLAYER_ACTIONS.DISCOVER_ITEMS: case PLAYER_ACTIONS.SEARCH_AREA_FOR_ITEMS:
+        if (host.getState().isEventActive) host.addLogEntry('system', "The unfolding event prevents you from searching for items.");
+        else await lookForItems(host);
+        break;
+      case PLAYER_ACTIONS.DISCOVER_NPCS: case PLAYER_ACTIONS.LOOK_FOR_PEOPLE:
+        if (host.getState().isEventActive) host.addLogEntry('system', "Your attention is fixed on the current event; you cannot search for others now.");
+        else await lookForPeople(host);
+        break;
+      case PLAYER_ACTIONS.GO: case PLAYER_ACTIONS.MOVE: case PLAYER_ACTIONS.WALK: case PLAYER_ACTIONS.RUN: case PLAYER_ACTIONS.LEAVE_AREA:
+        await moveInDirection(host, targetName, parsedResult.action, parameters?.intendedLocationTypeHint); break;
+      case PLAYER_ACTIONS.GIVE_ITEM:
+        await giveItemToNpc(host, { itemName: parameters?.item_to_give_name, npcName: parameters?.target_npc_name_for_interaction }); break;
+      case PLAYER_ACTIONS.REQUEST_ITEM_FROM_NPC:
+        await requestItemFromNpc(host, parameters?.item_to_request_name, parameters?.target_npc_name_for_request); break;
+      case PLAYER_ACTIONS.ATTACK_NPC: await attackNpc(host, targetName, parameters?.direct_object_npc_id); break;
+      case PLAYER_ACTIONS.REST: case PLAYER_ACTIONS.CAMP: case PLAYER_ACTIONS.SLEEP: await rest(host, parsedResult.action as RestKind); break;
+      // Checking the inventory or status takes no turn, and neither does an action the game cannot dispatch.
+      case PLAYER_ACTIONS.INVENTORY: case PLAYER_ACTIONS.CHECK_INVENTORY: describeInventory(host); return;
+      case PLAYER_ACTIONS.STATUS: case PLAYER_ACTIONS.HEALTH: case PLAYER_ACTIONS.CHECK_SELF: describeStatus(host); return;
+      default: host.addLogEntry('error', `Unknown action: ${parsedResult.action}`); return;
+    }
+    // Unless a new game or a loaded save replaced this one while the action ran.
+    if (host.getState().playerCommandCount === playerCommandCount) applyUpkeepForTurn(host, playerCommandCount);
+  } catch (e: any) {
+    // Not signal.aborted: a move dispatched by this command aborts the signal itself.
+    if (isAbortError(e)) {
+      console.info(`Command "${commandText}" cancelled.`);
+      return;
+    }
+    console.error("Command processing error:", e);
+    host.addLogEntry('error', `Command processing error: ${e.message}`);
+  } finally {
+    // useGameDirector decides itself whether enough commands have passed for a new analysis.
+    host.triggerGameDirectorAnalysis?.();
+  }
+};
@@ -0,0 +1,48 @@
+// services/gameFlows/defeatFlows.ts
+import { generateStoryRevival } from '../eventService';
+import { STORY_REVIVAL_CONFIG } from '../config/gameConstants';
+import { addStatusEffect, createStatusEffect, getEventMinutesPassed, removeItemsByName, reviveCharacter } from '../gameEngine';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+import { emitLogs, getVisibleNpcs } from './flowUtils';
+import { addMajorPlotPoint, getMemoryContextString } from './memoryFlows';
+import { advanceWorldTime, getWorldContextString } from './worldFlows';
+
+// Story difficulty: the LLM narrates how the defeated character comes back and what it costs them.
+// Throws when that fails, so the front-end can offer to try again; a revival of a game that was
+// replaced meanwhile just stops.
+export const reviveInStoryMode = async (host: GameFlowHost) => {
+  const { characterData, locationData, playerInventory, gameLog } = host.getState();
+  if (!characterData?.isDefeated || !locationData) return;
+  host.beginActivity('revival', "The story is not finished with you yet...");
+  const signal = host.getLocationWorkSignal();
+  try {
+    const outcome = await generateStoryRevival(
+      characterData, locationData, playerInventory, gameLog, getVisibleNpcs(host.getState()), getMemoryContextString(host) + getWorldContextString(host), signal
+    );
+    throwIfAborted(signal);
+    host.addLogEntry('narration', outcome.narration);
+    advanceWorldTime(host, getEventMinutesPassed({ minutesPassed: outcome.minutesPassed ?? undefined }));
+
+    const revived = reviveCharacter(host.getState().characterData!, STORY_REVIVAL_CONFIG);
+    emitLogs(host, revived.logs);
+    let revivedCharacter = revived.state;
+    if (outcome.statusEffectAdded) {
+      // The ordeal may leave its mark, but never one that wears the revived character straight back down.
+      const effect = createStatusEffect(outcome.statusEffectAdded, 'Revival');
+      const withEffect = addStatusEffect(revivedCharacter, { ...effect, healthPerTurn: Math.max(0, effect.healthPerTurn) });
+      emitLogs(host, withEffect.logs);
+      revivedCharacter = withEffect.state;
+    }
+    const lost = removeItemsByName(host.getState().playerInventory, outcome.lostItemNames ?? [], item => `Lost: ${item.name}.`);
+    emitLogs(host, lost.logs);
+    host.update({ characterData: revivedCharacter, playerInventory: lost.state });
+    host.addLogEntry('game_event', `The price of survival: ${outcome.consequence}`);
+    addMajorPlotPoint(host, `Defeated and revived: ${outcome.narration} Consequence: ${outcome.consequence}`, [characterData.characterName], locationData.name);
+  } catch (err) {
+    if (!isAbortError(err) && !signal.aborted) throw err;
+    console.info(`Story revival of ${characterData.characterName} cancelled.`);
+  } finally {
+    host.endActivity('revival');
+  }
+};
@@ -0,0 +1,380 @@
+// services/gameFlows/eventFlows.ts
+import { EventEffects, GameItem, GameItemSuggestionForEvent, GameNPC, PlayerActionParseResult, Skill } from '../gameTypes';
+import {
+  decideIfEventShouldTrigger, generateDynamicEventDetails, generatePlayerAttackNpcConsequences, checkEventResolution, generateEventImage
+} from '../eventService';
+import { generateAndFetchItemIcon } from '../itemService';
+import { generateAndFetchNpcIcon, generateEventDialogueResponse } from '../npcService';
+import { PREDEFINED_SKILLS_CONFIG } from '../characterService';
+import { linkGeneratedEntityToLead } from '../loreService';
+import {
+  applyCharacterEffect, applyLocationEffect, applyNpcEffects, applyNpcDispositionChange, removeItemsByName, getEventMinutesPassed,
+  getExperienceToNextLevel, rollSkillLevel
+} from '../gameEngine';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+import { emitLogs, getLocationKey, getRules, getVisibleNpcs, setLocationData, setLocationItems, setLocationNpcs } from './flowUtils';
+import {
+  PotentialDiscoveryData, addMajorPlotPoint, addMemorableEntity, addPotentialDiscovery, getMemoryContextString, markPotentialDiscoveryFound
+} from './memoryFlows';
+import { advanceWorldTime, changeWeather, getWorldContextString } from './worldFlows';
+
+// Titles the model uses when it was asked for an event but found nothing worth one.
+const NO_EVENT_TITLES = ["a fleeting sensation", "the moment passes", "all remains calm", "nothing noteworthy", "nothing unusual"];
+
+const clearEvent = (host: GameFlowHost) => host.update({ isEventActive: false, currentEventDetails: null, currentEventImageUrl: null });
+
+const createItemFromSuggestion = async (
+  host: GameFlowHost, suggestion: GameItemSuggestionForEvent, visualPromptHint: string, signal?: AbortSignal
+): Promise<GameItem> => {
+  const iconUrl = await generateAndFetchItemIcon(visualPromptHint, suggestion.name, host.getState().characterData?.visualStyle || 'Pixel Art', null, signal);
+  throwIfAborted(signal);
+  return { ...suggestion, visualPromptHint, id: crypto.randomUUID(), iconUrl };
+};
+
+// Shows the event's picture. Cleared when the event gives no hint for one.
+const showEventImage = async (host: GameFlowHost, effects: EventEffects, logWhenGenerated: boolean, signal?: AbortSignal) => {
+  const { locationData, characterData } = host.getState();
+  if (!effects.visualPromptHintForEventImage || !locationData?.visualPromptHint || !characterData?.visualStyle) {
+    host.update({ currentEventImageUrl: null });
+    return;
+  }
+  const eventImageUrl = await generateEventImage(effects.visualPromptHintForEventImage, locationData.visualPromptHint, effects.eventTitle, characterData.visualStyle, signal);
+  throwIfAborted(signal);
+  host.update({ currentEventImageUrl: eventImageUrl });
+  if (eventImageUrl && logWhenGenerated) host.addLogEntry('system', "Event image generated.");
+};
+
+// Records a concluded event in the chronicle of major plot points.
+const chronicleEvent = (host: GameFlowHost, summary: string, effects: EventEffects, extraInvolvedId?: string) => {
+  const { characterData, locationData } = host.getState();
+  const involvedIds = new Set<string>();
+  if (characterData) involvedIds.add(characterData.characterName);
+  effects.involvedEntityIdsForPlotPoint?.forEach(id => involvedIds.add(id));
+  if (extraInvolvedId) involvedIds.add(extraInvolvedId);
+  addMajorPlotPoint(host, summary, Array.from(involvedIds), locationData?.name, { silent: true });
+};
+
+// Once signal is aborted, throws instead of applying the rest.
+export const applyEventEffects = async (host: GameFlowHost, effects: EventEffects, signal?: AbortSignal) => {
+  const { characterData, locationData } = host.getState();
+  if (!characterData) return;
+  const rules = getRules(host.getState());
+  const memoryContext = getMemoryContextString(host);
+  const silent = { silent: true };
+
+  if (effects.characterEffects) {
+    const result = applyCharacterEffect(host.getState().characterData!, effects.characterEffects, rules.skillProgression, effects.eventTitle);
+    emitLogs(host, result.logs);
+    host.update({ characterData: result.state });
+  }
+
+  if (effects.itemEffects) {
+    const { itemsAddedToInventory, itemsRemovedFromInventoryByName, itemsAddedToLocation, itemsRemovedFromLocationByName } = effects.itemEffects;
+    const unconfirmedItemLeads = host.getState().potentialDiscoveries.filter(pd => pd.type === 'item' && pd.status === 'mentioned');
+    const hintFor = (suggestion: GameItemSuggestionForEvent) => suggestion.visualPromptHint || `a ${suggestion.itemTypeGuess} called ${suggestion.name}`;
+
+    for (const suggestion of itemsAddedToInventory || []) {
+      const newItem = await createItemFromSuggestion(host, suggestion, hintFor(suggestion), signal);
+      host.update({ playerInventory: [...host.getState().playerInventory, newItem] });
+      const fulfilledLeadId = await linkGeneratedEntityToLead(newItem, 'item', unconfirmedItemLeads, characterData, memoryContext, signal);
+      throwIfAborted(signal);
+      if (fulfilledLeadId) markPotentialDiscoveryFound(host, fulfilledLeadId, newItem.id, silent);
+      host.addLogEntry('game_event', `You acquired: ${newItem.name} (${newItem.rarity}).`);
+      addMemorableEntity(host, newItem.id, newItem.name, 'item', newItem.rarity, newItem.description, "Acquired from event", silent);
+    }
+    if (itemsRemovedFromInventoryByName?.length) {
+      const removal = removeItemsByName(host.getState().playerInventory, itemsRemovedFromInventoryByName, item => `You lost: ${item.name}.`);
+      emitLogs(host, removal.logs);
+      host.update({ playerInventory: removal.state });
+    }
+    if (itemsAddedToLocation?.length && locationData) {
+      const newLocItems: GameItem[] = [];
+      for (const suggestion of itemsAddedToLocation) {
+        const newItem = await createItemFromSuggestion(host, suggestion, hintFor(suggestion), signal);
+        newLocItems.push(newItem);
+        const fulfilledLeadId = await linkGeneratedEntityToLead(newItem, 'item', unconfirmedItemLeads, characterData, memoryContext, signal);
+        throwIfAborted(signal);
+        if (fulfilledLeadId) markPotentialDiscoveryFound(host, fulfilledLeadId, newItem.id, silent);
+        host.addLogEntry('game_event', `${newItem.name} (${newItem.rarity}) appeared in the area!`);
+        addMemorableEntity(host, newItem.id, newItem.name, 'item', newItem.rarity, newItem.description, `Appeared in ${locationData.name} from event`, silent);
+      }
+      setLocationItems(host, [...(host.getState().locationItems || []), ...newLocItems]);
+    }
+    const { locationItems } = host.getState();
+    if (itemsRemovedFromLocationByName?.length && locationItems) {
+      const removal = removeItemsByName(locationItems, itemsRemovedFromLocationByName, item => `${item.name} vanished from the area.`);
+      emitLogs(host, removal.logs);
+      setLocationItems(host, removal.state);
+    }
+  }
+
+  if (effects.locationEffects && locationData) {
+    const result = applyLocationEffect(host.getState().locationData || locationData, effects.locationEffects);
+    emitLogs(host, result.logs);
+    setLocationData(host, result.state);
+
+    const newTemporaryNpc = effects.locationEffects.newTemporaryNpc;
+    if (newTemporaryNpc) {
+      const iconUrl = await generateAndFetchNpcIcon(newTemporaryNpc.visualPromptHint, newTemporaryNpc.name, locationData.visualPromptHint, characterData.visualStyle, signal);
+      throwIfAborted(signal);
+      const npcSkills: Skill[] = PREDEFINED_SKILLS_CONFIG.map(skillConfig => {
+        const suggestedSkill = newTemporaryNpc.skillSuggestions?.find(ss => ss.skillName === skillConfig.name);
+        const level = suggestedSkill ? suggestedSkill.level : rollSkillLevel(rules.npcSkillLevels.eventSpawned[newTemporaryNpc.rarity]);
+        return {
+          id: crypto.randomUUID(), name: skillConfig.name, description: skillConfig.description, level, experience: 0,
+          experienceToNextLevel: getExperienceToNextLevel(level, rules.skillProgression),
+        };
+      });
+      const tempNpc: GameNPC = {
+        ...newTemporaryNpc, id: crypto.randomUUID(), iconUrl, inventory: [], skills: npcSkills,
+        currentHealth: 100, maxHealth: 100, isDefeated: false, disposition: 'Neutral',
+        isEventSpawned: true, isHiddenDuringEvent: false,
+      };
+      const unconfirmedNpcLeads = host.getState().potentialDiscoveries.filter(pd => pd.type === 'npc' && pd.status === 'mentioned');
+      const fulfilledLeadId = await linkGeneratedEntityToLead(tempNpc, 'npc', unconfirmedNpcLeads, characterData, memoryContext, signal);
+      throwIfAborted(signal);
+      if (fulfilledLeadId) markPotentialDiscoveryFound(host, fulfilledLeadId, tempNpc.id, silent);
+      host.addLogEntry('game_event', `${tempNpc.name} (${tempNpc.rarity}) appears due to the event!`);
+      addMemorableEntity(host, tempNpc.id, tempNpc.name, 'npc', tempNpc.rarity, tempNpc.description, `Appeared in ${locationData.name} during event`, silent);
+      setLocationNpcs(host, [...(host.getState().locationNPCs || []), tempNpc]);
+    }
+  }
+
+  const { locationNPCs } = host.getState();
+  if (effects.npcEffects?.length && locationNPCs) {
+    const result = applyNpcEffects(locationNPCs, effects.npcEffects);
+    emitLogs(host, result.logs);
+    const { talkingToNPC } = host.getState();
+    if (talkingToNPC && result.unavailableNpcIds.includes(talkingToNPC.id)) host.update({ talkingToNPC: null });
+    setLocationNpcs(host, result.state);
+  }
+
+  if (effects.worldEffects) {
+    if (effects.worldEffects.timePasses) host.addLogEntry('system', `Time passes: ${effects.worldEffects.timePasses}`);
+    advanceWorldTime(host, getEventMinutesPassed(effects.worldEffects));
+    if (effects.worldEffects.weatherChanges) changeWeather(host, effects.worldEffects.weatherChanges, effects.worldEffects.weatherCondition);
+  }
+  if (effects.majorPlotPointSummary) {
+    addMajorPlotPoint(host, effects.majorPlotPointSummary, effects.involvedEntityIdsForPlotPoint, locationData?.name, silent);
+  }
+  for (const pd of effects.potentialDiscoveriesGenerated || []) {
+    await addPotentialDiscovery(host, pd, effects.eventTitle, getLocationKey(host.getState()), signal);
+  }
+};
+
+// Only notable moments (Epic/Legendary things, or contexts the system raises itself) may turn into an event,
+// and the LLM still decides whether one happens.
+export const attemptToTriggerUnexpectedEvent = async (host: GameFlowHost, triggerContext: string) => {
+  const { characterData, locationData, isGeneratingEvent, isEventActive, currentDirectives } = host.getState();
+  if (!characterData || !locationData || isGeneratingEvent || isEventActive) return;
+  const lcTriggerContext = triggerContext.toLowerCase();
+  const isEpicOrLegendaryThing = lcTriggerContext.includes('_epic_') || lcTriggerContext.includes('_legendary_');
+  const isSystemDrivenEventContext = lcTriggerContext.startsWith('event_') || lcTriggerContext.startsWith('game_start');
+  if (!isEpicOrLegendaryThing && !isSystemDrivenEventContext) return;
+
+  // Aborted when the player leaves, a new game starts or a save loads; the event is then dropped unseen.
+  const signal = host.getLocationWorkSignal();
+  host.update({ isGeneratingEvent: true });
+  host.beginActivity('event', "Sensing a disturbance...");
+  host.addLogEntry('system', "You feel a change in the air...");
+  const memoryContextString = getMemoryContextString(host) + getWorldContextString(host);
+  try {
+    const { playerInventory, gameLog } = host.getState();
+    const decision = await decideIfEventShouldTrigger(triggerContext, characterData, locationData, playerInventory, gameLog, memoryContextString, signal);
+    throwIfAborted(signal);
+    if (!decision.shouldTriggerEvent || !decision.eventConcept || !decision.eventIntensity) {
+      host.addLogEntry('system', "The feeling passes. Nothing significant seems to happen.");
+      return;
+    }
+
+    let directorContext = "";
+    if (currentDirectives) {
+      const eventGenEnhancement = currentDirectives.promptEnhancements.find(pe => pe.targetSystem === 'EventGeneration');
+      if (eventGenEnhancement) directorContext += `\nGame Director Suggestion for Event: ${eventGenEnhancement.suggestion}`;
+      const { increaseNarrativeLengthForScenario, preferredEventType } = currentDirectives.gameplayParameterSuggestions;
+      if (currentDirectives.currentGameFocus === decision.eventConcept || increaseNarrativeLengthForScenario === decision.eventConcept) {
+        directorContext += "\nGame Director Suggests: This event matches the current game focus or a scenario requiring longer narration. Please provide a more detailed and immersive event narration.";
+      }
+      if (preferredEventType === decision.eventConcept) {
+        directorContext += `\nGame Director Notes: This event type (${decision.eventConcept}) is currently preferred.`;
+      }
+    }
+
+    const eventEffects = await generateDynamicEventDetails(
+      characterData, locationData, host.getState().playerInventory, host.getState().gameLog,
+      decision.eventConcept, decision.eventIntensity, memoryContextString + directorContext, signal
+    );
+    throwIfAborted(signal);
+    const hasNoEffects = !eventEffects.characterEffects && !eventEffects.itemEffects && !eventEffects.locationEffects
+      && !eventEffects.npcEffects && !eventEffects.majorPlotPointSummary && !eventEffects.requiresPlayerActionToResolve;
+    if (hasNoEffects && NO_EVENT_TITLES.some(title => eventEffects.eventTitle.toLowerCase().includes(title))) {
+      host.addLogEntry('system', "The feeling passes. Nothing significant seems to happen.");
+      clearEvent(host);
+      return;
+    }
+
+    host.update({ isEventActive: true, currentEventDetails: eventEffects });
+    host.addLogEntry('game_event', `EVENT: ${eventEffects.eventTitle}`);
+    host.addLogEntry('narration', eventEffects.narration);
+    if (eventEffects.combatNarration) host.addLogEntry('combat', eventEffects.combatNarration);
+    await showEventImage(host, eventEffects, true, signal);
+    await applyEventEffects(host, eventEffects, signal);
+
+    if (eventEffects.requiresPlayerActionToResolve) {
+      host.addLogEntry('system', "This event requires your attention.");
+      if (eventEffects.resolutionCriteriaPrompt) host.addLogEntry('system', `Hint: ${eventEffects.resolutionCriteriaPrompt}`);
+    } else {
+      let chronicleSummary = `Event Occurred: "${eventEffects.eventTitle}". ${eventEffects.narration}`;
+      if (eventEffects.majorPlotPointSummary) chronicleSummary += ` Lore/Plot: ${eventEffects.majorPlotPointSummary}`;
+      chronicleEvent(host, chronicleSummary, eventEffects);
+      clearEvent(host);
+      host.requestCheckpoint();
+    }
+  } catch (error: any) {
+    if (isAbortError(error) || signal.aborted) {
+      console.info(`Event for "${triggerContext}" cancelled.`);
+      return;
+    }
+    if (error.message === "NO_MAJOR_EVENT") {
+      host.addLogEntry('system', "The feeling passes. Nothing significant seems to happen.");
+    } else {
+      console.error("Failed to trigger or apply event:", error);
+      host.addLogEntry('error', `Event generation failed: ${error.message || "A strange occurrence fizzled out."}`);
+    }
+    clearEvent(host);
+  } finally {
+    if (!signal.aborted) host.update({ isGeneratingEvent: false });
+    host.endActivity('event');
+  }
+};
+
+// The player starts a fight. Its consequences play out as an event that may need further action.
+export const attackNpc = async (host: GameFlowHost, targetNpcName?: string, directObjectId?: string) => {
+  const { characterData, locationData, isGeneratingEvent, isEventActive, currentDirectives } = host.getState();
+  if (!characterData || characterData.isDefeated) { host.addLogEntry('system', "You are too weak to attack."); return; }
+  if (!targetNpcName && !directObjectId) { host.addLogEntry('error', "Who do you want to attack?"); return; }
+  const visibleNpcs = getVisibleNpcs(host.getState());
+  const targetNpc = (directObjectId && visibleNpcs.find(npc => npc.id === directObjectId))
+    || (targetNpcName && visibleNpcs.find(npc => npc.name.toLowerCase() === targetNpcName.toLowerCase()));
+  if (!targetNpc) { host.addLogEntry('error', `Cannot find "${targetNpcName || 'target'}" here to attack or they are not currently interactable.`); return; }
+  if (targetNpc.isDefeated) { host.addLogEntry('system', `${targetNpc.name} is already defeated.`); return; }
+  if (!locationData || isGeneratingEvent || isEventActive) {
+    host.addLogEntry('system', "Cannot initiate major actions now due to ongoing processes or events.");
+    return;
+  }
+
+  const signal = host.getLocationWorkSignal();
+  host.update({ isGeneratingEvent: true });
+  host.beginActivity('event', "Assessing the consequences...");
+  try {
+    let directorContext = "";
+    if (currentDirectives) {
+      const combatEnhancement = currentDirectives.promptEnhancements.find(pe => pe.targetSystem === 'CombatResolution');
+      if (combatEnhancement) directorContext += `\nGame Director Suggestion for Combat: ${combatEnhancement.suggestion}`;
+      if (currentDirectives.currentGameFocus === 'HighStakesCombat') {
+        directorContext += "\nGame Director Notes: This is a high stakes combat scenario. Emphasize danger and impactful outcomes.";
+      }
+    }
+    const eventEffects = await generatePlayerAttackNpcConsequences(
+      characterData, targetNpc, { actionType: 'attack_npc', targetNpcId: targetNpc.id },
+      getMemoryContextString(host) + getWorldContextString(host) + directorContext, signal
+    );
+    throwIfAborted(signal);
+    host.update({ isEventActive: true, currentEventDetails: eventEffects });
+    host.addLogEntry('game_event', `PLAYER ACTION EVENT: ${eventEffects.eventTitle}`);
+    host.addLogEntry('narration', eventEffects.narration);
+    if (eventEffects.combatNarration) host.addLogEntry('combat', eventEffects.combatNarration);
+    await showEventImage(host, eventEffects, false, signal);
+    await applyEventEffects(host, eventEffects, signal);
+
+    const npcEffectOnTarget = eventEffects.npcEffects?.find(eff => eff.npcIdTargeted === targetNpc.id);
+    const playerDefeated = host.getState().characterData?.isDefeated;
+    if (npcEffectOnTarget?.isDefeated || playerDefeated || !eventEffects.requiresPlayerActionToResolve) {
+      host.addLogEntry('system', npcEffectOnTarget?.isDefeated || playerDefeated ? "The confrontation has reached a conclusion." : "The immediate consequences of your action have played out.");
+      let chronicleSummary = `Action Outcome: "${eventEffects.eventTitle}". Final Result: ${eventEffects.narration}`;
+      if (eventEffects.majorPlotPointSummary) chronicleSummary += ` Context/Lore: ${eventEffects.majorPlotPointSummary}`;
+      chronicleEvent(host, chronicleSummary, eventEffects, npcEffectOnTarget?.npcIdTargeted);
+      clearEvent(host);
+      host.requestCheckpoint();
+    } else {
+      host.addLogEntry('system', "The situation remains tense and requires further action.");
+      if (eventEffects.resolutionCriteriaPrompt) host.addLogEntry('system', `Hint: ${eventEffects.resolutionCriteriaPrompt}`);
+    }
+  } catch (error: any) {
+    if (isAbortError(error) || signal.aborted) {
+      console.info(`Attack on ${targetNpc.name} cancelled.`);
+      return;
+    }
+    console.error("Failed to handle player-initiated significant action:", error);
+    host.addLogEntry('error', `Action failed: ${error.message || "An unexpected issue occurred."}`);
+    clearEvent(host);
+  } finally {
+    if (!signal.aborted) host.update({ isGeneratingEvent: false });
+    host.endActivity('event');
+  }
+};
+
+// What the player says or does while an event waits on them: the event answers, then the LLM judges
+// whether that resolved or advanced it. Throws an AbortError once the location work signal is aborted.
+export const resolveEventDialogue = async (host: GameFlowHost, commandText: string, parsedResult: PlayerActionParseResult) => {
+  const { characterData, locationData, currentEventDetails, majorPlotPoints, potentialDiscoveries } = host.getState();
+  if (!characterData || !locationData || !currentEventDetails?.requiresPlayerActionToResolve) {
+    host.addLogEntry('error', "Tried to send event dialogue, but no resolvable event is active.");
+    return;
+  }
+  const signal = host.getLocationWorkSignal();
+  const memoryContext = getMemoryContextString(host) + getWorldContextString(host);
+  const locationKey = getLocationKey(host.getState());
+  const dialogueText = parsedResult.parameters?.dialogue_text || commandText;
+  const eventResponse = await generateEventDialogueResponse(
+    currentEventDetails, dialogueText, characterData, locationData.name, majorPlotPoints, potentialDiscoveries, memoryContext, locationKey, signal
+  );
+  throwIfAborted(signal);
+  host.addLogEntry('narration', eventResponse.rawText, eventResponse.processedText);
+  for (const pd of eventResponse.potentialDiscoveries) {
+    await addPotentialDiscovery(host, pd as PotentialDiscoveryData, currentEventDetails.eventTitle, locationKey, signal);
+  }
+
+  const resolution = await checkEventResolution(
+    currentEventDetails, commandText, parsedResult, characterData, getVisibleNpcs(host.getState()), memoryContext, host.getState().playerInventory, signal
+  );
+  throwIfAborted(signal);
+  host.addLogEntry('narration', resolution.resolutionNarration);
+  if (resolution.majorPlotPointSummary) {
+    addMajorPlotPoint(host, resolution.majorPlotPointSummary, [characterData.characterName, currentEventDetails.eventTitle], locationData.name);
+  }
+
+  if (resolution.resolved) {
+    host.addLogEntry('game_event', `Event "${currentEventDetails.eventTitle}" has been resolved!`);
+    const { locationNPCs } = host.getState();
+    if (resolution.updatedNpcDisposition && locationNPCs) {
+      const result = applyNpcDispositionChange(locationNPCs, resolution.updatedNpcDisposition.npcId, resolution.updatedNpcDisposition.newDisposition);
+      emitLogs(host, result.logs);
+      if (result.state !== locationNPCs) setLocationNpcs(host, result.state);
+    }
+    for (const suggestion of resolution.itemsAwardedToPlayer || []) {
+      const newItem = await createItemFromSuggestion(host, suggestion, suggestion.visualPromptHint || suggestion.name, signal);
+      host.update({ playerInventory: [...host.getState().playerInventory, newItem] });
+      host.addLogEntry('game_event', `You received: ${newItem.name} (${newItem.rarity}).`);
+    }
+    clearEvent(host);
+    host.requestCheckpoint();
+    host.triggerGameDirectorAnalysis?.(true); // A good moment to re-evaluate the game focus
+  } else if (resolution.progressed) {
+    host.addLogEntry('game_event', `Event "${currentEventDetails.eventTitle}" has progressed!`);
+    const updatedEventDetails: EventEffects = {
+      ...currentEventDetails,
+      narration: resolution.nextStageNarration || currentEventDetails.narration,
+      visualPromptHintForEventImage: resolution.updatedVisualPromptHintForEventImage || currentEventDetails.visualPromptHintForEventImage,
+      resolutionCriteriaPrompt: resolution.updatedResolutionCriteriaPrompt || currentEventDetails.resolutionCriteriaPrompt,
+    };
+    host.update({ currentEventDetails: updatedEventDetails });
+    if (resolution.nextStageNarration) host.addLogEntry('narration', resolution.nextStageNarration);
+    if (resolution.updatedVisualPromptHintForEventImage) {
+      await showEventImage(host, { ...updatedEventDetails, visualPromptHintForEventImage: resolution.updatedVisualPromptHintForEventImage }, false, signal);
+    }
+  } else {
+    host.addLogEntry('system', "Your action didn't seem to change the course of the event.");
+  }
+};
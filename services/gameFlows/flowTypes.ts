@@ -0,0 +1,39 @@
+// services/gameFlows/flowTypes.ts
+import { GameItem, GameLogEntry, GameNPC } from '../gameTypes';
+import { RestoredGameState } from '../saveGameService';
+
+// Everything a flow reads or writes: the saved run plus what only lives for the session.
+// The difficulty and run id stay with the front-end, which decides what a defeat costs.
+export interface GameFlowState extends Omit<RestoredGameState, 'difficultyMode' | 'runId'> {
+  talkingToNPC: GameNPC | null;
+  isGeneratingEvent: boolean; // Blocks a second event while one is being generated
+}
+
+// Long-running work a front-end can show progress for. subjectId names the item (or "itemId-limbId")
+// for the item activities, so the right button can show a spinner.
+export type GameFlowActivity =
+  | 'world_creation' | 'event' | 'movement' | 'item_search' | 'npc_search' | 'examine'
+  | 'item_identification' | 'item_pickup' | 'item_use' | 'limb_application' | 'revival';
+
+// Flows are plain async functions over a host. The browser implements it on top of React state
+// (GameContext), the terminal runner on top of one plain object (cli/headlessGame).
+// Every member must be a closure, not a method relying on `this`: hosts are spread to add callbacks.
+export interface GameFlowHost {
+  getState: () => GameFlowState;
+  // Takes effect at once: the next getState() already sees the changes.
+  update: (changes: Partial<GameFlowState>) => void;
+  addLogEntry: (type: GameLogEntry['type'], text: string, processedText?: string) => void;
+  requestCheckpoint: () => void; // A new location or a concluded event; Checkpoint difficulty snapshots the run
+  // Aborted when the player leaves the current coordinates, starts a new game or loads a save.
+  getLocationWorkSignal: () => AbortSignal;
+  // Beginning an activity that is already running only replaces its message.
+  beginActivity: (activity: GameFlowActivity, message: string, subjectId?: string) => void;
+  endActivity: (activity: GameFlowActivity) => void;
+
+  // Optional front-end hooks. Without them the flow falls back to the log.
+  showItem?: (item: GameItem) => void;
+  showNpc?: (npc: GameNPC) => void;
+  onWorldCreated?: () => void; // The start location is in place, just before its checkpoint and opening event
+  onSearchFailed?: (search: 'items' | 'npcs', message: string) => void;
+  triggerGameDirectorAnalysis?: (forceAnalysis?: boolean) => void;
+}
@@ -0,0 +1,76 @@
+// services/gameFlows/flowUtils.ts
+import { FullLocationData, GameItem, GameNPC, GameRules, VisitedLocationEntry } from '../gameTypes';
+import { DEFAULT_GAME_RULES_PRESET, GAME_RULES_PRESETS } from '../config/gameRules';
+import { EngineLogEntry, createInitialWorldState, getCoordinateKey } from '../gameEngine';
+import { GameFlowHost, GameFlowState } from './flowTypes';
+
+export const emitLogs = (host: GameFlowHost, logs: EngineLogEntry[]) => logs.forEach(log => host.addLogEntry(log.type, log.text));
+
+export const getRules = (state: GameFlowState): GameRules => GAME_RULES_PRESETS[state.gameRulesPreset];
+
+export const getLocationKey = (state: GameFlowState): string => getCoordinateKey(state.currentCoordinates);
+
+// Event trigger contexts and lead ids use names with spaces turned into underscores.
+export const underscored = (text: string) => text.replace(/\s+/g, '_');
+
+// NPCs the player can address. During an event only those it spawned or explicitly left visible count.
+export const getVisibleNpcs = (state: GameFlowState): GameNPC[] => {
+  const { locationNPCs, isEventActive, currentEventDetails } = state;
+  if (!locationNPCs) return [];
+  if (isEventActive && currentEventDetails) {
+    return locationNPCs.filter(npc => {
+      if (npc.isDefeated) return false;
+      if (npc.isEventSpawned) return true;
+      const effectOnNpc = currentEventDetails.npcEffects?.find(eff => eff.npcIdTargeted === npc.id);
+      return effectOnNpc ? effectOnNpc.isHiddenDuringEvent !== true : false;
+    });
+  }
+  return locationNPCs.filter(npc => !npc.isDefeated);
+};
+
+// A session with no game in it yet.
+export const createInitialGameFlowState = (): GameFlowState => ({
+  characterData: null,
+  locationData: null,
+  currentCoordinates: { x: 0, y: 0, z: 0 },
+  visitedLocations: new Map(),
+  playerInventory: [],
+  locationItems: null,
+  locationNPCs: null,
+  memorableEntities: new Map(),
+  majorPlotPoints: [],
+  potentialDiscoveries: [],
+  gameLog: [],
+  isEventActive: false,
+  currentEventImageUrl: null,
+  currentEventDetails: null,
+  currentDirectives: null,
+  playerCommandCount: 0,
+  worldState: createInitialWorldState(),
+  gameRulesPreset: DEFAULT_GAME_RULES_PRESET,
+  talkingToNPC: null,
+  isGeneratingEvent: false,
+});
+
+// What is found at the current location is also kept on its visited entry, for the next visit.
+const updateCurrentVisitedEntry = (host: GameFlowHost, changes: Partial<VisitedLocationEntry>) => {
+  const { visitedLocations } = host.getState();
+  const key = getLocationKey(host.getState());
+  const entry = visitedLocations.get(key);
+  if (entry) host.update({ visitedLocations: new Map(visitedLocations).set(key, { ...entry, ...changes }) });
+};
+
+export const setLocationItems = (host: GameFlowHost, items: GameItem[] | null) => {
+  host.update({ locationItems: items });
+  updateCurrentVisitedEntry(host, { items });
+};
+
+export const setLocationNpcs = (host: GameFlowHost, npcs: GameNPC[] | null) => {
+  host.update({ locationNPCs: npcs });
+  updateCurrentVisitedEntry(host, { npcs });
+};
+
+export const setLocationData = (host: GameFlowHost, location: FullLocationData) => {
+  host.update({ locationData: location });
+  updateCurrentVisitedEntry(host, { location });
+};
@@ -0,0 +1,16 @@
+// services/gameFlows/index.ts
+// Game flows shared by the browser hooks and the terminal runner. Each one is a plain async function
+// over a GameFlowHost; the front-end only supplies state, logging and progress display.
+export * from './flowTypes';
+export * from './flowUtils';
+export * from './memoryFlows';
+export * from './characterFlows';
+export * from './worldFlows';
+export * from './eventFlows';
+export * from './locationFlows';
+export * from './npcFlows';
+export * from './itemFlows';
+export * from './movementFlows';
+export * from './commandFlows';
+export * from './setupFlows';
+export * from './defeatFlows';
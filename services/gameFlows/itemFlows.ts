@@ -0,0 +1,211 @@
+// services/gameFlows/itemFlows.ts
+import { GameItem, ItemUsageOutcome, ParsedPlayerActionParameters } from '../gameTypes';
+import { narrateAndConfirmPickup, determineItemUsageEffect, identifyItemInInventoryByName } from '../itemService';
+import { applyItemUsageOutcome } from '../gameEngine';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+import { emitLogs, getRules, setLocationItems, underscored } from './flowUtils';
+import { addMajorPlotPoint, getMemoryContextString } from './memoryFlows';
+import { consumeEnergy, gainSkillExperience } from './characterFlows';
+import { attemptToTriggerUnexpectedEvent } from './eventFlows';
+
+// Defeated characters may still handle items meant to bring them back.
+const isRevivalItem = (item: GameItem) => item.itemTypeGuess.toLowerCase() === 'revival_item_type';
+
+export const pickupItem = async (host: GameFlowHost, itemId: string) => {
+  const { characterData, locationItems, locationData } = host.getState();
+  if (!characterData || !locationItems || !locationData) {
+    host.addLogEntry('error', "No items visible or area not searched to pick up from."); return;
+  }
+  const itemToPickup = locationItems.find(item => item.id === itemId);
+  if (!itemToPickup) { host.addLogEntry('error', "Could not find the item to pick up."); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.pickupItem);
+  if (host.getState().characterData?.isDefeated && !isRevivalItem(itemToPickup)) {
+    host.addLogEntry('system', "You are too weak to pick that up."); return;
+  }
+
+  host.beginActivity('item_pickup', `Picking up ${itemToPickup.name}...`, itemId);
+  const signal = host.getLocationWorkSignal();
+  try {
+    const result = await narrateAndConfirmPickup(itemToPickup, characterData, getMemoryContextString(host), signal);
+    throwIfAborted(signal);
+    setLocationItems(host, (host.getState().locationItems || []).filter(item => item.id !== itemId));
+    host.update({ playerInventory: [...host.getState().playerInventory, result.pickedUpItem] });
+    host.addLogEntry('narration', result.narration);
+    if (itemToPickup.rarity === 'Epic' || itemToPickup.rarity === 'Legendary') {
+      addMajorPlotPoint(host, `Player acquired ${itemToPickup.rarity} item: '${itemToPickup.name}'.`, [itemToPickup.id], locationData.name);
+    }
+    await attemptToTriggerUnexpectedEvent(host, `item_pickup_${itemToPickup.rarity.toLowerCase()}_${underscored(itemToPickup.name)}_from_${underscored(locationData.name)}`);
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      console.info(`Picking up ${itemToPickup.name} cancelled.`);
+      return;
+    }
+    console.error("Failed to pick up item:", err);
+    host.addLogEntry('error', `Pickup failed: ${err.message || "An error occurred while picking up the item."}`);
+  } finally {
+    host.endActivity('item_pickup');
+  }
+};
+
+export const pickupItemByName = async (host: GameFlowHost, targetName?: string) => {
+  const { isEventActive, locationItems } = host.getState();
+  if (isEventActive) { host.addLogEntry('system', "You are too focused on the event to pick up items now."); return; }
+  if (!targetName) { host.addLogEntry('error', "What do you want to pick up?"); return; }
+  if (!locationItems) { host.addLogEntry('error', "You haven't searched for items here, or there are none."); return; }
+  const itemToPickup = locationItems.find(item => item.name.toLowerCase() === targetName.toLowerCase());
+  if (!itemToPickup) { host.addLogEntry('error', `Cannot find "${targetName}" here.`); return; }
+  await pickupItem(host, itemToPickup.id);
+};
+
+// The outcome is applied to the latest character: energy was spent on the action while the LLM decided it.
+const applyItemUsage = (host: GameFlowHost, itemUsed: GameItem, outcome: ItemUsageOutcome, targetLimbForEquipName?: string) => {
+  const { characterData, playerInventory, locationData } = host.getState();
+  if (!characterData) return;
+  const usage = applyItemUsageOutcome({ character: characterData, inventory: playerInventory }, itemUsed, outcome, targetLimbForEquipName);
+  emitLogs(host, usage.logs);
+  host.update({ characterData: usage.state.character, playerInventory: usage.state.inventory });
+
+  if (outcome.characterEffect.xpGain) {
+    gainSkillExperience(host, outcome.characterEffect.xpGain.skillName, outcome.characterEffect.xpGain.amount);
+  }
+  if (itemUsed.rarity === 'Epic' || itemUsed.rarity === 'Legendary') {
+    if (outcome.itemEffect.isEquippedToLimb || outcome.characterEffect.overallHealthChange || outcome.characterEffect.limbStatusChanges?.length) {
+      addMajorPlotPoint(host, `Player used ${itemUsed.rarity} item '${itemUsed.name}', causing significant effect.`, [itemUsed.id], locationData?.name);
+    }
+  }
+};
+
+// parameters._augmentedMemoryContext replaces the memory context when the command already built a richer one.
+export const activateItem = async (host: GameFlowHost, itemId: string, parameters?: ParsedPlayerActionParameters) => {
+  const { characterData, locationData, playerInventory } = host.getState();
+  if (!characterData || !locationData) { host.addLogEntry('error', 'Character data not available.'); return; }
+  const itemToUse = playerInventory.find(item => item.id === itemId);
+  if (!itemToUse) { host.addLogEntry('error', 'Item not found in inventory.'); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.useItem);
+  if (host.getState().characterData?.isDefeated && !isRevivalItem(itemToUse)) {
+    host.addLogEntry('system', "You are too weak to use that item."); return;
+  }
+
+  host.beginActivity('item_use', `Using ${itemToUse.name}...`, itemId);
+  host.addLogEntry('system', `Attempting to use ${itemToUse.name}...`);
+  const signal = host.getLocationWorkSignal();
+  try {
+    const targetLimbName = parameters?.is_limb_target ? parameters.on_target : undefined;
+    const outcome = await determineItemUsageEffect(
+      itemToUse, { ...host.getState().characterData! }, targetLimbName, parameters?._augmentedMemoryContext || getMemoryContextString(host), signal
+    );
+    throwIfAborted(signal);
+    host.addLogEntry('narration', outcome.narration);
+    applyItemUsage(host, itemToUse, outcome);
+    await attemptToTriggerUnexpectedEvent(host, `used_item_${itemToUse.rarity.toLowerCase()}_${underscored(itemToUse.name)}_in_${underscored(locationData.name)}`);
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      console.info(`Using ${itemToUse.name} cancelled.`);
+      return;
+    }
+    console.error("Item usage error:", err);
+    host.addLogEntry('error', `Item usage failed: ${err.message || "An unexpected error occurred."}`);
+  } finally {
+    host.endActivity('item_use');
+  }
+};
+
+// A typed "use X": the LLM picks the inventory item meant, and learns who the player is talking to
+// and what event is going on.
+export const activateItemByName = async (host: GameFlowHost, targetName?: string, parameters?: ParsedPlayerActionParameters) => {
+  if (!targetName) { host.addLogEntry('error', "What do you want to use?"); return; }
+  const { characterData, playerInventory, talkingToNPC, isEventActive, currentEventDetails } = host.getState();
+  if (!characterData) { host.addLogEntry('error', "Character data not available."); return; }
+
+  let memoryContext = getMemoryContextString(host);
+  const signal = host.getLocationWorkSignal();
+  try {
+    let itemToUse: GameItem | null = null;
+    if (playerInventory.length > 0) {
+      host.beginActivity('item_identification', `Thinking about using "${targetName}"...`);
+      try {
+        itemToUse = await identifyItemInInventoryByName(targetName, playerInventory, characterData, memoryContext, signal);
+        throwIfAborted(signal);
+      } finally {
+        host.endActivity('item_identification');
+      }
+    }
+    if (!itemToUse) { host.addLogEntry('error', `You don't seem to have anything like a "${targetName}" to use.`); return; }
+
+    if (talkingToNPC) {
+      memoryContext += `\nCURRENTLY IN DIALOGUE WITH: ${talkingToNPC.name} (ID: ${talkingToNPC.id}, Rarity: ${talkingToNPC.rarity}, Disposition: ${talkingToNPC.disposition || 'Neutral'}). Their current inventory: ${talkingToNPC.inventory.map(i => i.name).join(', ') || 'none'}.`;
+    }
+    if (isEventActive && currentEventDetails) {
+      memoryContext += `\nACTIVE EVENT: "${currentEventDetails.eventTitle}". Event State: "${currentEventDetails.narration.substring(0, 100)}...". This item usage might be relevant to resolving or interacting with the event.`;
+    }
+    await activateItem(host, itemToUse.id, { ...(parameters || {}), _augmentedMemoryContext: memoryContext });
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      console.info(`Using "${targetName}" cancelled.`);
+      return;
+    }
+    host.addLogEntry('error', `Error identifying or using item: ${err.message}`);
+  }
+};
+
+export const applyItemToLimb = async (host: GameFlowHost, itemId: string, limbId: string, parameters?: ParsedPlayerActionParameters) => {
+  const { characterData, locationData, playerInventory } = host.getState();
+  if (!characterData || !locationData) { host.addLogEntry('error', 'Character data not available to apply item to limb.'); return; }
+  const itemToApply = playerInventory.find(item => item.id === itemId);
+  if (!itemToApply) { host.addLogEntry('error', `Item with ID ${itemId} not found in inventory.`); return; }
+  const targetLimb = characterData.limbs.find(limb => limb.id === limbId);
+  if (!targetLimb) { host.addLogEntry('error', `Limb with ID ${limbId} not found.`); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.applyItemToLimb);
+  if (host.getState().characterData?.isDefeated && !isRevivalItem(itemToApply)) {
+    host.addLogEntry('system', "You are too weak to apply that item."); return;
+  }
+
+  host.beginActivity('limb_application', `Applying ${itemToApply.name}...`, `${itemId}-${limbId}`);
+  host.addLogEntry('system', `Attempting to use ${itemToApply.name} on your ${targetLimb.name}...`);
+  const signal = host.getLocationWorkSignal();
+  try {
+    const outcome = await determineItemUsageEffect(
+      itemToApply, { ...host.getState().characterData! }, targetLimb.name, parameters?._augmentedMemoryContext || getMemoryContextString(host), signal
+    );
+    throwIfAborted(signal);
+    host.addLogEntry('narration', outcome.narration);
+    applyItemUsage(host, itemToApply, outcome, targetLimb.name);
+    await attemptToTriggerUnexpectedEvent(host, `applied_item_${itemToApply.rarity.toLowerCase()}_to_limb_${underscored(targetLimb.name)}_in_${underscored(locationData.name)}`);
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      console.info(`Applying ${itemToApply.name} to ${targetLimb.name} cancelled.`);
+      return;
+    }
+    console.error(`Error applying item ${itemToApply.name} to ${targetLimb.name}:`, err);
+    host.addLogEntry('error', `Failed to apply ${itemToApply.name} to ${targetLimb.name}: ${err.message || "An unexpected error occurred."}`);
+  } finally {
+    host.endActivity('limb_application');
+  }
+};
+
+export const unequipItemFromLimb = (host: GameFlowHost, limbId: string, itemIdToUnequip: string) => {
+  const { locationData } = host.getState();
+  if (!host.getState().characterData || !locationData) { host.addLogEntry('error', 'Character data not available to unequip item.'); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.unequipItem);
+  const characterData = host.getState().characterData!;
+  if (characterData.isDefeated) { host.addLogEntry('system', "You are too weak to change equipment."); return; }
+
+  const limb = characterData.limbs.find(l => l.id === limbId);
+  if (!limb) return;
+  const unequippedItem = limb.equippedItems?.find(item => item.id === itemIdToUnequip);
+  if (!unequippedItem) { host.addLogEntry('error', `Item to unequip not found on ${limb.name}.`); return; }
+
+  host.update({
+    characterData: {
+      ...characterData,
+      limbs: characterData.limbs.map(l => l.id === limbId ? { ...l, equippedItems: l.equippedItems!.filter(item => item.id !== itemIdToUnequip) } : l),
+    },
+    playerInventory: [...host.getState().playerInventory, unequippedItem],
+  });
+  host.addLogEntry('system', `Unequipped ${unequippedItem.name} from your ${limb.name}.`);
+  if (unequippedItem.rarity === 'Epic' || unequippedItem.rarity === 'Legendary') {
+    addMajorPlotPoint(host, `Player unequipped ${unequippedItem.rarity} item '${unequippedItem.name}'.`, [unequippedItem.id], locationData.name);
+  }
+  void attemptToTriggerUnexpectedEvent(host, `unequipped_item_${unequippedItem.rarity.toLowerCase()}_from_limb_in_${underscored(locationData.name)}`);
+};
@@ -0,0 +1,144 @@
+// services/gameFlows/locationFlows.ts
+import { generateItemsForLocation } from '../itemService';
+import { generateNPCsForLocation } from '../npcService';
+import { linkGeneratedEntityToLead } from '../loreService';
+import { WORLD_CLOCK_CONFIG } from '../config/gameConstants';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+import { getLocationKey, getRules, setLocationItems, setLocationNpcs, underscored } from './flowUtils';
+import { addMemorableEntity, getMemoryContextString, markPotentialDiscoveryFound } from './memoryFlows';
+import { consumeEnergy, gainSkillExperience } from './characterFlows';
+import { advanceWorldTime, getWorldContextString } from './worldFlows';
+import { attemptToTriggerUnexpectedEvent } from './eventFlows';
+
+// A location is searched once; later searches recall what its visited entry holds.
+export const lookForItems = async (host: GameFlowHost) => {
+  const { characterData } = host.getState();
+  if (!characterData) { host.addLogEntry('error', "Character data not available."); return; }
+  if (characterData.isDefeated) { host.addLogEntry('system', "Your wounds are too severe to search."); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.searchForItems, "Perception");
+  if (host.getState().characterData?.isDefeated) return;
+  advanceWorldTime(host, WORLD_CLOCK_CONFIG.minutesPerAction.search);
+
+  const { locationData, visitedLocations, locationItems, potentialDiscoveries } = host.getState();
+  if (!locationData) return;
+  const entry = visitedLocations.get(getLocationKey(host.getState()));
+  if (!entry) { host.addLogEntry('error', `Cannot look in ${locationData.name}: location data missing.`); return; }
+
+  if (entry.items !== null) {
+    host.addLogEntry('narration', entry.items.length
+      ? `You recall seeing: ${entry.items.map(i => `${i.name} (${i.rarity})`).join(', ')} here.`
+      : `You reconfirm no distinct items here.`);
+    if (locationItems === null) host.update({ locationItems: entry.items });
+    await attemptToTriggerUnexpectedEvent(host, `items_reconfirm_search_in_${underscored(locationData.name)}`);
+    return;
+  }
+
+  host.beginActivity('item_search', `Searching ${locationData.name}...`);
+  // Aborted when the player leaves or a new game starts; nothing below may write after that.
+  const signal = host.getLocationWorkSignal();
+  try {
+    const memoryContextString = getMemoryContextString(host);
+    const unconfirmedItemLeads = potentialDiscoveries.filter(pd => pd.type === 'item' && pd.status === 'mentioned');
+    const items = await generateItemsForLocation(locationData, characterData, unconfirmedItemLeads, memoryContextString, signal);
+    throwIfAborted(signal);
+    for (const item of items) {
+      const fulfilledLeadId = await linkGeneratedEntityToLead(item, 'item', unconfirmedItemLeads, characterData, memoryContextString, signal);
+      throwIfAborted(signal);
+      if (fulfilledLeadId) markPotentialDiscoveryFound(host, fulfilledLeadId, item.id);
+      addMemorableEntity(host, item.id, item.name, 'item', item.rarity, item.description.substring(0, 50) + "...", `Found in ${locationData.name}`);
+    }
+    setLocationItems(host, items);
+    if (items.length > 0) {
+      host.addLogEntry('game_event', `You find: ${items.map(i => `${i.name} (${i.rarity})`).join(', ')} in ${locationData.name}.`);
+      gainSkillExperience(host, "Perception", getRules(host.getState()).skillXp.itemsFound);
+      await attemptToTriggerUnexpectedEvent(host, `items_found_first_time_count_${items.length}_in_${underscored(locationData.name)}`);
+    } else {
+      host.addLogEntry('game_event', `After a thorough search of ${locationData.name}, you find nothing of particular interest.`);
+      await attemptToTriggerUnexpectedEvent(host, `items_searched_area_empty_in_${underscored(locationData.name)}`);
+    }
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      // The search is dropped, so the next visit searches again.
+      console.info(`Item search for ${locationData.name} cancelled.`);
+      return;
+    }
+    console.error(`Failed to generate items for ${locationData.name}:`, err);
+    const message = err.message || "Error searching for items.";
+    setLocationItems(host, []);
+    host.onSearchFailed?.('items', message);
+    host.addLogEntry('error', `Item search failed: ${message}`);
+  } finally {
+    host.endActivity('item_search');
+  }
+};
+
+export const lookForPeople = async (host: GameFlowHost) => {
+  const { characterData } = host.getState();
+  if (!characterData) { host.addLogEntry('error', "Character data not available."); return; }
+  if (characterData.isDefeated) { host.addLogEntry('system', "You are too weak to search."); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.searchForPeople, "Perception");
+  if (host.getState().characterData?.isDefeated) return;
+  advanceWorldTime(host, WORLD_CLOCK_CONFIG.minutesPerAction.search);
+
+  const { locationData, visitedLocations, locationNPCs, potentialDiscoveries } = host.getState();
+  if (!locationData) return;
+  const entry = visitedLocations.get(getLocationKey(host.getState()));
+  if (!entry) { host.addLogEntry('error', `Cannot look in ${locationData.name}: location data missing.`); return; }
+
+  if (entry.npcs !== null) {
+    host.addLogEntry('narration', entry.npcs.length
+      ? `You recall seeing: ${entry.npcs.map(n => `${n.name} (${n.rarity})`).join(', ')} here.`
+      : `You reconfirm no one else is around here.`);
+    if (locationNPCs === null) host.update({ locationNPCs: entry.npcs });
+    await attemptToTriggerUnexpectedEvent(host, `npcs_reconfirm_search_in_${underscored(locationData.name)}`);
+    return;
+  }
+
+  host.beginActivity('npc_search', `Looking for people in ${locationData.name}...`);
+  // Aborted when the player leaves or a new game starts; nothing below may write after that.
+  const signal = host.getLocationWorkSignal();
+  try {
+    const memoryContextString = getMemoryContextString(host);
+    const unconfirmedNpcLeads = potentialDiscoveries.filter(pd => pd.type === 'npc' && pd.status === 'mentioned');
+    const generated = await generateNPCsForLocation(
+      locationData, characterData, unconfirmedNpcLeads, getRules(host.getState()), memoryContextString + getWorldContextString(host), signal
+    );
+    throwIfAborted(signal);
+    const npcs = generated.map(npc => ({
+      ...npc,
+      currentHealth: npc.currentHealth ?? 100,
+      maxHealth: npc.maxHealth ?? 100,
+      isDefeated: npc.isDefeated ?? false,
+      disposition: npc.disposition ?? 'Neutral',
+    }));
+    for (const npc of npcs) {
+      const fulfilledLeadId = await linkGeneratedEntityToLead(npc, 'npc', unconfirmedNpcLeads, characterData, memoryContextString, signal);
+      throwIfAborted(signal);
+      if (fulfilledLeadId) markPotentialDiscoveryFound(host, fulfilledLeadId, npc.id);
+      addMemorableEntity(host, npc.id, npc.name, 'npc', npc.rarity, npc.description.substring(0, 50) + "...", `Encountered in ${locationData.name}`);
+    }
+    setLocationNpcs(host, npcs);
+    if (npcs.length > 0) {
+      host.addLogEntry('game_event', `You notice: ${npcs.map(n => `${n.name} (${n.rarity})`).join(', ')} in ${locationData.name}.`);
+      gainSkillExperience(host, "Perception", getRules(host.getState()).skillXp.peopleFound);
+      await attemptToTriggerUnexpectedEvent(host, `npcs_found_first_time_count_${npcs.length}_in_${underscored(locationData.name)}`);
+    } else {
+      host.addLogEntry('game_event', `After looking around in ${locationData.name}, you don't see anyone else here.`);
+      await attemptToTriggerUnexpectedEvent(host, `npcs_searched_area_empty_in_${underscored(locationData.name)}`);
+    }
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      // The search is dropped, so the next visit searches again.
+      console.info(`NPC search for ${locationData.name} cancelled.`);
+      return;
+    }
+    console.error(`Failed to generate NPCs for ${locationData.name}:`, err);
+    const message = err.message || "Error looking for people.";
+    setLocationNpcs(host, []);
+    host.onSearchFailed?.('npcs', message);
+    host.addLogEntry('error', `Search failed: ${message}`);
+  } finally {
+    host.endActivity('npc_search');
+  }
+};
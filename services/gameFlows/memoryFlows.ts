@@ -0,0 +1,117 @@
+// services/gameFlows/memoryFlows.ts
+import { MemorableEntity, MemorableEntityRarity, MemorableEntityType, PotentialDiscovery } from '../gameTypes';
+import { checkIfSimilarLeadExists, linkPotentialDiscoveryToExistingEntity } from '../loreService';
+import { appendMajorPlotPoint, buildMemoryContextString } from '../gameEngine';
+import { throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+
+export type PotentialDiscoveryData = Omit<PotentialDiscovery, 'id' | 'status' | 'firstMentionedTimestamp' | 'firstMentionedLocationKey' | 'fulfilledById'>;
+
+// Silent writes are for effects that already log their own line (an event handing out an item).
+interface MemoryWriteOptions {
+  silent?: boolean;
+}
+
+export const getMemoryContextString = (host: GameFlowHost): string => {
+  const { memorableEntities, majorPlotPoints, potentialDiscoveries } = host.getState();
+  return buildMemoryContextString(memorableEntities, majorPlotPoints, potentialDiscoveries);
+};
+
+export const addMemorableEntity = (
+  host: GameFlowHost, entityId: string, name: string, type: MemorableEntityType, rarity: MemorableEntityRarity,
+  descriptionHint: string, firstEncounteredContext: string, options: MemoryWriteOptions = {}
+) => {
+  const { memorableEntities } = host.getState();
+  const existing = memorableEntities.get(entityId);
+  let entity: MemorableEntity;
+  if (existing && existing.name === name && existing.type === type) {
+    if (descriptionHint.length <= existing.descriptionHint.length && firstEncounteredContext === existing.firstEncounteredContext) return;
+    entity = {
+      ...existing,
+      descriptionHint: descriptionHint.length > existing.descriptionHint.length ? descriptionHint.substring(0, 150) : existing.descriptionHint,
+      firstEncounteredContext: firstEncounteredContext.substring(0, 200),
+    };
+  } else {
+    entity = {
+      id: entityId, name, type, rarity,
+      descriptionHint: descriptionHint.substring(0, 150),
+      firstEncounteredContext: firstEncounteredContext.substring(0, 200),
+    };
+  }
+  host.update({ memorableEntities: new Map(memorableEntities).set(entityId, entity) });
+  if (!options.silent && entity.type !== 'lore_hint') {
+    host.addLogEntry('system', `Key entity noted: ${entity.name} (${entity.type}, ${entity.rarity}).`);
+  }
+};
+
+export const addMajorPlotPoint = (
+  host: GameFlowHost, summary: string, involvedEntityIds?: string[], locationName?: string, options: MemoryWriteOptions = {}
+) => {
+  const { majorPlotPoints } = host.getState();
+  const plotPoint = { id: crypto.randomUUID(), timestamp: Date.now(), summary: summary.substring(0, 250), involvedEntityIds, locationName };
+  const next = appendMajorPlotPoint(majorPlotPoints, plotPoint);
+  if (next === majorPlotPoints) {
+    console.warn("Attempted to add duplicate major plot point:", summary);
+    return;
+  }
+  host.update({ majorPlotPoints: [...next] });
+  if (!options.silent) host.addLogEntry('game_event', `PLOT UPDATE: ${plotPoint.summary}`);
+};
+
+export const markPotentialDiscoveryFound = (host: GameFlowHost, id: string, actualGeneratedEntityId?: string, options: MemoryWriteOptions = {}) => {
+  const { potentialDiscoveries } = host.getState();
+  const lead = potentialDiscoveries.find(pd => pd.id === id && pd.status === 'mentioned');
+  if (!lead) return;
+  host.update({
+    potentialDiscoveries: potentialDiscoveries.map(pd => pd === lead ? { ...pd, status: 'discovered', fulfilledById: actualGeneratedEntityId } : pd),
+  });
+  if (!options.silent) host.addLogEntry('game_event', `Discovered: ${lead.name} (previously hinted at)!`);
+};
+
+// A lead the player heard of. It is dropped when a similar one exists, and recorded as already
+// discovered when it turns out to name something the player knows. Once signal is aborted it throws
+// instead of writing.
+export const addPotentialDiscovery = async (
+  host: GameFlowHost, discoveryData: PotentialDiscoveryData, baseId: string, discoveryLocationKey: string, signal?: AbortSignal
+) => {
+  const uniqueLeadId = `${baseId}-${discoveryData.name.replace(/\s+/g, '_').toLowerCase()}-${discoveryData.type}`;
+  if (host.getState().potentialDiscoveries.some(pd => pd.id === uniqueLeadId)) return;
+  const memoryContext = getMemoryContextString(host);
+
+  const similarLeadExists = await checkIfSimilarLeadExists(discoveryData, host.getState().potentialDiscoveries, memoryContext);
+  throwIfAborted(signal);
+  if (similarLeadExists) {
+    host.addLogEntry('system', `A similar hint about '${discoveryData.name}' already exists.`);
+    return;
+  }
+
+  const lead: PotentialDiscovery = {
+    ...discoveryData, id: uniqueLeadId, status: 'mentioned',
+    firstMentionedTimestamp: Date.now(), firstMentionedLocationKey: discoveryLocationKey,
+  };
+  const { characterData } = host.getState();
+  if (characterData) {
+    const matchedExistingEntityId = await linkPotentialDiscoveryToExistingEntity(discoveryData, host.getState().memorableEntities, characterData, memoryContext);
+    throwIfAborted(signal);
+    if (matchedExistingEntityId) {
+      // No lore hint for it: the entity it names is already in memory.
+      const { potentialDiscoveries } = host.getState();
+      if (potentialDiscoveries.some(pd => pd.id === uniqueLeadId)) return;
+      host.update({ potentialDiscoveries: [...potentialDiscoveries, { ...lead, status: 'discovered', fulfilledById: matchedExistingEntityId }] });
+      host.addLogEntry('system', `Hint for '${lead.name}' already known and confirmed.`);
+      return;
+    }
+  }
+
+  const { potentialDiscoveries } = host.getState();
+  if (potentialDiscoveries.some(pd => pd.id === uniqueLeadId)) return; // Added by another flow while we waited
+  host.update({ potentialDiscoveries: [...potentialDiscoveries, lead] });
+  addMemorableEntity(host, lead.id, lead.name, 'lore_hint', lead.rarityHint || 'Lore', lead.descriptionHint,
+    `Mentioned in ${lead.sourceType} (ID: ${lead.sourceEntityId}) at ${discoveryLocationKey}`);
+  host.addLogEntry('system', `Lore hint: Heard of a ${lead.type} named '${lead.name}'.`);
+};
+
+export const clearMemorySystem = (host: GameFlowHost) => {
+  host.update({ memorableEntities: new Map(), majorPlotPoints: [], potentialDiscoveries: [] });
+  host.addLogEntry('system', "Memory systems cleared for new game.");
+};
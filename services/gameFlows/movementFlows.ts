@@ -0,0 +1,137 @@
+// services/gameFlows/movementFlows.ts
+import { FullLocationData, MovementContext, PLAYER_ACTIONS } from '../gameTypes';
+import { generateNewLocationDetailsAndNarration, generateLocationImage } from '../locationService';
+import { linkGeneratedEntityToLead } from '../loreService';
+import {
+  getNewCoordinates, getCoordinateKey, parseCoordinateKey, isWorldDirection, getNeighbourExitConstraints, linkReciprocalExits, getTimeOfDay
+} from '../gameEngine';
+import { WORLD_CLOCK_CONFIG } from '../config/gameConstants';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+import { getRules, underscored } from './flowUtils';
+import { addMemorableEntity, getMemoryContextString, markPotentialDiscoveryFound } from './memoryFlows';
+import { consumeEnergy, gainSkillExperience } from './characterFlows';
+import { advanceWorldTime, getWorldContextString } from './worldFlows';
+import { attemptToTriggerUnexpectedEvent } from './eventFlows';
+
+// The afterlife and limbo are the only places a defeated character can still walk around in.
+const isAfterlife = (location: FullLocationData) => {
+  const name = location.name.toLowerCase();
+  return name.includes("afterlife") || name.includes("limbo");
+};
+
+// direction is a world direction, "random_exit", or a coordinate key picked on the map.
+// A location is generated on the first visit; later visits restore it from visitedLocations.
+export const moveInDirection = async (host: GameFlowHost, direction: string, actionType: string, intendedLocationTypeHint?: string | null) => {
+  const { isEventActive, characterData, locationData, currentCoordinates } = host.getState();
+  if (isEventActive) { host.addLogEntry('system', "You must deal with the current event before moving!"); return; }
+  if (!characterData || !locationData) { host.addLogEntry('error', 'Game state not ready for movement.'); return; }
+  if (characterData.isDefeated && !isAfterlife(locationData)) { host.addLogEntry('system', "You are too weak to move."); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.move, "Survival");
+  if (host.getState().characterData?.isDefeated && !isAfterlife(locationData)) return;
+
+  let finalDirection = (direction || '').toLowerCase();
+  const currentValidExits = locationData.validExits.map(e => e.toLowerCase());
+  if (actionType === PLAYER_ACTIONS.LEAVE_AREA || finalDirection === "random_exit") {
+    if (currentValidExits.length === 0) { host.addLogEntry('error', "There are no apparent exits from this location to 'leave' through."); return; }
+    finalDirection = currentValidExits[Math.floor(Math.random() * currentValidExits.length)];
+  }
+
+  const coordMatch = parseCoordinateKey(finalDirection);
+  const moveResult = coordMatch
+    ? { ...coordMatch, normalizedDirection: `to coordinates ${finalDirection}` }
+    : getNewCoordinates(currentCoordinates.x, currentCoordinates.y, finalDirection, currentCoordinates.z);
+  const normalizedDirection = moveResult.normalizedDirection;
+  if (normalizedDirection === 'an_unknown_direction') {
+    host.addLogEntry('error', `Cannot interpret direction: "${finalDirection}". Try N, S, E, W or use the map.`); return;
+  }
+  if (!coordMatch && !currentValidExits.includes(normalizedDirection)) {
+    host.addLogEntry('error', `Cannot move ${normalizedDirection} from ${locationData.name}. Valid exits: ${currentValidExits.join(', ') || 'none'}.`); return;
+  }
+  const newCoordinates = { x: moveResult.x, y: moveResult.y, z: moveResult.z };
+  const newCoordinateKey = getCoordinateKey(newCoordinates);
+  if (!coordMatch && newCoordinateKey === getCoordinateKey(currentCoordinates)) {
+    host.addLogEntry('error', `Cannot move ${normalizedDirection} from here, it seems you'd stay in place.`); return;
+  }
+
+  host.beginActivity('movement', `Moving ${normalizedDirection}...`);
+  // Aborted when a new game starts or a save loads while the location is generated. Arriving aborts
+  // it as well, so every check comes before the final update.
+  const signal = host.getLocationWorkSignal();
+  const isNewLocationVisit = !host.getState().visitedLocations.has(newCoordinateKey);
+  try {
+    let newLocation: FullLocationData;
+    if (!isNewLocationVisit) {
+      const { visitedLocations } = host.getState();
+      const linkedLocations = isWorldDirection(normalizedDirection)
+        ? linkReciprocalExits(visitedLocations, currentCoordinates, normalizedDirection)
+        : visitedLocations;
+      if (linkedLocations !== visitedLocations) host.update({ visitedLocations: new Map(linkedLocations) });
+      newLocation = linkedLocations.get(newCoordinateKey)!.location;
+      advanceWorldTime(host, WORLD_CLOCK_CONFIG.minutesPerAction.move, newCoordinates);
+      host.addLogEntry('narration', `You head ${normalizedDirection} and arrive at ${newLocation.name}.`);
+      host.addLogEntry('narration', newLocation.description);
+    } else {
+      const { visitedLocations, potentialDiscoveries, gameLog } = host.getState();
+      const memoryContextString = getMemoryContextString(host);
+      const unconfirmedLocationLeads = potentialDiscoveries.filter(pd => pd.type === 'location' && pd.status === 'mentioned');
+      const { requiredExits, forbiddenExits } = getNeighbourExitConstraints(visitedLocations, newCoordinates);
+      const moveContext: MovementContext = {
+        previousLocation: locationData,
+        direction: normalizedDirection,
+        characterConcept: characterData.characterConcept,
+        characterName: characterData.characterName,
+        skills: characterData.skills,
+        gameSettingType: characterData.gameSettingType,
+        initialHistoricalContext: characterData.initialHistoricalContext,
+        fictionalUniverseContext: characterData.fictionalUniverseContext,
+        recentStorySummary: gameLog.slice(-5).map(e => e.text).join(' '),
+        potentialDiscoveries: unconfirmedLocationLeads,
+        intendedLocationTypeHint: intendedLocationTypeHint || null,
+        visualStyle: characterData.visualStyle,
+        targetLevel: newCoordinates.z,
+        requiredExits,
+        forbiddenExits,
+      };
+      const result = await generateNewLocationDetailsAndNarration(moveContext, memoryContextString + getWorldContextString(host, newCoordinates), signal);
+      throwIfAborted(signal);
+      const timeOfDay = getTimeOfDay(advanceWorldTime(host, WORLD_CLOCK_CONFIG.minutesPerAction.move, newCoordinates).minutesElapsed);
+      const imageUrl = await generateLocationImage(result.newLocationDetails.visualPromptHint, result.newLocationDetails.name, characterData.visualStyle, timeOfDay, signal);
+      throwIfAborted(signal);
+      newLocation = { ...result.newLocationDetails, imageUrl, imageUrlsByTimeOfDay: { [timeOfDay]: imageUrl } };
+      host.addLogEntry('narration', result.movementNarration);
+      host.addLogEntry('narration', newLocation.description);
+      host.addLogEntry('game_event', `Discovered: ${newLocation.name} (Rarity: ${newLocation.rarity}).`);
+      host.update({ visitedLocations: new Map(host.getState().visitedLocations).set(newCoordinateKey, { location: newLocation, items: null, npcs: null }) });
+
+      const fulfilledLeadId = await linkGeneratedEntityToLead(newLocation, 'location', unconfirmedLocationLeads, characterData, memoryContextString, signal);
+      throwIfAborted(signal);
+      if (fulfilledLeadId) markPotentialDiscoveryFound(host, fulfilledLeadId, newCoordinateKey);
+      addMemorableEntity(host, newCoordinateKey, newLocation.name, 'location', newLocation.rarity, newLocation.description.substring(0, 70) + "...", `Discovered by moving ${normalizedDirection} from ${locationData.name}`);
+    }
+
+    const arrivedEntry = host.getState().visitedLocations.get(newCoordinateKey)!;
+    host.update({
+      locationData: newLocation,
+      currentCoordinates: newCoordinates,
+      locationItems: arrivedEntry.items,
+      locationNPCs: arrivedEntry.npcs,
+      talkingToNPC: null,
+      isGeneratingEvent: false, // An event still being generated for the old location was cancelled with it
+    });
+    gainSkillExperience(host, "Survival", getRules(host.getState()).skillXp.move);
+    if (isNewLocationVisit) host.requestCheckpoint();
+    await attemptToTriggerUnexpectedEvent(host, isNewLocationVisit
+      ? `moved_to_new_location_${newLocation.rarity.toLowerCase()}_${newLocation.environmentTags.join('_') || 'unknown_env'}`
+      : `revisited_location_${underscored(newLocation.name.toLowerCase())}`);
+  } catch (err: any) {
+    if (isAbortError(err)) {
+      console.info(`Move ${normalizedDirection} from ${locationData.name} cancelled.`);
+      return;
+    }
+    console.error("Error during movement: ", err);
+    host.addLogEntry('error', `Movement failed: ${err.message || 'An unknown error occurred while trying to move.'}`);
+  } finally {
+    host.endActivity('movement');
+  }
+};
@@ -0,0 +1,209 @@
+// services/gameFlows/npcFlows.ts
+import { GameItem, GameNPC } from '../gameTypes';
+import { generateAndFetchItemIcon } from '../itemService';
+import { determineGiftOutcome, determineNpcItemOffer, generateNpcDialogueResponse } from '../npcService';
+import { identifyPotentialDiscoveriesInText } from '../loreService';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+import { GameFlowHost } from './flowTypes';
+import { getLocationKey, getRules, getVisibleNpcs, setLocationNpcs, underscored } from './flowUtils';
+import { PotentialDiscoveryData, addMajorPlotPoint, addPotentialDiscovery, getMemoryContextString } from './memoryFlows';
+import { consumeEnergy, gainSkillExperience } from './characterFlows';
+import { getWorldContextString } from './worldFlows';
+import { attemptToTriggerUnexpectedEvent } from './eventFlows';
+
+export interface GiveItemRequest {
+  item?: GameItem;    // Chosen in the UI
+  itemName?: string;  // Named in a typed command
+  npc?: GameNPC;
+  npcName?: string;
+}
+
+const findVisibleNpcByName = (host: GameFlowHost, name: string) =>
+  getVisibleNpcs(host.getState()).find(n => n.name.toLowerCase() === name.toLowerCase());
+
+// The last lines the player and this NPC said to each other.
+const getRecentChatWithNpc = (host: GameFlowHost, npc: GameNPC) => host.getState().gameLog
+  .filter(e => (e.type === 'command' && e.text.toLowerCase().startsWith('you say:')) || (e.type === 'narration' && e.text.toLowerCase().startsWith(`${npc.name.toLowerCase()} says:`)))
+  .slice(-3).map(e => e.text);
+
+const updateNpcInventory = (host: GameFlowHost, npcId: string, update: (inventory: GameItem[]) => GameItem[]) => {
+  const { locationNPCs } = host.getState();
+  if (!locationNPCs) return;
+  setLocationNpcs(host, locationNPCs.map(npc => npc.id === npcId ? { ...npc, inventory: update(npc.inventory) } : npc));
+};
+
+// Items from NPCs may still carry a placeholder icon; they get a real one when they change hands.
+const withGeneratedIcon = async (host: GameFlowHost, item: GameItem, message: string, signal: AbortSignal): Promise<GameItem> => {
+  if (item.iconUrl && !item.iconUrl.startsWith('https://via.placeholder.com')) return item;
+  host.addLogEntry('system', message);
+  try {
+    const iconUrl = await generateAndFetchItemIcon(item.visualPromptHint, item.name, host.getState().characterData?.visualStyle || 'Pixel Art', null, signal);
+    throwIfAborted(signal);
+    return { ...item, iconUrl };
+  } catch (iconError) {
+    if (isAbortError(iconError)) throw iconError;
+    console.error(`Failed to generate icon for ${item.name}:`, iconError);
+    host.addLogEntry('error', `Could not create icon for ${item.name}.`);
+    return item;
+  }
+};
+
+export const startConversation = (host: GameFlowHost, npcId: string) => {
+  const npc = host.getState().locationNPCs?.find(n => n.id === npcId);
+  if (!npc) return;
+  host.update({ talkingToNPC: npc });
+  host.addLogEntry('system', `You begin talking to ${npc.name}.`);
+};
+
+export const endConversation = (host: GameFlowHost) => {
+  const { talkingToNPC } = host.getState();
+  if (!talkingToNPC) { host.addLogEntry('system', "You are not currently talking to anyone."); return; }
+  host.addLogEntry('system', `You end conversation with ${talkingToNPC.name}.`);
+  host.update({ talkingToNPC: null });
+  void attemptToTriggerUnexpectedEvent(host, `end_talk_with_${underscored(talkingToNPC.name)}_${talkingToNPC.rarity}`);
+};
+
+// Says something to the NPC the player is talking to, or to npcToAddress when a conversation opens with it.
+export const speakToNpc = async (host: GameFlowHost, dialogueText: string | undefined, npcToAddress?: GameNPC) => {
+  const { characterData, talkingToNPC, locationData } = host.getState();
+  const npc = npcToAddress || (talkingToNPC && getVisibleNpcs(host.getState()).find(n => n.id === talkingToNPC.id));
+  if (characterData?.isDefeated) { host.addLogEntry('system', "Too weak to speak."); return; }
+  if (!npc) { host.addLogEntry('error', "No one is currently being spoken to for this dialogue, or they are obscured by the event."); return; }
+  if (!dialogueText) { host.addLogEntry('error', "What do you want to say?"); return; }
+  if (!characterData) { host.addLogEntry('error', "Dialogue error (NPC, text, or char data missing)."); return; }
+
+  const locationKey = getLocationKey(host.getState());
+  const signal = host.getLocationWorkSignal();
+  try {
+    const dialogueResult = await generateNpcDialogueResponse(
+      npc, dialogueText, characterData, locationKey, getMemoryContextString(host) + getWorldContextString(host), host.getState().currentEventDetails, signal
+    );
+    throwIfAborted(signal);
+    host.addLogEntry('narration', `${npc.name} says: ${dialogueResult.rawText}`, `${npc.name} says: ${dialogueResult.processedText}`);
+    for (const pd of dialogueResult.potentialDiscoveries) {
+      await addPotentialDiscovery(host, pd as PotentialDiscoveryData, npc.id, locationKey, signal);
+    }
+    const lcDialogue = dialogueText.toLowerCase();
+    if (lcDialogue.includes("secret") || lcDialogue.includes("plan to assassinate")) {
+      addMajorPlotPoint(host, `Player revealed to ${npc.name}: "${dialogueText.substring(0, 70)}..."`, [characterData.characterName, npc.id], locationData?.name);
+    }
+    await attemptToTriggerUnexpectedEvent(host, npc.rarity === 'Epic' || npc.rarity === 'Legendary'
+      ? `dialogue_interaction_with_${npc.rarity.toLowerCase()}_npc_${underscored(npc.name)}`
+      : `dialogue_response_from_${underscored(npc.name.toLowerCase())}_rarity_${npc.rarity}`);
+  } catch (e: any) {
+    if (isAbortError(e) || signal.aborted) {
+      console.info(`Dialogue with ${npc.name} cancelled.`);
+      return;
+    }
+    host.addLogEntry('error', `Error with ${npc.name}: ${e?.message || 'Unknown dialogue error'}`);
+  }
+};
+
+export const talkToNpc = async (host: GameFlowHost, npcName?: string, initialUtterance?: string) => {
+  const { characterData, talkingToNPC } = host.getState();
+  if (characterData?.isDefeated) { host.addLogEntry('system', "You are too weak to initiate conversations."); return; }
+  if (!npcName) { host.addLogEntry('error', "Who do you want to talk to?"); return; }
+  const targetNpc = findVisibleNpcByName(host, npcName);
+  if (!targetNpc) { host.addLogEntry('error', `Cannot find ${npcName} here or they are not currently interactable.`); return; }
+  if (talkingToNPC?.id === targetNpc.id) {
+    host.addLogEntry('system', `You are already talking to ${targetNpc.name}.`);
+  } else {
+    if (talkingToNPC) {
+      host.addLogEntry('system', `You first end your conversation with ${talkingToNPC.name}.`);
+      endConversation(host);
+    }
+    startConversation(host, targetNpc.id);
+  }
+  if (initialUtterance?.trim()) await speakToNpc(host, initialUtterance, targetNpc);
+};
+
+export const giveItemToNpc = async (host: GameFlowHost, { item, itemName, npc, npcName }: GiveItemRequest) => {
+  const { characterData } = host.getState();
+  if (!characterData || characterData.isDefeated) { host.addLogEntry('system', "You are too weak to interact."); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.giveItem, "Persuasion");
+  if (host.getState().characterData?.isDefeated) return;
+  const itemToGive = item || host.getState().playerInventory.find(i => i.name.toLowerCase() === (itemName || '').toLowerCase());
+  if (!itemToGive) { host.addLogEntry('error', `You don't have a "${itemName || 'specified item'}".`); return; }
+  const targetNpc = npc || findVisibleNpcByName(host, npcName || '');
+  if (!targetNpc) { host.addLogEntry('error', `Cannot find ${npcName || 'specified NPC'} here or they are not currently interactable.`); return; }
+
+  const signal = host.getLocationWorkSignal();
+  try {
+    const memoryContext = getMemoryContextString(host);
+    const locationKey = getLocationKey(host.getState());
+    const giftResult = await determineGiftOutcome(
+      characterData, targetNpc, itemToGive, getRecentChatWithNpc(host, targetNpc), memoryContext, host.getState().currentEventDetails, signal
+    );
+    const reaction = await identifyPotentialDiscoveriesInText(giftResult.npcReactionText, 'dialogue', targetNpc.id, characterData, locationKey, memoryContext, signal);
+    throwIfAborted(signal);
+    for (const pd of reaction.potentialDiscoveries) await addPotentialDiscovery(host, pd, targetNpc.id, locationKey, signal);
+    host.addLogEntry('narration', giftResult.narration);
+    host.addLogEntry('narration', `${targetNpc.name} says: ${giftResult.npcReactionText}`, `${targetNpc.name} says: ${reaction.processedText}`);
+
+    const locationName = host.getState().locationData?.name;
+    if (giftResult.accepted) {
+      const givenItem = await withGeneratedIcon(host, itemToGive, `Generating icon for ${itemToGive.name} as it's given...`, signal);
+      host.update({ playerInventory: host.getState().playerInventory.filter(i => i.id !== givenItem.id) });
+      updateNpcInventory(host, targetNpc.id, inventory => [...inventory, givenItem]);
+      host.addLogEntry('game_event', `${targetNpc.name} accepted the ${givenItem.name}.`);
+      gainSkillExperience(host, 'Persuasion', getRules(host.getState()).skillXp.giftAccepted);
+      addMajorPlotPoint(host, `Player gave '${givenItem.name}' (${givenItem.rarity}) to ${targetNpc.name}. NPC accepted.`, [characterData.characterName, targetNpc.id, givenItem.id], locationName);
+      await attemptToTriggerUnexpectedEvent(host, `gave_item_${givenItem.rarity.toLowerCase()}_to_${underscored(targetNpc.name.toLowerCase())}_accepted`);
+    } else {
+      host.addLogEntry('system', `${targetNpc.name} did not accept the ${itemToGive.name}.`);
+      addMajorPlotPoint(host, `Player offered '${itemToGive.name}' to ${targetNpc.name}. NPC refused.`, [characterData.characterName, targetNpc.id, itemToGive.id], locationName);
+      await attemptToTriggerUnexpectedEvent(host, `gave_item_${itemToGive.rarity.toLowerCase()}_to_${underscored(targetNpc.name.toLowerCase())}_refused`);
+    }
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      console.info(`Giving ${itemToGive.name} to ${targetNpc.name} cancelled.`);
+      return;
+    }
+    host.addLogEntry('error', `Error giving item: ${err.message || "Unknown error"}`);
+  }
+};
+
+export const requestItemFromNpc = async (host: GameFlowHost, itemName?: string, npcName?: string) => {
+  const { characterData } = host.getState();
+  if (!characterData || characterData.isDefeated) { host.addLogEntry('system', "You are too weak to make requests."); return; }
+  consumeEnergy(host, getRules(host.getState()).energyCosts.requestItem, "Persuasion");
+  if (host.getState().characterData?.isDefeated) return;
+  if (!itemName || !npcName) { host.addLogEntry('error', "Specify item and NPC (e.g., 'ask Bob for key')."); return; }
+  const targetNpc = findVisibleNpcByName(host, npcName);
+  if (!targetNpc) { host.addLogEntry('error', `Cannot find ${npcName} here or they are not currently interactable.`); return; }
+
+  const signal = host.getLocationWorkSignal();
+  try {
+    const memoryContext = getMemoryContextString(host);
+    const locationKey = getLocationKey(host.getState());
+    const offerResult = await determineNpcItemOffer(
+      characterData, targetNpc, itemName, getRecentChatWithNpc(host, targetNpc), memoryContext, host.getState().currentEventDetails, signal
+    );
+    const reaction = await identifyPotentialDiscoveriesInText(offerResult.npcReactionText, 'dialogue', targetNpc.id, characterData, locationKey, memoryContext, signal);
+    throwIfAborted(signal);
+    for (const pd of reaction.potentialDiscoveries) await addPotentialDiscovery(host, pd, targetNpc.id, locationKey, signal);
+    host.addLogEntry('narration', offerResult.narration);
+    host.addLogEntry('narration', `${targetNpc.name} says: ${offerResult.npcReactionText}`, `${targetNpc.name} says: ${reaction.processedText}`);
+
+    const locationName = host.getState().locationData?.name;
+    if (offerResult.willingToGive && offerResult.itemGiven) {
+      const itemAcquired = await withGeneratedIcon(host, offerResult.itemGiven, `Generating icon for ${offerResult.itemGiven.name}...`, signal);
+      host.update({ playerInventory: [...host.getState().playerInventory, itemAcquired] });
+      updateNpcInventory(host, targetNpc.id, inventory => inventory.filter(i => i.id !== itemAcquired.id));
+      host.addLogEntry('game_event', `${targetNpc.name} gave you ${itemAcquired.name}.`);
+      gainSkillExperience(host, 'Persuasion', getRules(host.getState()).skillXp.itemReceived);
+      addMajorPlotPoint(host, `${targetNpc.name} gave '${itemAcquired.name}' (${itemAcquired.rarity}) to player.`, [characterData.characterName, targetNpc.id, itemAcquired.id], locationName);
+      await attemptToTriggerUnexpectedEvent(host, `npc_${underscored(targetNpc.name.toLowerCase())}_gave_item_${itemAcquired.rarity.toLowerCase()}`);
+    } else {
+      host.addLogEntry('system', `${targetNpc.name} did not give you the ${itemName}.`);
+      addMajorPlotPoint(host, `${targetNpc.name} did not give '${itemName}' to player.`, [characterData.characterName, targetNpc.id], locationName);
+      await attemptToTriggerUnexpectedEvent(host, `npc_${underscored(targetNpc.name.toLowerCase())}_refused_item_${underscored(itemName.toLowerCase())}`);
+    }
+  } catch (err: any) {
+    if (isAbortError(err) || signal.aborted) {
+      console.info(`Asking ${targetNpc.name} for ${itemName} cancelled.`);
+      return;
+    }
+    host.addLogEntry('error', `Error requesting item: ${err.message || "Unknown error"}`);
+  }
+};
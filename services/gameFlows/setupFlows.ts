@@ -0,0 +1,153 @@
+// services/gameFlows/setupFlows.ts
+import { CharacterData, GameItem, VisualStyleType } from '../gameTypes';
+import { generateCharacterDetails, generatePlayerCharacterImage } from '../characterService';
+import { generateLocationDetailsAndImage } from '../locationService';
+import { refineUserStartInputs } from '../worldSetupService';
+import { generateAndFetchItemIcon } from '../itemService';
+import { generateInitialLeads } from '../loreService';
+import { getCoordinateKey } from '../gameEngine';
+import { GameFlowHost } from './flowTypes';
+import { getRules, underscored } from './flowUtils';
+import { addMajorPlotPoint, addMemorableEntity, addPotentialDiscovery, getMemoryContextString } from './memoryFlows';
+import { attemptToTriggerUnexpectedEvent } from './eventFlows';
+
+export const MAX_WORLD_CREATION_ATTEMPTS = 3;
+
+export interface WorldSeed {
+  characterConcept: string;
+  characterName: string | null;
+  locationConcept: string;
+  gameSetting: 'Fictional' | 'Historical';
+  worldContext: string | null; // The fictional universe, or the historical setting as the player described it
+  visualStyle: VisualStyleType;
+}
+
+export interface WorldCreationOptions {
+  createPortrait: boolean; // The terminal shows no pictures, so it skips the character portrait
+}
+
+// Creates the character, the start location and the first leads into an empty session.
+// The rules preset must already be set on the state. Throws when a step fails; see withWorldCreationRetries.
+export const initializeGameWorld = async (host: GameFlowHost, seed: WorldSeed, options: WorldCreationOptions) => {
+  const { characterConcept, characterName, locationConcept, gameSetting, worldContext, visualStyle } = seed;
+
+  host.beginActivity('world_creation', "Conceptualizing your character...");
+  const { characterDetails, initialItems } = await generateCharacterDetails(
+    characterConcept, visualStyle, getRules(host.getState()).skillProgression, characterName, gameSetting, worldContext, getMemoryContextString(host)
+  );
+  characterDetails.visualStyle = visualStyle;
+  if (gameSetting === 'Fictional' && worldContext) characterDetails.fictionalUniverseContext = worldContext;
+  addMemorableEntity(host, characterDetails.characterName, characterDetails.characterName, 'character', characterDetails.characterRarity, characterDetails.characterConcept, "Player Character - Game Start");
+  host.addLogEntry('game_event', `Character: ${characterDetails.characterName} - ${characterDetails.characterConcept} (Rarity: ${characterDetails.characterRarity}, Style: ${visualStyle})`);
+  if (characterDetails.fictionalUniverseContext) {
+    host.addLogEntry('system', `Playing in the universe of: ${characterDetails.fictionalUniverseContext}`);
+  }
+  if (characterDetails.skills?.length) {
+    host.addLogEntry('system', `Initial skills: ${characterDetails.skills.filter(s => s.level > 0).map(s => `${s.name} (Lvl ${s.level})`).join(', ') || 'None notable'}`);
+  }
+
+  host.beginActivity('world_creation', "Creating your world...");
+  const characterForLocationTheme: CharacterData = {
+    ...characterDetails,
+    characterImageUrl: null,
+    fictionalUniverseContext: gameSetting === 'Fictional' ? worldContext : null,
+    visualStyle,
+  };
+  const locData = await generateLocationDetailsAndImage(locationConcept, characterForLocationTheme, getMemoryContextString(host));
+  addMemorableEntity(host, locData.name, locData.name, 'location', locData.rarity, locData.description, "Game Start Location");
+
+  const startingItems: GameItem[] = [];
+  for (const suggestion of initialItems || []) {
+    const iconUrl = await generateAndFetchItemIcon(suggestion.visualPromptHint, suggestion.name, visualStyle, null);
+    const newItem: GameItem = { ...suggestion, id: crypto.randomUUID(), iconUrl: iconUrl || '' };
+    startingItems.push(newItem);
+    addMemorableEntity(host, newItem.id, newItem.name, 'item', newItem.rarity, newItem.description.substring(0, 50) + "...", "Starting Equipment");
+    host.addLogEntry('game_event', `Starts with: ${newItem.name} (${newItem.rarity}).`);
+  }
+
+  let characterImageUrl: string | null = null;
+  if (options.createPortrait) {
+    host.beginActivity('world_creation', "Generating character appearance...");
+    characterImageUrl = await generatePlayerCharacterImage(characterForLocationTheme, locData.visualPromptHint);
+  }
+  const character: CharacterData = { ...characterForLocationTheme, characterImageUrl };
+  const initialCoordinates = { x: 0, y: 0, z: 0 };
+  const initialCoordinateKey = getCoordinateKey(initialCoordinates);
+  host.update({
+    characterData: character,
+    locationData: locData,
+    playerInventory: startingItems,
+    currentCoordinates: initialCoordinates,
+    locationItems: null,
+    locationNPCs: null,
+    visitedLocations: new Map(host.getState().visitedLocations).set(initialCoordinateKey, { location: locData, items: null, npcs: null }),
+  });
+  if (options.createPortrait) {
+    host.addLogEntry('system', characterImageUrl
+      ? `Character appearance generated for ${character.characterName}.`
+      : `Character appearance for ${character.characterName} could not be generated. Using placeholder.`);
+  }
+  host.addLogEntry('narration', locData.description);
+  host.addLogEntry('game_event', `You find yourself in: ${locData.name} (Rarity: ${locData.rarity}).`);
+
+  host.beginActivity('world_creation', "Discovering initial leads...");
+  const initialLeads = await generateInitialLeads(character, locData, gameSetting, worldContext, visualStyle, getMemoryContextString(host));
+  if (initialLeads.length > 0) {
+    host.addLogEntry('system', "Initial rumors and leads surface...");
+    for (const leadData of initialLeads) {
+      await addPotentialDiscovery(host, leadData, `game_start-${character.characterName}`, initialCoordinateKey);
+    }
+  }
+
+  addMajorPlotPoint(host, `Game started for character '${character.characterName}' (${character.characterRarity}) in '${locData.name}'. Setting: ${gameSetting}, Style: ${visualStyle}. Initial leads: ${initialLeads.length}.`, [character.characterName, locData.name], locData.name);
+  host.onWorldCreated?.();
+  host.requestCheckpoint(); // The starting location is the first checkpoint
+  await attemptToTriggerUnexpectedEvent(host, `game_start_in_${underscored(locData.name)}_${locData.rarity}`);
+};
+
+// "Start new adventure": everything is left to the LLM.
+export const createQuickStartWorld = (host: GameFlowHost, options: WorldCreationOptions) => initializeGameWorld(host, {
+  characterConcept: "A mysterious adventurer concept",
+  characterName: null,
+  locationConcept: "A mysterious place",
+  gameSetting: "Fictional",
+  worldContext: null,
+  visualStyle: 'Pixel Art',
+}, options);
+
+// The player's free-text idea is first refined into a character and a start location.
+export const createCustomWorld = async (
+  host: GameFlowHost, settingType: 'Fictional' | 'Historical', worldAndCharacterIdea: string, visualStyle: VisualStyleType,
+  options: WorldCreationOptions, attempt = 1
+) => {
+  host.beginActivity('world_creation', `Refining your ideas (attempt ${attempt})...`);
+  const refined = await refineUserStartInputs(settingType, worldAndCharacterIdea, getMemoryContextString(host));
+  await initializeGameWorld(host, {
+    characterConcept: refined.refinedCharConcept,
+    characterName: refined.refinedCharName || null,
+    locationConcept: refined.refinedStartLocationConcept,
+    gameSetting: settingType,
+    // For a historical game the player's own description is the setting.
+    worldContext: settingType === 'Historical' ? worldAndCharacterIdea : refined.fictionalUniverseContext ?? null,
+    visualStyle,
+  }, options);
+};
+
+// LLM output is not always usable, so world creation gets a few tries with a growing pause.
+// onAttemptFailed runs after every failure, the last one included; the last error is then rethrown.
+export const withWorldCreationRetries = async (
+  create: (attempt: number) => Promise<void>,
+  onAttemptFailed: (attempt: number, error: any) => void
+) => {
+  for (let attempt = 1; attempt <= MAX_WORLD_CREATION_ATTEMPTS; attempt++) {
+    try {
+      await create(attempt);
+      return;
+    } catch (err: any) {
+      console.error(`World creation attempt ${attempt} failed:`, err);
+      onAttemptFailed(attempt, err);
+      if (attempt === MAX_WORLD_CREATION_ATTEMPTS) throw err;
+      await new Promise(resolve => setTimeout(resolve, 500 * attempt));
+    }
+  }
+};
@@ -0,0 +1,27 @@
+// services/gameFlows/worldFlows.ts
+import { Coordinates, WeatherCondition, WorldState } from '../gameTypes';
+import { advanceWorldClock, applyWeatherChange } from '../gameEngine';
+import { formatWorldContextForLLM } from '../llmPromptUtils';
+import { GameFlowHost } from './flowTypes';
+import { emitLogs } from './flowUtils';
+
+// Coordinates default to the current location; movement passes the destination.
+export const advanceWorldTime = (host: GameFlowHost, minutes: number, coordinates?: Coordinates): WorldState => {
+  const state = host.getState();
+  const result = advanceWorldClock(state.worldState, minutes, coordinates ?? state.currentCoordinates);
+  host.update({ worldState: result.state });
+  emitLogs(host, result.logs);
+  return result.state;
+};
+
+export const changeWeather = (host: GameFlowHost, description: string, condition?: WeatherCondition | null, coordinates?: Coordinates) => {
+  const state = host.getState();
+  const result = applyWeatherChange(state.worldState, coordinates ?? state.currentCoordinates, description, condition);
+  host.update({ worldState: result.state });
+  emitLogs(host, result.logs);
+};
+
+export const getWorldContextString = (host: GameFlowHost, coordinates?: Coordinates): string => {
+  const state = host.getState();
+  return formatWorldContextForLLM(state.worldState, coordinates ?? state.currentCoordinates);
+};
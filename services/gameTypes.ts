@@ -7,6 +7,8 @@ export * from './types/npcTypes';
 export * from './types/commandTypes';
 export * from './types/eventTypes';
 export * from './types/loreTypes';
+export * from './types/worldTypes';
+export * from './types/rulesTypes';
 
 // --- Game Director AI Types ---
 export type GameFocusType =
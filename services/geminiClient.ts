@@ -1,17 +1,217 @@
 // services/geminiClient.ts
-import { GoogleGenAI, GenerateContentResponse, Type, Tool } from "@google/genai";
+import { Type, Tool } from "@google/genai";
 import { VisualStyleType } from './gameTypes'; // Added import
-
-export const API_KEY = process.env.API_KEY;
+import {
+  LlmProvider, LlmChatMessage, LlmConfig, createLlmProvider, getLlmConfigFromEnv,
+  LlmUserSettings, loadLlmUserSettings, saveLlmUserSettings, applyLlmUserSettings,
+  LlmResponseCache, LlmCacheKeyParts, createLlmResponseCache, getLlmCacheConfigFromEnv, LLM_CACHE_BYPASS_STORAGE_KEY,
+  LlmUsageTracker, LlmCallKind, LlmTokenUsage, createLlmUsageTracker, getLlmUsageConfigFromEnv,
+  LlmRequestScheduler, LlmRequestPriority, createLlmRequestScheduler, getLlmSchedulerConfigFromEnv, computeBackoffDelayMs, sleep,
+  LlmTraceRecorder, LlmTraceRequest, LlmTraceResponse, LlmTraceOutcome, LlmTraceEntry, LlmReplayProvider,
+  createLlmTraceRecorder, getLlmTraceConfigFromEnv, createReplayProvider,
+  StructureValidator
+} from './llm';
+import { isAbortError, throwIfAborted } from './utils/abortUtils';
+import { ImageRepository, createImageRepository, createDefaultImageStore } from './images';
+
+const buildTimeLlmConfig = getLlmConfigFromEnv();
+// What the player chose in the settings screen (browser only), applied over the build-time config.
+let activeLlmSettings: LlmUserSettings = loadLlmUserSettings();
+const initialLlmConfig = applyLlmUserSettings(buildTimeLlmConfig, activeLlmSettings);
+
+// Through the proxy the key stays on the server. Services only check that one is configured.
+const resolveApiKey = (config: LlmConfig): string | undefined => config.transport === 'proxy' ? 'via-proxy' : config.apiKey;
+
+// These are reassigned by applyLlmSettings; importers see the current values through the live binding.
+export let API_KEY = resolveApiKey(initialLlmConfig);
 
 if (!API_KEY) {
-  console.error("Gemini API key is missing. Please set the API_KEY environment variable.");
+  console.error("LLM API key is missing. Please set the API_KEY environment variable or paste a key in Settings.");
+}
+
+export let TEXT_MODEL_NAME = initialLlmConfig.textModel;
+export let IMAGE_MODEL_NAME = initialLlmConfig.imageModel;
+
+// What the settings screen falls back to when a field is left empty. The key itself is not exposed.
+export const BUILD_TIME_LLM_DEFAULTS = {
+  provider: buildTimeLlmConfig.provider,
+  transport: buildTimeLlmConfig.transport,
+  textModel: buildTimeLlmConfig.textModel,
+  imageModel: buildTimeLlmConfig.imageModel,
+  hasApiKey: Boolean(resolveApiKey(buildTimeLlmConfig)),
+};
+
+// All LLM traffic goes through the active provider. Services should never talk to an SDK directly.
+let activeLlmProvider: LlmProvider = createLlmProvider(initialLlmConfig);
+
+export const getLlmProvider = (): LlmProvider => activeLlmProvider;
+
+export const setLlmProvider = (provider: LlmProvider): void => {
+  activeLlmProvider = provider;
+};
+
+// Responses for opted-in services (see DEFAULT_LLM_CACHE_POLICIES) are reused across sessions.
+let activeLlmCache: LlmResponseCache = createLlmResponseCache(getLlmCacheConfigFromEnv(initialLlmConfig.provider));
+
+export const getLlmCache = (): LlmResponseCache => activeLlmCache;
+
+export const setLlmCache = (cache: LlmResponseCache): void => {
+  activeLlmCache = cache;
+};
+
+// Debug switch. In the browser the choice is remembered across reloads.
+export const setLlmCacheBypass = (bypass: boolean): void => {
+  activeLlmCache.setBypass(bypass);
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(LLM_CACHE_BYPASS_STORAGE_KEY, String(bypass));
+  } catch {
+    // Storage can be unavailable (private mode, Node) - the in-memory switch still applies.
+  }
+};
+
+// Generated images are kept out of game state; state only holds the refs handed out here.
+let activeImageRepository: ImageRepository = createImageRepository(createDefaultImageStore());
+
+export const getImageRepository = (): ImageRepository => activeImageRepository;
+
+export const setImageRepository = (repository: ImageRepository): void => {
+  activeImageRepository = repository;
+};
+
+// Every call is accounted for here, and the session budget is checked before anything is spent.
+let activeUsageTracker: LlmUsageTracker = createLlmUsageTracker(getLlmUsageConfigFromEnv());
+
+export const getLlmUsageTracker = (): LlmUsageTracker => activeUsageTracker;
+
+export const setLlmUsageTracker = (tracker: LlmUsageTracker): void => {
+  activeUsageTracker = tracker;
+};
+
+// Every provider request waits its turn here, so bursts of background work cannot starve the player.
+let activeRequestScheduler: LlmRequestScheduler = createLlmRequestScheduler(getLlmSchedulerConfigFromEnv());
+
+export const getLlmRequestScheduler = (): LlmRequestScheduler => activeRequestScheduler;
+
+export const setLlmRequestScheduler = (scheduler: LlmRequestScheduler): void => {
+  activeRequestScheduler = scheduler;
+};
+
+// Every provider attempt and cache hit is traced here, for the trace inspector and for replays.
+let activeTraceRecorder: LlmTraceRecorder = createLlmTraceRecorder(getLlmTraceConfigFromEnv());
+
+export const getLlmTraceRecorder = (): LlmTraceRecorder => activeTraceRecorder;
+
+export const setLlmTraceRecorder = (recorder: LlmTraceRecorder): void => {
+  activeTraceRecorder = recorder;
+};
+
+// Replay swaps in a provider that answers from a recorded trace. The response cache is bypassed
+// meanwhile (in memory only), since a cache hit would skip a recorded answer.
+let activeReplay: { provider: LlmReplayProvider; previousProvider: LlmProvider; previousCacheBypass: boolean } | null = null;
+
+export const getLlmReplayProvider = (): LlmReplayProvider | null => activeReplay?.provider ?? null;
+
+export const startLlmReplay = (entries: ReadonlyArray<LlmTraceEntry>): LlmReplayProvider => {
+  stopLlmReplay();
+  const provider = createReplayProvider(entries);
+  activeReplay = { provider, previousProvider: activeLlmProvider, previousCacheBypass: activeLlmCache.isBypassed() };
+  activeLlmProvider = provider;
+  activeLlmCache.setBypass(true);
+  return provider;
+};
+
+export const stopLlmReplay = (): void => {
+  if (!activeReplay) return;
+  activeLlmProvider = activeReplay.previousProvider;
+  activeLlmCache.setBypass(activeReplay.previousCacheBypass);
+  activeReplay = null;
+};
+
+export const getLlmSettings = (): LlmUserSettings => activeLlmSettings;
+
+// Rebuilds the provider from the build-time config plus the player's settings. A running replay
+// ends, since its recorded answers belong to the previous provider.
+export const applyLlmSettings = (settings: LlmUserSettings, { persist = true }: { persist?: boolean } = {}): void => {
+  stopLlmReplay();
+  const config = applyLlmUserSettings(buildTimeLlmConfig, settings);
+  activeLlmSettings = settings;
+  activeLlmProvider = createLlmProvider(config);
+  API_KEY = resolveApiKey(config);
+  TEXT_MODEL_NAME = config.textModel;
+  IMAGE_MODEL_NAME = config.imageModel;
+  if (persist) saveLlmUserSettings(settings);
+};
+
+export interface LlmCallOptions {
+  cacheAs?: string; // Service name to cache under. Only names with a cache policy are actually cached.
+  service?: string; // Name to account the call under. Defaults to cacheAs, then the error context.
+  priority?: LlmRequestPriority; // Scheduler lane: 'interactive' for what the player is waiting on, 'background' for enrichment
+  signal?: AbortSignal; // Cancels the call (queued, in flight or between retries) with an AbortError
+  repair?: boolean; // Try the validator's repair pass (enum case, numeric strings) before rejecting an answer. Default true
 }
 
-export const ai = new GoogleGenAI({ apiKey: API_KEY || "MISSING_API_KEY" });
+// Error contexts often carry per-call detail, e.g. "checkIfSimilarLeadExists (New Lead: X)". Only the
+// leading name is kept so the breakdown groups by service. Callers should still pass options.service:
+// detail outside the parentheses would end up in the breakdown.
+const toServiceName = (contextForErrorMessage: string): string => contextForErrorMessage.replace(/\s*\(.*\)\s*$/s, '') || contextForErrorMessage;
+
+// One usage record per logical call: tokens from every attempt are summed through onUsage.
+// Only the first finish() is recorded, so a `finally` can close whatever the other paths left open.
+const beginUsageRecord = (service: string, kind: LlmCallKind, model: string) => {
+  const startedAt = Date.now();
+  const tokens: LlmTokenUsage = { promptTokens: 0, responseTokens: 0 };
+  let finished = false;
+  return {
+    onUsage: (usage: LlmTokenUsage) => {
+      tokens.promptTokens += usage.promptTokens;
+      tokens.responseTokens += usage.responseTokens;
+    },
+    finish: (outcome: { retries?: number; failed?: boolean; cacheHit?: boolean; imageCount?: number } = {}) => {
+      if (finished) return;
+      finished = true;
+      activeUsageTracker.record({
+        service, kind, model, ...tokens,
+        latencyMs: Date.now() - startedAt,
+        retries: outcome.retries ?? 0,
+        imageCount: outcome.imageCount ?? 0,
+        cacheHit: outcome.cacheHit ?? false,
+        failed: outcome.failed ?? false,
+        timestamp: startedAt,
+      });
+    },
+  };
+};
 
-export const TEXT_MODEL_NAME = 'gemini-2.5-flash-preview-04-17';
-export const IMAGE_MODEL_NAME = 'imagen-3.0-generate-002';
+// One trace entry per provider attempt. `respond` keeps the raw answer, so a rejected answer is
+// traced together with the issues that rejected it.
+const beginTraceEntry = (kind: LlmCallKind, service: string, context: string, attempt: number, model: string, request: LlmTraceRequest) => {
+  const startedAt = Date.now();
+  const providerId = activeLlmProvider.id;
+  let response: LlmTraceResponse | null = null;
+  const finish = (outcome: LlmTraceOutcome, issues: string[] = []) => activeTraceRecorder.record({
+    timestamp: startedAt, service, context, kind, attempt, providerId, model, request, response, outcome, issues,
+    durationMs: Date.now() - startedAt,
+  });
+  return {
+    respond: (answer: LlmTraceResponse) => { response = answer; },
+    finish,
+    fail: (error: any, aborted: boolean) => {
+      if (aborted) finish('aborted');
+      else if (response) finish('rejected', error?.validationIssues ?? [error?.message || String(error)]);
+      else finish('failed', [error?.message || String(error)]);
+    },
+  };
+};
+
+const traceCacheHit = (kind: LlmCallKind, service: string, context: string, model: string, request: LlmTraceRequest, response: LlmTraceResponse) => {
+  const trace = beginTraceEntry(kind, service, context, 0, model, request);
+  trace.respond(response);
+  trace.finish('cached');
+};
+
+const buildCacheKeyParts = (kind: LlmCacheKeyParts['kind'], prompt: string, extra: Partial<LlmCacheKeyParts> = {}): LlmCacheKeyParts => ({
+  kind, providerId: activeLlmProvider.id, model: activeLlmProvider.textModel, prompt, ...extra,
+});
 
 // --- Gemini API Tool/Function Calling Types (based on common usage) ---
 export { Type };
@@ -33,163 +233,335 @@ export interface FunctionDeclaration {
 
 export type { Tool };
 
-interface FunctionCall {
-    name: string;
-    args: Record<string, any>;
-}
+// Tool schemas are declared once with these; see services/llm/toolSchema.ts.
+export { schema, defineTool, createSchemaValidator } from './llm';
+export type { ToolArgs, InferSchema, StructureValidator } from './llm';
 
-interface FunctionCallPart {
-    functionCall: FunctionCall;
-    text?: never;
-}
+const MAX_REPORTED_VALIDATION_ISSUES = 8;
+
+// Thrown when the model answered but the answer was unusable. The answer and what was wrong with it
+// become the correction turn of the next attempt.
+const createRejectedAnswerError = (message: string, rejectedAnswer: string, issues: string[]): Error =>
+  Object.assign(new Error(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message), { rejectedAnswer, validationIssues: issues });
 
-interface TextPart {
-    text: string;
-    functionCall?: never;
-    thought?: boolean;
+const createValidationError = (message: string, validator: StructureValidator<unknown>, data: unknown, rejectedAnswer: string): Error => {
+  const issues = validator.getIssues?.(data) ?? [message];
+  return createRejectedAnswerError(message, rejectedAnswer, issues.slice(0, MAX_REPORTED_VALIDATION_ISSUES));
+};
+
+// Accepts the answer as given, or after the validator's repair pass. Returns undefined if neither is valid.
+const acceptOrRepair = <T>(
+  data: unknown, validator: StructureValidator<T>, allowRepair: boolean, contextForErrorMessage: string
+): { value: T; repaired: boolean } | undefined => {
+  if (validator(data)) return { value: data, repaired: false };
+  if (!allowRepair || !validator.repair) return undefined;
+  const repaired = validator.repair(data);
+  if (!validator(repaired)) return undefined;
+  console.info(`Repaired a near-miss answer for ${contextForErrorMessage}.`);
+  return { value: repaired, repaired: true };
+};
+
+interface CorrectionTurn {
+  history: LlmChatMessage[];
+  prompt: string;
 }
 
+// A retry continues the conversation: the original request, the rejected answer, then what was wrong
+// with it. Failures without an answer (network errors, rate limits) resend the original request.
+const buildCorrectionTurn = (prompt: string, error: any): CorrectionTurn | null => {
+  if (typeof error?.rejectedAnswer !== 'string') return null;
+  const issues: string[] = error.validationIssues ?? [];
+  const correction = `Your previous answer was rejected${issues.length > 0 ? ':' : '.'}
+${issues.map(issue => `- ${issue}`).join('\n')}
+Answer the original request again with every problem above corrected. Keep the parts that were already valid.`;
+  return error.rejectedAnswer
+    ? { history: [{ role: 'user', text: prompt }, { role: 'model', text: error.rejectedAnswer }], prompt: correction }
+    : { history: [], prompt: `${prompt}\n\n${correction}` };
+};
+
 export async function callLLMWithToolAndValidateArgs<TArgs>(
   prompt: string,
   tool: Tool,
-  structureValidator: (data: any) => data is TArgs,
+  structureValidator: StructureValidator<TArgs>,
   validationErrorMessage: string,
   contextForErrorMessage: string,
-  maxRetries: number = 1
+  maxRetries: number = 1,
+  options: LlmCallOptions = {}
 ): Promise<TArgs> {
+  const service = options.service ?? options.cacheAs ?? toServiceName(contextForErrorMessage);
+  const usage = beginUsageRecord(service, 'tool', activeLlmProvider.textModel);
   let attempts = 0;
-
-  while (attempts <= maxRetries) {
-    try {
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: TEXT_MODEL_NAME,
-        contents: [{role: "user", parts: [{text: prompt}]}],
-        config: {
-          tools: [tool],
-        }
-      });
-
-      const parts = response.candidates?.[0]?.content?.parts;
-      if (!parts || parts.length === 0) {
-        // console.error(`No parts received from API for ${contextForErrorMessage} (attempt ${attempts + 1}). Response:`, JSON.stringify(response, null, 2));
-        throw new Error(`No parts received from API for ${contextForErrorMessage}.`);
+  // Closes the record on the throws the paths below do not record themselves: an abort or budget block
+  // before the first attempt, or an abort during the backoff between attempts.
+  try {
+    const cacheKeyParts = buildCacheKeyParts('tool', prompt, { tool, validatorId: structureValidator.name || validationErrorMessage });
+    const toolName = tool.functionDeclarations?.[0]?.name ?? 'the provided tool';
+    if (options.cacheAs) {
+      const cached = await activeLlmCache.lookup(options.cacheAs, cacheKeyParts, structureValidator);
+      if (cached !== undefined) {
+        usage.finish({ cacheHit: true });
+        traceCacheHit('tool', service, contextForErrorMessage, activeLlmProvider.textModel, { prompt, toolName },
+          { functionCall: { name: toolName, args: cached as Record<string, any> } });
+        return cached;
       }
-      
-      // console.log(`[${contextForErrorMessage}] LLM RAW RESPONSE PARTS (Attempt ${attempts + 1}):`, JSON.stringify(parts, null, 2));
-
-      let args: any = null;
-
-      const functionCallPart = parts.find(
-        (part): part is FunctionCallPart => !!(part as FunctionCallPart).functionCall
-      );
+    }
+    throwIfAborted(options.signal);
+    activeUsageTracker.assertWithinBudget(service);
 
-      if (functionCallPart?.functionCall?.args) {
-        args = functionCallPart.functionCall.args;
-      } else {
-        // console.error(`LLM did not return a function call for ${contextForErrorMessage} when tool was provided. Parts received:`, JSON.stringify(parts, null, 2));
-        throw new Error(`LLM failed to use the provided tool for ${contextForErrorMessage}. Review LLM's understanding of the tool or prompt.`);
-      }
+    let correction: CorrectionTurn | null = null;
 
-      // console.log(`[${contextForErrorMessage}] PARSED ARGS BEFORE VALIDATION (Attempt ${attempts + 1}):`, JSON.stringify(args, null, 2));
+    while (attempts <= maxRetries) {
+      const request = correction ?? { prompt, history: undefined };
+      const trace = beginTraceEntry('tool', service, contextForErrorMessage, attempts, activeLlmProvider.textModel, { ...request, toolName });
+      try {
+        const functionCall = await activeRequestScheduler.schedule(
+          () => activeLlmProvider.generateToolCall({ ...request, tool, onUsage: usage.onUsage, signal: options.signal }),
+          { priority: options.priority, label: contextForErrorMessage, signal: options.signal }
+        );
+        trace.respond({ functionCall: functionCall ? JSON.parse(JSON.stringify(functionCall)) : null });
+        throwIfAborted(options.signal); // A provider that cannot cancel still answers - drop that answer
+
+        let args: any = null;
+
+        if (functionCall?.args) {
+          args = functionCall.args;
+        } else {
+          // console.error(`LLM did not return a function call for ${contextForErrorMessage} when tool was provided.`);
+          throw createRejectedAnswerError(`LLM failed to use the provided tool for ${contextForErrorMessage}. Review LLM's understanding of the tool or prompt.`,
+            '', [`you did not call the tool '${toolName}'. Your whole answer must be a call to it.`]);
+        }
 
-      if (args === null) {
-        let message = `No function call arguments received from API for ${contextForErrorMessage}.`;
-        // console.error(`${message} (attempt ${attempts + 1}). Response:`, JSON.stringify(response, null, 2));
-        throw new Error(message);
-      }
+        // console.log(`[${contextForErrorMessage}] PARSED ARGS BEFORE VALIDATION (Attempt ${attempts + 1}):`, JSON.stringify(args, null, 2));
 
-      if (!structureValidator(args)) {
-        // console.error(`${validationErrorMessage} (${contextForErrorMessage}). Raw args from LLM just before validation:`, args);
-        throw new Error(`${validationErrorMessage} (${contextForErrorMessage})`);
-      }
-      return args;
+        if (args === null) {
+          let message = `No function call arguments received from API for ${contextForErrorMessage}.`;
+          // console.error(`${message} (attempt ${attempts + 1}). Response:`, JSON.stringify(response, null, 2));
+          throw new Error(message);
+        }
 
-    } catch (error: any) {
-      attempts++;
-      const message = error.message || "Unknown API error";
+        const rejectedAnswer = `Called ${toolName} with ${JSON.stringify(args)}`;
+        const accepted = acceptOrRepair(args, structureValidator, options.repair !== false, contextForErrorMessage);
+        if (accepted === undefined) {
+          // console.error(`${validationErrorMessage} (${contextForErrorMessage}). Raw args from LLM just before validation:`, args);
+          throw createValidationError(`${validationErrorMessage} (${contextForErrorMessage})`, structureValidator, args, rejectedAnswer);
+        }
+        const validArgs = accepted.value;
+        trace.finish(accepted.repaired ? 'repaired' : 'accepted');
+        if (options.cacheAs) await activeLlmCache.remember(options.cacheAs, cacheKeyParts, validArgs);
+        usage.finish({ retries: attempts });
+        return validArgs;
+
+      } catch (error: any) {
+        const aborted = isAbortError(error) || Boolean(options.signal?.aborted);
+        trace.fail(error, aborted);
+        if (aborted) {
+          usage.finish({ retries: attempts, failed: true });
+          throw error;
+        }
+        attempts++;
+        const message = error.message || "Unknown API error";
 
-      if (attempts > maxRetries) {
-        // console.error(`Error during ${contextForErrorMessage} (attempt ${attempts}/${maxRetries + 1}):`, error);
-        throw new Error(`Failed to get valid tool response for ${contextForErrorMessage} after ${attempts} attempts. Last error: ${message}.`);
+        if (attempts > maxRetries) {
+          // console.error(`Error during ${contextForErrorMessage} (attempt ${attempts}/${maxRetries + 1}):`, error);
+          usage.finish({ retries: attempts - 1, failed: true });
+          throw new Error(`Failed to get valid tool response for ${contextForErrorMessage} after ${attempts} attempts. Last error: ${message}.`);
+        }
+        console.warn(`Attempt ${attempts}/${maxRetries + 1} failed for ${contextForErrorMessage}. Error: ${message}. Retrying...`);
+        correction = buildCorrectionTurn(prompt, error);
+        await sleep(computeBackoffDelayMs(attempts), options.signal);
       }
-      console.warn(`Attempt ${attempts}/${maxRetries + 1} failed for ${contextForErrorMessage}. Error: ${message}. Retrying...`);
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempts));
     }
+    throw new Error(`Exhausted retries for ${contextForErrorMessage}.`);
+  } finally {
+    usage.finish({ retries: Math.max(0, attempts - 1), failed: true });
   }
-  throw new Error(`Exhausted retries for ${contextForErrorMessage}.`);
 }
 
 export async function callLLMForValidatedJsonText<TArgs>(
   prompt: string,
-  validator: (data: any) => data is TArgs,
+  validator: StructureValidator<TArgs>,
   validationErrorMessage: string,
   contextForErrorMessage: string,
-  maxRetries: number = 1
+  maxRetries: number = 1,
+  options: LlmCallOptions = {}
 ): Promise<TArgs> {
+  const service = options.service ?? options.cacheAs ?? toServiceName(contextForErrorMessage);
+  const usage = beginUsageRecord(service, 'json', activeLlmProvider.textModel);
   let attempts = 0;
-  while (attempts <= maxRetries) {
-    try {
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: TEXT_MODEL_NAME, // Ensure using the correct model constant
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        config: { responseMimeType: "application/json" } 
-      });
-      
-      // console.log(`[${contextForErrorMessage}] LLM RAW RESPONSE (Attempt ${attempts + 1}):`, response.text);
-
-      let jsonStr = response.text?.trim();
-      if (!jsonStr) {
-        throw new Error("LLM returned empty text response.");
-      }
-      const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = jsonStr.match(fenceRegex);
-      if (match && match[2]) {
-        jsonStr = match[2].trim();
+  // Closes the record on the throws the paths below do not record themselves: an abort or budget block
+  // before the first attempt, or an abort during the backoff between attempts.
+  try {
+    const cacheKeyParts = buildCacheKeyParts('json', prompt, { validatorId: validator.name || validationErrorMessage });
+    if (options.cacheAs) {
+      const cached = await activeLlmCache.lookup(options.cacheAs, cacheKeyParts, validator);
+      if (cached !== undefined) {
+        usage.finish({ cacheHit: true });
+        traceCacheHit('json', service, contextForErrorMessage, activeLlmProvider.textModel, { prompt }, { text: JSON.stringify(cached) });
+        return cached;
       }
-      // console.log(`[${contextForErrorMessage}] TRIMMED JSON STRING (Attempt ${attempts + 1}):`, jsonStr);
-      
-      let parsedData;
+    }
+    throwIfAborted(options.signal);
+    activeUsageTracker.assertWithinBudget(service);
+
+    let correction: CorrectionTurn | null = null;
+    while (attempts <= maxRetries) {
+      const request = correction ?? { prompt, history: undefined };
+      const trace = beginTraceEntry('json', service, contextForErrorMessage, attempts, activeLlmProvider.textModel, request);
       try {
-        parsedData = JSON.parse(jsonStr);
-      } catch (e: any) {
-        // console.error(`[${contextForErrorMessage}] JSON PARSE FAILED (Attempt ${attempts + 1}):`, e.message, "Raw string:", jsonStr);
-        throw new Error(`Failed to parse JSON response: ${e.message}`);
-      }
+        const responseText = await activeRequestScheduler.schedule(
+          () => activeLlmProvider.generateJsonText({ ...request, onUsage: usage.onUsage, signal: options.signal }),
+          { priority: options.priority, label: contextForErrorMessage, signal: options.signal }
+        );
+        trace.respond({ text: responseText ?? '' });
+        throwIfAborted(options.signal); // A provider that cannot cancel still answers - drop that answer
+
+        // console.log(`[${contextForErrorMessage}] LLM RAW RESPONSE (Attempt ${attempts + 1}):`, responseText);
+
+        let jsonStr = responseText?.trim();
+        if (!jsonStr) {
+          throw createRejectedAnswerError("LLM returned empty text response.", '', ['your answer was empty. Answer with the JSON object only.']);
+        }
+        const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+        const match = jsonStr.match(fenceRegex);
+        if (match && match[2]) {
+          jsonStr = match[2].trim();
+        }
+        // console.log(`[${contextForErrorMessage}] TRIMMED JSON STRING (Attempt ${attempts + 1}):`, jsonStr);
+      
+        let parsedData;
+        try {
+          parsedData = JSON.parse(jsonStr);
+        } catch (e: any) {
+          // console.error(`[${contextForErrorMessage}] JSON PARSE FAILED (Attempt ${attempts + 1}):`, e.message, "Raw string:", jsonStr);
+          throw createRejectedAnswerError(`Failed to parse JSON response: ${e.message}`, jsonStr, [`your answer was not valid JSON (${e.message}). Answer with the JSON object only.`]);
+        }
 
-      // console.log(`[${contextForErrorMessage}] PARSED ARGS BEFORE VALIDATION (Attempt ${attempts + 1}):`, JSON.stringify(parsedData, null, 2));
+        // console.log(`[${contextForErrorMessage}] PARSED ARGS BEFORE VALIDATION (Attempt ${attempts + 1}):`, JSON.stringify(parsedData, null, 2));
 
-      if (!validator(parsedData)) {
-        // console.error(`${validationErrorMessage} (${contextForErrorMessage}). Raw args from LLM:`, JSON.stringify(parsedData, null, 2));
-        throw new Error(`${validationErrorMessage} (${contextForErrorMessage})`);
+        const accepted = acceptOrRepair(parsedData, validator, options.repair !== false, contextForErrorMessage);
+        if (accepted === undefined) {
+          // console.error(`${validationErrorMessage} (${contextForErrorMessage}). Raw args from LLM:`, JSON.stringify(parsedData, null, 2));
+          throw createValidationError(`${validationErrorMessage} (${contextForErrorMessage})`, validator, parsedData, jsonStr);
+        }
+        const validData = accepted.value;
+        trace.finish(accepted.repaired ? 'repaired' : 'accepted');
+        if (options.cacheAs) await activeLlmCache.remember(options.cacheAs, cacheKeyParts, validData);
+        usage.finish({ retries: attempts });
+        return validData;
+
+      } catch (error: any) {
+        const aborted = isAbortError(error) || Boolean(options.signal?.aborted);
+        trace.fail(error, aborted);
+        if (aborted) {
+          usage.finish({ retries: attempts, failed: true });
+          throw error;
+        }
+        attempts++;
+        const message = error.message || "Unknown API error";
+        if (attempts > maxRetries) {
+          // console.error(`Error during ${contextForErrorMessage} (attempt ${attempts}/${maxRetries + 1}):`, error);
+          usage.finish({ retries: attempts - 1, failed: true });
+          throw new Error(`Failed to get valid JSON response for ${contextForErrorMessage} after ${attempts} attempts. Last error: ${message}.`);
+        }
+        console.warn(`Attempt ${attempts}/${maxRetries + 1} failed for ${contextForErrorMessage}. Error: ${message}. Retrying...`);
+        correction = buildCorrectionTurn(prompt, error);
+        await sleep(computeBackoffDelayMs(attempts), options.signal);
       }
-      return parsedData;
-
-    } catch (error: any) {
-      attempts++;
-      const message = error.message || "Unknown API error";
-      if (attempts > maxRetries) {
-        // console.error(`Error during ${contextForErrorMessage} (attempt ${attempts}/${maxRetries + 1}):`, error);
-        throw new Error(`Failed to get valid JSON response for ${contextForErrorMessage} after ${attempts} attempts. Last error: ${message}.`);
+    }
+    throw new Error(`Exhausted retries for ${contextForErrorMessage}.`);
+  } finally {
+    usage.finish({ retries: Math.max(0, attempts - 1), failed: true });
+  }
+}
+
+// Plain text generation through the active provider. Returns the raw (possibly empty) text.
+// Empty answers are never cached.
+export async function generateLLMText(
+  prompt: string,
+  options: { systemInstruction?: string; history?: LlmChatMessage[] } & LlmCallOptions = {}
+): Promise<string> {
+  const { cacheAs, service = cacheAs ?? 'generateLLMText', priority, signal, ...request } = options;
+  const usage = beginUsageRecord(service, 'text', activeLlmProvider.textModel);
+  // Records a failure for every throw: the abort check, the budget, the request itself.
+  try {
+    const cacheKeyParts = buildCacheKeyParts('text', prompt, request);
+    const isNonEmptyText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+    if (cacheAs) {
+      const cached = await activeLlmCache.lookup(cacheAs, cacheKeyParts, isNonEmptyText);
+      if (cached !== undefined) {
+        usage.finish({ cacheHit: true });
+        traceCacheHit('text', service, service, activeLlmProvider.textModel, { prompt, ...request }, { text: cached });
+        return cached;
       }
-      console.warn(`Attempt ${attempts}/${maxRetries + 1} failed for ${contextForErrorMessage}. Error: ${message}. Retrying...`);
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempts));
     }
+    throwIfAborted(signal);
+    activeUsageTracker.assertWithinBudget(service);
+    const trace = beginTraceEntry('text', service, service, 0, activeLlmProvider.textModel, { prompt, ...request });
+    let text: string;
+    try {
+      text = await activeRequestScheduler.schedule(
+        () => activeLlmProvider.generateText({ prompt, ...request, onUsage: usage.onUsage, signal }),
+        { priority, label: service, signal }
+      );
+      trace.respond({ text });
+      throwIfAborted(signal); // A provider that cannot cancel still answers - drop that answer
+    } catch (error) {
+      trace.fail(error, isAbortError(error) || Boolean(signal?.aborted));
+      throw error;
+    }
+    trace.finish('accepted');
+    usage.finish();
+    if (cacheAs && isNonEmptyText(text)) await activeLlmCache.remember(cacheAs, cacheKeyParts, text);
+    return text;
+  } finally {
+    usage.finish({ failed: true });
   }
-  throw new Error(`Exhausted retries for ${contextForErrorMessage}.`);
 }
 
+// Image generation through the active provider. Returns an image ref (render it with <StoredImage>),
+// or null when no image came back or image generation is turned off. Identical requests reuse the
+// stored image instead of regenerating.
+export async function generateLLMImage(
+  prompt: string,
+  outputMimeType: 'image/jpeg' | 'image/png' = 'image/jpeg',
+  options: Omit<LlmCallOptions, 'cacheAs'> = {}
+): Promise<string | null> {
+  const { service = 'generateLLMImage', priority, signal } = options;
+  throwIfAborted(signal);
+  if (!activeLlmSettings.imagesEnabled) return null; // Turned off in Settings; callers already handle a missing image
+  const provider = activeLlmProvider;
+  const usage = beginUsageRecord(service, 'image', provider.imageModel);
+  const requestKey = JSON.stringify([provider.id, provider.imageModel, outputMimeType, prompt]);
+  const trace = beginTraceEntry('image', service, service, 0, provider.imageModel, { prompt, outputMimeType });
+  let generated = false;
+  try {
+    const ref = await activeImageRepository.getOrCreate(requestKey, async () => {
+      generated = true; // Before the budget check, so a blocked request is recorded as failed
+      activeUsageTracker.assertWithinBudget(service);
+      return activeRequestScheduler.schedule(
+        () => provider.generateImage({ prompt, outputMimeType, onUsage: usage.onUsage, signal }),
+        { priority, label: service, signal }
+      );
+    });
+    usage.finish({ cacheHit: !generated, imageCount: generated && ref ? 1 : 0 });
+    trace.respond({ imageRef: ref });
+    trace.finish(generated ? 'accepted' : 'cached');
+    return ref;
+  } catch (error) {
+    if (generated) {
+      usage.finish({ failed: true });
+      trace.fail(error, isAbortError(error) || Boolean(signal?.aborted));
+    }
+    throw error;
+  }
+}
 
 // --- Test Functions ---
 export const generateTestDescription = async (): Promise<string> => {
   try {
     const prompt = "Generate a one-paragraph fantastical description of a newly discovered magical artifact, suitable for a text-based adventure game. Be creative and evocative.";
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: TEXT_MODEL_NAME, 
-        contents: prompt,
-    });
-
-    const text = response.text;
+    const text = await generateLLMText(prompt, { service: 'generateTestDescription' });
     if (text) {
       return text;
     } else {
@@ -228,15 +600,9 @@ export const generateTestImage = async (visualStyle: VisualStyleType = 'Pixel Ar
 
     const prompt = `A highly detailed, ${styleDescriptor} image of a glowing, intricately carved wooden staff, pulsating with soft blue ethereal energy, resting on ancient, moss-covered stones in a misty forest. Cinematic lighting. Clean ${styleDescriptor}.`;
 
-    const response = await ai.models.generateImages({
-        model: IMAGE_MODEL_NAME, 
-        prompt: prompt,
-        config: { numberOfImages: 1, outputMimeType: 'image/jpeg' },
-    });
-
-    if (response.generatedImages && response.generatedImages.length > 0 && response.generatedImages[0].image?.imageBytes) {
-      const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    const imageUrl = await generateLLMImage(prompt, 'image/jpeg', { service: 'generateTestImage' });
+    if (imageUrl) {
+      return imageUrl;
     } else {
       throw new Error("No image data received from Gemini API or image data is invalid.");
     }
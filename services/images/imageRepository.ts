@@ -0,0 +1,118 @@
+// services/images/imageRepository.ts
+// Generated images are stored once and referenced from game state by a short, stable ref
+// ("lostworld-image:<sha256>") instead of a multi-hundred-KB data URL. The hash is taken over the
+// generation request, so asking for the same picture twice reuses the stored one.
+import { sha256Hex } from '../utils/hashUtils';
+import { ImageBlobStore } from './imageStores';
+
+export const IMAGE_REF_PREFIX = 'lostworld-image:';
+const IMAGE_REF_PATTERN = /lostworld-image:[0-9a-f]{64}/g;
+
+// Images newer than this survive garbage collection even when nothing references them yet -
+// they may belong to a request whose result has not reached game state.
+export const DEFAULT_IMAGE_GC_GRACE_MS = 10 * 60 * 1000;
+
+export const isImageRef = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(IMAGE_REF_PREFIX);
+
+const getImageIdFromRef = (ref: string): string => ref.slice(IMAGE_REF_PREFIX.length);
+
+// Every image ref mentioned anywhere in a piece of serialized state (a save file, a JSON dump).
+export const collectImageRefs = (serialized: string): Set<string> => new Set(serialized.match(IMAGE_REF_PATTERN) || []);
+
+// Handles both base64 and percent-encoded data URLs. Returns null for anything else.
+export const dataUrlToBlob = (dataUrl: string): Blob | null => {
+  const match = dataUrl.match(/^data:([^;,]+)((?:;[^;,]+)*?)(;base64)?,(.*)$/s);
+  if (!match) return null;
+  const [, mimeType, , base64Flag, payload] = match;
+  if (!base64Flag) return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${blob.type};base64,${btoa(binary)}`;
+};
+
+const canUseObjectUrls = (): boolean => typeof document !== 'undefined' && typeof URL.createObjectURL === 'function';
+
+export interface ImageRepository {
+  // Returns the ref of the image stored under `requestKey`, calling `generate` only when there is none.
+  // A generator that returns a plain (non-data) URL gets that URL back unchanged; null stays null.
+  getOrCreate(requestKey: string, generate: () => Promise<string | null>): Promise<string | null>;
+  // Turns a ref into something an <img> can show (object URL in the browser, data URL elsewhere).
+  // Any other string is returned untouched, so old inline data URLs and placeholders keep working.
+  resolveUrl(src: string): Promise<string | null>;
+  // Synchronous variant: only answers for refs that were already resolved this session.
+  peekUrl(src: string): string | null;
+  // Deletes stored images whose refs are not in `keep`. Returns how many were removed.
+  collectGarbage(keep: ReadonlySet<string>, graceMs?: number): Promise<number>;
+}
+
+export const createImageRepository = (store: ImageBlobStore): ImageRepository => {
+  const resolvedUrls = new Map<string, string>();
+  const pendingRequests = new Map<string, Promise<string | null>>();
+
+  const toUrl = async (blob: Blob): Promise<string> => (canUseObjectUrls() ? URL.createObjectURL(blob) : blobToDataUrl(blob));
+
+  const getOrCreate = async (requestKey: string, generate: () => Promise<string | null>): Promise<string | null> => {
+    const id = await sha256Hex(requestKey);
+    const ref = `${IMAGE_REF_PREFIX}${id}`;
+    if (await store.has(id)) return ref;
+
+    const inFlight = pendingRequests.get(id);
+    if (inFlight) return inFlight;
+
+    const request = (async () => {
+      const generated = await generate();
+      if (!generated) return null;
+      const blob = dataUrlToBlob(generated);
+      if (!blob) return generated;
+      await store.put({ id, blob, createdAt: Date.now() });
+      resolvedUrls.set(ref, await toUrl(blob));
+      return ref;
+    })();
+    pendingRequests.set(id, request);
+    try {
+      return await request;
+    } finally {
+      pendingRequests.delete(id);
+    }
+  };
+
+  const resolveUrl = async (src: string): Promise<string | null> => {
+    if (!isImageRef(src)) return src;
+    const known = resolvedUrls.get(src);
+    if (known) return known;
+    const record = await store.get(getImageIdFromRef(src));
+    if (!record) return null;
+    const url = await toUrl(record.blob);
+    resolvedUrls.set(src, url);
+    return url;
+  };
+
+  const collectGarbage = async (keep: ReadonlySet<string>, graceMs: number = DEFAULT_IMAGE_GC_GRACE_MS): Promise<number> => {
+    const cutoff = Date.now() - graceMs;
+    const unused = (await store.list()).filter(({ id, createdAt }) => createdAt < cutoff && !keep.has(`${IMAGE_REF_PREFIX}${id}`));
+    for (const { id } of unused) {
+      await store.delete(id);
+      const ref = `${IMAGE_REF_PREFIX}${id}`;
+      const url = resolvedUrls.get(ref);
+      if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+      resolvedUrls.delete(ref);
+    }
+    return unused.length;
+  };
+
+  return {
+    getOrCreate,
+    resolveUrl,
+    peekUrl: src => (isImageRef(src) ? resolvedUrls.get(src) ?? null : src),
+    collectGarbage,
+  };
+};
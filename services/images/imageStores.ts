@@ -0,0 +1,134 @@
+// services/images/imageStores.ts
+// Where image blobs live. The repository only ever talks to these through ImageBlobStore.
+
+export interface StoredImageRecord {
+  id: string;
+  blob: Blob;        // blob.type carries the MIME type
+  createdAt: number;
+}
+
+export interface ImageBlobStore {
+  get(id: string): Promise<StoredImageRecord | null>;
+  has(id: string): Promise<boolean>;
+  put(record: StoredImageRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<{ id: string; createdAt: number }[]>;
+}
+
+export const DEFAULT_IMAGE_STORE_DIRECTORY = '.lostworld-cache/images';
+
+export const createMemoryImageStore = (): ImageBlobStore => {
+  const records = new Map<string, StoredImageRecord>();
+  return {
+    async get(id) { return records.get(id) ?? null; },
+    async has(id) { return records.has(id); },
+    async put(record) { records.set(record.id, record); },
+    async delete(id) { records.delete(id); },
+    async list() { return Array.from(records.values()).map(({ id, createdAt }) => ({ id, createdAt })); },
+  };
+};
+
+const INDEXED_DB_STORE_NAME = 'images';
+
+export const createIndexedDbImageStore = (databaseName: string = 'lostworld-images'): ImageBlobStore => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(INDEXED_DB_STORE_NAME, { keyPath: 'id' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return databasePromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = action(database.transaction(INDEXED_DB_STORE_NAME, mode).objectStore(INDEXED_DB_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async get(id) { return (await run<StoredImageRecord | undefined>('readonly', store => store.get(id))) ?? null; },
+    async has(id) { return (await run<number>('readonly', store => store.count(id))) > 0; },
+    async put(record) { await run('readwrite', store => store.put(record)); },
+    async delete(id) { await run('readwrite', store => store.delete(id)); },
+    async list() {
+      const records = await run<StoredImageRecord[]>('readonly', store => store.getAll());
+      return records.map(({ id, createdAt }) => ({ id, createdAt }));
+    },
+  };
+};
+
+const FILE_EXTENSIONS_BY_MIME: Record<string, string> = {
+  'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg',
+};
+const MIME_BY_FILE_EXTENSION: Record<string, string> = Object.fromEntries(
+  Object.entries(FILE_EXTENSIONS_BY_MIME).map(([mime, extension]) => [extension, mime])
+);
+
+// One file per image, named "<id>.<ext>". The file's mtime doubles as createdAt.
+// The fs module is loaded lazily so browser bundles never pull it in.
+export const createFileImageStore = (directory: string): ImageBlobStore => {
+  const fsModuleName = 'node:fs/promises';
+  const loadFs = (): Promise<typeof import('node:fs/promises')> => import(/* @vite-ignore */ fsModuleName);
+
+  const findFileName = async (id: string): Promise<string | null> => {
+    const fs = await loadFs();
+    try {
+      return (await fs.readdir(directory)).find(name => name.startsWith(`${id}.`)) ?? null;
+    } catch {
+      return null; // Directory not created yet
+    }
+  };
+
+  return {
+    async get(id) {
+      const fileName = await findFileName(id);
+      if (!fileName) return null;
+      const fs = await loadFs();
+      const path = `${directory}/${fileName}`;
+      const [bytes, stats] = await Promise.all([fs.readFile(path), fs.stat(path)]);
+      const extension = fileName.slice(fileName.lastIndexOf('.') + 1);
+      return { id, blob: new Blob([bytes], { type: MIME_BY_FILE_EXTENSION[extension] || 'application/octet-stream' }), createdAt: stats.mtimeMs };
+    },
+    async has(id) { return (await findFileName(id)) !== null; },
+    async put(record) {
+      const fs = await loadFs();
+      await fs.mkdir(directory, { recursive: true });
+      const extension = FILE_EXTENSIONS_BY_MIME[record.blob.type] || 'bin';
+      await fs.writeFile(`${directory}/${record.id}.${extension}`, new Uint8Array(await record.blob.arrayBuffer()));
+    },
+    async delete(id) {
+      const fileName = await findFileName(id);
+      if (!fileName) return;
+      const fs = await loadFs();
+      await fs.rm(`${directory}/${fileName}`, { force: true });
+    },
+    async list() {
+      const fs = await loadFs();
+      let names: string[];
+      try {
+        names = await fs.readdir(directory);
+      } catch {
+        return [];
+      }
+      return Promise.all(names.map(async name => ({
+        id: name.slice(0, name.lastIndexOf('.')),
+        createdAt: (await fs.stat(`${directory}/${name}`)).mtimeMs,
+      })));
+    },
+  };
+};
+
+// IndexedDB in the browser, the file system under Node, memory anywhere else.
+export const createDefaultImageStore = (directory: string = DEFAULT_IMAGE_STORE_DIRECTORY): ImageBlobStore => {
+  if (typeof indexedDB !== 'undefined') return createIndexedDbImageStore();
+  if (typeof process !== 'undefined' && process.versions?.node) return createFileImageStore(directory);
+  return createMemoryImageStore();
+};
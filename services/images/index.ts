@@ -0,0 +1,3 @@
+// services/images/index.ts
+export * from './imageStores';
+export * from './imageRepository';
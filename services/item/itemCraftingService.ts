@@ -1,17 +1,16 @@
 // services/item/itemCraftingService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, TEXT_MODEL_NAME, Tool, Type, FunctionDeclaration, Schema } from '../geminiClient';
-import { GameItem, CraftingRecipeOutput, CraftingDetails, DynamicCraftingOutcome, ItemRarity, PotentialDiscovery, CharacterData, VisualStyleType } from '../types';
+import { API_KEY, callLLMWithToolAndValidateArgs, schema, defineTool } from '../geminiClient';
+import { GameItem, CraftingRecipeOutput, CraftingDetails, DynamicCraftingOutcome, PotentialDiscovery, CharacterData, VisualStyleType } from '../types';
+import { ITEM_RARITIES } from '../config/gameConstants';
 import { SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM } from '../llmPromptUtils';
 import { generateAndFetchItemIcon } from './itemGenerationService'; // Assuming icon gen is here or in a common item util
 
-export const CRAFTED_ITEM_DETAILS_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "provide_crafted_item_details", description: "Provides narration for successfully crafting a predefined item.",
-    parameters: { type: Type.OBJECT, properties: { narration: { type: Type.STRING, description: "Engaging narration (1-2 sentences) of successful crafting, reflecting character's skill." } }, required: ["narration"] },
-  } as FunctionDeclaration],
-};
-type CraftedItemDetailsFromTool = { narration: string };
-const validateCraftedItemDetailsStructure = (data: any): data is CraftedItemDetailsFromTool => data && typeof data.narration === 'string' && data.narration.trim() !== '';
+const { string, enumOf, object, optional, nullable } = schema;
+
+export const CRAFTED_ITEM_DETAILS_TOOL = defineTool({
+  name: "provide_crafted_item_details", description: "Provides narration for successfully crafting a predefined item.",
+  parameters: object({ narration: string("Engaging narration (1-2 sentences) of successful crafting, reflecting character's skill.", { nonEmpty: true }) }),
+});
 
 export const generateCraftedItemDetailsAndNarration = async (
   recipeOutput: CraftingRecipeOutput, inputItemNames: string[], character: CharacterData,
@@ -26,38 +25,24 @@ ${memoryContextString}
 ${SKILL_LEVEL_INTERPRETATION_GUIDE}
 Task: Generate engaging narration (1-2 sentences, from "You" perspective) for this successful crafting event. The narration should reflect the character's Crafting skill level. For example, high skill might be "You skillfully combine...", low skill "Despite fumbling...".
 CRITICAL: You MUST invoke the tool named 'provide_crafted_item_details'. The tool expects a single 'narration' string. Ensure strict adherence.`;
-  const result = await callLLMWithToolAndValidateArgs(prompt, CRAFTED_ITEM_DETAILS_TOOL, validateCraftedItemDetailsStructure, "Invalid crafted item details structure", "generateCraftedItemDetailsAndNarration");
+  const result = await callLLMWithToolAndValidateArgs(prompt, CRAFTED_ITEM_DETAILS_TOOL.tool, CRAFTED_ITEM_DETAILS_TOOL.validateArgs, "Invalid crafted item details structure", "generateCraftedItemDetailsAndNarration", 1, { service: 'generateCraftedItemDetailsAndNarration' });
   const iconUrl = await generateAndFetchItemIcon(recipeOutput.visualPromptHint, recipeOutput.name, visualStyle);
   const craftedItem: GameItem = { ...recipeOutput, id: crypto.randomUUID(), iconUrl };
   return { craftedItem, narration: result.narration };
 };
 
-export const DYNAMIC_CRAFTING_OUTCOME_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "determine_dynamic_crafting_outcome", description: "Determines outcome of experimental crafting. Quality/rarity HEAVILY influenced by Crafting skill, memory, game setting/universe. Epic/Legendary distinct unless fulfilling a lead. Item for lead MUST be contextually plausible. Visual prompt hint for item should be for the game's current visual style (e.g., 'Pixel Art icon', 'Anime style icon', or 'black and white traditional Chinese ink painting style icon' if 'Ink Painting' is current style), focusing on item itself with simple background.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        newItemName: { type: Type.STRING, description: "Name of resulting item. If fulfilling lead, matches lead name." },
-        newItemDescription: { type: Type.STRING, description: "Description, hints at use/lore. If fulfilling lead, aligns with hint." },
-        newItemItemTypeGuess: { type: Type.STRING, description: "Category (e.g., 'tool', 'junk', 'potion', 'trinket')." },
-        newItemRarity: { type: Type.STRING, enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'], description: `Rarity. Strongly influenced by Crafting skill, input rarity, memory, setting/universe. If fulfilling lead, matches/consistent with lead rarity. Epic/Legendary distinct (unless lead). Failures/junk 'Common'.` },
-        newItemVisualPromptHint: { type: Type.STRING, description: "Detailed visual description of THE ITEM ITSELF, suitable for a [CURRENT_GAME_STYLE] icon (e.g., 'Pixel Art icon', 'Anime style icon', or 'black and white traditional Chinese ink painting style icon' if 'Ink Painting' is current style). Item should be front and center. Background implied should be simple/neutral or subtly thematic TO THE ITEM for that style, item is SOLE focus. Example for [CURRENT_GAME_STYLE]=Anime: 'a pulsing orb of dark energy with swirling patterns'." },
-        narration: { type: Type.STRING, description: "Narration (1-3 sentences) of process, outcome, reflecting Crafting skill, inputs, setting/universe." },
-        fulfilledLeadId: { type: Type.STRING, nullable: true, description: "ID of item lead fulfilled, if any. ONLY if item is plausible from inputs & context AND matches lead." }
-      },
-      required: ["newItemName", "newItemDescription", "newItemItemTypeGuess", "newItemRarity", "newItemVisualPromptHint", "narration"],
-    },
-  } as FunctionDeclaration],
-};
-type DynamicCraftingOutcomeFromTool = { newItemName: string; newItemDescription: string; newItemItemTypeGuess: string; newItemRarity: ItemRarity; newItemVisualPromptHint: string; narration: string; fulfilledLeadId?: string | null; };
-const validateDynamicCraftingOutcomeStructure = (data: any): data is DynamicCraftingOutcomeFromTool => {
-  const rarities: ItemRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
-  return data && typeof data.newItemName === 'string' && data.newItemName.trim() !== '' && typeof data.newItemDescription === 'string' && data.newItemDescription.trim() !== '' &&
-    typeof data.newItemItemTypeGuess === 'string' && data.newItemItemTypeGuess.trim() !== '' && typeof data.newItemRarity === 'string' && rarities.includes(data.newItemRarity as ItemRarity) &&
-    typeof data.newItemVisualPromptHint === 'string' && data.newItemVisualPromptHint.trim() !== '' && typeof data.narration === 'string' && data.narration.trim() !== '' &&
-    (data.fulfilledLeadId === undefined || data.fulfilledLeadId === null || typeof data.fulfilledLeadId === 'string');
-};
+export const DYNAMIC_CRAFTING_OUTCOME_TOOL = defineTool({
+  name: "determine_dynamic_crafting_outcome", description: "Determines outcome of experimental crafting. Quality/rarity HEAVILY influenced by Crafting skill, memory, game setting/universe. Epic/Legendary distinct unless fulfilling a lead. Item for lead MUST be contextually plausible. Visual prompt hint for item should be for the game's current visual style (e.g., 'Pixel Art icon', 'Anime style icon', or 'black and white traditional Chinese ink painting style icon' if 'Ink Painting' is current style), focusing on item itself with simple background.",
+  parameters: object({
+    newItemName: string("Name of resulting item. If fulfilling lead, matches lead name.", { nonEmpty: true }),
+    newItemDescription: string("Description, hints at use/lore. If fulfilling lead, aligns with hint.", { nonEmpty: true }),
+    newItemItemTypeGuess: string("Category (e.g., 'tool', 'junk', 'potion', 'trinket').", { nonEmpty: true }),
+    newItemRarity: enumOf(ITEM_RARITIES, `Rarity. Strongly influenced by Crafting skill, input rarity, memory, setting/universe. If fulfilling lead, matches/consistent with lead rarity. Epic/Legendary distinct (unless lead). Failures/junk 'Common'.`),
+    newItemVisualPromptHint: string("Detailed visual description of THE ITEM ITSELF, suitable for a [CURRENT_GAME_STYLE] icon (e.g., 'Pixel Art icon', 'Anime style icon', or 'black and white traditional Chinese ink painting style icon' if 'Ink Painting' is current style). Item should be front and center. Background implied should be simple/neutral or subtly thematic TO THE ITEM for that style, item is SOLE focus. Example for [CURRENT_GAME_STYLE]=Anime: 'a pulsing orb of dark energy with swirling patterns'.", { nonEmpty: true }),
+    narration: string("Narration (1-3 sentences) of process, outcome, reflecting Crafting skill, inputs, setting/universe.", { nonEmpty: true }),
+    fulfilledLeadId: optional(nullable(string("ID of item lead fulfilled, if any. ONLY if item is plausible from inputs & context AND matches lead."))),
+  }),
+});
 
 export const guessDynamicCraftingOutcome = async (
   inputItems: GameItem[], character: CharacterData,
@@ -109,7 +94,7 @@ Task: Determine the outcome of this experimental crafting.
 CRITICAL: You MUST invoke tool 'determine_dynamic_crafting_outcome'. Arguments MUST adhere to schema.
 DO NOT output details as text/JSON. Tool call is ONLY valid way.`;
 
-  const result = await callLLMWithToolAndValidateArgs(prompt, DYNAMIC_CRAFTING_OUTCOME_TOOL, validateDynamicCraftingOutcomeStructure, "Invalid dynamic crafting outcome (check rarity, outcome interest, distinction from memory, skill adherence, lead fulfillment plausibility, visual appeal, setting/universe consistency)", "guessDynamicCraftingOutcome");
+  const result = await callLLMWithToolAndValidateArgs(prompt, DYNAMIC_CRAFTING_OUTCOME_TOOL.tool, DYNAMIC_CRAFTING_OUTCOME_TOOL.validateArgs, "Invalid dynamic crafting outcome (check rarity, outcome interest, distinction from memory, skill adherence, lead fulfillment plausibility, visual appeal, setting/universe consistency)", "guessDynamicCraftingOutcome", 1, { service: 'guessDynamicCraftingOutcome' });
   const iconUrl = await generateAndFetchItemIcon(result.newItemVisualPromptHint, result.newItemName, visualStyle);
   const newItem: GameItem = { id: crypto.randomUUID(), name: result.newItemName, description: result.newItemDescription, itemTypeGuess: result.newItemItemTypeGuess, rarity: result.newItemRarity, visualPromptHint: result.newItemVisualPromptHint, iconUrl };
   return { newItem, narration: result.narration, fulfilledLeadId: result.fulfilledLeadId };
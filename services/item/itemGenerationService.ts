@@ -1,7 +1,9 @@
 // services/item/itemGenerationService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, IMAGE_MODEL_NAME, TEXT_MODEL_NAME, Tool, Type, FunctionDeclaration, Schema } from '../geminiClient';
-import { GameItem, SuggestedItemFromLLM, FullLocationData, CharacterData, ItemRarity, PotentialDiscovery, VisualStyleType } from '../types'; // Assuming a Barrel file for types
+import { API_KEY, callLLMWithToolAndValidateArgs, generateLLMImage, schema, defineTool } from '../geminiClient';
+import { GameItem, FullLocationData, CharacterData, PotentialDiscovery, VisualStyleType } from '../types'; // Assuming a Barrel file for types
+import { ITEM_RARITIES } from '../config/gameConstants';
 import { SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM } from '../llmPromptUtils';
+import { isAbortError } from '../utils/abortUtils';
 
 const getStyleForItemIconPrompt = (visualStyle: VisualStyleType): string => {
   switch (visualStyle) {
@@ -19,7 +21,8 @@ export const generateAndFetchItemIcon = async (
     itemVisualPromptHint: string,
     itemName: string,
     visualStyle: VisualStyleType,
-    _locationVisualPromptHint?: string | null
+    _locationVisualPromptHint?: string | null,
+    signal?: AbortSignal
 ): Promise<string> => {
     let iconUrl = `https://via.placeholder.com/64x64/777/fff?text=${encodeURIComponent(itemName.substring(0,3))}`;
     if (!API_KEY) { console.warn(`API key not configured. Using placeholder icon for ${itemName}.`); return iconUrl; }
@@ -53,60 +56,38 @@ export const generateAndFetchItemIcon = async (
     const finalImagePrompt = `A high-quality ${itemStyleDescriptor} of: ${itemVisualPromptHint}. ${backgroundInstruction} The item MUST be front and center, clear, and distinct. IMPORTANT: Image MUST ONLY contain the icon itself on its described background. NO text, watermarks, labels, UI elements. Clean ${itemStyleDescriptor}. Suitable for a 64x64 game inventory slot.`;
 
     try {
-        const imageResponse = await ai.models.generateImages({ model: IMAGE_MODEL_NAME, prompt: finalImagePrompt, config: { numberOfImages: 1, outputMimeType: 'image/png' } });
-        if (imageResponse.generatedImages?.[0]?.image?.imageBytes) iconUrl = `data:image/png;base64,${imageResponse.generatedImages[0].image.imageBytes}`;
+        const generatedIconUrl = await generateLLMImage(finalImagePrompt, 'image/png', { service: 'generateAndFetchItemIcon', priority: 'background', signal });
+        if (generatedIconUrl) iconUrl = generatedIconUrl;
         else console.warn(`No icon image data for ${itemName} (Prompt: ${finalImagePrompt}). Using placeholder.`);
-    } catch (error: any) { console.error(`Error generating icon for ${itemName} (Prompt: ${finalImagePrompt}):`, error.message || error); }
+    } catch (error: any) {
+        if (isAbortError(error)) throw error;
+        console.error(`Error generating icon for ${itemName} (Prompt: ${finalImagePrompt}):`, error.message || error);
+    }
     return iconUrl;
 };
 
-export const SUGGEST_ITEMS_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "suggest_items_for_location",
-    description: "Suggests 1-4 plausible items for a location. Considers character Perception, location context, game setting (Historical/Fictional universe), memory context, AND active item-related leads. Epic/Legendary items should be distinct from memory unless fulfilling a lead. Descriptions are factual. Visual prompt hints MUST be for the game's current visual style (e.g., 'Pixel Art icon', 'Anime style icon', 'black and white traditional Chinese ink painting style icon', 'distinctive impasto oil painting style icon', 'luminous watercolor painting style icon', 'stylized low-poly 3D render style icon'), focusing on the item itself with a simple/neutral background.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        items: {
-          type: Type.ARRAY,
-          description: "Array of 1-4 items. Items should be contextually relevant. Prioritize fulfilling an item-related lead if plausible. Epic/Legendary items must be distinct from known entities in memory unless matching a lead. Descriptions must be factual (what the item IS, what's written on textual items, etc.).",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "Item name. If fulfilling a lead, this MUST match the lead's item name." },
-              description: { type: Type.STRING, description: "Factual description (1-2 sentences). What IS it? Appearance? For textual items: summarize content/what's written. If fulfilling a lead, description should align with the lead's hint." },
-              itemTypeGuess: { type: Type.STRING, description: "Category (e.g., 'key', 'weapon', 'food', 'document')." },
-              rarity: { type: Type.STRING, enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'], description: `Rarity. Influenced by character Perception and location significance. If fulfilling a lead, rarity should match/be consistent with the lead's rarity hint. Epic/Legendary items must be distinct from known entities in memory (unless fulfilling a lead for such an item) and align with setting/universe.` },
-              visualPromptHint: { type: Type.STRING, description: "Detailed visual description of THE ITEM ITSELF, suitable for a [CURRENT_GAME_STYLE_ICON] (e.g., 'Pixel Art icon of a gleaming steel longsword with a sapphire', 'Anime style icon of a swirling crimson potion', 'black and white traditional Chinese ink painting style icon of an ancient scroll', 'distinctive impasto oil painting style icon of a jeweled crown', 'luminous watercolor painting style icon of a delicate flower', 'stylized low-poly 3D render style icon of a crystal shard'). Item should be front and center. Background implied should be simple/neutral or subtly thematic TO THE ITEM for that style, item is SOLE focus." },
-            },
-            required: ["name", "description", "itemTypeGuess", "rarity", "visualPromptHint"],
-          },
-        },
-      },
-      required: ["items"],
-    },
-  } as FunctionDeclaration],
-};
-
-type SuggestedItemsFromTool = { items: SuggestedItemFromLLM[] };
-
-const validateSuggestedItemsStructure = (data: any): data is SuggestedItemsFromTool => {
-  const rarities: ItemRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
-  return data && Array.isArray(data.items) &&
-    data.items.every((item: any) =>
-      item && typeof item.name === 'string' && item.name.trim() !== '' &&
-      typeof item.description === 'string' && item.description.trim() !== '' &&
-      typeof item.itemTypeGuess === 'string' && item.itemTypeGuess.trim() !== '' &&
-      typeof item.rarity === 'string' && rarities.includes(item.rarity as ItemRarity) &&
-      typeof item.visualPromptHint === 'string' && item.visualPromptHint.trim() !== ''
-    );
-};
+const { string, enumOf, array, object } = schema;
+
+export const SUGGEST_ITEMS_TOOL = defineTool({
+  name: "suggest_items_for_location",
+  description: "Suggests 1-4 plausible items for a location. Considers character Perception, location context, game setting (Historical/Fictional universe), memory context, AND active item-related leads. Epic/Legendary items should be distinct from memory unless fulfilling a lead. Descriptions are factual. Visual prompt hints MUST be for the game's current visual style (e.g., 'Pixel Art icon', 'Anime style icon', 'black and white traditional Chinese ink painting style icon', 'distinctive impasto oil painting style icon', 'luminous watercolor painting style icon', 'stylized low-poly 3D render style icon'), focusing on the item itself with a simple/neutral background.",
+  parameters: object({
+    items: array(object({
+      name: string("Item name. If fulfilling a lead, this MUST match the lead's item name.", { nonEmpty: true }),
+      description: string("Factual description (1-2 sentences). What IS it? Appearance? For textual items: summarize content/what's written. If fulfilling a lead, description should align with the lead's hint.", { nonEmpty: true }),
+      itemTypeGuess: string("Category (e.g., 'key', 'weapon', 'food', 'document').", { nonEmpty: true }),
+      rarity: enumOf(ITEM_RARITIES, `Rarity. Influenced by character Perception and location significance. If fulfilling a lead, rarity should match/be consistent with the lead's rarity hint. Epic/Legendary items must be distinct from known entities in memory (unless fulfilling a lead for such an item) and align with setting/universe.`),
+      visualPromptHint: string("Detailed visual description of THE ITEM ITSELF, suitable for a [CURRENT_GAME_STYLE_ICON] (e.g., 'Pixel Art icon of a gleaming steel longsword with a sapphire', 'Anime style icon of a swirling crimson potion', 'black and white traditional Chinese ink painting style icon of an ancient scroll', 'distinctive impasto oil painting style icon of a jeweled crown', 'luminous watercolor painting style icon of a delicate flower', 'stylized low-poly 3D render style icon of a crystal shard'). Item should be front and center. Background implied should be simple/neutral or subtly thematic TO THE ITEM for that style, item is SOLE focus.", { nonEmpty: true }),
+    }), "Array of 1-4 items. Items should be contextually relevant. Prioritize fulfilling an item-related lead if plausible. Epic/Legendary items must be distinct from known entities in memory unless matching a lead. Descriptions must be factual (what the item IS, what's written on textual items, etc.)."),
+  }),
+});
 
 export const generateItemsForLocation = async (
   location: FullLocationData,
   characterData: CharacterData,
   potentialDiscoveries: PotentialDiscovery[],
-  memoryContextString: string = ""
+  memoryContextString: string = "",
+  signal?: AbortSignal
 ): Promise<GameItem[]> => {
   if (!API_KEY) { console.warn("Cannot generate items: API key not configured."); return []; }
   const perceptionSkill = characterData.skills.find(s => s.name === 'Perception'); const perceptionLevel = perceptionSkill?.level || 0;
@@ -160,11 +141,12 @@ Guidelines for Item Suggestion:
 CRITICAL: You MUST invoke the tool named 'suggest_items_for_location'. The arguments you provide to this tool MUST adhere strictly to its schema.
 DO NOT output the item details as plain text or a JSON string within a text part. The tool call is the ONLY valid way to provide this information.`;
 
-  const suggested = await callLLMWithToolAndValidateArgs(prompt, SUGGEST_ITEMS_TOOL, validateSuggestedItemsStructure,
-    "Invalid item suggestion (check rarity, description, distinction from memory, lead fulfillment, visual prompt for item, visual appeal, setting/universe consistency, contextual relevance)", "generateItemsForLocation");
+  const suggested = await callLLMWithToolAndValidateArgs(prompt, SUGGEST_ITEMS_TOOL.tool, SUGGEST_ITEMS_TOOL.validateArgs,
+    "Invalid item suggestion (check rarity, description, distinction from memory, lead fulfillment, visual prompt for item, visual appeal, setting/universe consistency, contextual relevance)", "generateItemsForLocation",
+    1, { service: 'generateItemsForLocation', signal });
   if (!suggested.items?.length) return [];
   return Promise.all(suggested.items.map(async (itemDetails): Promise<GameItem> => {
-      const iconUrl = await generateAndFetchItemIcon(itemDetails.visualPromptHint, itemDetails.name, visualStyle, location.visualPromptHint);
+      const iconUrl = await generateAndFetchItemIcon(itemDetails.visualPromptHint, itemDetails.name, visualStyle, location.visualPromptHint, signal);
       return { ...itemDetails, id: crypto.randomUUID(), iconUrl };
   }));
 };
\ No newline at end of file
@@ -1,71 +1,54 @@
 // services/item/itemInteractionService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, TEXT_MODEL_NAME, Tool, Type, FunctionDeclaration, Schema } from '../geminiClient';
+import { API_KEY, callLLMWithToolAndValidateArgs, generateLLMText, schema, defineTool } from '../geminiClient';
 import { GenerateContentResponse } from "@google/genai";
 import { GameItem, PickupResult, CharacterData, ItemUsageOutcome, ItemRarity, VisualStyleType } from '../types';
 import { SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM, formatCharacterLimbDetailsForLLM } from '../llmPromptUtils';
 import { identifyPotentialDiscoveriesInText, ProcessedTextWithDiscoveries } from '../loreService';
+import { isAbortError } from '../utils/abortUtils';
 
-export const PICKUP_ITEM_NARRATION_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "provide_pickup_narration", description: "Generates brief narration for picking up an item.",
-    parameters: { type: Type.OBJECT, properties: { narration: { type: Type.STRING, description: "Short (1 sentence) narration from the player's perspective (e.g., 'You snatch the Rusty Dagger.')." } }, required: ["narration"] },
-  } as FunctionDeclaration],
-};
-type PickupNarrationFromTool = { narration: string };
-const validatePickupNarrationStructure = (data: any): data is PickupNarrationFromTool => data && typeof data.narration === 'string' && data.narration.trim() !== '';
+const { string, number, boolean, array, object, optional, nullable } = schema;
+
+export const PICKUP_ITEM_NARRATION_TOOL = defineTool({
+  name: "provide_pickup_narration", description: "Generates brief narration for picking up an item.",
+  parameters: object({ narration: string("Short (1 sentence) narration from the player's perspective (e.g., 'You snatch the Rusty Dagger.').", { nonEmpty: true }) }),
+});
 
 export const narrateAndConfirmPickup = async (
   item: GameItem,
   character: CharacterData,
-  memoryContextString: string = ""
+  memoryContextString: string = "",
+  signal?: AbortSignal
 ): Promise<PickupResult> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   const prompt = `Character: ${character.characterConcept} (Skills: ${formatSkillsForLLM(character.skills)}) is picking up: ${item.name} (Description: ${item.description}, Rarity: ${item.rarity}).
 ${memoryContextString}
 Task: Generate a short, engaging narration (1 sentence) for this action, from the player's perspective (using "You"). For example: "You carefully pick up the Glimmering Shard."
 CRITICAL: You MUST invoke the tool named 'provide_pickup_narration'. The tool expects a single 'narration' string. Adhere to this.`;
-  const result = await callLLMWithToolAndValidateArgs(prompt, PICKUP_ITEM_NARRATION_TOOL, validatePickupNarrationStructure, "Invalid pickup narration structure", "narrateAndConfirmPickup");
+  const result = await callLLMWithToolAndValidateArgs(prompt, PICKUP_ITEM_NARRATION_TOOL.tool, PICKUP_ITEM_NARRATION_TOOL.validateArgs, "Invalid pickup narration structure", "narrateAndConfirmPickup", 1, { service: 'narrateAndConfirmPickup', signal });
   return { narration: result.narration, pickedUpItem: item };
 };
 
-export const ITEM_USAGE_EFFECT_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "determine_item_usage_effect", description: "Determines effect of using an item. Considers item properties, rarity (Epic/Legendary known items significant), character skills, targeted limb, memory context, game setting/universe. Provides narration, specifies changes. If targetLimbName NOT provided, isEquippedToLimb MUST be false. New visual prompt hint for item must be style-agnostic for the item itself if it changes.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        narration: { type: Type.STRING, description: "Engaging narration (1-3 sentences, player's perspective 'You'). Impact/tone reflects item rarity, skills, memory context (INCLUDING IF CURRENTLY IN DIALOGUE WITH AN NPC), game setting/universe. Use of Epic/Legendary significant. If in dialogue, the narration should make sense in that context (e.g., player's action is visible to NPC)." },
-        itemConsumed: { type: Type.BOOLEAN, description: "Boolean indicating if item consumed." },
-        isEquippedToLimb: { type: Type.BOOLEAN, nullable: true, description: "True if item equipped/worn/wielded. False if one-time use, not attached, or no targetLimbName. If true, item ADDED to limb's equipped items." },
-        itemNewName: { type: Type.STRING, nullable: true, description: "New name if item changes. Null if unchanged." },
-        itemNewDescription: { type: Type.STRING, nullable: true, description: "New description if item changes. Null if unchanged." },
-        itemNewVisualPromptHint: { type: Type.STRING, nullable: true, description: "New STYLE-AGNOSTIC visual prompt for THE ITEM ITSELF if its appearance changes (e.g. 'a now cracked orb', 'a dagger glowing faintly'). Null if appearance unchanged. Focus on item, not background." },
-        overallHealthChange: { type: Type.NUMBER, nullable: true, description: "Change in overall health. Magnitude reflects item rarity, skills, game setting/universe." },
-        energyChange: { type: Type.NUMBER, nullable: true, description: "Change in energy. Magnitude reflects item rarity, skills, game setting/universe." },
-        limbStatusChanges: { type: Type.ARRAY, nullable: true, description: "Array of changes to limb status/health. If limb targeted, primary effect here. Magnitude/type reflects item rarity, skills. 'newHealth' absolute (0-100).",
-          items: { type: Type.OBJECT, properties: { limbName: { type: Type.STRING }, newStatus: { type: Type.STRING }, newHealth: { type: Type.NUMBER } }, required: ["limbName", "newStatus", "newHealth"] } },
-        xpGain: { type: Type.OBJECT, nullable: true, description: "Optional skill XP gain. Null if no XP.", properties: { skillName: {type: Type.STRING}, amount: {type: Type.NUMBER} }, required: ["skillName", "amount"] }
-      },
-      required: ["narration", "itemConsumed"],
-    },
-  } as FunctionDeclaration],
-};
-type ItemUsageEffectFromTool = { narration: string; itemConsumed: boolean; isEquippedToLimb?: boolean | null; itemNewName?: string | null; itemNewDescription?: string | null; itemNewVisualPromptHint?: string | null; overallHealthChange?: number | null; energyChange?: number | null; limbStatusChanges?: { limbName: string; newStatus: string; newHealth: number; }[] | null; xpGain?: { skillName: string; amount: number } | null; };
-
-const validateItemUsageEffectStructure = (data: any): data is ItemUsageEffectFromTool => {
-  return data && typeof data.narration === 'string' && data.narration.trim() !== '' && typeof data.itemConsumed === 'boolean' &&
-    (data.isEquippedToLimb === undefined || data.isEquippedToLimb === null || typeof data.isEquippedToLimb === 'boolean') &&
-    (data.itemNewName === undefined || data.itemNewName === null || typeof data.itemNewName === 'string') &&
-    (data.itemNewDescription === undefined || data.itemNewDescription === null || typeof data.itemNewDescription === 'string') &&
-    (data.itemNewVisualPromptHint === undefined || data.itemNewVisualPromptHint === null || typeof data.itemNewVisualPromptHint === 'string') &&
-    (data.overallHealthChange === undefined || data.overallHealthChange === null || typeof data.overallHealthChange === 'number') &&
-    (data.energyChange === undefined || data.energyChange === null || typeof data.energyChange === 'number') &&
-    (data.limbStatusChanges === undefined || data.limbStatusChanges === null || (Array.isArray(data.limbStatusChanges) && data.limbStatusChanges.every((change: any) => change && typeof change.limbName === 'string' && typeof change.newStatus === 'string' && typeof change.newHealth === 'number' && change.newHealth >= 0 && change.newHealth <= 100 ))) &&
-    (data.xpGain === undefined || data.xpGain === null || (typeof data.xpGain === 'object' && data.xpGain.skillName && typeof data.xpGain.skillName === 'string' && typeof data.xpGain.amount === 'number'));
-};
+export const ITEM_USAGE_EFFECT_TOOL = defineTool({
+  name: "determine_item_usage_effect", description: "Determines effect of using an item. Considers item properties, rarity (Epic/Legendary known items significant), character skills, targeted limb, memory context, game setting/universe. Provides narration, specifies changes. If targetLimbName NOT provided, isEquippedToLimb MUST be false. New visual prompt hint for item must be style-agnostic for the item itself if it changes.",
+  parameters: object({
+    narration: string("Engaging narration (1-3 sentences, player's perspective 'You'). Impact/tone reflects item rarity, skills, memory context (INCLUDING IF CURRENTLY IN DIALOGUE WITH AN NPC), game setting/universe. Use of Epic/Legendary significant. If in dialogue, the narration should make sense in that context (e.g., player's action is visible to NPC).", { nonEmpty: true }),
+    itemConsumed: boolean("Boolean indicating if item consumed."),
+    isEquippedToLimb: optional(nullable(boolean("True if item equipped/worn/wielded. False if one-time use, not attached, or no targetLimbName. If true, item ADDED to limb's equipped items."))),
+    itemNewName: optional(nullable(string("New name if item changes. Null if unchanged."))),
+    itemNewDescription: optional(nullable(string("New description if item changes. Null if unchanged."))),
+    itemNewVisualPromptHint: optional(nullable(string("New STYLE-AGNOSTIC visual prompt for THE ITEM ITSELF if its appearance changes (e.g. 'a now cracked orb', 'a dagger glowing faintly'). Null if appearance unchanged. Focus on item, not background."))),
+    overallHealthChange: optional(nullable(number("Change in overall health. Magnitude reflects item rarity, skills, game setting/universe."))),
+    energyChange: optional(nullable(number("Change in energy. Magnitude reflects item rarity, skills, game setting/universe."))),
+    limbStatusChanges: optional(nullable(array(object({ limbName: string(), newStatus: string(), newHealth: number() }), "Array of changes to limb status/health. If limb targeted, primary effect here. Magnitude/type reflects item rarity, skills. 'newHealth' absolute (0-100)."))),
+    xpGain: optional(nullable(object({ skillName: string(undefined, { nonEmpty: true }), amount: number() }, "Optional skill XP gain. Null if no XP."))),
+  }),
+  refine: ({ limbStatusChanges }) => (limbStatusChanges ?? [])
+    .map((change, i) => change.newHealth >= 0 && change.newHealth <= 100 ? null : `limbStatusChanges[${i}].newHealth: expected 0-100, got ${change.newHealth}`)
+    .filter((issue): issue is string => issue !== null),
+});
 
 export const determineItemUsageEffect = async (
-  itemUsed: GameItem, character: CharacterData, targetLimbNameParam?: string, memoryContextString: string = ""
+  itemUsed: GameItem, character: CharacterData, targetLimbNameParam?: string, memoryContextString: string = "", signal?: AbortSignal
 ): Promise<ItemUsageOutcome> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   const charSkillsStr = formatSkillsForLLM(character.skills);
@@ -118,7 +101,7 @@ Task: Determine the effects of using this item.
 CRITICAL: You MUST invoke tool 'determine_item_usage_effect'. Arguments MUST adhere strictly to schema.
 DO NOT output details as text/JSON. Tool call is ONLY valid way.`;
 
-  const result = await callLLMWithToolAndValidateArgs(prompt, ITEM_USAGE_EFFECT_TOOL, validateItemUsageEffectStructure, "Invalid item usage effect structure (check effects align with rarity, type, skills, health/energy values, memory context, setting/universe consistency)", "determineItemUsageEffect");
+  const result = await callLLMWithToolAndValidateArgs(prompt, ITEM_USAGE_EFFECT_TOOL.tool, ITEM_USAGE_EFFECT_TOOL.validateArgs, "Invalid item usage effect structure (check effects align with rarity, type, skills, health/energy values, memory context, setting/universe consistency)", "determineItemUsageEffect", 1, { service: 'determineItemUsageEffect', signal });
   return {
     narration: result.narration,
     itemEffect: { consumed: result.itemConsumed, isEquippedToLimb: result.isEquippedToLimb || false, newNameIfChanged: result.itemNewName || null, newDescriptionIfChanged: result.itemNewDescription || null, newVisualPromptHintIfChanged: result.itemNewVisualPromptHint || null },
@@ -129,7 +112,8 @@ DO NOT output details as text/JSON. Tool call is ONLY valid way.`;
 export const elaborateOnItemDescription = async (
   item: GameItem, characterData: CharacterData,
   currentLocationKey: string,
-  memoryContextString: string = ""
+  memoryContextString: string = "",
+  signal?: AbortSignal
 ): Promise<ProcessedTextWithDiscoveries> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   const perceptionSkill = characterData.skills.find(s => s.name === 'Perception'); const perceptionLevel = perceptionSkill?.level || 0;
@@ -175,8 +159,7 @@ ${memoryContextString}
 Task: ${elaborationInstruction} ${settingSpecificElaborationInstruction} Output ONLY rich, descriptive factual text. No markdown. No player thoughts/feelings.
 If you mention any specific named items, people, or locations that sound important, unique, or part of a legend/quest, make a mental note but DO NOT use any special formatting or markup in your direct speech output. The game system will handle identifying these hints separately.`;
   try {
-    const response = await ai.models.generateContent({ model: TEXT_MODEL_NAME, contents: prompt });
-    const rawItemElaborationText = response.text;
+    const rawItemElaborationText = await generateLLMText(prompt, { cacheAs: 'elaborateOnItemDescription', priority: 'background', signal });
     if (rawItemElaborationText?.trim()) {
       const loreProcessingResult: ProcessedTextWithDiscoveries = await identifyPotentialDiscoveriesInText(
         rawItemElaborationText,
@@ -184,48 +167,36 @@ If you mention any specific named items, people, or locations that sound importa
         item.id,
         characterData,
         currentLocationKey,
-        memoryContextString
+        memoryContextString,
+        signal
       );
       return loreProcessingResult;
     }
-    console.warn(`Elaboration for ${item.name} resulted in empty response.`, response);
+    console.warn(`Elaboration for ${item.name} resulted in empty response.`);
     const fallbackText = "Further examination reveals no additional significant details.";
     return { processedText: fallbackText, rawText: fallbackText, potentialDiscoveries: [] };
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error(`Error elaborating on item ${item.name}:`, error);
     const errorText = `Error recalling more about ${item.name}. Details hazy. (Error: ${error.message || 'Unknown'})`;
     return { processedText: errorText, rawText: errorText, potentialDiscoveries: [] };
   }
 };
 
-export const IDENTIFY_ITEM_IN_INVENTORY_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "select_item_from_inventory_by_phrase",
-    description: "Given a player's textual phrase referring to an item and a list of items in their inventory, selects the single best matching item ID. Considers item names, types, descriptions, and context (player skills, recent actions/dialogue in memory).",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        matchedItemId: {
-          type: Type.STRING,
-          nullable: true,
-          description: "The ID of the item in the inventory that best matches the player's phrase. Null if no clear match or if the phrase is too ambiguous given the inventory contents."
-        },
-      },
-      required: ["matchedItemId"]
-    }
-  } as FunctionDeclaration]
-};
-
-type IdentifyItemToolOutput = { matchedItemId: string | null };
-const validateIdentifyItemToolOutput = (data: any): data is IdentifyItemToolOutput => {
-  return data && (data.matchedItemId === null || typeof data.matchedItemId === 'string');
-};
+export const IDENTIFY_ITEM_IN_INVENTORY_TOOL = defineTool({
+  name: "select_item_from_inventory_by_phrase",
+  description: "Given a player's textual phrase referring to an item and a list of items in their inventory, selects the single best matching item ID. Considers item names, types, descriptions, and context (player skills, recent actions/dialogue in memory).",
+  parameters: object({
+    matchedItemId: nullable(string("The ID of the item in the inventory that best matches the player's phrase. Null if no clear match or if the phrase is too ambiguous given the inventory contents.")),
+  }),
+});
 
 export const identifyItemInInventoryByName = async (
   itemNamePhrase: string,
   inventory: GameItem[],
   character: CharacterData,
-  memoryContext: string
+  memoryContext: string,
+  signal?: AbortSignal
 ): Promise<GameItem | null> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   if (inventory.length === 0) return null;
@@ -255,10 +226,12 @@ Provide the ID of the best-matched item.
 
   const result = await callLLMWithToolAndValidateArgs(
     prompt,
-    IDENTIFY_ITEM_IN_INVENTORY_TOOL,
-    validateIdentifyItemToolOutput,
+    IDENTIFY_ITEM_IN_INVENTORY_TOOL.tool,
+    IDENTIFY_ITEM_IN_INVENTORY_TOOL.validateArgs,
     "Invalid item identification structure from LLM.",
-    "identifyItemInInventoryByName"
+    "identifyItemInInventoryByName",
+    1,
+    { cacheAs: 'identifyItemInInventoryByName', signal }
   );
 
   if (result.matchedItemId) {
@@ -0,0 +1,85 @@
+// services/llm/geminiProvider.ts
+import { GoogleGenAI, GenerateContentResponse, Content } from "@google/genai";
+import { LlmProvider, LlmFunctionCall, LlmTokenUsage, LlmChatMessage } from './llmProvider';
+
+export interface GeminiProviderConfig {
+  apiKey: string | undefined;
+  textModel: string;
+  imageModel: string;
+}
+
+const reportUsage = (response: GenerateContentResponse, onUsage?: (usage: LlmTokenUsage) => void) => {
+  const metadata = response.usageMetadata;
+  if (!onUsage || !metadata) return;
+  onUsage({ promptTokens: metadata.promptTokenCount ?? 0, responseTokens: metadata.candidatesTokenCount ?? 0 });
+};
+
+const toContents = (prompt: string, history?: LlmChatMessage[]): Content[] => [
+  ...(history || []).map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+  { role: "user", parts: [{ text: prompt }] },
+];
+
+export const createGeminiProvider = (config: GeminiProviderConfig): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey || "MISSING_API_KEY" });
+
+  return {
+    id: 'gemini',
+    textModel: config.textModel,
+    imageModel: config.imageModel,
+
+    async generateText({ prompt, systemInstruction, history, onUsage, signal }) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: config.textModel,
+        contents: toContents(prompt, history),
+        config: { ...(systemInstruction ? { systemInstruction } : {}), abortSignal: signal },
+      });
+      reportUsage(response, onUsage);
+      return response.text ?? "";
+    },
+
+    async generateToolCall({ prompt, tool, history, onUsage, signal }) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: config.textModel,
+        contents: toContents(prompt, history),
+        config: {
+          tools: [tool],
+          abortSignal: signal,
+        }
+      });
+      reportUsage(response, onUsage);
+
+      const parts = response.candidates?.[0]?.content?.parts;
+      if (!parts || parts.length === 0) {
+        throw new Error("No parts received from API.");
+      }
+      const functionCallPart = parts.find(part => !!part.functionCall);
+      if (!functionCallPart?.functionCall?.args) return null;
+
+      const call: LlmFunctionCall = {
+        name: functionCallPart.functionCall.name || "",
+        args: functionCallPart.functionCall.args,
+      };
+      return call;
+    },
+
+    async generateJsonText({ prompt, history, onUsage, signal }) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: config.textModel,
+        contents: toContents(prompt, history),
+        config: { responseMimeType: "application/json", abortSignal: signal }
+      });
+      reportUsage(response, onUsage);
+      return response.text ?? "";
+    },
+
+    async generateImage({ prompt, outputMimeType, signal }) {
+      const response = await ai.models.generateImages({
+        model: config.imageModel,
+        prompt,
+        config: { numberOfImages: 1, outputMimeType, abortSignal: signal },
+      });
+      const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+      return imageBytes ? `data:${outputMimeType};base64,${imageBytes}` : null;
+    },
+  };
+};
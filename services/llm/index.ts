@@ -0,0 +1,14 @@
+// services/llm/index.ts
+export * from './llmProvider';
+export * from './llmConfig';
+export * from './llmSettings';
+export * from './llmCache';
+export * from './llmUsage';
+export * from './llmTrace';
+export * from './requestScheduler';
+export * from './toolSchema';
+export * from './geminiProvider';
+export * from './openAiCompatibleProvider';
+export * from './proxyProvider';
+export * from './mockProvider';
+export * from './mockFixtures';
@@ -0,0 +1,231 @@
+// services/llm/llmCache.ts
+// Content-addressed cache for LLM responses. Entries are keyed on a SHA-256 of everything that
+// shapes the answer (provider, model, prompt, tool schema, validator), so a changed prompt or
+// schema simply misses. Only services listed in the policy table are ever cached.
+import { sha256Hex } from '../utils/hashUtils';
+
+export type LlmCacheKind = 'text' | 'tool' | 'json';
+
+export interface LlmCacheKeyParts {
+  kind: LlmCacheKind;
+  providerId: string;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  history?: unknown;
+  tool?: unknown;
+  validatorId?: string; // Name of the structure validator - bumping its logic should also rename it
+}
+
+export interface LlmCacheEntry {
+  value: unknown;
+  service: string;
+  storedAt: number;
+  expiresAt: number | null; // null never expires
+}
+
+export interface LlmCacheStore {
+  get(key: string): Promise<LlmCacheEntry | null>;
+  set(key: string, entry: LlmCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface LlmCachePolicy {
+  ttlMs: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Per-service opt-in. A service that is not listed here is never cached, even when it asks to be.
+export const DEFAULT_LLM_CACHE_POLICIES: Record<string, LlmCachePolicy> = {
+  elaborateOnItemDescription: { ttlMs: 7 * DAY_MS },
+  elaborateOnNpcDescription: { ttlMs: 7 * DAY_MS },
+  elaborateOnLocationDescription: { ttlMs: 7 * DAY_MS },
+  identifyPotentialDiscoveriesInText: { ttlMs: 7 * DAY_MS },
+  identifyItemInInventoryByName: { ttlMs: DAY_MS },
+};
+
+export interface LlmCacheConfig {
+  enabled: boolean;
+  bypass: boolean;     // Debug switch: skip reads and writes without touching stored entries
+  directory: string;   // Node only - where the file store keeps its entries
+  policies: Record<string, LlmCachePolicy>;
+}
+
+export const DEFAULT_LLM_CACHE_DIRECTORY = '.lostworld-cache/llm';
+export const LLM_CACHE_BYPASS_STORAGE_KEY = 'lostworld_llm_cache_bypass';
+
+const isTruthyFlag = (value: string | undefined): boolean => !!value && ['1', 'true', 'on', 'yes'].includes(value.toLowerCase());
+const isFalsyFlag = (value: string | undefined): boolean => !!value && ['0', 'false', 'off', 'no'].includes(value.toLowerCase());
+
+const readStoredBypassFlag = (): boolean => {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage.getItem(LLM_CACHE_BYPASS_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+// Values are injected at build time by vite.config.ts. The mock provider is already free and
+// deterministic, so caching is off for it unless LLM_CACHE asks for it explicitly.
+export const getLlmCacheConfigFromEnv = (providerId: string): LlmCacheConfig => {
+  const requested = process.env.LLM_CACHE;
+  const enabled = isTruthyFlag(requested) || (!isFalsyFlag(requested) && providerId !== 'mock');
+  return {
+    enabled,
+    bypass: isTruthyFlag(process.env.LLM_CACHE_BYPASS) || readStoredBypassFlag(),
+    directory: process.env.LLM_CACHE_DIR || DEFAULT_LLM_CACHE_DIRECTORY,
+    policies: DEFAULT_LLM_CACHE_POLICIES,
+  };
+};
+
+// Object keys are sorted so two structurally equal tool schemas always hash the same.
+const stableStringify = (value: unknown): string => {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+};
+
+export const computeLlmCacheKey = (parts: LlmCacheKeyParts): Promise<string> => sha256Hex(stableStringify(parts));
+
+// --- Stores ---
+
+export const createMemoryCacheStore = (): LlmCacheStore => {
+  const entries = new Map<string, LlmCacheEntry>();
+  return {
+    async get(key) { return entries.get(key) ?? null; },
+    async set(key, entry) { entries.set(key, entry); },
+    async delete(key) { entries.delete(key); },
+    async clear() { entries.clear(); },
+  };
+};
+
+const INDEXED_DB_STORE_NAME = 'responses';
+
+export const createIndexedDbCacheStore = (databaseName: string = 'lostworld-llm-cache'): LlmCacheStore => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(INDEXED_DB_STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return databasePromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = action(database.transaction(INDEXED_DB_STORE_NAME, mode).objectStore(INDEXED_DB_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async get(key) { return (await run<LlmCacheEntry | undefined>('readonly', store => store.get(key))) ?? null; },
+    async set(key, entry) { await run('readwrite', store => store.put(entry, key)); },
+    async delete(key) { await run('readwrite', store => store.delete(key)); },
+    async clear() { await run('readwrite', store => store.clear()); },
+  };
+};
+
+// One JSON file per key. The fs module is loaded lazily so browser bundles never pull it in.
+export const createFileCacheStore = (directory: string): LlmCacheStore => {
+  const fsModuleName = 'node:fs/promises';
+  const loadFs = (): Promise<typeof import('node:fs/promises')> => import(/* @vite-ignore */ fsModuleName);
+  const filePath = (key: string) => `${directory}/${key}.json`;
+
+  return {
+    async get(key) {
+      const fs = await loadFs();
+      try {
+        return JSON.parse(await fs.readFile(filePath(key), 'utf8')) as LlmCacheEntry;
+      } catch {
+        return null; // Missing or unreadable entries are plain misses
+      }
+    },
+    async set(key, entry) {
+      const fs = await loadFs();
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(filePath(key), JSON.stringify(entry), 'utf8');
+    },
+    async delete(key) {
+      const fs = await loadFs();
+      await fs.rm(filePath(key), { force: true });
+    },
+    async clear() {
+      const fs = await loadFs();
+      await fs.rm(directory, { recursive: true, force: true });
+    },
+  };
+};
+
+// IndexedDB in the browser, the file system under Node, memory anywhere else.
+export const createDefaultCacheStore = (config: LlmCacheConfig): LlmCacheStore => {
+  if (typeof indexedDB !== 'undefined') return createIndexedDbCacheStore();
+  if (typeof process !== 'undefined' && process.versions?.node) return createFileCacheStore(config.directory);
+  return createMemoryCacheStore();
+};
+
+// --- Cache ---
+
+export interface LlmResponseCache {
+  isBypassed(): boolean;
+  setBypass(bypass: boolean): void;
+  // Returns undefined on a miss, or when the stored value no longer passes `accept`.
+  lookup<T>(service: string, parts: LlmCacheKeyParts, accept: (value: unknown) => value is T): Promise<T | undefined>;
+  remember(service: string, parts: LlmCacheKeyParts, value: unknown): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Storage failures never break a game: the cache just degrades to a miss and logs a warning.
+export const createLlmResponseCache = (config: LlmCacheConfig, store: LlmCacheStore = createDefaultCacheStore(config)): LlmResponseCache => {
+  let bypass = config.bypass;
+  const isActiveFor = (service: string) => config.enabled && !bypass && !!config.policies[service];
+
+  return {
+    isBypassed: () => bypass,
+    setBypass(next) { bypass = next; },
+
+    async lookup(service, parts, accept) {
+      if (!isActiveFor(service)) return undefined;
+      try {
+        const key = await computeLlmCacheKey(parts);
+        const entry = await store.get(key);
+        if (!entry) return undefined;
+        if ((entry.expiresAt !== null && entry.expiresAt <= Date.now()) || !accept(entry.value)) {
+          await store.delete(key);
+          return undefined;
+        }
+        return entry.value as any;
+      } catch (error: any) {
+        console.warn(`LLM cache read failed for ${service}: ${error?.message || error}`);
+        return undefined;
+      }
+    },
+
+    async remember(service, parts, value) {
+      if (!isActiveFor(service)) return;
+      const { ttlMs } = config.policies[service];
+      const storedAt = Date.now();
+      try {
+        const key = await computeLlmCacheKey(parts);
+        await store.set(key, { value, service, storedAt, expiresAt: ttlMs === null ? null : storedAt + ttlMs });
+      } catch (error: any) {
+        console.warn(`LLM cache write failed for ${service}: ${error?.message || error}`);
+      }
+    },
+
+    clear: () => store.clear(),
+  };
+};
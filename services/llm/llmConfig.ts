@@ -0,0 +1,94 @@
+// services/llm/llmConfig.ts
+import { LlmProvider, LlmProviderId } from './llmProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+
+export const DEFAULT_GEMINI_TEXT_MODEL = 'gemini-2.5-flash-preview-04-17';
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'imagen-3.0-generate-002';
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_TEXT_MODEL = 'gpt-4o-mini';
+export const DEFAULT_OPENAI_IMAGE_MODEL = 'dall-e-3';
+export const DEFAULT_LLM_PROXY_URL = 'http://localhost:3001';
+
+// 'direct' calls the provider from this process with the key built into it. 'proxy' sends every
+// call to the server in server/ instead, which holds the key and calls the provider itself.
+export type LlmTransport = 'direct' | 'proxy';
+
+export interface LlmConfig {
+  provider: LlmProviderId;
+  apiKey: string | undefined;
+  textModel: string;
+  imageModel: string;
+  baseUrl?: string; // Only used by the OpenAI-compatible provider
+  transport: LlmTransport;
+  proxyUrl: string; // Only used by the proxy transport
+}
+
+const isKnownProviderId = (value: any): value is LlmProviderId =>
+  value === 'gemini' || value === 'openai-compatible' || value === 'mock';
+
+const getProviderConfigFromEnv = (): Omit<LlmConfig, 'transport' | 'proxyUrl'> => {
+  const requestedProvider = process.env.LLM_PROVIDER;
+  const provider: LlmProviderId = isKnownProviderId(requestedProvider) ? requestedProvider : 'gemini';
+  if (requestedProvider && !isKnownProviderId(requestedProvider)) {
+    console.warn(`Unknown LLM_PROVIDER "${requestedProvider}". Falling back to Gemini.`);
+  }
+
+  if (provider === 'mock') {
+    // Services bail out early when no key is set, so hand them a dummy one.
+    return {
+      provider,
+      apiKey: process.env.API_KEY || 'offline-mock',
+      textModel: 'mock-text',
+      imageModel: 'mock-image',
+    };
+  }
+  if (provider === 'openai-compatible') {
+    return {
+      provider,
+      apiKey: process.env.API_KEY,
+      textModel: process.env.LLM_TEXT_MODEL || DEFAULT_OPENAI_TEXT_MODEL,
+      imageModel: process.env.LLM_IMAGE_MODEL || DEFAULT_OPENAI_IMAGE_MODEL,
+      baseUrl: process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    };
+  }
+  return {
+    provider,
+    apiKey: process.env.API_KEY,
+    textModel: process.env.LLM_TEXT_MODEL || DEFAULT_GEMINI_TEXT_MODEL,
+    imageModel: process.env.LLM_IMAGE_MODEL || DEFAULT_GEMINI_IMAGE_MODEL,
+  };
+};
+
+// Values are injected at build time by vite.config.ts (see README / .env.local).
+export const getLlmConfigFromEnv = (): LlmConfig => ({
+  ...getProviderConfigFromEnv(),
+  transport: process.env.LLM_TRANSPORT === 'proxy' ? 'proxy' : 'direct',
+  proxyUrl: process.env.LLM_PROXY_URL || DEFAULT_LLM_PROXY_URL,
+});
+
+export const createLlmProvider = (config: LlmConfig): LlmProvider => {
+  if (config.transport === 'proxy') {
+    return createProxyProvider({ baseUrl: config.proxyUrl, textModel: config.textModel, imageModel: config.imageModel });
+  }
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl || DEFAULT_OPENAI_BASE_URL,
+        textModel: config.textModel,
+        imageModel: config.imageModel,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider({
+        apiKey: config.apiKey,
+        textModel: config.textModel,
+        imageModel: config.imageModel,
+      });
+  }
+};
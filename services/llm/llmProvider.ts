@@ -0,0 +1,66 @@
+// services/llm/llmProvider.ts
+import { Tool } from "@google/genai";
+
+// Tool definitions stay in the Gemini `Tool` shape everywhere in the codebase.
+// Providers for other backends are responsible for translating them.
+
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface LlmChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+// Every request may carry a usage callback. Providers that learn token counts (from usage
+// metadata in the response) report them through it; the others simply never call it.
+// An aborted signal makes the provider stop waiting and reject with an AbortError.
+interface LlmRequestBase {
+  onUsage?: (usage: LlmTokenUsage) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmTextRequest extends LlmRequestBase {
+  prompt: string;
+  systemInstruction?: string;
+  history?: LlmChatMessage[]; // Prior turns for chat-style calls (NPC dialogue)
+}
+
+export interface LlmToolCallRequest extends LlmRequestBase {
+  prompt: string;
+  tool: Tool;
+  history?: LlmChatMessage[]; // Prior turns, e.g. the original request and a rejected answer before a correction
+}
+
+export interface LlmJsonRequest extends LlmRequestBase {
+  prompt: string;
+  history?: LlmChatMessage[]; // As for tool calls
+}
+
+export interface LlmImageRequest extends LlmRequestBase {
+  prompt: string;
+  outputMimeType: 'image/jpeg' | 'image/png';
+}
+
+export interface LlmFunctionCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId | string;
+  readonly textModel: string;
+  readonly imageModel: string;
+  // Plain text completion. Returns the raw text (may be empty).
+  generateText(request: LlmTextRequest): Promise<string>;
+  // Forces a function call against the given tool. Returns null if the model answered without calling it.
+  generateToolCall(request: LlmToolCallRequest): Promise<LlmFunctionCall | null>;
+  // JSON mode. Returns the raw response text, code fences and all - callers parse it.
+  generateJsonText(request: LlmJsonRequest): Promise<string>;
+  // Returns a data URL (e.g. "data:image/png;base64,...") or null if no image came back.
+  generateImage(request: LlmImageRequest): Promise<string | null>;
+}
@@ -0,0 +1,65 @@
+// services/llm/llmSettings.ts
+// Player-chosen overrides of the build-time LLM config: a key pasted into the settings screen,
+// other models, and a switch for image generation. Stored in localStorage, so they stay on this
+// device; under Node nothing is stored and the build-time config is used as is.
+import { LlmConfig } from './llmConfig';
+
+export const LLM_SETTINGS_STORAGE_KEY = 'lostworld_llm_settings';
+
+export interface LlmUserSettings {
+  apiKey: string;      // '' keeps the build-time key
+  textModel: string;   // '' keeps the build-time / provider default model
+  imageModel: string;
+  imagesEnabled: boolean;
+}
+
+export const DEFAULT_LLM_USER_SETTINGS: LlmUserSettings = { apiKey: '', textModel: '', imageModel: '', imagesEnabled: true };
+
+// Offered in the settings screen; any other model name can still be typed in.
+export const SUGGESTED_LLM_MODELS: Record<string, { text: string[]; image: string[] }> = {
+  gemini: {
+    text: ['gemini-2.5-flash-preview-04-17', 'gemini-2.5-pro-preview-05-06', 'gemini-2.0-flash', 'gemini-2.0-flash-lite'],
+    image: ['imagen-3.0-generate-002'],
+  },
+  'openai-compatible': {
+    text: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini'],
+    image: ['dall-e-3', 'gpt-image-1'],
+  },
+  mock: { text: ['mock-text'], image: ['mock-image'] },
+};
+
+export const loadLlmUserSettings = (): LlmUserSettings => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LLM_SETTINGS_STORAGE_KEY) : null;
+    if (!stored) return DEFAULT_LLM_USER_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      apiKey: typeof parsed.apiKey === 'string' ? parsed.apiKey : '',
+      textModel: typeof parsed.textModel === 'string' ? parsed.textModel : '',
+      imageModel: typeof parsed.imageModel === 'string' ? parsed.imageModel : '',
+      imagesEnabled: parsed.imagesEnabled !== false,
+    };
+  } catch {
+    // Unreadable or unavailable storage (private mode, Node) - fall back to the build-time config.
+    return DEFAULT_LLM_USER_SETTINGS;
+  }
+};
+
+export const saveLlmUserSettings = (settings: LlmUserSettings): void => {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // The settings still apply to this session.
+  }
+};
+
+// A pasted key means calling the provider directly with it, even if the build uses the proxy.
+export const applyLlmUserSettings = (config: LlmConfig, settings: LlmUserSettings): LlmConfig => {
+  const apiKey = settings.apiKey.trim();
+  return {
+    ...config,
+    ...(apiKey ? { apiKey, transport: 'direct' as const } : {}),
+    textModel: settings.textModel.trim() || config.textModel,
+    imageModel: settings.imageModel.trim() || config.imageModel,
+  };
+};
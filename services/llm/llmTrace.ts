@@ -0,0 +1,213 @@
+// services/llm/llmTrace.ts
+// A request/response log for debugging prompts. geminiClient records one entry per provider
+// attempt (and per cache hit) with the outcome of validation; the game log links the entries
+// to the log lines they produced. A trace exported as JSONL can be fed back through
+// createReplayProvider to reproduce a session without calling a model.
+import { LlmProvider, LlmChatMessage, LlmFunctionCall } from './llmProvider';
+import { LlmCallKind } from './llmUsage';
+
+// accepted/repaired: the answer was used (repaired after the repair pass). rejected: the model
+// answered but validation failed. failed: no usable answer (network error, rate limit, budget).
+// cached: served from the response cache or image store without a provider call.
+export type LlmTraceOutcome = 'accepted' | 'repaired' | 'rejected' | 'failed' | 'aborted' | 'cached';
+
+export interface LlmTraceRequest {
+  prompt: string;
+  history?: LlmChatMessage[];
+  systemInstruction?: string;
+  toolName?: string;
+  outputMimeType?: 'image/jpeg' | 'image/png';
+}
+
+// Exactly one field is set, matching the kind: functionCall for tool calls, text for text and
+// JSON calls, imageRef for images. Images are kept as their store ref, never as data.
+export interface LlmTraceResponse {
+  functionCall?: LlmFunctionCall | null;
+  text?: string;
+  imageRef?: string | null;
+}
+
+export interface LlmTraceLogLink {
+  id: string;
+  type: string; // GameLogEntry['type']
+  text: string;
+}
+
+export interface LlmTraceEntry {
+  id: string;
+  timestamp: number;
+  service: string;        // Accounting name, as in LlmCallRecord
+  context: string;        // The caller's full context, e.g. "checkIfSimilarLeadExists (New Lead: X)"
+  kind: LlmCallKind;
+  attempt: number;        // 0 for the first try, then one per retry
+  providerId: string;
+  model: string;
+  request: LlmTraceRequest;
+  response: LlmTraceResponse | null; // null when the provider never answered
+  outcome: LlmTraceOutcome;
+  issues: string[];       // Validation issues for 'rejected', the error message for 'failed'
+  durationMs: number;
+  logEntries: LlmTraceLogLink[]; // Game log lines written after this call, see linkLogEntry
+}
+
+export interface LlmTraceConfig {
+  enabled: boolean;
+}
+
+const MAX_KEPT_ENTRIES = 500;
+
+// Values are injected at build time by vite.config.ts. Tracing is on unless LLM_TRACE=off.
+export const getLlmTraceConfigFromEnv = (): LlmTraceConfig => ({
+  enabled: process.env.LLM_TRACE !== 'off',
+});
+
+export interface LlmTraceRecorder {
+  record(entry: Omit<LlmTraceEntry, 'id' | 'logEntries'>): void;
+  getEntries(): ReadonlyArray<LlmTraceEntry>;
+  // Links the entries recorded since the previous log entry to this one. Log lines that follow
+  // without another call in between (a narration, then its game events) join the same entries,
+  // until the player's next command starts a new turn.
+  linkLogEntry(logEntry: LlmTraceLogLink): void;
+  isEnabled(): boolean;
+  setEnabled(enabled: boolean): void;
+  toJsonl(): string;
+  clear(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export const createLlmTraceRecorder = (config: LlmTraceConfig): LlmTraceRecorder => {
+  let entries: LlmTraceEntry[] = [];
+  let unlinked: LlmTraceEntry[] = [];
+  let lastLinked: LlmTraceEntry[] = [];
+  let enabled = config.enabled;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  return {
+    record(entry) {
+      if (!enabled) return;
+      const traced: LlmTraceEntry = { ...entry, id: crypto.randomUUID(), logEntries: [] };
+      entries.push(traced);
+      if (entries.length > MAX_KEPT_ENTRIES) entries = entries.slice(-MAX_KEPT_ENTRIES);
+      unlinked.push(traced);
+      notify();
+    },
+
+    getEntries: () => entries,
+
+    linkLogEntry(logEntry) {
+      if (logEntry.type === 'command') {
+        // Calls that finished without writing to the log (background work) stay unlinked.
+        unlinked = [];
+        lastLinked = [];
+        return;
+      }
+      const targets = unlinked.length > 0 ? unlinked : lastLinked;
+      if (targets.length === 0) return;
+      targets.forEach(entry => entry.logEntries.push(logEntry));
+      if (unlinked.length > 0) {
+        lastLinked = unlinked;
+        unlinked = [];
+      }
+      notify();
+    },
+
+    isEnabled: () => enabled,
+    setEnabled(next) {
+      enabled = next;
+      notify();
+    },
+
+    toJsonl: () => entries.map(entry => JSON.stringify(entry)).join('\n'),
+
+    clear() {
+      entries = [];
+      unlinked = [];
+      lastLinked = [];
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+// Reads a trace written by toJsonl. Blank lines are skipped; anything else that is not an entry throws.
+export const parseLlmTraceJsonl = (jsonl: string): LlmTraceEntry[] =>
+  jsonl.split('\n').flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (e: any) {
+      throw new Error(`Trace line ${index + 1} is not valid JSON: ${e.message}`);
+    }
+    if (!entry || typeof entry.kind !== 'string' || typeof entry.request?.prompt !== 'string' || typeof entry.outcome !== 'string') {
+      throw new Error(`Trace line ${index + 1} is not an LLM trace entry.`);
+    }
+    return [{ ...entry, logEntries: entry.logEntries ?? [], issues: entry.issues ?? [] } as LlmTraceEntry];
+  });
+
+export interface LlmReplayProvider extends LlmProvider {
+  remaining(): number; // Recorded answers not handed out yet
+}
+
+const replayKey = (kind: LlmCallKind, request: LlmTraceRequest): string =>
+  JSON.stringify([kind, request.toolName ?? null, request.systemInstruction ?? null, request.history ?? [], request.outputMimeType ?? null, request.prompt]);
+
+// Answers every request with the recorded response for the same request, in recorded order.
+// When the session drifts (a prompt with a random pick, a different command), the next unused
+// answer of the same kind and tool is used instead, with a warning. Recorded failures are
+// replayed as errors, so retries happen where they happened before. The provider takes the
+// recorded id and models, so cache keys and image store refs match the original session;
+// turn the response cache off while replaying, or cache hits will skip recorded answers.
+export const createReplayProvider = (entries: ReadonlyArray<LlmTraceEntry>): LlmReplayProvider => {
+  const pending = entries.filter(entry => entry.outcome !== 'aborted' && (entry.response !== null || entry.outcome === 'failed'));
+  const used = new Set<LlmTraceEntry>();
+  const first = entries.find(entry => entry.kind !== 'image') ?? entries[0];
+  const firstImage = entries.find(entry => entry.kind === 'image');
+
+  const take = (kind: LlmCallKind, request: LlmTraceRequest): LlmTraceEntry => {
+    const key = replayKey(kind, request);
+    let entry = pending.find(candidate => !used.has(candidate) && replayKey(candidate.kind, candidate.request) === key);
+    if (!entry) {
+      entry = pending.find(candidate => !used.has(candidate) && candidate.kind === kind && candidate.request.toolName === request.toolName);
+      if (!entry) throw new Error(`No recorded ${kind} response left to replay${request.toolName ? ` for ${request.toolName}` : ''}.`);
+      console.warn(`Replay diverged from the trace; using the next recorded ${kind} response from ${entry.context}.`);
+    }
+    used.add(entry);
+    if (!entry.response) throw new Error(`Replayed failure from ${entry.context}: ${entry.issues.join('; ') || 'unknown error'}`);
+    return entry;
+  };
+
+  // Validation may rewrite what it is given, so every answer is handed out as a copy.
+  const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  return {
+    id: first?.providerId ?? 'replay',
+    textModel: first?.model ?? 'replay-text',
+    imageModel: firstImage?.model ?? 'replay-image',
+
+    async generateText({ prompt, systemInstruction, history }) {
+      return take('text', { prompt, systemInstruction, history }).response?.text ?? '';
+    },
+    async generateToolCall({ prompt, tool, history }) {
+      const toolName = tool.functionDeclarations?.[0]?.name;
+      const functionCall = take('tool', { prompt, history, toolName }).response?.functionCall;
+      return functionCall ? copy(functionCall) : null;
+    },
+    async generateJsonText({ prompt, history }) {
+      return take('json', { prompt, history }).response?.text ?? '';
+    },
+    // Only refs are recorded. The image store still has the picture if this device generated it;
+    // otherwise the replayed call comes back without an image.
+    async generateImage({ prompt, outputMimeType }) {
+      take('image', { prompt, outputMimeType });
+      return null;
+    },
+
+    remaining: () => pending.length - used.size,
+  };
+};
@@ -0,0 +1,196 @@
+// services/llm/llmUsage.ts
+// Per-call accounting for every LLM and image request, so it is visible which subsystem spends
+// the quota. geminiClient records one entry per logical call (retries included) and checks the
+// session budget before it talks to a provider.
+
+export type LlmCallKind = 'text' | 'tool' | 'json' | 'image';
+
+export interface LlmCallRecord {
+  service: string;        // The caller's context, e.g. "identifyItemInInventoryByName"
+  kind: LlmCallKind;
+  model: string;
+  promptTokens: number;   // Summed over every attempt
+  responseTokens: number;
+  latencyMs: number;
+  retries: number;
+  imageCount: number;
+  cacheHit: boolean;      // Served from the response cache or image store - nothing was spent
+  failed: boolean;
+  timestamp: number;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  responseTokens: number;
+  images: number;
+  latencyMs: number;
+  retries: number;
+  cacheHits: number;
+  failures: number;
+  estimatedCostUsd: number | null; // null when no pricing is configured
+}
+
+export interface LlmServiceUsage extends LlmUsageTotals {
+  service: string;
+}
+
+export interface LlmPricing {
+  inputPerMillionTokensUsd: number;
+  outputPerMillionTokensUsd: number;
+  perImageUsd: number;
+}
+
+export type LlmBudgetMode = 'warn' | 'block';
+
+export interface LlmBudget {
+  maxTokens: number | null;
+  maxImages: number | null;
+  maxCostUsd: number | null;
+  mode: LlmBudgetMode;
+}
+
+export interface LlmBudgetStatus {
+  exceeded: boolean;
+  reasons: string[];
+}
+
+export interface LlmUsageConfig {
+  budget: LlmBudget;
+  pricing: LlmPricing | null;
+}
+
+const MAX_KEPT_RECORDS = 500; // Aggregates cover the whole session; the detailed log is capped
+
+const parseOptionalNumber = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+// Values are injected at build time by vite.config.ts. No limits and no pricing unless configured.
+export const getLlmUsageConfigFromEnv = (): LlmUsageConfig => {
+  const inputPrice = parseOptionalNumber(process.env.LLM_PRICE_INPUT_PER_MTOK);
+  const outputPrice = parseOptionalNumber(process.env.LLM_PRICE_OUTPUT_PER_MTOK);
+  const imagePrice = parseOptionalNumber(process.env.LLM_PRICE_PER_IMAGE);
+  const hasPricing = inputPrice !== null || outputPrice !== null || imagePrice !== null;
+  return {
+    budget: {
+      maxTokens: parseOptionalNumber(process.env.LLM_BUDGET_TOKENS),
+      maxImages: parseOptionalNumber(process.env.LLM_BUDGET_IMAGES),
+      maxCostUsd: parseOptionalNumber(process.env.LLM_BUDGET_COST_USD),
+      mode: process.env.LLM_BUDGET_MODE === 'block' ? 'block' : 'warn',
+    },
+    pricing: hasPricing
+      ? { inputPerMillionTokensUsd: inputPrice ?? 0, outputPerMillionTokensUsd: outputPrice ?? 0, perImageUsd: imagePrice ?? 0 }
+      : null,
+  };
+};
+
+const emptyTotals = (): Omit<LlmUsageTotals, 'estimatedCostUsd'> => ({
+  calls: 0, promptTokens: 0, responseTokens: 0, images: 0, latencyMs: 0, retries: 0, cacheHits: 0, failures: 0,
+});
+
+const addRecord = (totals: Omit<LlmUsageTotals, 'estimatedCostUsd'>, record: LlmCallRecord) => {
+  totals.calls += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.responseTokens += record.responseTokens;
+  totals.images += record.imageCount;
+  totals.latencyMs += record.latencyMs;
+  totals.retries += record.retries;
+  if (record.cacheHit) totals.cacheHits += 1;
+  if (record.failed) totals.failures += 1;
+};
+
+export interface LlmUsageTracker {
+  record(call: LlmCallRecord): void;
+  getRecords(): ReadonlyArray<LlmCallRecord>;
+  getTotals(): LlmUsageTotals;
+  getServiceBreakdown(): LlmServiceUsage[]; // Most expensive (by tokens, then images) first
+  getBudget(): LlmBudget;
+  setBudget(budget: LlmBudget): void;
+  getBudgetStatus(): LlmBudgetStatus;
+  // Throws when the budget is exceeded in 'block' mode. Call it before spending anything.
+  assertWithinBudget(service: string): void;
+  reset(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export const createLlmUsageTracker = (config: LlmUsageConfig): LlmUsageTracker => {
+  let records: LlmCallRecord[] = [];
+  let totals = emptyTotals();
+  let byService = new Map<string, Omit<LlmUsageTotals, 'estimatedCostUsd'>>();
+  let budget = config.budget;
+  let hasWarned = false;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const estimateCost = (usage: Omit<LlmUsageTotals, 'estimatedCostUsd'>): number | null => {
+    if (!config.pricing) return null;
+    const { inputPerMillionTokensUsd, outputPerMillionTokensUsd, perImageUsd } = config.pricing;
+    return (usage.promptTokens * inputPerMillionTokensUsd + usage.responseTokens * outputPerMillionTokensUsd) / 1_000_000
+      + usage.images * perImageUsd;
+  };
+
+  const getTotals = (): LlmUsageTotals => ({ ...totals, estimatedCostUsd: estimateCost(totals) });
+
+  const getBudgetStatus = (): LlmBudgetStatus => {
+    const reasons: string[] = [];
+    const tokens = totals.promptTokens + totals.responseTokens;
+    const cost = estimateCost(totals);
+    if (budget.maxTokens !== null && tokens >= budget.maxTokens) reasons.push(`${tokens} of ${budget.maxTokens} tokens used`);
+    if (budget.maxImages !== null && totals.images >= budget.maxImages) reasons.push(`${totals.images} of ${budget.maxImages} images generated`);
+    if (budget.maxCostUsd !== null && cost !== null && cost >= budget.maxCostUsd) reasons.push(`$${cost.toFixed(4)} of $${budget.maxCostUsd} spent`);
+    return { exceeded: reasons.length > 0, reasons };
+  };
+
+  return {
+    record(call) {
+      records.push(call);
+      if (records.length > MAX_KEPT_RECORDS) records = records.slice(-MAX_KEPT_RECORDS);
+      addRecord(totals, call);
+      const serviceTotals = byService.get(call.service) ?? emptyTotals();
+      addRecord(serviceTotals, call);
+      byService.set(call.service, serviceTotals);
+
+      const status = getBudgetStatus();
+      if (status.exceeded && !hasWarned) {
+        hasWarned = true;
+        console.warn(`LLM session budget exceeded (${status.reasons.join('; ')}).${budget.mode === 'block' ? ' Further calls will be refused.' : ''}`);
+      }
+      notify();
+    },
+
+    getRecords: () => records,
+    getTotals,
+    getServiceBreakdown: () => Array.from(byService.entries())
+      .map(([service, usage]) => ({ service, ...usage, estimatedCostUsd: estimateCost(usage) }))
+      .sort((a, b) => (b.promptTokens + b.responseTokens) - (a.promptTokens + a.responseTokens) || b.images - a.images),
+
+    getBudget: () => budget,
+    setBudget(next) {
+      budget = next;
+      hasWarned = false;
+      notify();
+    },
+    getBudgetStatus,
+    assertWithinBudget(service) {
+      if (budget.mode !== 'block') return;
+      const status = getBudgetStatus();
+      if (status.exceeded) throw new Error(`LLM session budget exceeded, refusing ${service}: ${status.reasons.join('; ')}.`);
+    },
+
+    reset() {
+      records = [];
+      totals = emptyTotals();
+      byService = new Map();
+      hasWarned = false;
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
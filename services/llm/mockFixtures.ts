@@ -0,0 +1,159 @@
+// services/llm/mockFixtures.ts
+// Canned, schema-valid answers for the offline mock provider.
+// Everything here is deterministic: the same prompt always produces the same answer.
+
+export interface MockToolFixture {
+  toolName: string;
+  promptPattern?: RegExp; // Only used when the prompt matches. Omit to match every prompt for this tool.
+  respond: (prompt: string) => Record<string, any>;
+}
+
+export interface MockTextFixture {
+  promptPattern: RegExp;
+  respond: (prompt: string) => string;
+}
+
+export interface MockJsonFixture {
+  promptPattern: RegExp;
+  respond: (prompt: string) => Record<string, any>;
+}
+
+const extractQuoted = (prompt: string, label: string): string | null => {
+  const match = prompt.match(new RegExp(`${label}\\s*"([^"]*)"`));
+  return match ? match[1] : null;
+};
+
+const DIRECTIONS = ['north', 'south', 'east', 'west', 'up', 'down'];
+
+// Keyword parser good enough to drive a scripted session. Anything it doesn't recognise becomes 'examine'.
+export const mockInterpretPlayerAction = (prompt: string): Record<string, any> => {
+  const command = (extractQuoted(prompt, 'Player command:') || '').trim();
+  const lower = command.toLowerCase();
+  const words = lower.split(/\s+/).filter(Boolean);
+  const rest = (skip: number) => command.split(/\s+/).slice(skip).join(' ').trim();
+  const result = (action: string, targets: string[], parameters: Record<string, any> | null = null, narration: string | null = null) => ({
+    action, targets, parameters, isPlausible: true, reasonIfNotPlausible: null, narrationForPlausibleAction: narration,
+  });
+
+  if (prompt.includes('ACTIVE EVENT:')) {
+    return result('event_dialogue_input', [], { dialogue_text: command });
+  }
+  if (prompt.includes('CRITICAL: Player IS CURRENTLY TALKING TO:')) {
+    if (['bye', 'goodbye', 'farewell', 'leave'].includes(lower)) return result('end_conversation', []);
+    return result('dialogue_input', [], { dialogue_text: command });
+  }
+
+  const direction = DIRECTIONS.find(dir => words.includes(dir));
+  if (direction && ['go', 'move', 'walk', 'run', 'head', 'climb'].includes(words[0]) || (words.length === 1 && direction)) {
+    return result('go', [direction!]);
+  }
+  if (['inventory', 'inv', 'i'].includes(lower)) return result('inventory', []);
+  if (['status', 'health', 'stats'].includes(lower)) return result('status', []);
+  if (['rest', 'camp', 'sleep'].includes(words[0])) return result(words[0], []);
+  if (lower.startsWith('search') || lower === 'look for items') return result('search_area_for_items', ['area']);
+  if (lower.startsWith('look for people') || lower.startsWith('find people')) return result('look_for_people', ['area']);
+  if (lower.startsWith('pick up ')) return result('pickup', [rest(2)]);
+  if (['take', 'get', 'grab'].includes(words[0]) && words.length > 1) return result('take', [rest(1)]);
+  if (words[0] === 'use' && words.length > 1) return result('use', [rest(1)]);
+  if (lower.startsWith('talk to ')) return result('talk', [rest(2)]);
+  if (words[0] === 'attack' && words.length > 1) {
+    const npcName = rest(1);
+    const idMatch = prompt.match(new RegExp(`${npcName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')} \\(ID: ([^,]+),`, 'i'));
+    return result('attack_npc', [npcName], { npc_target_name: npcName, direct_object_npc_id: idMatch ? idMatch[1] : null });
+  }
+  if (['look', 'examine', 'inspect'].includes(words[0])) {
+    const target = words[0] === 'look' && words[1] === 'at' ? rest(2) : rest(1);
+    if (!target) return result('look', ['area'], null, 'You take a slow look around.');
+    return result('examine', [target]);
+  }
+  return result('examine', [], { examine_detail_target: command || 'surroundings' });
+};
+
+export const mockGameDirection = (): Record<string, any> => ({
+  currentGameFocus: 'ExplorationAdventure',
+  promptEnhancements: [
+    { targetSystem: 'LocationDescription', suggestion: 'Emphasise landmarks and paths that invite further exploration.', priority: 'medium' },
+  ],
+  gameplayParameterSuggestions: {
+    adjustEnergyDecayRate: 'normal',
+    adjustHealthRegenRate: 'normal',
+    preferredEventType: 'balanced',
+    pacing: 'medium',
+  },
+  reasoning: 'Offline mock director: the player appears to be exploring.',
+});
+
+export const mockDecideEventTrigger = (prompt: string): Record<string, any> => {
+  const trigger = (extractQuoted(prompt, 'TRIGGER CONTEXT:') || '').toLowerCase();
+  if (trigger.includes('_legendary_')) {
+    return { shouldTriggerEvent: true, eventConcept: 'An ancient power stirs nearby', eventIntensity: 'high' };
+  }
+  if (trigger.includes('_epic_')) {
+    return { shouldTriggerEvent: true, eventConcept: 'A strange omen appears', eventIntensity: 'medium' };
+  }
+  return { shouldTriggerEvent: false, eventConcept: null, eventIntensity: null };
+};
+
+export const mockCharacterDetails = (): Record<string, any> => ({
+  characterName: 'Rowan Vale',
+  characterConcept: 'A weathered wanderer with a patched cloak, a steady hand and a habit of mapping every road travelled.',
+  characterRarity: 'Uncommon',
+  limbs: ['Head', 'Torso', 'Left Arm', 'Right Arm', 'Left Leg', 'Right Leg']
+    .map(name => ({ name, status: 'Healthy (100HP)', health: 100 })),
+  startingSkills: [
+    { skillName: 'Survival', startingLevel: 4 },
+    { skillName: 'Perception', startingLevel: 3 },
+  ],
+  initialItemSuggestions: [
+    { name: 'Travel Rations', description: 'A small bundle of dried fruit and hard bread.', itemTypeGuess: 'food', rarity: 'Common', visualPromptHint: 'a cloth bundle of dried fruit and bread' },
+  ],
+});
+
+export const mockInitialLocation = (prompt: string): Record<string, any> => {
+  const style = prompt.match(/MUST start with "A detailed (.+?) style illustration of/)?.[1] || 'Pixel Art';
+  return {
+    name: 'Mossy Crossroads',
+    description: 'Four worn paths meet beneath a leaning signpost furred with moss. Beside it, iron rungs lead down into an old dry well.',
+    environmentTags: ['outdoors', 'crossroads', 'quiet'],
+    visualPromptHint: `A detailed ${style} style illustration of a mossy crossroads with a leaning wooden signpost. No text or UI elements.`,
+    validExits: ['north', 'south', 'east', 'west', 'down'],
+    rarity: 'Common',
+  };
+};
+
+// Keeps the exit back (the prompt insists on it) plus the way the player was heading, so walks can continue.
+export const mockNewLocation = (prompt: string): Record<string, any> => {
+  const style = prompt.match(/MUST start with 'A detailed (.+?) style illustration of/)?.[1] || 'Pixel Art';
+  const heading = prompt.match(/\) moves (north|south|east|west|up|down) from/)?.[1] || 'north';
+  const exitBack = prompt.match(/MUST include exits towards: "(\w+)"/)?.[1] || 'south';
+  return {
+    newLocationName: `Trail ${heading.charAt(0).toUpperCase()}${heading.slice(1)}ward`,
+    newLocationDescription: `A narrow trail winds ${heading} between tall grasses and scattered stones.`,
+    newLocationEnvironmentTags: ['outdoors', 'trail'],
+    newLocationVisualPromptHint: `A detailed ${style} style illustration of a narrow trail through tall grass. No text or UI elements.`,
+    newLocationValidExits: Array.from(new Set([exitBack, heading])),
+    newLocationRarity: 'Common',
+    movementNarration: `You follow the path ${heading} for a while.`,
+  };
+};
+
+export const DEFAULT_MOCK_TOOL_FIXTURES: MockToolFixture[] = [
+  { toolName: 'provide_character_details_and_initial_items', respond: mockCharacterDetails },
+  { toolName: 'describe_new_location_and_movement_with_exits', respond: mockNewLocation },
+  { toolName: 'interpret_player_action', respond: mockInterpretPlayerAction },
+  { toolName: 'provide_game_direction_suggestions', respond: mockGameDirection },
+  { toolName: 'decide_event_trigger_and_concept', respond: mockDecideEventTrigger },
+];
+
+export const DEFAULT_MOCK_TEXT_FIXTURES: MockTextFixture[] = [
+  {
+    promptPattern: /Event Narrator:\s*$/,
+    respond: () => 'The air grows still as the event unfolds around you, waiting for your next move.',
+  },
+];
+
+export const DEFAULT_MOCK_JSON_FIXTURES: MockJsonFixture[] = [
+  { promptPattern: /Player wants to start in a location/, respond: mockInitialLocation },
+];
+
+export const DEFAULT_MOCK_TEXT_RESPONSE = 'Nothing about it seems out of the ordinary.';
@@ -0,0 +1,115 @@
+// services/llm/mockProvider.ts
+// Offline provider for demos and local runs without a key. No network access at all.
+import { LlmProvider, LlmTokenUsage, LlmChatMessage } from './llmProvider';
+import {
+  MockToolFixture, MockTextFixture, MockJsonFixture,
+  DEFAULT_MOCK_TOOL_FIXTURES, DEFAULT_MOCK_TEXT_FIXTURES, DEFAULT_MOCK_JSON_FIXTURES, DEFAULT_MOCK_TEXT_RESPONSE
+} from './mockFixtures';
+
+export interface MockProviderConfig {
+  toolFixtures?: MockToolFixture[];  // Checked before the defaults
+  textFixtures?: MockTextFixture[];  // Checked before the defaults
+  jsonFixtures?: MockJsonFixture[];  // Checked before the defaults
+  jsonResponder?: (prompt: string) => Record<string, any>; // Overrides every JSON fixture when set
+}
+
+// Small stable string hash (djb2) so placeholder images and fallbacks are deterministic per prompt.
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Builds the smallest object that satisfies a Gemini-style schema, for tools without a fixture.
+// Required arrays get one element so "must have at least one X" validators still pass.
+const buildFromSchema = (schema: any, key: string, isRequired: boolean): any => {
+  const type = String(schema?.type || '').toUpperCase();
+  if (Array.isArray(schema?.enum) && schema.enum.length > 0) return schema.enum.find((value: any) => value !== null) ?? null;
+  switch (type) {
+    case 'OBJECT': {
+      const required: string[] = schema.required || [];
+      const obj: Record<string, any> = {};
+      for (const [propKey, propSchema] of Object.entries(schema.properties || {})) {
+        const propRequired = required.includes(propKey);
+        if (!propRequired && (propSchema as any).nullable) {
+          obj[propKey] = null;
+          continue;
+        }
+        obj[propKey] = buildFromSchema(propSchema, propKey, propRequired);
+      }
+      return obj;
+    }
+    case 'ARRAY':
+      return isRequired && schema.items ? [buildFromSchema(schema.items, key, true)] : [];
+    case 'NUMBER':
+    case 'INTEGER':
+      return 1;
+    case 'BOOLEAN':
+      return false;
+    case 'STRING':
+    default:
+      return `Mock ${key}`;
+  }
+};
+
+const placeholderImageDataUrl = (prompt: string): string => {
+  const hue = hashString(prompt) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">`
+    + `<rect width="512" height="512" fill="hsl(${hue},35%,30%)"/>`
+    + `<circle cx="256" cy="230" r="120" fill="hsl(${(hue + 40) % 360},45%,50%)"/>`
+    + `<text x="256" y="440" font-family="monospace" font-size="36" fill="#fff" text-anchor="middle">MOCK</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// No real tokenizer offline - roughly four characters per token, so usage accounting has numbers to show.
+const reportEstimatedUsage = (prompt: string, response: string, onUsage?: (usage: LlmTokenUsage) => void) => {
+  onUsage?.({ promptTokens: Math.ceil(prompt.length / 4), responseTokens: Math.ceil(response.length / 4) });
+};
+
+// Fixtures match on the whole conversation, so a correction turn still finds the original request's fixture.
+const withHistory = (prompt: string, history?: LlmChatMessage[]): string =>
+  history?.length ? [...history.map(msg => msg.text), prompt].join('\n\n') : prompt;
+
+export const createMockProvider = (config: MockProviderConfig = {}): LlmProvider => {
+  const toolFixtures = [...(config.toolFixtures || []), ...DEFAULT_MOCK_TOOL_FIXTURES];
+  const textFixtures = [...(config.textFixtures || []), ...DEFAULT_MOCK_TEXT_FIXTURES];
+  const jsonFixtures = [...(config.jsonFixtures || []), ...DEFAULT_MOCK_JSON_FIXTURES];
+
+  return {
+    id: 'mock',
+    textModel: 'mock-text',
+    imageModel: 'mock-image',
+
+    async generateText({ prompt, onUsage }) {
+      const fixture = textFixtures.find(f => f.promptPattern.test(prompt));
+      const text = fixture ? fixture.respond(prompt) : DEFAULT_MOCK_TEXT_RESPONSE;
+      reportEstimatedUsage(prompt, text, onUsage);
+      return text;
+    },
+
+    async generateToolCall({ prompt: latestPrompt, tool, history, onUsage }) {
+      const declaration = tool.functionDeclarations?.[0];
+      if (!declaration?.name) return null;
+      const prompt = withHistory(latestPrompt, history);
+      const fixture = toolFixtures.find(f => f.toolName === declaration.name && (!f.promptPattern || f.promptPattern.test(prompt)));
+      const args = fixture ? fixture.respond(prompt) : buildFromSchema(declaration.parameters, declaration.name, true);
+      reportEstimatedUsage(prompt, JSON.stringify(args), onUsage);
+      return { name: declaration.name, args };
+    },
+
+    async generateJsonText({ prompt: latestPrompt, history, onUsage }) {
+      const prompt = withHistory(latestPrompt, history);
+      const fixture = jsonFixtures.find(f => f.promptPattern.test(prompt));
+      const json = JSON.stringify(config.jsonResponder ? config.jsonResponder(prompt) : fixture ? fixture.respond(prompt) : {});
+      reportEstimatedUsage(prompt, json, onUsage);
+      return json;
+    },
+
+    async generateImage({ prompt }) {
+      return placeholderImageDataUrl(prompt);
+    },
+  };
+};
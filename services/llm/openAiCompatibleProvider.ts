@@ -0,0 +1,151 @@
+// services/llm/openAiCompatibleProvider.ts
+// Talks to any server exposing the OpenAI-style /chat/completions and /images/generations endpoints
+// (OpenAI itself, OpenRouter, LM Studio, Ollama's compat layer, vLLM...).
+import { Tool } from "@google/genai";
+import { LlmProvider, LlmChatMessage, LlmTokenUsage } from './llmProvider';
+import { parseRetryAfterHeader } from './requestScheduler';
+import { blobToDataUrl } from '../images/imageRepository';
+
+export interface OpenAiCompatibleProviderConfig {
+  apiKey: string | undefined;
+  baseUrl: string; // e.g. "https://api.openai.com/v1"
+  textModel: string;
+  imageModel: string;
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Gemini schemas use upper-case type names ("OBJECT", "STRING") and `nullable`.
+// JSON Schema (what OpenAI-style tools expect) wants lower-case types and no `nullable`.
+const toJsonSchema = (schema: any): any => {
+  if (!schema || typeof schema !== 'object') return schema;
+  const converted: any = {};
+  if (schema.type) converted.type = String(schema.type).toLowerCase();
+  if (schema.description) converted.description = schema.description;
+  if (Array.isArray(schema.enum)) converted.enum = schema.enum.filter((value: any) => value !== null);
+  if (Array.isArray(schema.required)) converted.required = schema.required;
+  if (schema.items) converted.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = {};
+    for (const [key, value] of Object.entries(schema.properties)) {
+      converted.properties[key] = toJsonSchema(value);
+    }
+  }
+  return converted;
+};
+
+const toOpenAiTools = (tool: Tool) =>
+  (tool.functionDeclarations || []).map(decl => ({
+    type: 'function' as const,
+    function: {
+      name: decl.name,
+      description: decl.description,
+      parameters: toJsonSchema(decl.parameters),
+    },
+  }));
+
+const toOpenAiMessages = (prompt: string, systemInstruction?: string, history?: LlmChatMessage[]): OpenAiMessage[] => {
+  const messages: OpenAiMessage[] = [];
+  if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+  (history || []).forEach(msg => messages.push({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.text }));
+  messages.push({ role: 'user', content: prompt });
+  return messages;
+};
+
+const reportUsage = (data: any, onUsage?: (usage: LlmTokenUsage) => void) => {
+  if (!onUsage || !data?.usage) return;
+  onUsage({ promptTokens: data.usage.prompt_tokens ?? 0, responseTokens: data.usage.completion_tokens ?? 0 });
+};
+
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleProviderConfig): LlmProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const postJson = async (path: string, body: Record<string, any>, signal?: AbortSignal): Promise<any> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      // status and retryAfterMs let the request scheduler recognise and wait out rate limits.
+      throw Object.assign(new Error(`OpenAI-compatible API error ${response.status}: ${errorText.substring(0, 300)}`), {
+        status: response.status,
+        retryAfterMs: parseRetryAfterHeader(response.headers.get('retry-after')) ?? undefined,
+      });
+    }
+    return response.json();
+  };
+
+  return {
+    id: 'openai-compatible',
+    textModel: config.textModel,
+    imageModel: config.imageModel,
+
+    async generateText({ prompt, systemInstruction, history, onUsage, signal }) {
+      const data = await postJson('/chat/completions', {
+        model: config.textModel,
+        messages: toOpenAiMessages(prompt, systemInstruction, history),
+      }, signal);
+      reportUsage(data, onUsage);
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+
+    async generateToolCall({ prompt, tool, history, onUsage, signal }) {
+      const tools = toOpenAiTools(tool);
+      if (tools.length === 0) throw new Error("Tool has no function declarations.");
+      const data = await postJson('/chat/completions', {
+        model: config.textModel,
+        messages: toOpenAiMessages(prompt, undefined, history),
+        tools,
+        // Same behaviour as Gemini with a single tool: we always want the call.
+        tool_choice: tools.length === 1 ? { type: 'function', function: { name: tools[0].function.name } } : 'required',
+      }, signal);
+      reportUsage(data, onUsage);
+      const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
+      if (!toolCall?.function?.arguments) return null;
+      let args: any;
+      try {
+        args = JSON.parse(toolCall.function.arguments);
+      } catch (e: any) {
+        throw new Error(`Tool call arguments were not valid JSON: ${e.message}`);
+      }
+      return { name: toolCall.function.name, args };
+    },
+
+    async generateJsonText({ prompt, history, onUsage, signal }) {
+      const data = await postJson('/chat/completions', {
+        model: config.textModel,
+        messages: toOpenAiMessages(prompt, undefined, history),
+        response_format: { type: 'json_object' },
+      }, signal);
+      reportUsage(data, onUsage);
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+
+    async generateImage({ prompt, signal }) {
+      const data = await postJson('/images/generations', {
+        model: config.imageModel,
+        prompt,
+        n: 1,
+        response_format: 'b64_json',
+      }, signal);
+      const b64 = data.data?.[0]?.b64_json;
+      if (b64) return `data:image/png;base64,${b64}`; // images/generations always returns PNG
+      // Some servers ignore response_format and link to the image instead; callers expect a data URL.
+      const url = data.data?.[0]?.url;
+      if (!url) return null;
+      const image = await fetch(url, { signal });
+      if (!image.ok) throw new Error(`Could not download the generated image (${image.status}).`);
+      const blob = await image.blob();
+      return blobToDataUrl(blob.type ? blob : new Blob([blob], { type: 'image/png' }));
+    },
+  };
+};
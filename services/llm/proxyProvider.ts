@@ -0,0 +1,112 @@
+// services/llm/proxyProvider.ts
+// Sends every call to the LostWorld proxy server (server/llmProxy.ts), which holds the API key
+// and calls the real provider. The routes and bodies below are the contract between the two.
+import { Tool } from "@google/genai";
+import { LlmProvider, LlmChatMessage, LlmFunctionCall, LlmTokenUsage } from './llmProvider';
+import { parseRetryAfterHeader } from './requestScheduler';
+
+export const LLM_PROXY_ROUTES = {
+  info: '/api/llm/info',
+  text: '/api/llm/text',
+  chat: '/api/llm/chat', // Text with prior turns (NPC dialogue)
+  tool: '/api/llm/tool',
+  json: '/api/llm/json',
+  image: '/api/llm/image',
+} as const;
+
+// Rate limits are counted per session. The browser starts a new session on every page load.
+export const LLM_PROXY_SESSION_HEADER = 'X-LostWorld-Session';
+
+export interface LlmProxyTextBody {
+  prompt: string;
+  systemInstruction?: string;
+  history?: LlmChatMessage[]; // Required (non-empty) on the chat route
+}
+
+export interface LlmProxyToolBody {
+  prompt: string;
+  tool: Tool;
+  history?: LlmChatMessage[];
+}
+
+export interface LlmProxyJsonBody {
+  prompt: string;
+  history?: LlmChatMessage[];
+}
+
+export interface LlmProxyImageBody {
+  prompt: string;
+  outputMimeType: 'image/jpeg' | 'image/png';
+}
+
+// Every successful answer carries the summed token usage the provider reported, if any.
+export interface LlmProxyResponse {
+  text?: string;
+  functionCall?: LlmFunctionCall | null;
+  image?: string | null;
+  usage?: LlmTokenUsage;
+}
+
+export interface LlmProxyInfo {
+  providerId: string;
+  textModel: string;
+  imageModel: string;
+}
+
+export interface ProxyProviderConfig {
+  baseUrl: string;    // e.g. "http://localhost:3001"
+  textModel: string;  // Only names the models in cache keys and usage records; the server picks the real ones
+  imageModel: string;
+  sessionId?: string; // Defaults to a fresh id per provider
+}
+
+export const createProxyProvider = (config: ProxyProviderConfig): LlmProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const sessionId = config.sessionId ?? crypto.randomUUID();
+
+  const post = async (route: string, body: object, signal?: AbortSignal, onUsage?: (usage: LlmTokenUsage) => void): Promise<LlmProxyResponse> => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [LLM_PROXY_SESSION_HEADER]: sessionId },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      // status and retryAfterMs let the request scheduler recognise and wait out rate limits.
+      throw Object.assign(new Error(`LLM proxy error ${response.status}: ${data?.error ?? response.statusText}`), {
+        status: response.status,
+        retryAfterMs: parseRetryAfterHeader(response.headers.get('retry-after')) ?? undefined,
+      });
+    }
+    if (data?.usage && onUsage) onUsage(data.usage);
+    return data ?? {};
+  };
+
+  return {
+    id: 'proxy',
+    textModel: config.textModel,
+    imageModel: config.imageModel,
+
+    async generateText({ prompt, systemInstruction, history, onUsage, signal }) {
+      const body: LlmProxyTextBody = { prompt, systemInstruction, history };
+      const data = await post(history?.length ? LLM_PROXY_ROUTES.chat : LLM_PROXY_ROUTES.text, body, signal, onUsage);
+      return data.text ?? '';
+    },
+
+    async generateToolCall({ prompt, tool, history, onUsage, signal }) {
+      const body: LlmProxyToolBody = { prompt, tool, history };
+      return (await post(LLM_PROXY_ROUTES.tool, body, signal, onUsage)).functionCall ?? null;
+    },
+
+    async generateJsonText({ prompt, history, onUsage, signal }) {
+      const body: LlmProxyJsonBody = { prompt, history };
+      return (await post(LLM_PROXY_ROUTES.json, body, signal, onUsage)).text ?? '';
+    },
+
+    async generateImage({ prompt, outputMimeType, onUsage, signal }) {
+      const body: LlmProxyImageBody = { prompt, outputMimeType };
+      return (await post(LLM_PROXY_ROUTES.image, body, signal, onUsage)).image ?? null;
+    },
+  };
+};
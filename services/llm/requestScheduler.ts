@@ -0,0 +1,193 @@
+// services/llm/requestScheduler.ts
+// One queue in front of the provider, shared by every service. It caps how many requests run at
+// once (and optionally per minute), lets player-facing calls overtake background work, and pauses
+// everything when the provider answers with a rate limit, for as long as the provider asks.
+import { createAbortError } from '../utils/abortUtils';
+
+export type LlmRequestPriority = 'interactive' | 'normal' | 'background';
+
+// Highest first. A queued request only starts when every lane before it is empty.
+const PRIORITY_ORDER: LlmRequestPriority[] = ['interactive', 'normal', 'background'];
+
+export interface LlmBackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_LLM_BACKOFF: LlmBackoffOptions = { baseDelayMs: 1000, maxDelayMs: 30_000 };
+
+// Exponential backoff with "equal jitter": half of the step is fixed, the other half random, so
+// callers that failed together do not retry together.
+export const computeBackoffDelayMs = (attempt: number, options: LlmBackoffOptions = DEFAULT_LLM_BACKOFF): number => {
+  const step = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(step / 2 + Math.random() * (step / 2));
+};
+
+// Rejects with an AbortError as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) { reject(createAbortError()); return; }
+  const onAbort = () => { clearTimeout(timer); reject(createAbortError()); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Recognises rate-limit errors from any provider. Providers may attach `status` and `retryAfterMs`;
+// Gemini only puts the HTTP status and a RetryInfo "retryDelay" into the error message.
+// Returns undefined for any other error, and null for a rate limit that gives no delay.
+export const getRateLimitRetryAfterMs = (error: any): number | null | undefined => {
+  const message = String(error?.message ?? '');
+  const isRateLimit = error?.status === 429 || error?.code === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate.?limit/i.test(message);
+  if (!isRateLimit) return undefined;
+  if (typeof error?.retryAfterMs === 'number' && error.retryAfterMs >= 0) return error.retryAfterMs;
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry (?:after|in) (\d+(?:\.\d+)?)\s*s/i);
+  return retryDelay ? Math.ceil(parseFloat(retryDelay[1]) * 1000) : null;
+};
+
+// Turns an HTTP Retry-After header (seconds or an HTTP date) into milliseconds.
+export const parseRetryAfterHeader = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export interface LlmSchedulerConfig {
+  maxConcurrency: number;
+  maxRequestsPerMinute: number | null;
+  maxRateLimitRetries: number;  // Per request, on top of the callers' own validation retries
+  backoff: LlmBackoffOptions;   // Used when a rate-limit error does not say how long to wait
+}
+
+export const DEFAULT_LLM_MAX_CONCURRENCY = 3;
+
+const parsePositiveInteger = (value: string | undefined): number | null => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+// Values are injected at build time by vite.config.ts.
+export const getLlmSchedulerConfigFromEnv = (): LlmSchedulerConfig => ({
+  maxConcurrency: parsePositiveInteger(process.env.LLM_MAX_CONCURRENCY) ?? DEFAULT_LLM_MAX_CONCURRENCY,
+  maxRequestsPerMinute: parsePositiveInteger(process.env.LLM_MAX_REQUESTS_PER_MINUTE),
+  maxRateLimitRetries: 3,
+  backoff: DEFAULT_LLM_BACKOFF,
+});
+
+export interface LlmScheduleOptions {
+  priority?: LlmRequestPriority;
+  label?: string; // For log messages only
+  signal?: AbortSignal; // Aborting drops the request from the queue; a running task gets the signal itself
+}
+
+export interface LlmSchedulerStats {
+  active: number;
+  queued: Record<LlmRequestPriority, number>;
+  pausedUntil: number | null; // Set while waiting out a rate limit
+}
+
+export interface LlmRequestScheduler {
+  schedule<T>(task: () => Promise<T>, options?: LlmScheduleOptions): Promise<T>;
+  getStats(): LlmSchedulerStats;
+}
+
+interface QueuedRequest {
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  priority: LlmRequestPriority;
+  label: string;
+  rateLimitRetries: number;
+  signal?: AbortSignal;
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+export const createLlmRequestScheduler = (config: LlmSchedulerConfig): LlmRequestScheduler => {
+  const lanes: Record<LlmRequestPriority, QueuedRequest[]> = { interactive: [], normal: [], background: [] };
+  let active = 0;
+  let pausedUntil = 0;
+  let startTimes: number[] = [];
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const wakeAt = (time: number) => {
+    if (wakeTimer) clearTimeout(wakeTimer);
+    wakeTimer = setTimeout(() => { wakeTimer = null; pump(); }, Math.max(0, time - Date.now()));
+  };
+
+  // Milliseconds-since-epoch at which the next request may start, or 0 if it may start now.
+  const nextAllowedStart = (now: number): number => {
+    if (pausedUntil > now) return pausedUntil;
+    if (config.maxRequestsPerMinute === null) return 0;
+    startTimes = startTimes.filter(time => time > now - RATE_WINDOW_MS);
+    return startTimes.length >= config.maxRequestsPerMinute ? startTimes[0] + RATE_WINDOW_MS : 0;
+  };
+
+  const takeNext = (): QueuedRequest | undefined => {
+    for (const priority of PRIORITY_ORDER) {
+      if (lanes[priority].length > 0) return lanes[priority].shift();
+    }
+    return undefined;
+  };
+
+  const start = (request: QueuedRequest) => {
+    active++;
+    // Only the per-minute limit reads the start times; without one they would pile up all session.
+    if (config.maxRequestsPerMinute !== null) startTimes.push(Date.now());
+    request.run()
+      .then(request.resolve, (error: unknown) => {
+        const retryAfterMs = getRateLimitRetryAfterMs(error);
+        if (retryAfterMs === undefined || request.rateLimitRetries >= config.maxRateLimitRetries || request.signal?.aborted) {
+          request.reject(error);
+          return;
+        }
+        request.rateLimitRetries++;
+        const delay = retryAfterMs ?? computeBackoffDelayMs(request.rateLimitRetries, config.backoff);
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+        console.warn(`Rate limited during ${request.label}. Pausing LLM requests for ${(delay / 1000).toFixed(1)}s (retry ${request.rateLimitRetries}/${config.maxRateLimitRetries}).`);
+        lanes[request.priority].unshift(request); // Keeps its place ahead of later requests
+      })
+      .finally(() => {
+        active--;
+        pump();
+      });
+  };
+
+  const pump = () => {
+    while (active < config.maxConcurrency) {
+      if (!PRIORITY_ORDER.some(priority => lanes[priority].length > 0)) return;
+      const notBefore = nextAllowedStart(Date.now());
+      if (notBefore > 0) {
+        wakeAt(notBefore);
+        return;
+      }
+      start(takeNext()!);
+    }
+  };
+
+  return {
+    schedule<T>(task: () => Promise<T>, options: LlmScheduleOptions = {}): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        const { signal } = options;
+        if (signal?.aborted) { reject(createAbortError()); return; }
+        const priority = options.priority ?? 'normal';
+        const request: QueuedRequest = { run: task, resolve, reject, priority, label: options.label ?? 'LLM request', rateLimitRetries: 0, signal };
+        signal?.addEventListener('abort', () => {
+          const lane = lanes[priority];
+          const index = lane.indexOf(request);
+          if (index === -1) return; // Already running - the task sees the signal itself
+          lane.splice(index, 1);
+          reject(createAbortError());
+        }, { once: true });
+        lanes[priority].push(request);
+        pump();
+      });
+    },
+
+    getStats: () => ({
+      active,
+      queued: { interactive: lanes.interactive.length, normal: lanes.normal.length, background: lanes.background.length },
+      pausedUntil: pausedUntil > Date.now() ? pausedUntil : null,
+    }),
+  };
+};
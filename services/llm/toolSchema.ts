@@ -0,0 +1,271 @@
+// services/llm/toolSchema.ts
+// One declaration per tool argument shape. It yields the Gemini schema sent to the model, the
+// TypeScript type of the arguments (via InferSchema) and a validator whose path-level issues
+// ("items[2].rarity: expected one of ...") are fed back to the model when it retries.
+import { Type, Tool, Schema, FunctionDeclaration } from "@google/genai";
+
+export interface SchemaNode<T> {
+  readonly isOptional: boolean;
+  toSchema(): Schema;
+  // Appends one message per problem to `issues`. May rewrite `holder[key]` (see optional()).
+  check(value: unknown, path: string, issues: string[], holder?: Record<string, unknown>, key?: string): void;
+  // Coerces near misses ("common" for 'Common', "3" for 3) into valid values. Never throws;
+  // anything it cannot fix is returned unchanged for check() to reject.
+  repair(value: unknown): unknown;
+  readonly __type?: T; // Type-level only
+}
+
+export interface OptionalSchemaNode<T> extends SchemaNode<T> {
+  readonly isOptional: true;
+}
+
+export type InferSchema<N> = N extends SchemaNode<infer T> ? T : never;
+
+type Shape = Record<string, SchemaNode<any>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchemaNode<any> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: InferSchema<S[K]> } &
+  { [K in OptionalKeys<S>]?: InferSchema<S[K]> }
+>;
+
+export interface ObjectSchemaNode<S extends Shape> extends SchemaNode<InferShape<S>> {
+  readonly shape: S;
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.substring(0, 40)}...` : value);
+  return typeof value === 'object' ? 'an object' : String(value);
+};
+
+const issueAt = (path: string, message: string): string => `${path || '(arguments)'}: ${message}`;
+
+const joinPath = (path: string, key: string): string => path ? `${path}.${key}` : key;
+
+const primitive = <T>(
+  type: Type, description: string | undefined, test: (value: unknown) => boolean, expected: string,
+  repair: (value: unknown) => unknown = value => value
+): SchemaNode<T> => ({
+  isOptional: false,
+  toSchema: () => ({ type, ...(description ? { description } : {}) }),
+  check(value, path, issues) {
+    if (!test(value)) issues.push(issueAt(path, `expected ${expected}, got ${describeValue(value)}`));
+  },
+  repair,
+});
+
+const NUMERIC_STRING_REGEX = /^\s*[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?\s*$/i;
+
+const repairNumber = (value: unknown): unknown =>
+  typeof value === 'string' && NUMERIC_STRING_REGEX.test(value) ? Number(value) : value;
+
+const repairBoolean = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  return normalized === 'true' ? true : normalized === 'false' ? false : value;
+};
+
+export interface StringSchemaOptions {
+  nonEmpty?: boolean; // Rejects "" and whitespace-only strings
+}
+
+const string = (description?: string, options: StringSchemaOptions = {}): SchemaNode<string> =>
+  primitive<string>(Type.STRING, description,
+    value => typeof value === 'string' && (!options.nonEmpty || value.trim() !== ''),
+    options.nonEmpty ? 'a non-empty string' : 'a string',
+    value => typeof value === 'number' || typeof value === 'boolean' ? String(value) : value);
+
+const number = (description?: string): SchemaNode<number> =>
+  primitive<number>(Type.NUMBER, description, value => typeof value === 'number' && Number.isFinite(value), 'a number', repairNumber);
+
+const integer = (description?: string): SchemaNode<number> =>
+  primitive<number>(Type.INTEGER, description, value => Number.isInteger(value), 'an integer', repairNumber);
+
+const boolean = (description?: string): SchemaNode<boolean> =>
+  primitive<boolean>(Type.BOOLEAN, description, value => typeof value === 'boolean', 'true or false', repairBoolean);
+
+const enumOf = <const V extends string>(values: readonly V[], description?: string): SchemaNode<V> => ({
+  isOptional: false,
+  toSchema: () => ({ type: Type.STRING, format: 'enum', enum: [...values], ...(description ? { description } : {}) }),
+  check(value, path, issues) {
+    if (!values.includes(value as V)) {
+      issues.push(issueAt(path, `expected one of ${values.map(v => `'${v}'`).join(', ')}, got ${describeValue(value)}`));
+    }
+  },
+  // Matches ignoring case and surrounding whitespace, e.g. " legendary" -> 'Legendary', "North" -> 'north'.
+  repair(value) {
+    if (typeof value !== 'string') return value;
+    const normalized = value.trim().toLowerCase();
+    return values.find(v => v.toLowerCase() === normalized) ?? value;
+  },
+});
+
+export interface ArraySchemaOptions {
+  minItems?: number;
+}
+
+const array = <T>(items: SchemaNode<T>, description?: string, options: ArraySchemaOptions = {}): SchemaNode<T[]> => ({
+  isOptional: false,
+  toSchema: () => ({
+    type: Type.ARRAY,
+    ...(description ? { description } : {}),
+    items: items.toSchema(),
+    ...(options.minItems !== undefined ? { minItems: String(options.minItems) } : {}),
+  }),
+  check(value, path, issues) {
+    if (!Array.isArray(value)) {
+      issues.push(issueAt(path, `expected an array, got ${describeValue(value)}`));
+      return;
+    }
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      issues.push(issueAt(path, `expected at least ${options.minItems} item(s), got ${value.length}`));
+    }
+    value.forEach((element, index) => items.check(element, `${path}[${index}]`, issues, value as any, String(index)));
+  },
+  repair: value => Array.isArray(value) ? value.map(element => items.repair(element)) : value,
+});
+
+const object = <S extends Shape>(shape: S, description?: string): ObjectSchemaNode<S> => ({
+  isOptional: false,
+  shape,
+  toSchema: () => {
+    const properties: Record<string, Schema> = {};
+    const required: string[] = [];
+    for (const [key, node] of Object.entries(shape)) {
+      properties[key] = node.toSchema();
+      if (!node.isOptional) required.push(key);
+    }
+    return {
+      type: Type.OBJECT,
+      ...(description ? { description } : {}),
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+  },
+  check(value, path, issues) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push(issueAt(path, `expected an object, got ${describeValue(value)}`));
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, node] of Object.entries(shape)) {
+      if (record[key] === undefined && !node.isOptional) {
+        issues.push(issueAt(joinPath(path, key), 'required field is missing'));
+        continue;
+      }
+      node.check(record[key], joinPath(path, key), issues, record, key);
+    }
+  },
+  repair(value) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+    const repaired: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const [key, node] of Object.entries(shape)) {
+      if (key in repaired) repaired[key] = node.repair(repaired[key]);
+    }
+    return repaired;
+  },
+});
+
+// Models often send null for a field they were told is optional. Unless the field is also
+// nullable(), that null is treated as "not given" and removed, so the inferred `?: T` holds.
+const optional = <T>(node: SchemaNode<T>): OptionalSchemaNode<T> => ({
+  ...node,
+  isOptional: true,
+  check(value, path, issues, holder, key) {
+    if (value === undefined) return;
+    if (value === null && !node.toSchema().nullable) {
+      if (holder && key !== undefined) delete holder[key];
+      return;
+    }
+    node.check(value, path, issues, holder, key);
+  },
+  repair: value => value === undefined || value === null ? value : node.repair(value),
+});
+
+const nullable = <T>(node: SchemaNode<T>): SchemaNode<T | null> => ({
+  isOptional: node.isOptional,
+  toSchema: () => ({ ...node.toSchema(), nullable: true }),
+  check(value, path, issues, holder, key) {
+    if (value !== null) node.check(value, path, issues, holder, key);
+  },
+  repair: value => value === null ? value : node.repair(value),
+});
+
+export const schema = { string, number, integer, boolean, enumOf, array, object, optional, nullable };
+
+export interface SchemaValidationResult<T> {
+  valid: boolean;
+  value: T;        // The checked data (with optional nulls removed); only typed correctly when valid
+  issues: string[];
+}
+
+// A type guard that can also explain a rejection. callLLMWithToolAndValidateArgs and
+// callLLMForValidatedJsonText send `getIssues` back to the model when they retry, and try
+// `repair` on a rejected answer before spending a retry on it.
+export type StructureValidator<T> = ((data: any) => data is T) & {
+  getIssues?: (data: any) => string[];
+  repair?: (data: any) => unknown;
+};
+
+export const validateAgainstSchema = <T>(node: SchemaNode<T>, data: unknown): SchemaValidationResult<T> => {
+  const issues: string[] = [];
+  node.check(data, '', issues);
+  return { valid: issues.length === 0, value: data as T, issues };
+};
+
+// `refine` adds checks the schema cannot express (cross-field rules, values known only at call time).
+// `name` becomes the validator's function name, which the response cache uses as its validator id.
+export const createSchemaValidator = <T>(
+  node: SchemaNode<T>,
+  name: string,
+  refine?: (value: T) => string[]
+): StructureValidator<T> => {
+  const getIssues = (data: any): string[] => {
+    const result = validateAgainstSchema(node, data);
+    return result.valid && refine ? refine(result.value) : result.issues;
+  };
+  const validator = ((data: any) => getIssues(data).length === 0) as StructureValidator<T>;
+  validator.getIssues = getIssues;
+  validator.repair = data => node.repair(data);
+  Object.defineProperty(validator, 'name', { value: name });
+  return validator;
+};
+
+export interface ToolDefinitionSpec<S extends Shape> {
+  name: string;
+  description: string;
+  parameters: ObjectSchemaNode<S>;
+  refine?: (args: InferShape<S>) => string[];
+}
+
+export interface ToolDefinition<T> {
+  name: string;
+  tool: Tool;
+  declaration: FunctionDeclaration;
+  validateArgs: StructureValidator<T>;
+  // Same schema plus extra call-time checks (e.g. against the current visual style).
+  withRefinement(refine: (args: T) => string[]): StructureValidator<T>;
+}
+
+export type ToolArgs<D> = D extends ToolDefinition<infer T> ? T : never;
+
+export const defineTool = <S extends Shape>(spec: ToolDefinitionSpec<S>): ToolDefinition<InferShape<S>> => {
+  const declaration: FunctionDeclaration = {
+    name: spec.name,
+    description: spec.description,
+    parameters: spec.parameters.toSchema(),
+  };
+  const validatorName = `${spec.name}_args`;
+  return {
+    name: spec.name,
+    tool: { functionDeclarations: [declaration] },
+    declaration,
+    validateArgs: createSchemaValidator(spec.parameters, validatorName, spec.refine),
+    withRefinement: refine => createSchemaValidator(spec.parameters, validatorName, args => [
+      ...(spec.refine ? spec.refine(args) : []),
+      ...refine(args),
+    ]),
+  };
+};
@@ -1,5 +1,6 @@
 // services/llmPromptUtils.ts
-import { Skill, Limb } from './gameTypes';
+import { Skill, Limb, StatusEffect, WorldState, Coordinates } from './gameTypes';
+import { formatWorldTime, getRegionWeather, getTimeOfDay, isShelteredFromWeather } from './gameEngine/worldClock';
 
 export const SKILL_LEVEL_INTERPRETATION_GUIDE = `
 SKILL LEVEL INTERPRETATION:
@@ -47,3 +48,24 @@ export const formatCharacterLimbDetailsForLLM = (limbs: Limb[]): string => {
     `${l.name} (Status: ${l.status}, Health: ${l.health}HP, Equipped: ${l.equippedItems?.map(ei => `${ei.name} (${ei.rarity})`).join(', ') || 'None'})`
   ).join('; ');
 };
+
+export const formatStatusEffectsForLLM = (effects: StatusEffect[] | undefined): string => {
+  if (!effects || effects.length === 0) return "None";
+  return effects.map(effect => {
+    const details = [
+      effect.stacks > 1 ? `x${effect.stacks}` : null,
+      effect.remainingTurns === null ? 'lasting' : `${effect.remainingTurns} turns left`,
+      ...effect.skillModifiers.map(m => `${m.skillName} ${m.modifier > 0 ? '+' : ''}${m.modifier * effect.stacks}`),
+    ].filter(Boolean).join(', ');
+    return `${effect.name} (${details})${effect.description ? `: ${effect.description}` : ''}`;
+  }).join('; ');
+};
+
+// Appended to the memory context of location, NPC and event prompts (starts with a newline).
+export const formatWorldContextForLLM = (world: WorldState, coordinates: Coordinates): string => {
+  const weather = getRegionWeather(world, coordinates);
+  const sky = isShelteredFromWeather(coordinates)
+    ? `Underground, sheltered from the weather above (${weather.condition}).`
+    : `Weather: ${weather.description}`;
+  return `\nWORLD CONDITIONS: ${formatWorldTime(world.minutesElapsed)} (${getTimeOfDay(world.minutesElapsed)}). ${sky} Descriptions, NPC behaviour and events should fit the time of day and the weather.`;
+};
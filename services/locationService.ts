@@ -1,23 +1,25 @@
 
 // services/locationService.ts
-import { API_KEY, ai, IMAGE_MODEL_NAME, TEXT_MODEL_NAME, Tool, Type, callLLMWithToolAndValidateArgs as callLLMWithTool, callLLMForValidatedJsonText } from './geminiClient'; 
-import { LocationDetails, FullLocationData, MovementContext, NewLocationGenerationResult, Skill, CharacterData, LocationRarity, PotentialDiscovery, EventEffects, ContextualExaminationResult, VisualStyleType } from './gameTypes';
+import { API_KEY, schema, defineTool, createSchemaValidator, callLLMWithToolAndValidateArgs as callLLMWithTool, callLLMForValidatedJsonText, generateLLMText, generateLLMImage } from './geminiClient'; 
+import { LocationDetails, FullLocationData, MovementContext, NewLocationGenerationResult, Skill, CharacterData, PotentialDiscovery, EventEffects, ContextualExaminationResult, VisualStyleType, TimeOfDay } from './gameTypes';
 import { SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM } from './llmPromptUtils';
 import { GenerateContentResponse } from "@google/genai";
 import { identifyPotentialDiscoveriesInText, ProcessedTextWithDiscoveries } from './loreService';
+import { isAbortError } from './utils/abortUtils';
+import { WORLD_DIRECTIONS, OPPOSITE_DIRECTIONS, isWorldDirection, applyNeighbourExitConstraints } from './gameEngine';
+import { LOCATION_RARITIES } from './config/gameConstants';
 
 
-const VALID_DIRECTIONS = ["north", "south", "east", "west"];
-const VALID_RARITIES: LocationRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
+const { string, enumOf, array, object } = schema;
 
-type InitialLocationDetailsFromTool = {
-  name: string;
-  description: string;
-  environmentTags: string[];
-  visualPromptHint: string;
-  validExits: string[];
-  rarity: LocationRarity;
-};
+const validateInitialLocationDetailsStructure = createSchemaValidator(object({
+  name: string(undefined, { nonEmpty: true }),
+  description: string(undefined, { nonEmpty: true }),
+  environmentTags: array(string(undefined, { nonEmpty: true })),
+  visualPromptHint: string(undefined, { nonEmpty: true }),
+  validExits: array(enumOf(WORLD_DIRECTIONS)),
+  rarity: enumOf(LOCATION_RARITIES),
+}), 'validateInitialLocationDetailsStructure');
 
 const getStyleForPromptInstruction = (visualStyle: VisualStyleType): string => {
   switch (visualStyle) {
@@ -46,19 +48,15 @@ const getStyleSpecificVisualPromptDetails = (visualStyle: VisualStyleType): stri
   }
 };
 
-const validateInitialLocationDetailsStructure = (data: any): data is InitialLocationDetailsFromTool => {
-  return (
-    data &&
-    typeof data.name === 'string' && data.name.trim() !== '' &&
-    typeof data.description === 'string' && data.description.trim() !== '' &&
-    Array.isArray(data.environmentTags) && data.environmentTags.every(tag => typeof tag === 'string' && tag.trim() !== '') &&
-    typeof data.visualPromptHint === 'string' && data.visualPromptHint.trim() !== '' && 
-    Array.isArray(data.validExits) && data.validExits.every(exit => typeof exit === 'string' && VALID_DIRECTIONS.includes(exit.toLowerCase())) &&
-    typeof data.rarity === 'string' && VALID_RARITIES.includes(data.rarity as LocationRarity)
-  );
+const TIME_OF_DAY_LIGHTING: Record<TimeOfDay, string> = {
+  dawn: 'at dawn, in soft pink and golden early light with long shadows',
+  day: 'in full daylight',
+  dusk: 'at dusk, under a fading orange and violet sky',
+  night: 'at night, lit only by moonlight, stars and any local light sources',
 };
 
-export const generateLocationImage = async (visualPromptHint: string, locationName: string, visualStyle: VisualStyleType): Promise<string> => {
+// Without a time of day the scene keeps whatever lighting the visual prompt hint describes.
+export const generateLocationImage = async (visualPromptHint: string, locationName: string, visualStyle: VisualStyleType, timeOfDay?: TimeOfDay, signal?: AbortSignal): Promise<string> => {
   let imageUrl = `https://via.placeholder.com/512x512/334155/ffffff?text=${encodeURIComponent(locationName)}`;
   if (!API_KEY) {
     console.warn("API key not configured. Using placeholder image for new location.");
@@ -66,18 +64,16 @@ export const generateLocationImage = async (visualPromptHint: string, locationNa
   }
   const styleForPrompt = getStyleForPromptInstruction(visualStyle);
   try {
-    const finalImagePrompt = `${visualPromptHint.replace("[CHOSEN_STYLE]", styleForPrompt)} IMPORTANT: Image MUST ONLY contain scene. NO text, watermarks, labels, icons, borders, UI elements. Clean ${styleForPrompt} style. Visually appealing and interesting.`;
-    const imageResponse = await ai.models.generateImages({
-      model: IMAGE_MODEL_NAME,
-      prompt: finalImagePrompt,
-      config: { numberOfImages: 1, outputMimeType: 'image/jpeg' },
-    });
-    if (imageResponse.generatedImages?.[0]?.image?.imageBytes) {
-      imageUrl = `data:image/jpeg;base64,${imageResponse.generatedImages[0].image.imageBytes}`;
+    const lighting = timeOfDay ? ` Show the scene ${TIME_OF_DAY_LIGHTING[timeOfDay]}.` : '';
+    const finalImagePrompt = `${visualPromptHint.replace("[CHOSEN_STYLE]", styleForPrompt)}${lighting} IMPORTANT: Image MUST ONLY contain scene. NO text, watermarks, labels, icons, borders, UI elements. Clean ${styleForPrompt} style. Visually appealing and interesting.`;
+    const generatedImageUrl = await generateLLMImage(finalImagePrompt, 'image/jpeg', { service: 'generateLocationImage', signal });
+    if (generatedImageUrl) {
+      imageUrl = generatedImageUrl;
     } else {
-      console.warn(`No image data from Gemini API for location ${locationName}. Using placeholder.`);
+      console.warn(`No image data from LLM provider for location ${locationName}. Using placeholder.`);
     }
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error(`Error generating image for location ${locationName}:`, error);
   }
   return imageUrl;
@@ -151,7 +147,8 @@ Example for ${visualStyle} (imagine visualStyle is Pixel Art):
     prompt,
     validateInitialLocationDetailsStructure,
     "Invalid initial location JSON (check name, desc, tags, visual prompt, exits, rarity; visual prompt must start with 'A detailed [CHOSEN_STYLE] style illustration of...', exits valid, rarity valid, consistency with context)",
-    "generateLocationDetailsAndImage (Initial - JSON Text)"
+    "generateLocationDetailsAndImage (Initial - JSON Text)",
+    1, { service: 'generateLocationDetailsAndImage' }
   );
 
   const imageUrl = await generateLocationImage(locDetailsResult.visualPromptHint, locDetailsResult.name, visualStyle);
@@ -159,47 +156,38 @@ Example for ${visualStyle} (imagine visualStyle is Pixel Art):
 };
 
 
-const GENERATE_NEW_LOCATION_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "describe_new_location_and_movement_with_exits",
-    description: "Generates details for a new location based on movement. Considers character skills, memory context, game setting (Historical/Fictional universe), visual style (e.g., 'Pixel Art', 'Anime', 'distinctive impasto oil painting', 'luminous watercolor painting'), AND active location-related leads and player's intended location hint. Epic/Legendary locations distinct unless fulfilling lead/intent. Narration reflects Survival skill. Visual prompt hint for 'newLocationVisualPromptHint' MUST be for the specified game visual style.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        newLocationName: { type: Type.STRING, description: "Evocative name. If fulfilling lead/intent, this MUST match/align." },
-        newLocationDescription: { type: Type.STRING, description: "Atmospheric description (2-3 sentences). If fulfilling lead/intent, aligns with hint." },
-        newLocationEnvironmentTags: { type: Type.ARRAY, description: "3-5 tags.", items: { type: Type.STRING } },
-        newLocationVisualPromptHint: { type: Type.STRING, description: "Detailed prompt for AI image generation. Crucially, this prompt MUST start with 'A detailed [CURRENT_VISUAL_STYLE_NAME] style illustration of...' where [CURRENT_VISUAL_STYLE_NAME] is the actual name of the game's visual style (e.g., 'Pixel Art', 'Anime', 'distinctive impasto oil painting', 'luminous watercolor painting'). Forbid text/UI. Ensure visually appealing, clear, interesting, and consistent with the specified style." },
-        newLocationValidExits: { type: Type.ARRAY, description: "1-3 cardinal exits. One MUST lead back. Others plausible.", items: { type: Type.STRING, enum: VALID_DIRECTIONS } },
-        newLocationRarity: { type: Type.STRING, enum: VALID_RARITIES, description: "Rarity. If fulfilling lead/intent, consistent. Epic/Legendary distinct from memory (unless matching lead/intent), influenced by Perception/plot points and game setting/universe." },
-        movementNarration: { type: Type.STRING, description: "Narration (1-2 sentences) of movement, reflecting Survival skill." },
-      },
-      required: ["newLocationName", "newLocationDescription", "newLocationEnvironmentTags", "newLocationVisualPromptHint", "newLocationValidExits", "newLocationRarity", "movementNarration"],
-    },
-  }],
-};
-
-type NewLocationGenerationFromTool = {
-  newLocationName: string; newLocationDescription: string; newLocationEnvironmentTags: string[];
-  newLocationVisualPromptHint: string; newLocationValidExits: string[]; newLocationRarity: LocationRarity;
-  movementNarration: string;
-};
-
-const validateNewLocationGenerationStructure = (data: any, visualStyle: VisualStyleType): data is NewLocationGenerationFromTool => {
-  const styleNameForValidation = getStyleForPromptInstruction(visualStyle).toLowerCase();
-  return data && typeof data.newLocationName === 'string' && data.newLocationName.trim() !== '' &&
-    typeof data.newLocationDescription === 'string' && data.newLocationDescription.trim() !== '' &&
-    Array.isArray(data.newLocationEnvironmentTags) && data.newLocationEnvironmentTags.every(tag => typeof tag === 'string') &&
-    typeof data.newLocationVisualPromptHint === 'string' && data.newLocationVisualPromptHint.trim() !== '' && data.newLocationVisualPromptHint.toLowerCase().startsWith(`a detailed ${styleNameForValidation} style illustration of`) &&
-    Array.isArray(data.newLocationValidExits) && data.newLocationValidExits.length > 0 && data.newLocationValidExits.every(exit => typeof exit === 'string' && VALID_DIRECTIONS.includes(exit.toLowerCase())) &&
-    typeof data.newLocationRarity === 'string' && VALID_RARITIES.includes(data.newLocationRarity as LocationRarity) &&
-    typeof data.movementNarration === 'string' && data.movementNarration.trim() !== '';
+// Levels are relative to where the adventure started (level 0).
+const describeLevelForPrompt = (level: number, direction: string): string => {
+  const transition = direction === 'down' ? ' The player is descending to reach it (stairs, ladder, shaft, slope or similar).'
+    : direction === 'up' ? ' The player is climbing to reach it (stairs, ladder, climb or similar).'
+    : '';
+  if (level < 0) {
+    return `LEVEL: The NEW location is UNDERGROUND, ${Math.abs(level)} level(s) below the surface (e.g. cave, cellar, crypt, mine, dungeon, sewer). No open sky unless it is a deep pit or chasm. Keep it consistent with what lies above.${transition}`;
+  }
+  if (level > 0) {
+    return `LEVEL: The NEW location is ELEVATED, ${level} level(s) above the ground (e.g. upper floor, tower room, rooftop, cliff ledge, tree canopy, mountain path). Keep it consistent with what lies below.${transition}`;
+  }
+  return `LEVEL: The NEW location is at ground level.${transition}`;
 };
 
+const GENERATE_NEW_LOCATION_TOOL = defineTool({
+  name: "describe_new_location_and_movement_with_exits",
+  description: "Generates details for a new location based on movement. Considers character skills, memory context, game setting (Historical/Fictional universe), visual style (e.g., 'Pixel Art', 'Anime', 'distinctive impasto oil painting', 'luminous watercolor painting'), AND active location-related leads and player's intended location hint. Epic/Legendary locations distinct unless fulfilling lead/intent. Narration reflects Survival skill. Visual prompt hint for 'newLocationVisualPromptHint' MUST be for the specified game visual style.",
+  parameters: object({
+    newLocationName: string("Evocative name. If fulfilling lead/intent, this MUST match/align.", { nonEmpty: true }),
+    newLocationDescription: string("Atmospheric description (2-3 sentences). If fulfilling lead/intent, aligns with hint.", { nonEmpty: true }),
+    newLocationEnvironmentTags: array(string(), "3-5 tags."),
+    newLocationVisualPromptHint: string("Detailed prompt for AI image generation. Crucially, this prompt MUST start with 'A detailed [CURRENT_VISUAL_STYLE_NAME] style illustration of...' where [CURRENT_VISUAL_STYLE_NAME] is the actual name of the game's visual style (e.g., 'Pixel Art', 'Anime', 'distinctive impasto oil painting', 'luminous watercolor painting'). Forbid text/UI. Ensure visually appealing, clear, interesting, and consistent with the specified style.", { nonEmpty: true }),
+    newLocationValidExits: array(enumOf(WORLD_DIRECTIONS), "1-3 exits: cardinal directions, or 'up'/'down' only for stairs, ladders, shafts or slopes. One MUST lead back. Others plausible.", { minItems: 1 }),
+    newLocationRarity: enumOf(LOCATION_RARITIES, "Rarity. If fulfilling lead/intent, consistent. Epic/Legendary distinct from memory (unless matching lead/intent), influenced by Perception/plot points and game setting/universe."),
+    movementNarration: string("Narration (1-2 sentences) of movement, reflecting Survival skill.", { nonEmpty: true }),
+  }),
+});
 
 export const generateNewLocationDetailsAndNarration = async (
   context: MovementContext, 
-  memoryContextString: string = ""
+  memoryContextString: string = "",
+  signal?: AbortSignal
 ): Promise<NewLocationGenerationResult> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   
@@ -207,8 +195,10 @@ export const generateNewLocationDetailsAndNarration = async (
   const styleNameForLLMPrompt = getStyleForPromptInstruction(visualStyle);
   const styleSpecificDetailsForHint = getStyleSpecificVisualPromptDetails(visualStyle);
 
-  const oppositeDirectionMap: Record<string, string> = { north: "south", south: "north", east: "west", west: "east" };
-  const requiredExitBack = oppositeDirectionMap[context.direction.toLowerCase()] || context.direction;
+  const direction = context.direction.toLowerCase();
+  const requiredExitBack = isWorldDirection(direction) ? OPPOSITE_DIRECTIONS[direction] : direction;
+  const requiredExits = [...new Set([requiredExitBack, ...(context.requiredExits || [])])];
+  const forbiddenExits = (context.forbiddenExits || []).filter(exit => !requiredExits.includes(exit));
   const survivalSkill = context.skills.find(s => s.name === 'Survival'); const survivalLevel = survivalSkill?.level || 0;
   const perceptionSkill = context.skills.find(s => s.name === 'Perception'); const perceptionLevel = perceptionSkill?.level || 0;
 
@@ -227,6 +217,8 @@ export const generateNewLocationDetailsAndNarration = async (
     }
   }
 
+  const levelContext = describeLevelForPrompt(context.targetLevel, direction);
+
   let leadsContext = "No specific location-related leads are currently active.";
   const locationLeads = context.potentialDiscoveries?.filter(pd => pd.type === 'location' && pd.status === 'mentioned') || [];
   if (locationLeads.length > 0) {
@@ -242,6 +234,7 @@ export const generateNewLocationDetailsAndNarration = async (
 Skills: ${formatSkillsForLLM(context.skills)}. ${SKILL_LEVEL_INTERPRETATION_GUIDE}
 Prev Loc: "${context.previousLocation.description}", Tags: [${context.previousLocation.environmentTags.join(', ')}], Exits: [${context.previousLocation.validExits.join(', ')}].
 ${loreContextInstruction}
+${levelContext}
 ${leadsContext}
 ${playerIntentContext}
 ${memoryContextString}
@@ -250,7 +243,7 @@ ${context.recentStorySummary ? `Recent context: ${context.recentStorySummary}` :
 PRIMARY DIRECTIVE (Overrules everything else): The NEW location MUST be a logically plausible and geographically coherent continuation from the previous location, given the direction of travel. Adherence to the game's established setting (${context.gameSettingType === "Historical" ? "Historical context" : "Fictional Universe lore, including its known geography and travel limitations"}) and VISUAL STYLE (${visualStyle}) is PARAMOUNT. ${settingSpecificInstruction} Player cannot "will" locations into existence if they don't make sense.
 
 Generate NEW location details:
-1.  CONTEXT & CONSISTENCY: Logical continuation from previous location, considering direction and character skills. New location makes sense as adjacent area.
+1.  CONTEXT & CONSISTENCY: Logical continuation from previous location, considering direction, LEVEL and character skills. New location makes sense as adjacent area on that level.
 2.  LEAD/INTENT FULFILLMENT (Secondary, WEAK Considerations):
     - Consider Player's Intent: If an 'intendedLocationTypeHint' ("${context.intendedLocationTypeHint || 'None'}") is provided, you MAY try to generate a location of that type IF AND ONLY IF it perfectly aligns with the PRIMARY DIRECTIVE.
     - Consider Leads: If an active location-related lead from "${leadsContext}" can be FULFILLED *WITHOUT violating the PRIMARY DIRECTIVE*, then you MAY fulfill it.
@@ -258,7 +251,7 @@ Generate NEW location details:
     - REFUSAL: If fulfilling player intent or lead is implausible, DO NOT fulfill it. Generate a different, more fitting location based on the PRIMARY DIRECTIVE.
 3.  VARIETY: Distinct from previous location, unless logically similar or fulfilling lead/plausible intent.
 4.  RARITY: Influenced by prev rarity, direction, Perception, plot points, game setting/universe. If fulfilling lead/intent, rarity matches/consistent with hint. Epic/Legendary distinct from memory unless matching lead/plausible intent.
-5.  EXITS: MUST include exit towards "${requiredExitBack}". 0-2 additional plausible exits. Total 1-3.
+5.  EXITS: MUST include exits towards: ${requiredExits.map(exit => `"${exit}"`).join(', ')} (the way back and already-explored neighbours that connect here). ${forbiddenExits.length > 0 ? `MUST NOT include exits towards: ${forbiddenExits.map(exit => `"${exit}"`).join(', ')} (explored neighbours there have no passage back). ` : ''}0-2 additional plausible exits. Only use "up"/"down" for stairs, ladders, shafts or similar.
 6.  NARRATION & VISUAL PROMPT:
     - Movement Narration: Journey/arrival (1-2 sentences). MUST reflect Survival skill Lvl ${survivalLevel}.
     - New Location Visual Prompt Hint: This is for the 'newLocationVisualPromptHint' tool parameter. It MUST be a detailed prompt for an AI image generator. It MUST start with 'A detailed ${styleNameForLLMPrompt} style illustration of...'. ${styleSpecificDetailsForHint}. Ensure the image would be visually appealing, clear, interesting, and consistent with the ${styleNameForLLMPrompt} style. Forbid text/UI elements in the image.
@@ -269,16 +262,20 @@ CRITICAL: You MUST invoke the tool named 'describe_new_location_and_movement_wit
 DO NOT output details as plain text/JSON. Tool call is ONLY valid way.`;
 
   const result = await callLLMWithTool(
-    prompt, GENERATE_NEW_LOCATION_TOOL, (data): data is NewLocationGenerationFromTool => validateNewLocationGenerationStructure(data, visualStyle), 
+    prompt, GENERATE_NEW_LOCATION_TOOL.tool, GENERATE_NEW_LOCATION_TOOL.withRefinement(({ newLocationVisualPromptHint }) =>
+      newLocationVisualPromptHint.toLowerCase().startsWith(`a detailed ${styleNameForLLMPrompt.toLowerCase()} style illustration of`) ? []
+        : [`newLocationVisualPromptHint: must start with 'A detailed ${styleNameForLLMPrompt} style illustration of'`]),
     `Invalid new location (check exits, rarity, lead/intent fulfillment, Survival in narration, known entity conflicts, visual prompt for ${styleNameForLLMPrompt} style, visual appeal, setting/universe/style consistency, logical continuation)`,
-    "generateNewLocationDetailsAndNarration"
+    "generateNewLocationDetailsAndNarration",
+    1, { signal }
   );
-  if (!result.newLocationValidExits.map(e => e.toLowerCase()).includes(requiredExitBack)) {
-    console.warn(`LLM failed to include required exit '${requiredExitBack}'. Adding manually.`);
-    if (!result.newLocationValidExits.map(e => e.toLowerCase()).includes(requiredExitBack)) result.newLocationValidExits.push(requiredExitBack);
+  const validExits = applyNeighbourExitConstraints(result.newLocationValidExits, { requiredExits: requiredExits.filter(isWorldDirection), forbiddenExits: forbiddenExits.filter(isWorldDirection) });
+  const llmExits = [...new Set(result.newLocationValidExits.map(e => e.toLowerCase()))];
+  if (llmExits.length !== validExits.length || llmExits.some(exit => !validExits.includes(exit))) {
+    console.warn(`LLM exits [${result.newLocationValidExits.join(', ')}] did not match known neighbours. Using [${validExits.join(', ')}].`);
   }
   return {
-    newLocationDetails: { name: result.newLocationName, description: result.newLocationDescription, environmentTags: result.newLocationEnvironmentTags, visualPromptHint: result.newLocationVisualPromptHint, validExits: [...new Set(result.newLocationValidExits.map(e => e.toLowerCase()))], rarity: result.newLocationRarity },
+    newLocationDetails: { name: result.newLocationName, description: result.newLocationDescription, environmentTags: result.newLocationEnvironmentTags, visualPromptHint: result.newLocationVisualPromptHint, validExits, rarity: result.newLocationRarity },
     movementNarration: result.movementNarration,
   };
 };
@@ -287,7 +284,8 @@ export const elaborateOnLocationDescription = async (
   location: FullLocationData, 
   characterData: CharacterData, 
   currentLocationKey: string, 
-  memoryContextString: string = ""
+  memoryContextString: string = "",
+  signal?: AbortSignal
 ): Promise<ProcessedTextWithDiscoveries> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   const perceptionSkill = characterData.skills.find(s => s.name === 'Perception'); const perceptionLevel = perceptionSkill?.level || 0;
@@ -316,8 +314,7 @@ ${memoryContextString}
 Task: ${elaborationInstruction} ${settingSpecificElaborationInstruction} Output ONLY rich, descriptive factual text. No markdown.
 If you mention any specific named items, people, or locations that sound important, unique, or part of a legend/quest, make a mental note but DO NOT use any special formatting or markup in your direct speech output. The game system will handle identifying these hints separately.`;
   try {
-    const response = await ai.models.generateContent({ model: TEXT_MODEL_NAME, contents: prompt });
-    const rawLocationElaborationText = response.text;
+    const rawLocationElaborationText = await generateLLMText(prompt, { cacheAs: 'elaborateOnLocationDescription', priority: 'background', signal });
     if (rawLocationElaborationText?.trim()) {
       const loreProcessingResult: ProcessedTextWithDiscoveries = await identifyPotentialDiscoveriesInText(
         rawLocationElaborationText,
@@ -325,14 +322,16 @@ If you mention any specific named items, people, or locations that sound importa
         currentLocationKey, 
         characterData,
         currentLocationKey,
-        memoryContextString
+        memoryContextString,
+        signal
       );
       return loreProcessingResult;
     }
-    console.warn(`Elaboration for location ${location.name} resulted in empty response.`, response);
+    console.warn(`Elaboration for location ${location.name} resulted in empty response.`);
     const fallbackText = "Further observation reveals no additional significant details.";
     return { rawText: fallbackText, processedText: fallbackText, potentialDiscoveries: [] };
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error(`Error elaborating on location ${location.name}:`, error);
     const errorText = `Error recalling more about ${location.name}. (Error: ${error.message || 'Unknown'})`;
      return { rawText: errorText, processedText: errorText, potentialDiscoveries: [] };
@@ -340,25 +339,13 @@ If you mention any specific named items, people, or locations that sound importa
 };
 
 
-const EXAMINE_CONTEXTUAL_DETAIL_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "describe_contextual_detail_examination",
-    description: "Describes player's examination of a non-object detail mentioned in location/event text. Provides narration. May reveal lore hints. Considers Perception skill, game setting/universe, and visual style (e.g., 'Pixel Art', 'Anime', 'distinctive impasto oil painting', 'luminous watercolor painting').",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        narration: { type: Type.STRING, description: "Descriptive narration (1-3 sentences) of what player observes when examining the detail. Reflects Perception skill, game setting/universe, and visual style. If detail isn't truly present or significant, narration indicates this (e.g., 'You look closer at the fissure, but it seems to be a common crack in the rock.')." },
-      },
-      required: ["narration"],
-    },
-  }]
-};
-
-type ExamineContextualDetailFromTool = { narration: string };
-
-const validateExamineContextualDetailStructure = (data: any): data is ExamineContextualDetailFromTool => {
-  return data && typeof data.narration === 'string' && data.narration.trim() !== '';
-};
+const EXAMINE_CONTEXTUAL_DETAIL_TOOL = defineTool({
+  name: "describe_contextual_detail_examination",
+  description: "Describes player's examination of a non-object detail mentioned in location/event text. Provides narration. May reveal lore hints. Considers Perception skill, game setting/universe, and visual style (e.g., 'Pixel Art', 'Anime', 'distinctive impasto oil painting', 'luminous watercolor painting').",
+  parameters: object({
+    narration: string("Descriptive narration (1-3 sentences) of what player observes when examining the detail. Reflects Perception skill, game setting/universe, and visual style. If detail isn't truly present or significant, narration indicates this (e.g., 'You look closer at the fissure, but it seems to be a common crack in the rock.').", { nonEmpty: true }),
+  }),
+});
 
 
 export const examineContextualDetail = async (
@@ -367,7 +354,8 @@ export const examineContextualDetail = async (
   locationData: FullLocationData,
   eventDetails: EventEffects | null,
   currentLocationKey: string,
-  memoryContextString: string
+  memoryContextString: string,
+  signal?: AbortSignal
 ): Promise<ContextualExaminationResult> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   
@@ -411,10 +399,11 @@ CRITICAL: You MUST invoke the tool 'describe_contextual_detail_examination'. Adh
   try {
     const result = await callLLMWithTool(
       prompt,
-      EXAMINE_CONTEXTUAL_DETAIL_TOOL,
-      validateExamineContextualDetailStructure,
+      EXAMINE_CONTEXTUAL_DETAIL_TOOL.tool,
+      EXAMINE_CONTEXTUAL_DETAIL_TOOL.validateArgs,
       "Invalid contextual examination structure. Must return narration.",
-      `examineContextualDetail (Detail: ${detailToExamine})`
+      `examineContextualDetail (Detail: ${detailToExamine})`,
+      1, { signal }
     );
 
     const loreProcessingResult = await identifyPotentialDiscoveriesInText(
@@ -423,7 +412,8 @@ CRITICAL: You MUST invoke the tool 'describe_contextual_detail_examination'. Adh
       `location_${currentLocationKey}_detail_${detailToExamine.replace(/\s+/g, '_')}`, 
       characterData,
       currentLocationKey,
-      memoryContextString
+      memoryContextString,
+      signal
     );
     
     return {
@@ -432,6 +422,7 @@ CRITICAL: You MUST invoke the tool 'describe_contextual_detail_examination'. Adh
     };
 
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error(`Error examining contextual detail "${detailToExamine}":`, error);
     const errorNarration = `You try to examine the "${detailToExamine}", but find nothing more of note.`;
     return { narration: errorNarration, potentialDiscoveries: [] };
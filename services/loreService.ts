@@ -1,69 +1,26 @@
 // services/loreService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, TEXT_MODEL_NAME, Tool, Type, FunctionDeclaration, Schema } from './geminiClient';
-import { CharacterData, PotentialDiscovery, PotentialDiscoveryType, ItemRarity, NPCRarity, LocationRarity, MemorableEntityRarity, GameItem, GameNPC, FullLocationData, MemorableEntity, PotentialDiscoverySourceType, VisualStyleType } from './gameTypes';
+import { API_KEY, callLLMWithToolAndValidateArgs, schema, defineTool } from './geminiClient';
+import { CharacterData, PotentialDiscovery, PotentialDiscoveryType, ItemRarity, NPCRarity, LocationRarity, GameItem, GameNPC, FullLocationData, MemorableEntity, PotentialDiscoverySourceType, VisualStyleType } from './gameTypes';
 import { formatSkillsForLLM, SKILL_LEVEL_INTERPRETATION_GUIDE } from './llmPromptUtils';
-
-interface IdentifiedLoreEntity {
-  name: string;
-  type: PotentialDiscoveryType;
-  descriptionHint: string; // Short phrase describing it, as if a rumor
-  rarityHint?: MemorableEntityRarity; // Optional
-  originalPhrase: string; // The exact phrase from the input text
-}
-
-interface LoreIdentificationResultFromTool {
-  entities: IdentifiedLoreEntity[];
-  textWithMarkup: string; // Original text with [lore] tags
-}
-
-const validateLoreIdentificationStructure = (data: any): data is LoreIdentificationResultFromTool => {
-  if (!data || typeof data.textWithMarkup !== 'string' || !Array.isArray(data.entities)) {
-    return false;
-  }
-  const validTypes: PotentialDiscoveryType[] = ['item', 'npc', 'location'];
-  const validRarities: MemorableEntityRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Lore', 'Character_Self'];
-
-  return data.entities.every((entity: any) =>
-    entity &&
-    typeof entity.name === 'string' && entity.name.trim() !== '' &&
-    typeof entity.type === 'string' && validTypes.includes(entity.type as PotentialDiscoveryType) &&
-    typeof entity.descriptionHint === 'string' && entity.descriptionHint.trim() !== '' &&
-    (entity.rarityHint === undefined || (typeof entity.rarityHint === 'string' && validRarities.includes(entity.rarityHint as MemorableEntityRarity))) &&
-    typeof entity.originalPhrase === 'string' && entity.originalPhrase.trim() !== ''
-  );
-};
-
-const IDENTIFY_LORE_ENTITIES_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "identify_and_markup_lore_entities",
-    description: "Identifies potential new lore entities (items, NPCs, locations) mentioned in text. Returns details and the original text with these entities marked up. Focuses on significant, named entities that sound like discoverable game elements, not generic terms. Avoids re-identifying entities already known from memory context if their name is an exact match.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        entities: {
-          type: Type.ARRAY,
-          description: "Array of identified lore entities. Empty if none found.",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "The proper name of the identified entity." },
-              type: { type: Type.STRING, enum: ['item', 'npc', 'location'], description: "Type of entity." },
-              descriptionHint: { type: Type.STRING, description: "A very brief (3-7 word) hint or rumor about the entity, derived from the text. E.g., 'a powerful artifact', 'a hermit in the mountains', 'a lost city of gold'." },
-              rarityHint: { type: Type.STRING, enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Lore', 'Character_Self'], nullable: true, description: "Implied rarity, if any. Default to 'Lore' or null if unclear." },
-              originalPhrase: { type: Type.STRING, description: "The exact phrase/text from the input that refers to this entity." }
-            },
-            required: ["name", "type", "descriptionHint", "originalPhrase"]
-          }
-        },
-        textWithMarkup: {
-          type: Type.STRING,
-          description: "The original input text, with identified lore entities enclosed in [lore entity_type=\"TYPE\" entity_name=\"NAME\"]ENTITY_PHRASE[/lore] tags. Example: 'He mentioned the [lore entity_type=\"item\" entity_name=\"Sunstone Compass\"]Sunstone Compass[/lore] found in the [lore entity_type=\"location\" entity_name=\"Whispering Caves\"]Whispering Caves[/lore].'"
-        }
-      },
-      required: ["entities", "textWithMarkup"]
-    }
-  } as FunctionDeclaration]
-};
+import { isAbortError } from './utils/abortUtils';
+import { ITEM_RARITIES, MEMORABLE_ENTITY_RARITIES, POTENTIAL_DISCOVERY_TYPES } from './config/gameConstants';
+
+const { string, boolean, enumOf, array, object, optional, nullable } = schema;
+
+const IDENTIFY_LORE_ENTITIES_TOOL = defineTool({
+  name: "identify_and_markup_lore_entities",
+  description: "Identifies potential new lore entities (items, NPCs, locations) mentioned in text. Returns details and the original text with these entities marked up. Focuses on significant, named entities that sound like discoverable game elements, not generic terms. Avoids re-identifying entities already known from memory context if their name is an exact match.",
+  parameters: object({
+    entities: array(object({
+      name: string("The proper name of the identified entity.", { nonEmpty: true }),
+      type: enumOf(POTENTIAL_DISCOVERY_TYPES, "Type of entity."),
+      descriptionHint: string("A very brief (3-7 word) hint or rumor about the entity, derived from the text. E.g., 'a powerful artifact', 'a hermit in the mountains', 'a lost city of gold'.", { nonEmpty: true }),
+      rarityHint: optional(enumOf(MEMORABLE_ENTITY_RARITIES, "Implied rarity, if any. Default to 'Lore' or null if unclear.")),
+      originalPhrase: string("The exact phrase/text from the input that refers to this entity.", { nonEmpty: true }),
+    }), "Array of identified lore entities. Empty if none found."),
+    textWithMarkup: string("The original input text, with identified lore entities enclosed in [lore entity_type=\"TYPE\" entity_name=\"NAME\"]ENTITY_PHRASE[/lore] tags. Example: 'He mentioned the [lore entity_type=\"item\" entity_name=\"Sunstone Compass\"]Sunstone Compass[/lore] found in the [lore entity_type=\"location\" entity_name=\"Whispering Caves\"]Whispering Caves[/lore].'"),
+  }),
+});
 
 export interface ProcessedTextWithDiscoveries {
   rawText: string;
@@ -77,7 +34,8 @@ export const identifyPotentialDiscoveriesInText = async (
   sourceEntityId: string, // ID of the NPC speaking or the item being read
   character: CharacterData,
   locationKey: string, // e.g. "0,0"
-  memoryContext: string // Output of getMemoryContextString()
+  memoryContext: string, // Output of getMemoryContextString()
+  signal?: AbortSignal
 ): Promise<ProcessedTextWithDiscoveries> => {
   if (!API_KEY) {
     console.warn("API key not configured. Cannot identify lore entities.");
@@ -125,10 +83,12 @@ Focus on QUALITY over quantity. Only identify truly distinct and potentially dis
   try {
     const result = await callLLMWithToolAndValidateArgs(
       prompt,
-      IDENTIFY_LORE_ENTITIES_TOOL,
-      validateLoreIdentificationStructure,
+      IDENTIFY_LORE_ENTITIES_TOOL.tool,
+      IDENTIFY_LORE_ENTITIES_TOOL.validateArgs,
       "Invalid lore identification structure (check entities array, textWithMarkup, and individual entity fields).",
-      `identifyPotentialDiscoveriesInText (Source: ${sourceType} ${sourceEntityId})`
+      `identifyPotentialDiscoveriesInText (Source: ${sourceType} ${sourceEntityId})`,
+      1,
+      { cacheAs: 'identifyPotentialDiscoveriesInText', signal }
     );
 
     const discoveries: Omit<PotentialDiscovery, 'id' | 'status' | 'firstMentionedTimestamp' | 'firstMentionedLocationKey' | 'fulfilledById'>[] = result.entities.map(entity => ({
@@ -148,44 +108,28 @@ Focus on QUALITY over quantity. Only identify truly distinct and potentially dis
     };
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error identifying potential discoveries:", error);
     return { rawText: textToProcess, processedText: textToProcess, potentialDiscoveries: [] };
   }
 };
 
 
-interface LinkEntityToLeadToolOutput {
-  fulfilledLeadId: string | null;
-}
-
-const validateLinkEntityToLeadStructure = (data: any): data is LinkEntityToLeadToolOutput => {
-  return data && (typeof data.fulfilledLeadId === 'string' || data.fulfilledLeadId === null);
-};
-
-const LINK_ENTITY_TO_LEAD_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "link_entity_to_lead",
-    description: "Compares a newly generated game entity (item, NPC, or location) against a list of unconfirmed leads of the same type. Determines if the new entity fulfills any of the leads based on name similarity, description, and contextual relevance. Returns the ID of the fulfilled lead or null.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        fulfilledLeadId: {
-          type: Type.STRING,
-          nullable: true,
-          description: "The ID of the lead that is best fulfilled by the generated entity. Null if no lead is fulfilled or no leads provided."
-        }
-      },
-      required: ["fulfilledLeadId"]
-    }
-  } as FunctionDeclaration]
-};
+const LINK_ENTITY_TO_LEAD_TOOL = defineTool({
+  name: "link_entity_to_lead",
+  description: "Compares a newly generated game entity (item, NPC, or location) against a list of unconfirmed leads of the same type. Determines if the new entity fulfills any of the leads based on name similarity, description, and contextual relevance. Returns the ID of the fulfilled lead or null.",
+  parameters: object({
+    fulfilledLeadId: nullable(string("The ID of the lead that is best fulfilled by the generated entity. Null if no lead is fulfilled or no leads provided.")),
+  }),
+});
 
 export const linkGeneratedEntityToLead = async (
   generatedEntity: GameItem | GameNPC | FullLocationData,
   entityType: PotentialDiscoveryType,
   unconfirmedLeads: PotentialDiscovery[],
   character: CharacterData,
-  memoryContext: string
+  memoryContext: string,
+  signal?: AbortSignal
 ): Promise<string | null> => {
   if (!API_KEY) {
     console.warn("API key not configured. Cannot link entity to lead.");
@@ -234,12 +178,15 @@ CRITICAL: You MUST invoke tool 'link_entity_to_lead' with 'fulfilledLeadId'.`;
 
   try {
     const result = await callLLMWithToolAndValidateArgs(
-      prompt, LINK_ENTITY_TO_LEAD_TOOL, validateLinkEntityToLeadStructure,
+      prompt, LINK_ENTITY_TO_LEAD_TOOL.tool, LINK_ENTITY_TO_LEAD_TOOL.validateArgs,
       "Invalid lead linking structure. Must return fulfilledLeadId (string or null).",
-      `linkGeneratedEntityToLead (Entity: ${generatedEntity.name}, Type: ${entityType})`
+      `linkGeneratedEntityToLead (Entity: ${generatedEntity.name}, Type: ${entityType})`,
+      1,
+      { service: 'linkGeneratedEntityToLead', priority: 'background', signal }
     );
     return result.fulfilledLeadId;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error(`Error linking entity ${generatedEntity.name} to lead:`, error);
     return null;
   }
@@ -283,30 +230,23 @@ Prioritize preventing redundant leads for the same underlying concept.
 CRITICAL: You MUST invoke the tool 'check_if_similar_lead_exists_tool_response'. This is the only way to return your decision.
 `;
 
-  const CHECK_SIMILAR_LEAD_TOOL: Tool = {
-    functionDeclarations: [{
-      name: "check_if_similar_lead_exists_tool_response",
-      description: "Responds whether a semantically similar lead already exists.",
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          similarLeadExists: { type: Type.BOOLEAN, description: "True if a similar lead already exists, false otherwise." }
-        },
-        required: ["similarLeadExists"]
-      }
-    }]
-  };
-  const validateSimilarLeadCheckStructure = (data: any): data is { similarLeadExists: boolean } => {
-    return data && typeof data.similarLeadExists === 'boolean';
-  };
+  const CHECK_SIMILAR_LEAD_TOOL = defineTool({
+    name: "check_if_similar_lead_exists_tool_response",
+    description: "Responds whether a semantically similar lead already exists.",
+    parameters: object({
+      similarLeadExists: boolean("True if a similar lead already exists, false otherwise."),
+    }),
+  });
 
   try {
     const result = await callLLMWithToolAndValidateArgs(
       prompt,
-      CHECK_SIMILAR_LEAD_TOOL,
-      validateSimilarLeadCheckStructure,
+      CHECK_SIMILAR_LEAD_TOOL.tool,
+      CHECK_SIMILAR_LEAD_TOOL.validateArgs,
       "Invalid similar lead check structure. Must return similarLeadExists (boolean).",
-      `checkIfSimilarLeadExists (New Lead: ${newLeadData.name})`
+      `checkIfSimilarLeadExists (New Lead: ${newLeadData.name})`,
+      1,
+      { service: 'checkIfSimilarLeadExists', priority: 'background' }
     );
     return result.similarLeadExists;
   } catch (error) {
@@ -321,31 +261,13 @@ CRITICAL: You MUST invoke the tool 'check_if_similar_lead_exists_tool_response'.
 };
 
 // --- New Service for Linking Lead to Existing Entity ---
-interface LinkLeadToExistingEntityToolOutput {
-  matchedExistingEntityId: string | null;
-}
-
-const validateLinkLeadToExistingEntityStructure = (data: any): data is LinkLeadToExistingEntityToolOutput => {
-  return data && (typeof data.matchedExistingEntityId === 'string' || data.matchedExistingEntityId === null);
-};
-
-const LINK_LEAD_TO_EXISTING_ENTITY_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "link_lead_to_existing_entity",
-    description: "Compares a potential new lead against a list of already known memorable entities. Determines if the lead refers to an entity the player already knows. Returns the ID of the matched memorable entity or null.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        matchedExistingEntityId: {
-          type: Type.STRING,
-          nullable: true,
-          description: "The ID of the memorable entity that this lead likely refers to. Null if no strong match with an existing known entity."
-        }
-      },
-      required: ["matchedExistingEntityId"]
-    }
-  } as FunctionDeclaration]
-};
+const LINK_LEAD_TO_EXISTING_ENTITY_TOOL = defineTool({
+  name: "link_lead_to_existing_entity",
+  description: "Compares a potential new lead against a list of already known memorable entities. Determines if the lead refers to an entity the player already knows. Returns the ID of the matched memorable entity or null.",
+  parameters: object({
+    matchedExistingEntityId: nullable(string("The ID of the memorable entity that this lead likely refers to. Null if no strong match with an existing known entity.")),
+  }),
+});
 
 export const linkPotentialDiscoveryToExistingEntity = async (
   potentialLeadData: Omit<PotentialDiscovery, 'id' | 'status' | 'firstMentionedTimestamp' | 'firstMentionedLocationKey' | 'fulfilledById'>,
@@ -409,10 +331,12 @@ CRITICAL: You MUST invoke the tool 'link_lead_to_existing_entity' and provide th
   try {
     const result = await callLLMWithToolAndValidateArgs(
       prompt,
-      LINK_LEAD_TO_EXISTING_ENTITY_TOOL,
-      validateLinkLeadToExistingEntityStructure,
+      LINK_LEAD_TO_EXISTING_ENTITY_TOOL.tool,
+      LINK_LEAD_TO_EXISTING_ENTITY_TOOL.validateArgs,
       "Invalid link lead to existing entity structure. Must return matchedExistingEntityId (string or null).",
-      `linkPotentialDiscoveryToExistingEntity (Lead: ${potentialLeadData.name})`
+      `linkPotentialDiscoveryToExistingEntity (Lead: ${potentialLeadData.name})`,
+      1,
+      { service: 'linkPotentialDiscoveryToExistingEntity', priority: 'background' }
     );
     return result.matchedExistingEntityId;
   } catch (error) {
@@ -422,62 +346,19 @@ CRITICAL: You MUST invoke the tool 'link_lead_to_existing_entity' and provide th
 };
 
 // --- Service for Generating Initial Game Leads ---
-interface InitialLeadFromTool {
-  name: string;
-  type: PotentialDiscoveryType;
-  descriptionHint: string;
-  rarityHint?: MemorableEntityRarity;
-  sourceTextSnippet: string; // e.g., "An old map fragment hints at..."
-}
-
-interface InitialLeadsResultFromTool {
-  leads: InitialLeadFromTool[];
-}
-
-const validateInitialLeadsStructure = (data: any): data is InitialLeadsResultFromTool => {
-  if (!data || !Array.isArray(data.leads)) {
-    return false;
-  }
-  const validTypes: PotentialDiscoveryType[] = ['item', 'npc', 'location'];
-  const validRarities: MemorableEntityRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Lore', 'Character_Self'];
-
-  return data.leads.every((lead: any) =>
-    lead &&
-    typeof lead.name === 'string' && lead.name.trim() !== '' &&
-    typeof lead.type === 'string' && validTypes.includes(lead.type as PotentialDiscoveryType) &&
-    typeof lead.descriptionHint === 'string' && lead.descriptionHint.trim() !== '' &&
-    (lead.rarityHint === undefined || (typeof lead.rarityHint === 'string' && validRarities.includes(lead.rarityHint as MemorableEntityRarity))) &&
-    typeof lead.sourceTextSnippet === 'string' && lead.sourceTextSnippet.trim() !== ''
-  );
-};
-
-const GENERATE_INITIAL_LEADS_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "generate_initial_game_leads",
-    description: "Generates 1-2 initial leads/rumors for the start of the game, based on the character, starting location, game setting, and visual style. These leads hint at potential items, NPCs, or locations for the player to investigate and should be thematically consistent.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        leads: {
-          type: Type.ARRAY,
-          description: "Array of 1-2 generated leads. Empty if no suitable leads found.",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "The proper name of the hinted item, NPC, or location." },
-              type: { type: Type.STRING, enum: ['item', 'npc', 'location'], description: "Type of entity hinted at." },
-              descriptionHint: { type: Type.STRING, description: "A brief (5-15 word) hint or rumor about the discovery. E.g., 'a hidden grove guarded by ancient spirits', 'a legendary sword lost in the ruins', 'a mysterious hermit dwelling in the eastern caves'." },
-              rarityHint: { type: Type.STRING, enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary', 'Lore'], nullable: true, description: "Implied rarity of the hinted entity. Optional." },
-              sourceTextSnippet: { type: Type.STRING, description: "A short, thematic in-world phrase indicating how this lead is known or intuited by the character (e.g., 'A faded inscription in your journal mentions...', 'Local legends whisper of...', 'A recurring dream hints at...'). Should be 5-15 words." }
-            },
-            required: ["name", "type", "descriptionHint", "sourceTextSnippet"]
-          }
-        }
-      },
-      required: ["leads"]
-    }
-  } as FunctionDeclaration]
-};
+const GENERATE_INITIAL_LEADS_TOOL = defineTool({
+  name: "generate_initial_game_leads",
+  description: "Generates 1-2 initial leads/rumors for the start of the game, based on the character, starting location, game setting, and visual style. These leads hint at potential items, NPCs, or locations for the player to investigate and should be thematically consistent.",
+  parameters: object({
+    leads: array(object({
+      name: string("The proper name of the hinted item, NPC, or location.", { nonEmpty: true }),
+      type: enumOf(POTENTIAL_DISCOVERY_TYPES, "Type of entity hinted at."),
+      descriptionHint: string("A brief (5-15 word) hint or rumor about the discovery. E.g., 'a hidden grove guarded by ancient spirits', 'a legendary sword lost in the ruins', 'a mysterious hermit dwelling in the eastern caves'.", { nonEmpty: true }),
+      rarityHint: optional(enumOf([...ITEM_RARITIES, 'Lore'], "Implied rarity of the hinted entity. Optional.")),
+      sourceTextSnippet: string("A short, thematic in-world phrase indicating how this lead is known or intuited by the character (e.g., 'A faded inscription in your journal mentions...', 'Local legends whisper of...', 'A recurring dream hints at...'). Should be 5-15 words.", { nonEmpty: true }),
+    }), "Array of 1-2 generated leads. Empty if no suitable leads found."),
+  }),
+});
 
 export const generateInitialLeads = async (
   characterData: CharacterData,
@@ -523,10 +404,11 @@ Return 1-2 leads. If absolutely no thematic leads can be generated, an empty 'le
   try {
     const result = await callLLMWithToolAndValidateArgs(
       prompt,
-      GENERATE_INITIAL_LEADS_TOOL,
-      validateInitialLeadsStructure,
+      GENERATE_INITIAL_LEADS_TOOL.tool,
+      GENERATE_INITIAL_LEADS_TOOL.validateArgs,
       "Invalid initial leads structure (check leads array, and individual lead fields like name, type, descriptionHint, sourceTextSnippet).",
-      "generateInitialLeads"
+      "generateInitialLeads",
+      1, { service: 'generateInitialLeads' }
     );
 
     return result.leads.map(lead => ({
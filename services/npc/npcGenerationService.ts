@@ -1,9 +1,11 @@
 // services/npc/npcGenerationService.ts
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, IMAGE_MODEL_NAME, Tool, Type, FunctionDeclaration } from '../geminiClient';
-import { GameNPC, SuggestedNPCFromLLM, FullLocationData, CharacterData, GameItem, SuggestedItemFromLLM, ItemRarity, Skill, NPCRarity, PotentialDiscovery, VisualStyleType } from '../types';
-import { PREDEFINED_SKILLS_CONFIG } from '../config/gameConstants';
+import { API_KEY, callLLMWithToolAndValidateArgs, generateLLMImage, schema, defineTool } from '../geminiClient';
+import { GameNPC, SuggestedNPCFromLLM, FullLocationData, CharacterData, GameItem, Skill, PotentialDiscovery, VisualStyleType, GameRules } from '../types';
+import { PREDEFINED_SKILLS_CONFIG, ITEM_RARITIES } from '../config/gameConstants';
 import { generateAndFetchItemIcon } from '../item/itemGenerationService';
 import { SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM, formatEquippedItemsForLLM } from '../llmPromptUtils';
+import { isAbortError } from '../utils/abortUtils';
+import { getExperienceToNextLevel, rollSkillLevel } from '../gameEngine';
 
 const getStyleForNpcPortraitPrompt = (visualStyle: VisualStyleType): string => {
   switch (visualStyle) {
@@ -21,7 +23,8 @@ export const generateAndFetchNpcIcon = async (
     visualPromptHint: string,
     npcName: string,
     locationVisualPromptHint: string,
-    visualStyle: VisualStyleType
+    visualStyle: VisualStyleType,
+    signal?: AbortSignal
 ): Promise<string> => {
     let iconUrl = `https://via.placeholder.com/128x128/777/fff?text=${encodeURIComponent(npcName.substring(0,3))}`;
     if (!API_KEY) { console.warn(`API key not configured. Using placeholder icon for ${npcName}.`); return iconUrl; }
@@ -47,10 +50,11 @@ export const generateAndFetchNpcIcon = async (
         npcImagePrompt = `${npcStyleDescriptor} of an NPC described as: "${visualPromptHint}". NPC is focus. Background: ${backgroundDescription}. Well-lit, distinct. Clean ${npcStyleDescriptor.replace(' portrait/sprite', '')}.
 IMPORTANT: Image MUST ONLY contain NPC sprite on background. NO text, watermarks, labels, icons, borders, chat/dialogue boxes, UI elements. Features/attire clear.`;
 
-        const imageResponse = await ai.models.generateImages({ model: IMAGE_MODEL_NAME, prompt: npcImagePrompt, config: { numberOfImages: 1, outputMimeType: 'image/png' } });
-        if (imageResponse.generatedImages?.[0]?.image?.imageBytes) iconUrl = `data:image/png;base64,${imageResponse.generatedImages[0].image.imageBytes}`;
+        const generatedIconUrl = await generateLLMImage(npcImagePrompt, 'image/png', { service: 'generateAndFetchNpcIcon', priority: 'background', signal });
+        if (generatedIconUrl) iconUrl = generatedIconUrl;
         else console.warn(`No icon image data for NPC ${npcName}. Using placeholder. Prompt: ${npcImagePrompt}`);
     } catch (error: any) {
+        if (isAbortError(error)) throw error;
         console.error(`Error generating icon for NPC ${npcName} (Prompt: ${npcImagePrompt}):`, error.message || error);
     }
     return iconUrl;
@@ -68,45 +72,23 @@ const getStyleForItemIconPrompt = (visualStyle: VisualStyleType): string => {
   }
 };
 
-export const SUGGEST_NPC_INVENTORY_ITEMS_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "suggest_npc_inventory_items", description: "Suggests 0-3 plausible starting inventory items for an NPC. Items lore-relevant, useful, or interesting. Rarity reflects value/importance. Considers memory context and game setting/universe for Epic/Legendary items. Visual prompt hints are for the game's current visual style (e.g., 'Pixel Art icon', 'Anime style icon', 'distinctive impasto oil painting style icon', 'luminous watercolor painting style icon'), item-focused.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        items: {
-          type: Type.ARRAY,
-          description: "Array of 0-3 items. If none, MUST be empty array: {\"items\": []}. Items fit NPC role, needs, lore, game setting/universe. Epic/Legendary distinct from memory.",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "Item name." },
-              description: { type: Type.STRING, description: "Brief, evocative description." },
-              itemTypeGuess: { type: Type.STRING, description: "Category (e.g., 'quest_item', 'armor', 'tool', 'trinket')." },
-              rarity: { type: Type.STRING, enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'], description: `Rarity. Consider NPC status, role, item uniqueness, game setting/universe. Epic/Legendary distinct from memory.` },
-              visualPromptHint: { type: Type.STRING, description: "Visual prompt for 32x32 [CURRENT_GAME_STYLE_ICON] (e.g., 'Pixel Art icon of a...', 'Anime style icon of...', 'distinctive impasto oil painting style icon of a thick, textured amulet', 'luminous watercolor painting style icon of a flowing, translucent silk scarf'). Item is SOLE FOCUS on simple/neutral or item-thematic background for that style. Ensure appealing, clear, interesting." },
-            },
-            required: ["name", "description", "itemTypeGuess", "rarity", "visualPromptHint"],
-          },
-        },
-      },
-      required: ["items"],
-    },
-  } as FunctionDeclaration],
-};
-type SuggestedNpcInventoryItemsFromTool = { items: SuggestedItemFromLLM[] };
-const validateNpcInventoryItemsStructure = (data: any): data is SuggestedNpcInventoryItemsFromTool => {
-    const rarities: ItemRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
-    return data && Array.isArray(data.items) && data.items.every((item: any) =>
-        item && typeof item.name === 'string' && item.name.trim() !== '' &&
-        typeof item.description === 'string' && item.description.trim() !== '' &&
-        typeof item.itemTypeGuess === 'string' && item.itemTypeGuess.trim() !== '' &&
-        typeof item.rarity === 'string' && rarities.includes(item.rarity as ItemRarity) &&
-        typeof item.visualPromptHint === 'string' && item.visualPromptHint.trim() !== ''
-    );
-};
+const { string, number, enumOf, array, object, optional } = schema;
+
+export const SUGGEST_NPC_INVENTORY_ITEMS_TOOL = defineTool({
+  name: "suggest_npc_inventory_items",
+  description: "Suggests 0-3 plausible starting inventory items for an NPC. Items lore-relevant, useful, or interesting. Rarity reflects value/importance. Considers memory context and game setting/universe for Epic/Legendary items. Visual prompt hints are for the game's current visual style (e.g., 'Pixel Art icon', 'Anime style icon', 'distinctive impasto oil painting style icon', 'luminous watercolor painting style icon'), item-focused.",
+  parameters: object({
+    items: array(object({
+      name: string("Item name.", { nonEmpty: true }),
+      description: string("Brief, evocative description.", { nonEmpty: true }),
+      itemTypeGuess: string("Category (e.g., 'quest_item', 'armor', 'tool', 'trinket').", { nonEmpty: true }),
+      rarity: enumOf(ITEM_RARITIES, `Rarity. Consider NPC status, role, item uniqueness, game setting/universe. Epic/Legendary distinct from memory.`),
+      visualPromptHint: string("Visual prompt for 32x32 [CURRENT_GAME_STYLE_ICON] (e.g., 'Pixel Art icon of a...', 'Anime style icon of...', 'distinctive impasto oil painting style icon of a thick, textured amulet', 'luminous watercolor painting style icon of a flowing, translucent silk scarf'). Item is SOLE FOCUS on simple/neutral or item-thematic background for that style. Ensure appealing, clear, interesting.", { nonEmpty: true }),
+    }), "Array of 0-3 items. If none, MUST be empty array: {\"items\": []}. Items fit NPC role, needs, lore, game setting/universe. Epic/Legendary distinct from memory."),
+  }),
+});
 
-export const generateNPCInventoryItems = async (npc: SuggestedNPCFromLLM, characterData?: CharacterData, memoryContextString: string = ""): Promise<GameItem[]> => {
+export const generateNPCInventoryItems = async (npc: SuggestedNPCFromLLM, characterData?: CharacterData, memoryContextString: string = "", signal?: AbortSignal): Promise<GameItem[]> => {
     if (!API_KEY || !npc.initialInventoryInstructions || npc.initialInventoryInstructions.toLowerCase().includes("nothing of note")) return [];
     const visualStyle = characterData?.visualStyle || 'Pixel Art';
     const itemStyleIconString = getStyleForItemIconPrompt(visualStyle);
@@ -140,80 +122,50 @@ CRITICAL: You MUST invoke tool 'suggest_npc_inventory_items'. Arguments MUST adh
 DO NOT output item details as text/JSON. Tool call is ONLY valid way.`;
 
     try {
-        const suggested = await callLLMWithToolAndValidateArgs(prompt, SUGGEST_NPC_INVENTORY_ITEMS_TOOL, validateNpcInventoryItemsStructure,
-            "Invalid NPC inventory structure (check item rarity, description, distinction from memory, icon prompt, visual appeal, setting/universe consistency)", `generateNPCInventoryItems for ${npc.name}`);
+        const suggested = await callLLMWithToolAndValidateArgs(prompt, SUGGEST_NPC_INVENTORY_ITEMS_TOOL.tool, SUGGEST_NPC_INVENTORY_ITEMS_TOOL.validateArgs,
+            "Invalid NPC inventory structure (check item rarity, description, distinction from memory, icon prompt, visual appeal, setting/universe consistency)", `generateNPCInventoryItems for ${npc.name}`, 1, { service: 'generateNPCInventoryItems', signal });
         if (!suggested.items?.length) return [];
         return suggested.items.map((itemDetails): GameItem => ({
             ...itemDetails,
             id: crypto.randomUUID(),
             iconUrl: '', 
         }));
-    } catch (error) { console.error(`Failed to generate inventory for NPC ${npc.name}:`, error); return []; }
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error(`Failed to generate inventory for NPC ${npc.name}:`, error); return [];
+    }
 };
 
-export const SUGGEST_NPCS_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "suggest_npcs_for_location", description: "Suggests 0-2 plausible NPCs. Provides details including skill suggestions (levels 0-10 appropriate to concept/rarity/setting/universe). Epic/Legendary NPCs distinct from memory (unless fulfilling a lead); if in known universe, may be figures from it. Visual prompt hint for NPC portrait/sprite must be for the game's current visual style (e.g., 'Pixel Art portrait/sprite', 'Anime style portrait/sprite', 'distinctive impasto oil painting style portrait/sprite', 'luminous watercolor painting style portrait/sprite').",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        npcs: {
-          type: Type.ARRAY,
-          description: "Array of 0-2 NPCs. NPCs contextually appropriate. Prioritize fulfilling an NPC-related lead if plausible. Epic/Legendary NPCs distinct from memory unless they are established figures from the game's fictional universe context or fulfill a lead.",
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING, description: "NPC name or title. If fulfilling a lead, MUST match lead's NPC name." },
-              description: { type: Type.STRING, description: "Brief description of NPC's role/demeanor (1-2 sentences). If fulfilling a lead, description aligns with lead's hint." },
-              appearanceDetails: { type: Type.STRING, description: "Key visual details of appearance (1-2 sentences)." },
-              dialogueGreeting: { type: Type.STRING, description: "Characteristic greeting." },
-              rarity: { type: Type.STRING, enum: ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'], description: `Significance. If fulfilling a lead, rarity matches/consistent with lead's rarity hint. Epic/Legendary distinct from memory (unless known figure or fulfilling lead for one); if historical/fictional universe, could be known figures.` },
-              visualPromptHint: { type: Type.STRING, description: "Prompt for 64x64 or 128x128 [CURRENT_GAME_STYLE_PORTRAIT_SPRITE] (e.g., 'Pixel Art portrait of...', 'Anime style sprite of...', 'distinctive impasto oil painting style portrait of an old general with a deeply lined face and thick, textured brushstrokes on his ornate uniform', 'luminous watercolor painting style portrait of a graceful elf with flowing, translucent hair and soft, blended features'). Reflect appearance, rarity, setting/universe. Must include '[CURRENT_GAME_STYLE_PORTRAIT_SPRITE]', 'simple background' or background consistent with role/location and style. Ensure appealing, clear, interesting." },
-              initialInventoryInstructions: { type: Type.STRING, nullable: true, description: "Optional: Brief instructions for initial inventory (e.g., 'carries pouch of herbs'). Legendary/universe figures might possess iconic items."},
-              skillSuggestions: {
-                type: Type.ARRAY, nullable: true,
-                description: `Optional array of skill suggestions. Assign levels (0-10) for PREDEFINED skills (${PREDEFINED_SKILLS_CONFIG.map(s=>s.name).join(', ')}) HIGHLY APPROPRIATE to NPC concept, rarity, role, game setting/universe. E.g., 'Legendary Warrior' gets Combat 9-10. 'Common Peasant' low skills (0-2). 'Nimble scout' might get Mobility. Untrained 0. Skill proficiency scale: 0=Untrained, 1-2=Novice, 3-4=Apprentice, 5-6=Adept, 7-8=Expert, 9=Virtuoso, 10=Master. If omitted, skills default low. If fulfilling a lead, skills should align with NPC concept.`,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    skillName: { type: Type.STRING },
-                    level: { type: Type.NUMBER }
-                  },
-                  required: ["skillName", "level"]
-                }
-              }
-            },
-            required: ["name", "description", "appearanceDetails", "dialogueGreeting", "rarity", "visualPromptHint"],
-          },
-        },
-      },
-      required: ["npcs"],
-    },
-  } as FunctionDeclaration],
-};
-type SuggestedNPCsFromTool = { npcs: SuggestedNPCFromLLM[] };
-const validateSuggestedNPCsStructure = (data: any): data is SuggestedNPCsFromTool => {
-    const rarities: NPCRarity[] = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary'];
-    return data && Array.isArray(data.npcs) && data.npcs.every((npc: any) =>
-        npc && typeof npc.name === 'string' && npc.name.trim() !== '' &&
-        typeof npc.description === 'string' && npc.description.trim() !== '' &&
-        typeof npc.appearanceDetails === 'string' && npc.appearanceDetails.trim() !== '' &&
-        typeof npc.dialogueGreeting === 'string' && npc.dialogueGreeting.trim() !== '' &&
-        typeof npc.rarity === 'string' && rarities.includes(npc.rarity as NPCRarity) &&
-        typeof npc.visualPromptHint === 'string' && npc.visualPromptHint.trim() !== '' &&
-        (npc.initialInventoryInstructions === undefined || npc.initialInventoryInstructions === null || typeof npc.initialInventoryInstructions === 'string') &&
-        (npc.skillSuggestions === undefined || npc.skillSuggestions === null || (Array.isArray(npc.skillSuggestions) && npc.skillSuggestions.every((skill: any) =>
-            skill && typeof skill.skillName === 'string' && PREDEFINED_SKILLS_CONFIG.some(s => s.name === skill.skillName) &&
-            typeof skill.level === 'number' && skill.level >= 0 && skill.level <= 10
-        )))
-    );
-};
+export const SUGGEST_NPCS_TOOL = defineTool({
+  name: "suggest_npcs_for_location",
+  description: "Suggests 0-2 plausible NPCs. Provides details including skill suggestions (levels 0-10 appropriate to concept/rarity/setting/universe). Epic/Legendary NPCs distinct from memory (unless fulfilling a lead); if in known universe, may be figures from it. Visual prompt hint for NPC portrait/sprite must be for the game's current visual style (e.g., 'Pixel Art portrait/sprite', 'Anime style portrait/sprite', 'distinctive impasto oil painting style portrait/sprite', 'luminous watercolor painting style portrait/sprite').",
+  parameters: object({
+    npcs: array(object({
+      name: string("NPC name or title. If fulfilling a lead, MUST match lead's NPC name.", { nonEmpty: true }),
+      description: string("Brief description of NPC's role/demeanor (1-2 sentences). If fulfilling a lead, description aligns with lead's hint.", { nonEmpty: true }),
+      appearanceDetails: string("Key visual details of appearance (1-2 sentences).", { nonEmpty: true }),
+      dialogueGreeting: string("Characteristic greeting.", { nonEmpty: true }),
+      rarity: enumOf(ITEM_RARITIES, `Significance. If fulfilling a lead, rarity matches/consistent with lead's rarity hint. Epic/Legendary distinct from memory (unless known figure or fulfilling lead for one); if historical/fictional universe, could be known figures.`),
+      visualPromptHint: string("Prompt for 64x64 or 128x128 [CURRENT_GAME_STYLE_PORTRAIT_SPRITE] (e.g., 'Pixel Art portrait of...', 'Anime style sprite of...', 'distinctive impasto oil painting style portrait of an old general with a deeply lined face and thick, textured brushstrokes on his ornate uniform', 'luminous watercolor painting style portrait of a graceful elf with flowing, translucent hair and soft, blended features'). Reflect appearance, rarity, setting/universe. Must include '[CURRENT_GAME_STYLE_PORTRAIT_SPRITE]', 'simple background' or background consistent with role/location and style. Ensure appealing, clear, interesting.", { nonEmpty: true }),
+      initialInventoryInstructions: optional(string("Optional: Brief instructions for initial inventory (e.g., 'carries pouch of herbs'). Legendary/universe figures might possess iconic items.")),
+      skillSuggestions: optional(array(object({
+        skillName: enumOf(PREDEFINED_SKILLS_CONFIG.map(s => s.name)),
+        level: number(),
+      }), `Optional array of skill suggestions. Assign levels (0-10) for PREDEFINED skills (${PREDEFINED_SKILLS_CONFIG.map(s=>s.name).join(', ')}) HIGHLY APPROPRIATE to NPC concept, rarity, role, game setting/universe. E.g., 'Legendary Warrior' gets Combat 9-10. 'Common Peasant' low skills (0-2). 'Nimble scout' might get Mobility. Untrained 0. Skill proficiency scale: 0=Untrained, 1-2=Novice, 3-4=Apprentice, 5-6=Adept, 7-8=Expert, 9=Virtuoso, 10=Master. If omitted, skills default low. If fulfilling a lead, skills should align with NPC concept.`)),
+    }), "Array of 0-2 NPCs. NPCs contextually appropriate. Prioritize fulfilling an NPC-related lead if plausible. Epic/Legendary NPCs distinct from memory unless they are established figures from the game's fictional universe context or fulfill a lead."),
+  }),
+  refine: ({ npcs }) => npcs.flatMap((npc, i) => (npc.skillSuggestions ?? [])
+    .map((skill, j) => skill.level >= 0 && skill.level <= 10 ? null : `npcs[${i}].skillSuggestions[${j}].level: expected 0-10, got ${skill.level}`)
+    .filter((issue): issue is string => issue !== null)),
+});
 
 export const generateNPCsForLocation = async (
   location: FullLocationData,
   character: CharacterData,
   potentialDiscoveries: PotentialDiscovery[],
-  memoryContextString: string = ""
+  rules: GameRules,
+  memoryContextString: string = "",
+  signal?: AbortSignal
 ): Promise<GameNPC[]> => {
   if (!API_KEY) { console.warn("Cannot generate NPCs: API key not configured."); return []; }
   const playerSkillsString = formatSkillsForLLM(character.skills);
@@ -270,13 +222,14 @@ Guidelines for NPC Suggestion:
 CRITICAL: You MUST invoke tool 'suggest_npcs_for_location'. Arguments MUST adhere strictly to schema.
 DO NOT output NPC details as text/JSON. Tool call is ONLY valid way.`;
 
-  const suggested = await callLLMWithToolAndValidateArgs(prompt, SUGGEST_NPCS_TOOL, validateSuggestedNPCsStructure,
-    "Invalid NPC suggestion structure (check rarity, skills, distinction from memory, lead fulfillment plausibility/lore consistency, visual prompt format, visual appeal, setting/universe consistency, contextual appropriateness)", "generateNPCsForLocation");
+  const suggested = await callLLMWithToolAndValidateArgs(prompt, SUGGEST_NPCS_TOOL.tool, SUGGEST_NPCS_TOOL.validateArgs,
+    "Invalid NPC suggestion structure (check rarity, skills, distinction from memory, lead fulfillment plausibility/lore consistency, visual prompt format, visual appeal, setting/universe consistency, contextual appropriateness)", "generateNPCsForLocation",
+    1, { service: 'generateNPCsForLocation', signal });
   if (!suggested.npcs?.length) return [];
 
   return Promise.all(suggested.npcs.map(async (npcDetails): Promise<GameNPC> => {
-      const iconUrl = await generateAndFetchNpcIcon(npcDetails.visualPromptHint, npcDetails.name, location.visualPromptHint, visualStyle);
-      const inventoryItems = await generateNPCInventoryItems(npcDetails, character, memoryContextString);
+      const iconUrl = await generateAndFetchNpcIcon(npcDetails.visualPromptHint, npcDetails.name, location.visualPromptHint, visualStyle, signal);
+      const inventoryItems = await generateNPCInventoryItems(npcDetails, character, memoryContextString, signal);
 
       const npcSkills: Skill[] = PREDEFINED_SKILLS_CONFIG.map(skillConfig => {
         const suggestedSkill = npcDetails.skillSuggestions?.find(ss => ss.skillName === skillConfig.name);
@@ -284,12 +237,10 @@ DO NOT output NPC details as text/JSON. Tool call is ONLY valid way.`;
         if (suggestedSkill) {
             level = suggestedSkill.level;
         } else {
-            if (npcDetails.rarity === 'Legendary') level = Math.floor(Math.random() * 3) + 3;
-            else if (npcDetails.rarity === 'Epic') level = Math.floor(Math.random() * 3) + 2;
-            else if (npcDetails.rarity === 'Rare') level = Math.floor(Math.random() * 2) + 1;
-            else level = Math.floor(Math.random() * 2);
-            if (Math.random() < 0.6 && !(skillConfig.name === "Combat" && npcDetails.rarity === "Legendary")) level = 0;
-            if (skillConfig.name === "Combat" && npcDetails.rarity === "Legendary" && (!suggestedSkill || suggestedSkill.level < 7)) level = Math.floor(Math.random() * 2) + 7;
+            const { generated, untrainedChance, legendaryCombat } = rules.npcSkillLevels;
+            level = rollSkillLevel(generated[npcDetails.rarity]);
+            if (Math.random() < untrainedChance && !(skillConfig.name === "Combat" && npcDetails.rarity === "Legendary")) level = 0;
+            if (skillConfig.name === "Combat" && npcDetails.rarity === "Legendary") level = rollSkillLevel(legendaryCombat);
         }
 
         return {
@@ -298,7 +249,7 @@ DO NOT output NPC details as text/JSON. Tool call is ONLY valid way.`;
             description: skillConfig.description,
             level,
             experience: 0,
-            experienceToNextLevel: (level * 100 + 100)
+            experienceToNextLevel: getExperienceToNextLevel(level, rules.skillProgression)
         };
       });
 
@@ -1,12 +1,18 @@
 // services/npc/npcInteractionService.ts
-import { GoogleGenAI, GenerateContentResponse, Chat, Content, FunctionDeclaration, Schema } from "@google/genai";
-import { API_KEY, ai, callLLMWithToolAndValidateArgs, TEXT_MODEL_NAME, Tool, Type } from '../geminiClient';
+import { API_KEY, callLLMWithToolAndValidateArgs, generateLLMText, schema, defineTool } from '../geminiClient';
+import { LlmChatMessage } from '../llm';
 import { GameNPC, CharacterData, GameItem, GiftOutcome, NpcItemOfferOutcome, EventEffects, MajorPlotPoint, PotentialDiscovery, VisualStyleType } from '../types';
 import { SKILL_LEVEL_INTERPRETATION_GUIDE, formatSkillsForLLM, formatEquippedItemsForLLM } from '../llmPromptUtils';
 import { identifyPotentialDiscoveriesInText, ProcessedTextWithDiscoveries } from '../loreService';
+import { isAbortError } from '../utils/abortUtils';
 
-// Store chat sessions per NPC ID, including the event context active during initialization
-const npcChatSessions = new Map<string, { chat: Chat, eventTitleContext: string | null }>();
+// Store chat sessions per NPC ID, including the event context active during initialization.
+// A session is just the system instruction plus the running history; the provider is stateless.
+interface NpcChatSession {
+  systemInstruction: string;
+  history: LlmChatMessage[];
+}
+const npcChatSessions = new Map<string, { chat: NpcChatSession, eventTitleContext: string | null }>();
 
 export interface NpcDialogueResponse {
   rawText: string;
@@ -18,7 +24,8 @@ export const generateNpcDialogueResponse = async (
   npc: GameNPC, playerDialogue: string, character: CharacterData,
   currentLocationKey: string,
   memoryContextString: string = "",
-  currentEventDetails: EventEffects | null // Added to make NPC aware of events
+  currentEventDetails: EventEffects | null, // Added to make NPC aware of events
+  signal?: AbortSignal
 ): Promise<NpcDialogueResponse> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   if (npc.isDefeated) return { rawText: `${npc.name} lies defeated and cannot respond.`, processedText: `${npc.name} lies defeated and cannot respond.`, potentialDiscoveries: [] };
@@ -77,19 +84,16 @@ GREETING RULE: If conversation history empty OR this is your FIRST turn speaking
 Hostile/Afraid disposition reflected in greeting/responses.
 If mentioning specific named items/people/locations sounding important/unique/legendary/quest-related, make mental note, NO special formatting. Game system handles hints.`;
 
-    chat = ai.chats.create({
-        model: TEXT_MODEL_NAME,
-        config: { systemInstruction },
-    });
+    chat = { systemInstruction, history: [] };
     // Store with the current event context
     npcChatSessions.set(npc.id, { chat, eventTitleContext: currentEventTitleForContext });
   }
   try {
-    const response = await chat.sendMessage({ message: playerDialogue });
-    const rawNpcText = response.text;
+    const rawNpcText = await generateLLMText(playerDialogue, { systemInstruction: chat.systemInstruction, history: chat.history, service: 'generateNpcDialogueResponse', priority: 'interactive', signal });
     if (typeof rawNpcText === 'string' && rawNpcText.trim()) {
+        chat.history.push({ role: 'user', text: playerDialogue }, { role: 'model', text: rawNpcText });
         const loreProcessingResult: ProcessedTextWithDiscoveries = await identifyPotentialDiscoveriesInText(
-            rawNpcText, 'dialogue', npc.id, character, currentLocationKey, memoryContextString
+            rawNpcText, 'dialogue', npc.id, character, currentLocationKey, memoryContextString, signal
         );
         return {
             rawText: rawNpcText,
@@ -97,11 +101,9 @@ If mentioning specific named items/people/locations sounding important/unique/le
             potentialDiscoveries: loreProcessingResult.potentialDiscoveries
         };
     }
-    let errorDetail = "Empty/invalid response.";
-    if (response.candidates?.[0]?.finishReason) errorDetail += ` Finish reason: ${response.candidates[0].finishReason}.`;
-    if (response.candidates?.[0]?.safetyRatings?.length) errorDetail += ` Safety: ${JSON.stringify(response.candidates[0].safetyRatings)}.`;
-    throw new Error(`Received empty/invalid response from ${npc.name}. ${errorDetail}`);
+    throw new Error(`Received empty/invalid response from ${npc.name}. Empty/invalid response.`);
   } catch (sdkError: any) {
+    if (isAbortError(sdkError)) throw sdkError; // The session is kept; the aborted line never made it into its history
     console.error(`[NPC DIALOGUE - ${npc.name}] SDK FAILED:`, sdkError);
     npcChatSessions.delete(npc.id); // Clear session on SDK error to force re-init
     throw new Error(sdkError.message || "Unknown dialogue SDK error. Try speaking to them again.");
@@ -116,7 +118,8 @@ export const generateEventDialogueResponse = async (
   chronicle: ReadonlyArray<MajorPlotPoint>,
   leads: ReadonlyArray<PotentialDiscovery>,
   memoryContext: string,
-  currentLocationKey: string
+  currentLocationKey: string,
+  signal?: AbortSignal
 ): Promise<NpcDialogueResponse> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured for event dialogue.");
 
@@ -150,11 +153,7 @@ Output ONLY your textual response. NO MARKDOWN.
 Example: If event is "A Chasm Opens" and player says "I peek into the chasm", you might respond: "A gust of chilling air rises from the Stygian depths, carrying with it the faint sound of distant wails. The bottom is lost in impenetrable darkness."
 `;
   try {
-    const response = await ai.models.generateContent({
-        model: TEXT_MODEL_NAME,
-        contents: `${eventSystemPrompt}\n\nPlayer: "${playerDialogue}"\nEvent Narrator:`,
-    });
-    const rawEventResponseText = response.text;
+    const rawEventResponseText = await generateLLMText(`${eventSystemPrompt}\n\nPlayer: "${playerDialogue}"\nEvent Narrator:`, { service: 'generateEventDialogueResponse', priority: 'interactive', signal });
 
     if (typeof rawEventResponseText === 'string' && rawEventResponseText.trim()) {
         const loreProcessingResult: ProcessedTextWithDiscoveries = await identifyPotentialDiscoveriesInText(
@@ -163,7 +162,8 @@ Example: If event is "A Chasm Opens" and player says "I peek into the chasm", yo
             eventDetails.eventTitle,
             character,
             currentLocationKey,
-            memoryContext
+            memoryContext,
+            signal
         );
         return {
             rawText: rawEventResponseText,
@@ -173,37 +173,29 @@ Example: If event is "A Chasm Opens" and player says "I peek into the chasm", yo
     }
     throw new Error("Event dialogue LLM returned empty/invalid response.");
   } catch (sdkError: any) {
+    if (isAbortError(sdkError)) throw sdkError;
     console.error(`[EVENT DIALOGUE - ${eventDetails.eventTitle}] SDK FAILED:`, sdkError);
     throw new Error(sdkError.message || "Unknown event dialogue SDK error.");
   }
 };
 
-export const DETERMINE_GIFT_OUTCOME_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "determine_gift_outcome",
-    description: "Determines NPC reaction to gift. Considers player Persuasion, NPC skills (Persuasion/Perception), NPC rarity/personality/disposition, item value, memory context, game setting/universe, AND ONGOING EVENTS.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        accepted: { type: Type.BOOLEAN, description: "True if NPC accepts item, false otherwise." },
-        narration: { type: Type.STRING, description: "Player's action narration (e.g., 'You offer the apple to the guard.')." },
-        npcReactionText: { type: Type.STRING, description: "NPC's spoken response (e.g., 'Thank you, kind traveler.'). Reflects decision, personality, rarity, skills, disposition, reaction to player skills, game setting/universe, AND AWARENESS OF ONGOING EVENT (if any)." }
-      },
-      required: ["accepted", "narration", "npcReactionText"]
-    }
-  }]
-};
-type GiftOutcomeFromTool = { accepted: boolean; narration: string; npcReactionText: string; };
-const validateGiftOutcomeStructure = (data: any): data is GiftOutcomeFromTool => {
-    return data && typeof data.accepted === 'boolean' &&
-           typeof data.narration === 'string' && data.narration.trim() !== '' &&
-           typeof data.npcReactionText === 'string' && data.npcReactionText.trim() !== '';
-};
+const { string, boolean, object, optional, nullable } = schema;
+
+export const DETERMINE_GIFT_OUTCOME_TOOL = defineTool({
+  name: "determine_gift_outcome",
+  description: "Determines NPC reaction to gift. Considers player Persuasion, NPC skills (Persuasion/Perception), NPC rarity/personality/disposition, item value, memory context, game setting/universe, AND ONGOING EVENTS.",
+  parameters: object({
+    accepted: boolean("True if NPC accepts item, false otherwise."),
+    narration: string("Player's action narration (e.g., 'You offer the apple to the guard.').", { nonEmpty: true }),
+    npcReactionText: string("NPC's spoken response (e.g., 'Thank you, kind traveler.'). Reflects decision, personality, rarity, skills, disposition, reaction to player skills, game setting/universe, AND AWARENESS OF ONGOING EVENT (if any).", { nonEmpty: true }),
+  }),
+});
 
 export const determineGiftOutcome = async (
     character: CharacterData, npc: GameNPC, itemToGive: GameItem,
     chatHistory: string[], memoryContextString: string = "",
-    currentEventDetails: EventEffects | null // Added event awareness
+    currentEventDetails: EventEffects | null, // Added event awareness
+    signal?: AbortSignal
 ): Promise<GiftOutcome> => {
     if (!API_KEY) throw new Error("Gemini API key is not configured.");
     if (npc.isDefeated) return { accepted: false, narration: `You try to give ${itemToGive.name} to ${npc.name}, but they are defeated.`, npcReactionText: "..." };
@@ -254,37 +246,25 @@ Task: Player gives item to NPC. Determine NPC's reaction.
 
 CRITICAL: You MUST invoke tool 'determine_gift_outcome'. Arguments MUST adhere to schema.
 DO NOT output details as text/JSON. Tool call is ONLY valid way.`;
-    return callLLMWithToolAndValidateArgs(prompt, DETERMINE_GIFT_OUTCOME_TOOL, validateGiftOutcomeStructure, "Invalid gift outcome structure", `gift to ${npc.name}`);
+    return callLLMWithToolAndValidateArgs(prompt, DETERMINE_GIFT_OUTCOME_TOOL.tool, DETERMINE_GIFT_OUTCOME_TOOL.validateArgs, "Invalid gift outcome structure", `gift to ${npc.name}`, 1, { service: 'determineGiftOutcome', signal });
 };
 
-export const DETERMINE_NPC_ITEM_OFFER_TOOL: Tool = {
-  functionDeclarations: [{
-    name: "determine_npc_item_offer",
-    description: "Determines if NPC gives requested item. Considers Player Persuasion, NPC skills (Persuasion/Perception), NPC rarity/possessions/disposition, item value, memory context, game setting/universe, AND ONGOING EVENTS.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        willingToGive: { type: Type.BOOLEAN, description: "True if NPC willing to give item (or substitute)." },
-        itemNameGiven: { type: Type.STRING, nullable: true, description: "Exact name of item from NPC inventory IF willing and item exists. Null if unwilling or no suitable item." },
-        narration: { type: Type.STRING, description: "Player's request and NPC's initial reaction narration." },
-        npcReactionText: { type: Type.STRING, description: "NPC's spoken response. Reflects decision, rarity, skills, Persuasion, disposition, game setting/universe, AND AWARENESS OF ONGOING EVENT (if any)." }
-      },
-      required: ["willingToGive", "narration", "npcReactionText"]
-    }
-  }]
-};
-type NpcItemOfferFromTool = { willingToGive: boolean; itemNameGiven: string | null; narration: string; npcReactionText: string; };
-const validateNpcItemOfferStructure = (data: any): data is NpcItemOfferFromTool => {
-    return data && typeof data.willingToGive === 'boolean' &&
-           (data.itemNameGiven === null || typeof data.itemNameGiven === 'string') &&
-           typeof data.narration === 'string' && data.narration.trim() !== '' &&
-           typeof data.npcReactionText === 'string' && data.npcReactionText.trim() !== '';
-};
+export const DETERMINE_NPC_ITEM_OFFER_TOOL = defineTool({
+  name: "determine_npc_item_offer",
+  description: "Determines if NPC gives requested item. Considers Player Persuasion, NPC skills (Persuasion/Perception), NPC rarity/possessions/disposition, item value, memory context, game setting/universe, AND ONGOING EVENTS.",
+  parameters: object({
+    willingToGive: boolean("True if NPC willing to give item (or substitute)."),
+    itemNameGiven: optional(nullable(string("Exact name of item from NPC inventory IF willing and item exists. Null if unwilling or no suitable item."))),
+    narration: string("Player's request and NPC's initial reaction narration.", { nonEmpty: true }),
+    npcReactionText: string("NPC's spoken response. Reflects decision, rarity, skills, Persuasion, disposition, game setting/universe, AND AWARENESS OF ONGOING EVENT (if any).", { nonEmpty: true }),
+  }),
+});
 
 export const determineNpcItemOffer = async (
     character: CharacterData, npc: GameNPC, requestedItemName: string,
     chatHistory: string[], memoryContextString: string = "",
-    currentEventDetails: EventEffects | null // Added event awareness
+    currentEventDetails: EventEffects | null, // Added event awareness
+    signal?: AbortSignal
 ): Promise<NpcItemOfferOutcome> => {
     if (!API_KEY) throw new Error("Gemini API key is not configured.");
     if (npc.isDefeated) return { willingToGive: false, itemNameGiven: null, itemGiven: null, narration: `${npc.name} is defeated and cannot respond to your request for ${requestedItemName}.`, npcReactionText: "..." };
@@ -341,7 +321,7 @@ Task: Player asks NPC for an item. Determine NPC's response.
 
 CRITICAL: You MUST invoke tool 'determine_npc_item_offer'. Arguments MUST adhere to schema.
 DO NOT output details as text/JSON. Tool call is ONLY valid way.`;
-    const resultFromTool = await callLLMWithToolAndValidateArgs(prompt, DETERMINE_NPC_ITEM_OFFER_TOOL, validateNpcItemOfferStructure, "Invalid NPC item offer structure", `request from ${npc.name}`);
+    const resultFromTool = await callLLMWithToolAndValidateArgs(prompt, DETERMINE_NPC_ITEM_OFFER_TOOL.tool, DETERMINE_NPC_ITEM_OFFER_TOOL.validateArgs, "Invalid NPC item offer structure", `request from ${npc.name}`, 1, { service: 'determineNpcItemOffer', signal });
     let actualItemGiven: GameItem | null = null;
     if (resultFromTool.willingToGive && resultFromTool.itemNameGiven) {
         actualItemGiven = npc.inventory.find(item => item.name.toLowerCase() === resultFromTool.itemNameGiven!.toLowerCase()) || null;
@@ -353,7 +333,8 @@ DO NOT output details as text/JSON. Tool call is ONLY valid way.`;
 export const elaborateOnNpcDescription = async (
   npc: GameNPC, characterData: CharacterData,
   currentLocationKey: string,
-  memoryContextString: string = ""
+  memoryContextString: string = "",
+  signal?: AbortSignal
 ): Promise<ProcessedTextWithDiscoveries> => {
   if (!API_KEY) throw new Error("Gemini API key is not configured.");
   const pLvl = characterData.skills.find(s => s.name === 'Perception')?.level || 0;
@@ -393,8 +374,7 @@ ${memoryContextString}
 Task: ${elabInstruction} ${settingSpecificElaborationInstruction} Output ONLY rich, descriptive factual text. No markdown. No player thoughts/feelings.
 If you mention any specific named items, people, or locations that sound important, unique, or part of a legend/quest, make a mental note but DO NOT use any special formatting or markup in your direct speech output. The game system will handle identifying these hints separately.`;
   try {
-    const response = await ai.models.generateContent({ model: TEXT_MODEL_NAME, contents: prompt });
-    const rawNpcElaborationText = response.text;
+    const rawNpcElaborationText = await generateLLMText(prompt, { cacheAs: 'elaborateOnNpcDescription', priority: 'background', signal });
     if (rawNpcElaborationText?.trim()) {
         const loreProcessingResult: ProcessedTextWithDiscoveries = await identifyPotentialDiscoveriesInText(
             rawNpcElaborationText,
@@ -402,14 +382,16 @@ If you mention any specific named items, people, or locations that sound importa
             npc.id,
             characterData,
             currentLocationKey,
-            memoryContextString
+            memoryContextString,
+            signal
         );
          return loreProcessingResult;
     }
-    console.warn(`Elaboration for NPC ${npc.name} resulted in empty response.`, response);
+    console.warn(`Elaboration for NPC ${npc.name} resulted in empty response.`);
     const fallbackText = "Further recollection reveals no additional significant factual details.";
     return { rawText: fallbackText, processedText: fallbackText, potentialDiscoveries: [] };
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error(`Error elaborating on NPC ${npc.name}:`, error);
     const errorText = `Error recalling more about ${npc.name}. (Error: ${error.message || 'Unknown'})`;
     return { rawText: errorText, processedText: errorText, potentialDiscoveries: [] };
@@ -0,0 +1,364 @@
+// services/saveGameService.ts
+import {
+  CharacterData, FullLocationData, GameItem, GameNPC, GameLogEntry,
+  MemorableEntity, MajorPlotPoint, PotentialDiscovery, EventEffects,
+  GameDirectorDirective, Coordinates, VisitedLocationEntry, WorldState, GameRulesPresetId, DifficultyMode
+} from './gameTypes';
+import { collectImageRefs } from './images';
+import { createInitialWorldState } from './gameEngine';
+import { DEFAULT_DIFFICULTY_MODE, DEFAULT_GAME_RULES_PRESET, isDifficultyMode, isGameRulesPresetId } from './config/gameRules';
+
+// Bump this whenever the snapshot shape changes and add a migration below.
+export const SAVE_SCHEMA_VERSION = 5;
+export const SAVE_SLOT_COUNT = 3;
+const SAVE_SLOT_STORAGE_PREFIX = 'lostworld_save_slot_';
+const CHECKPOINT_STORAGE_KEY = 'lostworld_checkpoint';
+
+// Everything needed to put a run back exactly where it was.
+// Transient UI state (loading flags, open modals, active NPC chat) is deliberately left out.
+export interface SerializableGameState {
+  characterData: CharacterData | null;
+  locationData: FullLocationData | null;
+  currentCoordinates: Coordinates;
+  visitedLocations: ReadonlyMap<string, VisitedLocationEntry>;
+  playerInventory: GameItem[];
+  locationItems: GameItem[] | null;
+  locationNPCs: GameNPC[] | null;
+  memorableEntities: ReadonlyMap<string, MemorableEntity>;
+  majorPlotPoints: ReadonlyArray<MajorPlotPoint>;
+  potentialDiscoveries: ReadonlyArray<PotentialDiscovery>;
+  gameLog: GameLogEntry[];
+  isEventActive: boolean;
+  currentEventImageUrl: string | null;
+  currentEventDetails: EventEffects | null;
+  currentDirectives: GameDirectorDirective | null;
+  playerCommandCount: number;
+  worldState: WorldState;
+  gameRulesPreset: GameRulesPresetId;
+  difficultyMode: DifficultyMode;
+  runId: string; // Same for every save and checkpoint of one adventure, so Permadeath can find them all
+}
+
+// What the game state looks like after it has been revived from JSON (plain Maps/arrays, no readonly).
+export interface RestoredGameState extends Omit<SerializableGameState, 'visitedLocations' | 'memorableEntities' | 'majorPlotPoints' | 'potentialDiscoveries'> {
+  visitedLocations: Map<string, VisitedLocationEntry>;
+  memorableEntities: Map<string, MemorableEntity>;
+  majorPlotPoints: MajorPlotPoint[];
+  potentialDiscoveries: PotentialDiscovery[];
+}
+
+type SerializedGameLogEntry = Omit<GameLogEntry, 'timestamp'> & { timestamp: string };
+
+interface SerializedGameStatePayload extends Omit<RestoredGameState, 'visitedLocations' | 'memorableEntities' | 'gameLog'> {
+  visitedLocations: [string, VisitedLocationEntry][];
+  memorableEntities: [string, MemorableEntity][];
+  gameLog: SerializedGameLogEntry[];
+}
+
+export interface SaveGameSnapshot {
+  schemaVersion: number;
+  savedAt: number;
+  state: SerializedGameStatePayload;
+}
+
+export interface SaveSlotSummary {
+  slotId: number;
+  savedAt: number;
+  characterName: string;
+  locationName: string;
+  schemaVersion: number;
+}
+
+// Migration hooks, keyed by the version they upgrade FROM.
+// e.g. SAVE_MIGRATIONS[1] takes a v1 snapshot and returns a v2 snapshot.
+export const SAVE_MIGRATIONS: Record<number, (snapshot: any) => any> = {
+  // v1 -> v2: coordinates gained a level (z). Everything from a v1 save sits on the ground level,
+  // and location keys ("x,y") become "x,y,0" wherever they appear.
+  1: (snapshot: any) => {
+    const state = snapshot.state || {};
+    const upgradeKey = (key: any) => typeof key === 'string' && /^-?\d+,-?\d+$/.test(key) ? `${key},0` : key;
+    return {
+      ...snapshot,
+      state: {
+        ...state,
+        currentCoordinates: state.currentCoordinates ? { ...state.currentCoordinates, z: 0 } : state.currentCoordinates,
+        visitedLocations: Array.isArray(state.visitedLocations)
+          ? state.visitedLocations.map(([key, entry]: [string, any]) => [upgradeKey(key), entry])
+          : state.visitedLocations,
+        memorableEntities: Array.isArray(state.memorableEntities)
+          ? state.memorableEntities.map(([key, entity]: [string, any]) => [upgradeKey(key), entity && { ...entity, id: upgradeKey(entity.id) }])
+          : state.memorableEntities,
+        majorPlotPoints: Array.isArray(state.majorPlotPoints)
+          ? state.majorPlotPoints.map((point: any) => point && Array.isArray(point.involvedEntityIds)
+              ? { ...point, involvedEntityIds: point.involvedEntityIds.map(upgradeKey) }
+              : point)
+          : state.majorPlotPoints,
+        potentialDiscoveries: Array.isArray(state.potentialDiscoveries)
+          ? state.potentialDiscoveries.map((pd: any) => pd && {
+              ...pd,
+              sourceEntityId: upgradeKey(pd.sourceEntityId),
+              firstMentionedLocationKey: upgradeKey(pd.firstMentionedLocationKey),
+              fulfilledById: upgradeKey(pd.fulfilledById),
+            })
+          : state.potentialDiscoveries,
+      },
+    };
+  },
+  // v2 -> v3: the world clock and weather. Older runs pick up the clock at its starting hour.
+  2: (snapshot: any) => ({
+    ...snapshot,
+    state: { ...(snapshot.state || {}), worldState: createInitialWorldState() },
+  }),
+  // v3 -> v4: game rules presets. Older runs were balanced like the Standard preset.
+  3: (snapshot: any) => ({
+    ...snapshot,
+    state: { ...(snapshot.state || {}), gameRulesPreset: 'Standard' },
+  }),
+  // v4 -> v5: difficulty modes. Each older save counts as a run of its own.
+  4: (snapshot: any) => ({
+    ...snapshot,
+    state: { ...(snapshot.state || {}), difficultyMode: DEFAULT_DIFFICULTY_MODE, runId: crypto.randomUUID() },
+  }),
+};
+
+const migrateSnapshot = (snapshot: any): SaveGameSnapshot => {
+  let migrated = snapshot;
+  let version: number = typeof migrated.schemaVersion === 'number' ? migrated.schemaVersion : 0;
+
+  if (version > SAVE_SCHEMA_VERSION) {
+    throw new Error(`Save file was created by a newer version of the game (schema v${version}, supported up to v${SAVE_SCHEMA_VERSION}).`);
+  }
+
+  while (version < SAVE_SCHEMA_VERSION) {
+    const migrate = SAVE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration available for save schema v${version}.`);
+    }
+    migrated = migrate(migrated);
+    version += 1;
+    migrated.schemaVersion = version;
+  }
+  return migrated as SaveGameSnapshot;
+};
+
+const validateSaveGameSnapshot = (data: any): data is SaveGameSnapshot => {
+  if (!data || typeof data !== 'object' || typeof data.schemaVersion !== 'number' || typeof data.savedAt !== 'number') return false;
+  const state = data.state;
+  if (!state || typeof state !== 'object') return false;
+  if (state.characterData !== null && typeof state.characterData !== 'object') return false;
+  if (!state.currentCoordinates || typeof state.currentCoordinates.x !== 'number' || typeof state.currentCoordinates.y !== 'number' || typeof state.currentCoordinates.z !== 'number') return false;
+  if (!Array.isArray(state.visitedLocations) || !state.visitedLocations.every((entry: any) => Array.isArray(entry) && entry.length === 2 && typeof entry[0] === 'string')) return false;
+  if (!Array.isArray(state.memorableEntities) || !Array.isArray(state.majorPlotPoints) || !Array.isArray(state.potentialDiscoveries)) return false;
+  if (!Array.isArray(state.playerInventory) || !Array.isArray(state.gameLog)) return false;
+  return true;
+};
+
+export const serializeGameState = (state: SerializableGameState): string => {
+  const snapshot: SaveGameSnapshot = {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    savedAt: Date.now(),
+    state: {
+      characterData: state.characterData,
+      locationData: state.locationData,
+      currentCoordinates: state.currentCoordinates,
+      visitedLocations: Array.from(state.visitedLocations.entries()),
+      playerInventory: state.playerInventory,
+      locationItems: state.locationItems,
+      locationNPCs: state.locationNPCs,
+      memorableEntities: Array.from(state.memorableEntities.entries()),
+      majorPlotPoints: [...state.majorPlotPoints],
+      potentialDiscoveries: [...state.potentialDiscoveries],
+      gameLog: state.gameLog.map(entry => ({ ...entry, timestamp: entry.timestamp.toISOString() })),
+      isEventActive: state.isEventActive,
+      currentEventImageUrl: state.currentEventImageUrl,
+      currentEventDetails: state.currentEventDetails,
+      currentDirectives: state.currentDirectives,
+      playerCommandCount: state.playerCommandCount,
+      worldState: state.worldState,
+      gameRulesPreset: state.gameRulesPreset,
+      difficultyMode: state.difficultyMode,
+      runId: state.runId,
+    },
+  };
+  return JSON.stringify(snapshot);
+};
+
+export const deserializeGameState = (json: string): RestoredGameState => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("Save data is not valid JSON.");
+  }
+
+  // JSON such as `null`, `42` or `[]` parses fine but is no snapshot, and the migrations expect an object.
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error("Save data is corrupted or has an unexpected structure.");
+  }
+
+  const snapshot = migrateSnapshot(parsed);
+  if (!validateSaveGameSnapshot(snapshot)) {
+    throw new Error("Save data is corrupted or has an unexpected structure.");
+  }
+
+  const { state } = snapshot;
+  return {
+    characterData: state.characterData,
+    locationData: state.locationData,
+    currentCoordinates: state.currentCoordinates,
+    visitedLocations: new Map(state.visitedLocations),
+    playerInventory: state.playerInventory,
+    locationItems: state.locationItems ?? null,
+    locationNPCs: state.locationNPCs ?? null,
+    memorableEntities: new Map(state.memorableEntities),
+    majorPlotPoints: state.majorPlotPoints,
+    potentialDiscoveries: state.potentialDiscoveries,
+    gameLog: state.gameLog.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+    isEventActive: !!state.isEventActive,
+    currentEventImageUrl: state.currentEventImageUrl ?? null,
+    currentEventDetails: state.currentEventDetails ?? null,
+    currentDirectives: state.currentDirectives ?? null,
+    playerCommandCount: state.playerCommandCount ?? 0,
+    worldState: state.worldState ?? createInitialWorldState(),
+    gameRulesPreset: isGameRulesPresetId(state.gameRulesPreset) ? state.gameRulesPreset : DEFAULT_GAME_RULES_PRESET,
+    difficultyMode: isDifficultyMode(state.difficultyMode) ? state.difficultyMode : DEFAULT_DIFFICULTY_MODE,
+    runId: typeof state.runId === 'string' && state.runId ? state.runId : crypto.randomUUID(),
+  };
+};
+
+// --- Save slots (localStorage) ---
+
+const getSlotStorageKey = (slotId: number): string => `${SAVE_SLOT_STORAGE_PREFIX}${slotId}`;
+
+export const writeSaveSlot = (slotId: number, state: SerializableGameState): SaveSlotSummary => {
+  const json = serializeGameState(state);
+  try {
+    localStorage.setItem(getSlotStorageKey(slotId), json);
+  } catch (e) {
+    // Mostly QuotaExceededError - saves from before the image store still carry inline data URLs.
+    console.error(`Failed to write save slot ${slotId}:`, e);
+    throw new Error("Could not save the game. Browser storage may be full.");
+  }
+  return {
+    slotId,
+    savedAt: Date.now(),
+    characterName: state.characterData?.characterName || 'Unknown',
+    locationName: state.locationData?.name || 'Unknown',
+    schemaVersion: SAVE_SCHEMA_VERSION,
+  };
+};
+
+export const readSaveSlot = (slotId: number): RestoredGameState | null => {
+  const json = localStorage.getItem(getSlotStorageKey(slotId));
+  if (!json) return null;
+  return deserializeGameState(json);
+};
+
+export const deleteSaveSlot = (slotId: number): void => {
+  localStorage.removeItem(getSlotStorageKey(slotId));
+};
+
+export const listSaveSlots = (): (SaveSlotSummary | null)[] => {
+  const summaries: (SaveSlotSummary | null)[] = [];
+  for (let slotId = 1; slotId <= SAVE_SLOT_COUNT; slotId++) {
+    const json = localStorage.getItem(getSlotStorageKey(slotId));
+    if (!json) {
+      summaries.push(null);
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(json);
+      summaries.push({
+        slotId,
+        savedAt: typeof parsed.savedAt === 'number' ? parsed.savedAt : 0,
+        characterName: parsed.state?.characterData?.characterName || 'Unknown',
+        locationName: parsed.state?.locationData?.name || 'Unknown',
+        schemaVersion: typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0,
+      });
+    } catch (e) {
+      console.warn(`Save slot ${slotId} contains unreadable data.`, e);
+      summaries.push(null);
+    }
+  }
+  return summaries;
+};
+
+// Image refs used by any save slot or the checkpoint, so image garbage collection never removes a picture a save still needs.
+export const listImageRefsInSaves = (): Set<string> => {
+  const refs = new Set<string>();
+  const keys = [CHECKPOINT_STORAGE_KEY];
+  for (let slotId = 1; slotId <= SAVE_SLOT_COUNT; slotId++) keys.push(getSlotStorageKey(slotId));
+  for (const key of keys) {
+    const json = localStorage.getItem(key);
+    if (json) collectImageRefs(json).forEach(ref => refs.add(ref));
+  }
+  return refs;
+};
+
+// --- Checkpoint (localStorage) ---
+// Checkpoint difficulty keeps one automatic snapshot of the run in progress, overwritten as the run goes on.
+
+const readRunId = (json: string): string | null => {
+  try {
+    const runId = JSON.parse(json).state?.runId;
+    return typeof runId === 'string' ? runId : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export type CheckpointSummary = Omit<SaveSlotSummary, 'slotId'>;
+
+export const writeCheckpoint = (state: SerializableGameState): CheckpointSummary => {
+  try {
+    localStorage.setItem(CHECKPOINT_STORAGE_KEY, serializeGameState(state));
+  } catch (e) {
+    console.error("Failed to write the checkpoint:", e);
+    throw new Error("Could not write a checkpoint. Browser storage may be full.");
+  }
+  return {
+    savedAt: Date.now(),
+    characterName: state.characterData?.characterName || 'Unknown',
+    locationName: state.locationData?.name || 'Unknown',
+    schemaVersion: SAVE_SCHEMA_VERSION,
+  };
+};
+
+// Only the checkpoint of `runId` counts; one left over from another adventure is ignored.
+export const readCheckpointSummary = (runId: string): CheckpointSummary | null => {
+  const json = localStorage.getItem(CHECKPOINT_STORAGE_KEY);
+  if (!json || readRunId(json) !== runId) return null;
+  const parsed = JSON.parse(json);
+  return {
+    savedAt: typeof parsed.savedAt === 'number' ? parsed.savedAt : 0,
+    characterName: parsed.state?.characterData?.characterName || 'Unknown',
+    locationName: parsed.state?.locationData?.name || 'Unknown',
+    schemaVersion: typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0,
+  };
+};
+
+export const readCheckpoint = (runId: string): RestoredGameState | null => {
+  const json = localStorage.getItem(CHECKPOINT_STORAGE_KEY);
+  if (!json || readRunId(json) !== runId) return null;
+  return deserializeGameState(json);
+};
+
+// Leaves a checkpoint of any other run alone; there is only one key, shared by every run.
+export const deleteCheckpoint = (runId: string): void => {
+  const json = localStorage.getItem(CHECKPOINT_STORAGE_KEY);
+  if (json && readRunId(json) === runId) localStorage.removeItem(CHECKPOINT_STORAGE_KEY);
+};
+
+// Permadeath: removes every save slot and the checkpoint that belong to `runId`. Returns how many slots went.
+export const deleteRunSaves = (runId: string): number => {
+  let deletedSlots = 0;
+  for (let slotId = 1; slotId <= SAVE_SLOT_COUNT; slotId++) {
+    const json = localStorage.getItem(getSlotStorageKey(slotId));
+    if (json && readRunId(json) === runId) {
+      deleteSaveSlot(slotId);
+      deletedSlots++;
+    }
+  }
+  deleteCheckpoint(runId);
+  return deletedSlots;
+};
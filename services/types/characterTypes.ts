@@ -19,6 +19,27 @@ export interface Limb {
   equippedItems?: GameItem[];
 }
 
+export type StatusEffectStacking = 'refresh' | 'stack' | 'ignore';
+
+export interface StatusEffectSkillModifier {
+  skillName: string;
+  modifier: number; // Added to the skill level per stack while the effect lasts
+}
+
+// A lasting condition such as Blinded, Poisoned or Inspired. Durations are counted in turns,
+// one turn being one processed player command.
+export interface StatusEffect {
+  name: string;
+  description: string;
+  source: string;                 // What caused it, e.g. the event title
+  remainingTurns: number | null;  // null lasts until something removes it
+  stacking: StatusEffectStacking; // What re-applying an effect of the same name does
+  stacks: number;
+  healthPerTurn: number;          // Per stack, applied on every turn
+  energyPerTurn: number;
+  skillModifiers: StatusEffectSkillModifier[];
+}
+
 export interface CharacterData {
   characterName: string;
   characterConcept: string;
@@ -34,4 +55,5 @@ export interface CharacterData {
   characterRarity: MemorableEntityRarity;
   fictionalUniverseContext?: string | null;
   visualStyle: VisualStyleType;
+  statusEffects?: StatusEffect[]; // Missing in saves from before status effects were tracked
 }
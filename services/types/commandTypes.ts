@@ -56,6 +56,9 @@ export const PLAYER_ACTIONS = {
   HEALTH: 'health',
   CHECK_SELF: 'check_self',
   CRAFT: 'craft',
+  REST: 'rest',
+  CAMP: 'camp',
+  SLEEP: 'sleep',
   UNKNOWN: 'unknown',
   EVENT_DIALOGUE_INPUT: 'event_dialogue_input',
 } as const;
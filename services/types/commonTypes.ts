@@ -11,6 +11,7 @@ export type VisualStyleType = 'Pixel Art' | 'Anime' | 'Ink Painting' | 'Low Poly
 export interface Coordinates {
   x: number;
   y: number;
+  z: number; // Level: 0 is ground, negative is below ground, positive is above
 }
 
 export interface GameLogEntry {
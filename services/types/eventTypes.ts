@@ -2,6 +2,8 @@
 import { GameItemSuggestionForEvent } from './itemTypes';
 import { SuggestedNPCForEvent, GameNPC } from './npcTypes';
 import { PotentialDiscovery } from './loreTypes';
+import { StatusEffectStacking, StatusEffectSkillModifier } from './characterTypes';
+import { WeatherCondition } from './worldTypes';
 
 
 export interface UnexpectedEventDetails {
@@ -11,6 +13,16 @@ export interface UnexpectedEventDetails {
   potentialOpportunitiesOrThreats?: string[];
 }
 
+export interface StatusEffectSuggestionForEvent {
+  name: string;
+  description?: string;
+  durationTurns?: number | null; // Omitted or null lasts until removed
+  stacking?: StatusEffectStacking;
+  healthPerTurn?: number;
+  energyPerTurn?: number;
+  skillModifiers?: StatusEffectSkillModifier[];
+}
+
 export interface CharacterEffectForEvent {
   healthChange?: number;
   energyChange?: number;
@@ -24,8 +36,8 @@ export interface CharacterEffectForEvent {
     skillName: string;
     amount: number;
   }>;
-  statusEffectAdded?: string;
-  statusEffectRemoved?: string;
+  statusEffectAdded?: StatusEffectSuggestionForEvent;
+  statusEffectRemoved?: string; // Name of an active status effect
 }
 
 export interface ItemEffectForEvent {
@@ -61,7 +73,9 @@ export interface EventEffects {
   npcEffects?: NpcEffectForEvent[];
   worldEffects?: {
     timePasses?: string;
+    minutesPassed?: number;  // Preferred over parsing timePasses
     weatherChanges?: string;
+    weatherCondition?: WeatherCondition;
   };
   majorPlotPointSummary?: string;
   involvedEntityIdsForPlotPoint?: string[];
@@ -90,3 +104,12 @@ export interface EventResolutionResult {
   updatedVisualPromptHintForEventImage?: string | null;
   updatedResolutionCriteriaPrompt?: string | null;
 }
+
+// Story difficulty: how the player survives a defeat, and what it costs them.
+export interface StoryRevivalOutcome {
+  narration: string;
+  consequence: string;                           // One sentence for the chronicle
+  lostItemNames?: string[] | null;               // Exact names from the inventory
+  statusEffectAdded?: StatusEffectSuggestionForEvent | null;
+  minutesPassed?: number | null;                 // Time spent unconscious or being tended to
+}
@@ -3,6 +3,7 @@ import { LocationRarity, VisualStyleType } from './commonTypes';
 import { Skill } from './characterTypes';
 import { PotentialDiscovery } from './loreTypes';
 import { UnexpectedEventDetails } from './eventTypes';
+import { TimeOfDay } from './worldTypes';
 
 export interface LocationDetails {
   name: string;
@@ -14,7 +15,8 @@ export interface LocationDetails {
 }
 
 export interface FullLocationData extends LocationDetails {
-  imageUrl: string;
+  imageUrl: string; // The image currently shown
+  imageUrlsByTimeOfDay?: Partial<Record<TimeOfDay, string>>;
 }
 
 export interface VisitedLocationEntry {
@@ -36,6 +38,9 @@ export interface MovementContext {
   potentialDiscoveries?: PotentialDiscovery[];
   intendedLocationTypeHint?: string | null;
   visualStyle: VisualStyleType;
+  targetLevel: number;       // z of the new location: 0 ground, negative underground, positive upper floors/heights
+  requiredExits?: string[];  // Known neighbours already have an exit towards the new location
+  forbiddenExits?: string[]; // Known neighbours have no exit back, so these sides stay closed
 }
 
 export interface NewLocationGenerationResult {
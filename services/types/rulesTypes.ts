@@ -0,0 +1,71 @@
+// services/types/rulesTypes.ts
+import { ItemRarity, NPCRarity } from './commonTypes';
+
+export type GameRulesPresetId = 'Story' | 'Standard' | 'Hardcore';
+
+// What a defeat costs. Chosen with the rules preset but independent of it.
+export type DifficultyMode = 'Story' | 'Checkpoint' | 'Permadeath';
+
+export interface LevelRange {
+  min: number;
+  max: number; // Inclusive
+}
+
+// Energy spent per action, before the Game Director's adjustEnergyDecayRate scales it.
+export interface EnergyCostRules {
+  move: number;
+  searchForItems: number;
+  searchForPeople: number;
+  pickupItem: number;
+  useItem: number;
+  applyItemToLimb: number;
+  unequipItem: number;
+  giveItem: number;
+  requestItem: number;
+  craft: number;
+}
+
+export interface SkillXpRules {
+  examine: number;          // Perception, for examining something in the scene
+  itemsFound: number;       // Perception, for a search that turns up items
+  peopleFound: number;      // Perception, for a search that turns up people
+  move: number;             // Survival, per move
+  giftAccepted: number;     // Persuasion
+  itemReceived: number;     // Persuasion, when an NPC hands an item over
+  craftByRarity: Record<ItemRarity, number>; // Crafting, by the rarity of the result
+  recipeCraftShare: number; // Share of craftByRarity earned for a known recipe rather than an experiment
+}
+
+// XP needed for the next level is baseXpToNextLevel + level * xpToNextLevelPerLevel.
+export interface SkillProgressionRules {
+  baseXpToNextLevel: number;
+  xpToNextLevelPerLevel: number;
+  xpToLearnSkill: number; // Level 0 -> 1 for a starting character's untrained skills (Combat excepted)
+}
+
+// Skill levels given to NPCs when the LLM does not suggest one.
+export interface NpcSkillLevelRules {
+  generated: Record<NPCRarity, LevelRange>;
+  untrainedChance: number;     // Chance that a generated NPC has a given skill at level 0
+  legendaryCombat: LevelRange; // Legendary NPCs always fight at this level
+  eventSpawned: Record<NPCRarity, LevelRange>;
+}
+
+// Energy and limb health regained. Passive values are per processed command and may be fractional.
+export interface RecoveryRules {
+  passiveEnergyPerTurn: number;
+  passiveLimbHealthPerTurn: number; // Only heals limbs that are hurt but not destroyed (0HP)
+  rest: { energy: number; limbHealth: number };
+  camp: { energy: number; limbHealth: number };
+  sleep: { energy: number; limbHealth: number };
+  disturbedRestFactor: number; // Share of the recovery kept when resting somewhere unsafe
+}
+
+// Every balance number the hooks and the game engine read. Chosen once per game (see GAME_RULES_PRESETS).
+export interface GameRules {
+  energyCosts: EnergyCostRules;
+  skillXp: SkillXpRules;
+  skillProgression: SkillProgressionRules;
+  npcSkillLevels: NpcSkillLevelRules;
+  recovery: RecoveryRules;
+}
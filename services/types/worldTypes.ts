@@ -0,0 +1,19 @@
+// services/types/worldTypes.ts
+
+export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+export type WeatherCondition = 'clear' | 'cloudy' | 'fog' | 'rain' | 'storm' | 'snow' | 'wind' | 'heat';
+
+export interface RegionWeather {
+  condition: WeatherCondition;
+  description: string;  // Shown to the player and the LLM, e.g. "A cold drizzle falls."
+  untilMinute: number;  // World minute at which the weather is rolled again
+}
+
+// The world clock counts minutes since midnight of day 1. Weather is kept per region of
+// several locations (see getRegionKey), so neighbouring locations share the same sky.
+export interface WorldState {
+  minutesElapsed: number;
+  weatherSeed: number;
+  weatherByRegion: Record<string, RegionWeather>;
+}
@@ -0,0 +1,11 @@
+// services/utils/abortUtils.ts
+
+// Cancelled work rejects with an error named "AbortError" (what fetch and AbortController use).
+// Callers let it through instead of reporting it as a failure.
+export const createAbortError = (): Error => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: unknown } | null)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw createAbortError();
+};
@@ -0,0 +1,7 @@
+// services/utils/hashUtils.ts
+
+// Hex SHA-256 via Web Crypto, which both browsers and Node (>= 18) expose as globalThis.crypto.
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -1,7 +1,6 @@
 // services/utils/llmTestUtils.ts
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
 import { VisualStyleType } from '../types/commonTypes';
-import { API_KEY, TEXT_MODEL_NAME, IMAGE_MODEL_NAME, ai } from '../geminiClient'; // Assuming ai instance is exported from geminiClient
+import { API_KEY, generateLLMText, generateLLMImage } from '../geminiClient';
 
 export const generateTestDescription = async (): Promise<string> => {
   if (!API_KEY) {
@@ -10,12 +9,7 @@ export const generateTestDescription = async (): Promise<string> => {
   try {
     const prompt = "Generate a one-paragraph fantastical description of a newly discovered magical artifact, suitable for a text-based adventure game. Be creative and evocative.";
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: TEXT_MODEL_NAME,
-        contents: prompt,
-    });
-
-    const text = response.text;
+    const text = await generateLLMText(prompt, { service: 'generateTestDescription' });
     if (text) {
       return text;
     } else {
@@ -37,15 +31,9 @@ export const generateTestImage = async (visualStyle: VisualStyleType = 'Pixel Ar
   try {
     const prompt = `A highly detailed, ${visualStyle} style image of a glowing, intricately carved wooden staff, pulsating with soft blue ethereal energy, resting on ancient, moss-covered stones in a misty forest. Cinematic lighting. Clean ${visualStyle} style.`;
 
-    const response = await ai.models.generateImages({
-        model: IMAGE_MODEL_NAME,
-        prompt: prompt,
-        config: { numberOfImages: 1, outputMimeType: 'image/jpeg' },
-    });
-
-    if (response.generatedImages && response.generatedImages.length > 0 && response.generatedImages[0].image?.imageBytes) {
-      const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    const imageUrl = await generateLLMImage(prompt, 'image/jpeg', { service: 'generateTestImage' });
+    if (imageUrl) {
+      return imageUrl;
     } else {
       throw new Error("No image data received from Gemini API or image data is invalid.");
     }
@@ -1,7 +1,6 @@
 
 // services/worldSetupService.ts
-// Fix: Add Tool and Type to the import from ./geminiClient
-import { API_KEY, ai, TEXT_MODEL_NAME, Tool, Type, callLLMForValidatedJsonText } from './geminiClient'; 
+import { API_KEY, callLLMForValidatedJsonText, schema, createSchemaValidator, InferSchema } from './geminiClient'; 
 import { GenerateContentResponse } from "@google/genai";
 import { CharacterData, FullLocationData, GameLogEntry, UnexpectedEventDetails, GameItem, MajorPlotPoint, MemorableEntity, EventEffects, VisualStyleType } from './gameTypes'; // Added EventEffects
 import { formatSkillsForLLM, SKILL_LEVEL_INTERPRETATION_GUIDE } from './llmPromptUtils';
@@ -9,45 +8,27 @@ import { formatSkillsForLLM, SKILL_LEVEL_INTERPRETATION_GUIDE } from './llmPromp
 import { generateDynamicEventDetails, decideIfEventShouldTrigger } from './eventService'; 
 
 
-interface RefinedConceptsFromTool {
-  refinedCharName?: string;
-  refinedCharConcept: string;
-  refinedStartLocationConcept: string;
-  fictionalUniverseContext?: string | null; // Added
-}
+const { string, object, optional, nullable } = schema;
 
-// Validator remains the same
-const validateRefinedConceptsStructure = (data: any): data is RefinedConceptsFromTool => {
-  if (!data) { console.error("Validation failed: data object is null or undefined."); return false; }
-  if (!(typeof data.refinedCharConcept === 'string' && data.refinedCharConcept.trim() !== '')) {
-    console.error("Validation failed: refinedCharConcept is not a non-empty string. Received:", data.refinedCharConcept);
-    return false;
-  }
-  const charConceptWords = data.refinedCharConcept.trim().split(/\s+/).length;
-  if (!(charConceptWords >= 5)) {
-    console.error(`Validation failed: refinedCharConcept word count is ${charConceptWords} (requires >= 5). Content: "${data.refinedCharConcept}"`);
-    return false;
-  }
-  if (!(typeof data.refinedStartLocationConcept === 'string' && data.refinedStartLocationConcept.trim() !== '')) {
-    console.error("Validation failed: refinedStartLocationConcept is not a non-empty string. Received:", data.refinedStartLocationConcept);
-    return false;
-  }
-  const locConceptWords = data.refinedStartLocationConcept.trim().split(/\s+/).length;
-  if (!(locConceptWords >= 2)) {
-    console.error(`Validation failed: refinedStartLocationConcept word count is ${locConceptWords} (requires >= 2). Content: "${data.refinedStartLocationConcept}"`);
-    return false;
-  }
-  if (data.refinedCharName !== undefined && data.refinedCharName !== null && !(typeof data.refinedCharName === 'string')) {
-    console.error("Validation failed: refinedCharName is present but not a string. Received:", data.refinedCharName);
-    return false;
-  }
-  // Validate new optional field
-  if (data.fictionalUniverseContext !== undefined && data.fictionalUniverseContext !== null && typeof data.fictionalUniverseContext !== 'string') {
-    console.error("Validation failed: fictionalUniverseContext is present but not a string or null. Received:", data.fictionalUniverseContext);
-    return false;
-  }
-  return true;
-};
+const REFINED_CONCEPTS_SCHEMA = object({
+  refinedCharName: optional(string()),
+  refinedCharConcept: string(undefined, { nonEmpty: true }),
+  refinedStartLocationConcept: string(undefined, { nonEmpty: true }),
+  fictionalUniverseContext: optional(nullable(string())),
+});
+
+type RefinedConceptsFromTool = InferSchema<typeof REFINED_CONCEPTS_SCHEMA>;
+
+const countWords = (text: string): number => text.trim().split(/\s+/).length;
+
+const validateRefinedConceptsStructure = createSchemaValidator(REFINED_CONCEPTS_SCHEMA, 'validateRefinedConceptsStructure', data => {
+  const issues: string[] = [];
+  const charConceptWords = countWords(data.refinedCharConcept);
+  if (charConceptWords < 5) issues.push(`refinedCharConcept: expected at least 5 words, got ${charConceptWords}`);
+  const locConceptWords = countWords(data.refinedStartLocationConcept);
+  if (locConceptWords < 2) issues.push(`refinedStartLocationConcept: expected at least 2 words, got ${locConceptWords}`);
+  return issues;
+});
 
 // Removed local callLLMForValidatedJsonText function
 
@@ -126,7 +107,8 @@ Example for HISTORICAL vague input like "Roman times":
     prompt,
     validateRefinedConceptsStructure,
     "Validation failed: refinedCharConcept and/or refinedStartLocationConcept are missing, empty, or too short. Or refinedCharName is not a string if present. Check fictionalUniverseContext.",
-    "refineUserStartInputs"
+    "refineUserStartInputs",
+    1, { service: 'refineUserStartInputs' }
   );
 
   if (!refinedConcepts.refinedCharName?.trim() && refinedConcepts.refinedCharConcept) {
@@ -1,14 +1,35 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // With LLM_TRANSPORT=proxy the browser bundle gets no key; only Node builds (CLI, proxy server) do.
+    const shipsApiKey = isSsrBuild || env.LLM_TRANSPORT !== 'proxy';
     return {
       // Use empty string for custom domain, or '/LostWorld_G/' for GitHub Pages
       base: process.env.NODE_ENV === 'production' ? '' : '/LostWorld_G/',
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(shipsApiKey ? env.LLM_API_KEY || env.GEMINI_API_KEY : ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(shipsApiKey ? env.GEMINI_API_KEY : ''),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || 'gemini'),
+        'process.env.LLM_TRANSPORT': JSON.stringify(env.LLM_TRANSPORT || ''),
+        'process.env.LLM_PROXY_URL': JSON.stringify(env.LLM_PROXY_URL || ''),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL || ''),
+        'process.env.LLM_TEXT_MODEL': JSON.stringify(env.LLM_TEXT_MODEL || ''),
+        'process.env.LLM_IMAGE_MODEL': JSON.stringify(env.LLM_IMAGE_MODEL || ''),
+        'process.env.LLM_CACHE': JSON.stringify(env.LLM_CACHE || ''),
+        'process.env.LLM_CACHE_BYPASS': JSON.stringify(env.LLM_CACHE_BYPASS || ''),
+        'process.env.LLM_CACHE_DIR': JSON.stringify(env.LLM_CACHE_DIR || ''),
+        'process.env.LLM_BUDGET_TOKENS': JSON.stringify(env.LLM_BUDGET_TOKENS || ''),
+        'process.env.LLM_BUDGET_IMAGES': JSON.stringify(env.LLM_BUDGET_IMAGES || ''),
+        'process.env.LLM_BUDGET_COST_USD': JSON.stringify(env.LLM_BUDGET_COST_USD || ''),
+        'process.env.LLM_BUDGET_MODE': JSON.stringify(env.LLM_BUDGET_MODE || ''),
+        'process.env.LLM_PRICE_INPUT_PER_MTOK': JSON.stringify(env.LLM_PRICE_INPUT_PER_MTOK || ''),
+        'process.env.LLM_PRICE_OUTPUT_PER_MTOK': JSON.stringify(env.LLM_PRICE_OUTPUT_PER_MTOK || ''),
+        'process.env.LLM_PRICE_PER_IMAGE': JSON.stringify(env.LLM_PRICE_PER_IMAGE || ''),
+        'process.env.LLM_MAX_CONCURRENCY': JSON.stringify(env.LLM_MAX_CONCURRENCY || ''),
+        'process.env.LLM_MAX_REQUESTS_PER_MINUTE': JSON.stringify(env.LLM_MAX_REQUESTS_PER_MINUTE || ''),
+        'process.env.LLM_TRACE': JSON.stringify(env.LLM_TRACE || '')
       },
       resolve: {
         alias: {